@@ -0,0 +1,29 @@
+/**
+ * Creates an owner account, e.g. the first login for a fresh install. Further
+ * staff accounts are managed by owners on the Users page.
+ *
+ *   npm run user:create -- <email> <password> [name]
+ */
+import { createUser } from "../src/lib/users";
+
+async function main() {
+  const [email, password, ...nameParts] = process.argv.slice(2);
+  if (!email || !password) {
+    console.error("Usage: npm run user:create -- <email> <password> [name]");
+    process.exitCode = 1;
+    return;
+  }
+
+  const user = await createUser({
+    email,
+    password,
+    name: nameParts.join(" ") || email.split("@")[0],
+    role: "owner",
+  });
+  console.log(`Created owner ${user.email} (${user.id}).`);
+}
+
+main().catch((error) => {
+  console.error("Failed to create user:", (error as Error).message);
+  process.exitCode = 1;
+});
@@ -0,0 +1,42 @@
+/**
+ * Command-line access to the schema migrations.
+ *
+ *   npm run db:migrate   Apply all pending migrations.
+ *   npm run db:status    List applied and pending migrations without changes.
+ */
+import Database from "better-sqlite3";
+import { getDatabasePath } from "../src/lib/database-path";
+import {
+  getMigrationStatus,
+  runMigrations,
+  type MigrationStatus,
+} from "../src/lib/migrations";
+
+function printStatus({ applied, pending, currentVersion }: MigrationStatus) {
+  console.log(`Schema version: ${currentVersion}`);
+  for (const m of applied) {
+    console.log(`  [applied] ${m.id}_${m.name} (${m.applied_at})`);
+  }
+  for (const m of pending) {
+    console.log(`  [pending] ${m.id}_${m.name}`);
+  }
+  if (pending.length === 0) {
+    console.log("No pending migrations.");
+  }
+}
+
+const command = process.argv[2] ?? "up";
+const db = new Database(getDatabasePath());
+
+try {
+  if (command === "status") {
+    printStatus(getMigrationStatus(db));
+  } else if (command === "up") {
+    printStatus(runMigrations(db));
+  } else {
+    console.error(`Unknown command "${command}". Use "up" or "status".`);
+    process.exitCode = 1;
+  }
+} finally {
+  db.close();
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   RefreshCw,
   Plus,
@@ -9,7 +9,10 @@ import {
   AlertTriangle,
   Loader,
 } from "lucide-react";
-import { Expense } from "@/lib/types"; // Importing the Expense type
+import { Expense, FieldErrors } from "@/lib/types"; // Importing the Expense type
+import { FieldError } from "@/components/field-error";
+import { useMutate, useQuery } from "@/context/data-context";
+import { apiUrl, optimisticUpdate } from "@/lib/query-client";
 
 // --- Local Type Definitions ---
 
@@ -22,6 +25,7 @@ type ExpenseFormData = {
   category: Expense["category"];
   description: string;
   amount: string;
+  taxRate: string; // Percent included in the amount
 };
 
 // Initial state for the form
@@ -30,6 +34,7 @@ const initialFormData: ExpenseFormData = {
   category: "other",
   description: "",
   amount: "0",
+  taxRate: "0",
 };
 
 // Available Expense Categories (derived from Expense type for safety)
@@ -70,10 +75,12 @@ const useExpenseModal = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentExpense, setCurrentExpense] = useState<Expense | null>(null);
   const [formData, setFormData] = useState<ExpenseFormData>(initialFormData);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const openNew = () => {
     setCurrentExpense(null);
     setFormData(initialFormData);
+    setFieldErrors({});
     setIsModalOpen(true);
   };
 
@@ -84,7 +91,9 @@ const useExpenseModal = () => {
       category: expense.category,
       description: expense.description,
       amount: expense.amount.toString(),
+      taxRate: (expense.tax_rate ?? 0).toString(),
     });
+    setFieldErrors({});
     setIsModalOpen(true);
   };
 
@@ -92,6 +101,7 @@ const useExpenseModal = () => {
     setIsModalOpen(false);
     setCurrentExpense(null);
     setFormData(initialFormData);
+    setFieldErrors({});
   };
 
   return {
@@ -99,6 +109,8 @@ const useExpenseModal = () => {
     currentExpense,
     formData,
     setFormData,
+    fieldErrors,
+    setFieldErrors,
     openNew,
     openEdit,
     closeModal,
@@ -110,6 +122,7 @@ const useExpenseModal = () => {
 interface ExpenseFormProps {
   formData: ExpenseFormData;
   setFormData: React.Dispatch<React.SetStateAction<ExpenseFormData>>;
+  fieldErrors: FieldErrors; // From a rejected save, by field
   handleSave: (e: React.FormEvent<HTMLFormElement>) => Promise<void>;
   loading: boolean;
   currentExpense: Expense | null;
@@ -122,6 +135,7 @@ interface ExpenseFormProps {
 const ExpenseForm: React.FC<ExpenseFormProps> = ({
   formData,
   setFormData,
+  fieldErrors,
   handleSave,
   loading,
   currentExpense,
@@ -142,6 +156,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
           required
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
         />
+        <FieldError errors={fieldErrors} field="date" />
       </div>
 
       <div>
@@ -165,6 +180,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
             </option>
           ))}
         </select>
+        <FieldError errors={fieldErrors} field="category" />
       </div>
 
       <div>
@@ -182,6 +198,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
           placeholder="E.g., Monthly electricity bill"
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
         />
+        <FieldError errors={fieldErrors} field="description" />
       </div>
 
       <div>
@@ -204,6 +221,30 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({
           placeholder="0.00"
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
         />
+        <FieldError errors={fieldErrors} field="amount" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Tax Included (%)
+        </label>
+        <input
+          type="text"
+          inputMode="decimal"
+          value={formData.taxRate}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+            const value = e.target.value;
+            if (value === "" || /^\d*\.?\d*$/.test(value)) {
+              setFormData({ ...formData, taxRate: value });
+            }
+          }}
+          placeholder="0"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          The rate of input tax contained in the amount paid, if any.
+        </p>
+        <FieldError errors={fieldErrors} field="taxRate" />
       </div>
 
       <div className="flex justify-end space-x-3 pt-4">
@@ -330,9 +371,11 @@ const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({
     </div>
   ) : null;
 
+// Queries an expense can change
+const EXPENSE_QUERIES = ["/api/expenses", "/api/reports"];
+
 // --- Main Component ---
 export default function ExpensesPage() {
-  const [expenses, setExpenses] = useState<Expense[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [message, setMessage] = useState("");
@@ -340,7 +383,6 @@ export default function ExpensesPage() {
   const [queryText, setQueryText] = useState("");
   const [page, setPage] = useState(1);
   const [limit] = useState(10); // rows per page
-  const [total, setTotal] = useState(0);
 
   // State for Delete Confirmation Modal
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
@@ -353,6 +395,8 @@ export default function ExpensesPage() {
     currentExpense,
     formData,
     setFormData,
+    fieldErrors,
+    setFieldErrors,
     openNew,
     openEdit,
     closeModal,
@@ -375,37 +419,18 @@ export default function ExpensesPage() {
     }
   }, [message, error]);
 
-  /**
-   * Fetches all non-deleted expenses from the API.
-   */
-  const fetchExpenses = useCallback(async () => {
-    setLoading(true);
-    setError("");
-    try {
-      const response = await fetch(
-        `/api/expenses?q=${encodeURIComponent(
-          query
-        )}&page=${page}&limit=${limit}`
-      );
-      const result = await response.json();
-
-      if (result.success) {
-        setExpenses(result.data.expenses);
-        setTotal(result.data.total);
-      } else {
-        setError(result.message || "Failed to fetch expenses.");
-      }
-    } catch (err) {
-      console.error("Fetch error:", err);
-      setError("Network error or API failure.");
-    } finally {
-      setLoading(false);
-    }
-  }, [query, page, limit]);
-
-  useEffect(() => {
-    fetchExpenses();
-  }, [fetchExpenses]);
+  // All non-deleted expenses matching the search, one page at a time
+  const {
+    data,
+    error: fetchError,
+    loading: fetching,
+    refetch,
+  } = useQuery<{ expenses: Expense[]; total: number }>(
+    apiUrl("/api/expenses", { q: query, page, limit })
+  );
+  const expenses = data?.expenses ?? [];
+  const total = data?.total ?? 0;
+  const mutate = useMutate();
 
   /**
    * Handles form submission for both adding and editing expenses.
@@ -441,27 +466,27 @@ export default function ExpensesPage() {
         ? `/api/expenses?id=${currentExpense.id}`
         : "/api/expenses";
 
-      const response = await fetch(url, {
+      const result = await mutate(url, {
         method: method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+        body: {
           ...formData,
           // Ensure date is stored as an ISO string
           date: new Date(formData.date).toISOString(),
           amount: amountValue, // Send the PARSED number to the API
-        }),
+          taxRate: parseFloat(formData.taxRate) || 0,
+        },
+        invalidates: EXPENSE_QUERIES,
       });
 
-      const result = await response.json();
-
-      if (result.success) {
+      if (result.ok) {
         setMessage(`Expense ${isEditing ? "updated" : "added"} successfully!`);
         closeModal();
-        fetchExpenses(); // Refresh the list
       } else {
         setError(
-          result.message || `Failed to ${isEditing ? "update" : "add"} expense.`
+          result.error.message ||
+            `Failed to ${isEditing ? "update" : "add"} expense.`
         );
+        setFieldErrors(result.error.fields ?? {});
       }
     } catch (err) {
       console.error("Save error:", err);
@@ -493,16 +518,25 @@ export default function ExpensesPage() {
     setMessage("");
 
     try {
-      const response = await fetch(`/api/expenses?id=${id}`, {
+      const result = await mutate(`/api/expenses?id=${id}`, {
         method: "DELETE",
+        invalidates: EXPENSE_QUERIES,
+        // Gone from the list before the server answers
+        optimistic: [
+          optimisticUpdate<{ expenses: Expense[]; total: number }>(
+            "/api/expenses",
+            (cached) => ({
+              expenses: cached.expenses.filter((expense) => expense.id !== id),
+              total: cached.total - 1,
+            })
+          ),
+        ],
       });
-      const result = await response.json();
 
-      if (result.success) {
+      if (result.ok) {
         setMessage("Expense deleted successfully.");
-        fetchExpenses();
       } else {
-        setError(result.message || "Failed to delete expense.");
+        setError(result.error.message || "Failed to delete expense.");
       }
     } catch (err) {
       console.error("Delete error:", err);
@@ -527,11 +561,11 @@ export default function ExpensesPage() {
         </h1>
         <div className="flex space-x-3">
           <button
-            onClick={fetchExpenses}
-            disabled={loading}
+            onClick={refetch}
+            disabled={loading || fetching}
             className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
           >
-            {loading ? (
+            {loading || fetching ? (
               <Loader className="w-4 h-4 mr-2 animate-spin" />
             ) : (
               <RefreshCw className="w-4 h-4 mr-2" />
@@ -549,10 +583,10 @@ export default function ExpensesPage() {
       </header>
 
       {/* Notifications */}
-      {error && (
+      {(error || fetchError) && (
         <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
           <AlertTriangle className="w-5 h-5 mr-2" />
-          <strong>Error:</strong> {error}
+          <strong>Error:</strong> {error || fetchError}
         </div>
       )}
       {message && (
@@ -580,7 +614,7 @@ export default function ExpensesPage() {
           <div className="relative w-full max-w-sm">
             <input
               type="text"
-              placeholder={`Search by description...`}
+              placeholder={`Search by description or number...`}
               value={queryText}
               // 🟢 CORRECT for Manual Typing: Uses the DEBOUNCED function
               onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
@@ -655,7 +689,7 @@ export default function ExpensesPage() {
           </div>
         </div>
       </div>
-      {loading && expenses.length === 0 && (
+      {(loading || fetching) && expenses.length === 0 && (
         <div className="text-center p-10 text-gray-500 flex justify-center items-center">
           <Loader className="w-6 h-6 mr-2 animate-spin" /> Loading Expenses...
         </div>
@@ -675,6 +709,9 @@ export default function ExpensesPage() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Category
               </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Tax
+              </th>
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Amount
               </th>
@@ -695,12 +732,22 @@ export default function ExpensesPage() {
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                     {expense.description}
+                    {expense.number && (
+                      <p className="text-xs font-normal text-gray-500">
+                        {expense.number}
+                      </p>
+                    )}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
                     <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-indigo-100 text-indigo-800">
                       {expense.category}
                     </span>
                   </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                    {expense.tax_amount
+                      ? `${formatCurrency(expense.tax_amount)} (${expense.tax_rate}%)`
+                      : "-"}
+                  </td>
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-bold text-red-600">
                     {formatCurrency(expense.amount)}
                   </td>
@@ -724,7 +771,7 @@ export default function ExpensesPage() {
               ))
             ) : (
               <tr>
-                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
                   No expenses recorded yet. Start by adding a new expense!
                 </td>
               </tr>
@@ -768,6 +815,9 @@ export default function ExpensesPage() {
               <p className="text-gray-900 font-medium mb-1">
                 {expense.description}
               </p>
+              {expense.number && (
+                <p className="text-xs text-gray-500">{expense.number}</p>
+              )}
               <p className="text-xs text-gray-500">
                 Date: {formatDate(expense.date)}
               </p>
@@ -810,6 +860,7 @@ export default function ExpensesPage() {
         <ExpenseForm
           formData={formData}
           setFormData={setFormData}
+          fieldErrors={fieldErrors}
           handleSave={handleSave}
           loading={loading}
           currentExpense={currentExpense}
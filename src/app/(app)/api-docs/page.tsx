@@ -0,0 +1,320 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+
+// The parts of the OpenAPI document (src/lib/openapi.ts) this page shows
+type Schema = {
+  type?: string | string[];
+  enum?: (string | number)[];
+  anyOf?: Schema[];
+  items?: Schema;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  default?: unknown;
+  description?: string;
+};
+
+type Parameter = {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  description?: string;
+  schema: Schema;
+};
+
+type Operation = {
+  tags: string[];
+  summary: string;
+  "x-permission"?: string; // Absent when any signed-in caller may call it
+  security?: []; // Empty when no sign-in is needed
+  parameters: Parameter[];
+  requestBody?: { content: { "application/json": { schema: Schema } } };
+  responses: Record<
+    string,
+    {
+      description: string;
+      // JSON in the envelope, or files and exports sent as they are
+      content: Record<string, { schema: Schema }>;
+    }
+  >;
+};
+
+type OpenApiDocument = {
+  info: { title: string; description: string };
+  tags: { name: string }[];
+  paths: Record<string, Record<string, Operation>>;
+};
+
+type FieldRow = {
+  name: string;
+  type: string;
+  required: boolean;
+  default?: unknown;
+  description?: string;
+};
+
+const METHOD_STYLES: Record<string, string> = {
+  get: "bg-blue-100 text-blue-800",
+  post: "bg-green-100 text-green-800",
+  put: "bg-amber-100 text-amber-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+/** A schema's type as read in a table, e.g. `"rent" | "other"` or `string[]`. */
+function typeLabel(schema: Schema): string {
+  if (schema.enum) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  if (schema.anyOf) return schema.anyOf.map(typeLabel).join(" | ");
+  if (schema.type === "array" && schema.items) {
+    return `${typeLabel(schema.items)}[]`;
+  }
+  if (Array.isArray(schema.type)) return schema.type.join(" | ");
+  return schema.type ?? "any";
+}
+
+/**
+ * One row per field of an object schema, nested fields included under
+ * their path ("lines[].quantity").
+ */
+function fieldRows(schema: Schema, prefix = ""): FieldRow[] {
+  return Object.entries(schema.properties ?? {}).flatMap(([key, field]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    const row: FieldRow = {
+      name,
+      type: typeLabel(field),
+      required: schema.required?.includes(key) ?? false,
+      default: field.default,
+      description: field.description,
+    };
+    if (field.properties) return [row, ...fieldRows(field, name)];
+    if (field.items?.properties) {
+      return [row, ...fieldRows(field.items, `${name}[]`)];
+    }
+    return [row];
+  });
+}
+
+const FieldTable = ({ rows }: { rows: FieldRow[] }) => (
+  <table className="w-full text-sm">
+    <thead>
+      <tr className="text-left text-gray-500 border-b">
+        <th className="py-1 pr-4 font-medium">Name</th>
+        <th className="py-1 pr-4 font-medium">Type</th>
+        <th className="py-1 pr-4 font-medium">Required</th>
+        <th className="py-1 font-medium">Description</th>
+      </tr>
+    </thead>
+    <tbody>
+      {rows.map((row) => (
+        <tr key={row.name} className="border-b last:border-0 align-top">
+          <td className="py-1 pr-4 font-mono">{row.name}</td>
+          <td className="py-1 pr-4 font-mono text-gray-600">{row.type}</td>
+          <td className="py-1 pr-4">{row.required ? "yes" : ""}</td>
+          <td className="py-1 text-gray-600">
+            {row.description}
+            {row.default !== undefined && (
+              <span className="text-gray-500">
+                {row.description && " "}
+                Default: <code>{JSON.stringify(row.default)}</code>
+              </span>
+            )}
+          </td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const OperationDetails = ({ operation }: { operation: Operation }) => {
+  const parameters: FieldRow[] = operation.parameters.map((parameter) => ({
+    name:
+      parameter.in === "query"
+        ? parameter.name
+        : `${parameter.name} (${parameter.in})`,
+    type: typeLabel(parameter.schema),
+    required: parameter.required,
+    default: parameter.schema.default,
+    description: parameter.description,
+  }));
+  const body = operation.requestBody?.content["application/json"].schema;
+
+  return (
+    <div className="space-y-4 px-4 pb-4">
+      <p className="text-sm text-gray-600">
+        {operation["x-permission"] ? (
+          <>
+            Needs the <code>{operation["x-permission"]}</code> permission.
+          </>
+        ) : operation.security ? (
+          "Needs no sign-in."
+        ) : (
+          "Open to anyone signed in."
+        )}
+      </p>
+
+      <div>
+        <h4 className="font-medium mb-1">Parameters</h4>
+        <FieldTable rows={parameters} />
+      </div>
+
+      {body && (
+        <div>
+          <h4 className="font-medium mb-1">JSON body</h4>
+          <FieldTable rows={fieldRows(body)} />
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium mb-1">Responses</h4>
+        <div className="space-y-3">
+          {Object.entries(operation.responses).map(([status, response]) => {
+            const envelope = response.content["application/json"]?.schema;
+            const data = envelope?.properties?.data;
+            const codes = envelope?.properties?.error?.properties?.code?.enum;
+            const files = Object.keys(response.content).filter(
+              (type) => type !== "application/json" || !envelope?.properties
+            );
+            return (
+              <div key={status}>
+                <p className="text-sm">
+                  <span className="font-mono font-medium">{status}</span>{" "}
+                  <span className="text-gray-600">{response.description}</span>
+                </p>
+                {codes && (
+                  <p className="text-sm text-gray-600">
+                    Codes:{" "}
+                    {codes.map((code, index) => (
+                      <React.Fragment key={code}>
+                        {index > 0 && ", "}
+                        <code>{code}</code>
+                      </React.Fragment>
+                    ))}
+                  </p>
+                )}
+                {files.length > 0 && (
+                  <p className="text-sm text-gray-600">
+                    {data ? "Or sent as" : "Sent as"}{" "}
+                    {files.map((type, index) => (
+                      <React.Fragment key={type}>
+                        {index > 0 && " or "}
+                        <code>{type}</code>
+                      </React.Fragment>
+                    ))}
+                  </p>
+                )}
+                {data &&
+                  (data.properties ? (
+                    <FieldTable rows={fieldRows(data, "data")} />
+                  ) : (
+                    <p className="text-sm text-gray-600">
+                      <code>data</code> is <code>{typeLabel(data)}</code>
+                    </p>
+                  ))}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ApiDocsPage = () => {
+  const [spec, setSpec] = useState<OpenApiDocument | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    // The document is sent bare, not in the API's envelope
+    const fetchDocument = async () => {
+      try {
+        const response = await fetch("/api/openapi.json");
+        if (response.ok) {
+          setSpec(await response.json());
+        } else {
+          setError("Failed to load the API document.");
+        }
+      } catch {
+        setError("Network error or API failure.");
+      }
+    };
+    fetchDocument();
+  }, []);
+
+  const operations = spec
+    ? Object.entries(spec.paths).flatMap(([path, methods]) =>
+        Object.entries(methods).map(([method, operation]) => ({
+          key: `${method} ${path}`,
+          method,
+          path,
+          operation,
+        }))
+      )
+    : [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">API Docs</h1>
+          <p className="text-sm text-gray-500 max-w-3xl">
+            {spec?.info.description}
+          </p>
+        </div>
+        <a
+          href="/api/openapi.json"
+          download="deskvault-openapi.json"
+          className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-100"
+        >
+          <Download className="w-4 h-4 mr-2" />
+          OpenAPI JSON
+        </a>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {spec?.tags.map(({ name }) => (
+        <Card key={name}>
+          <CardContent className="p-0">
+            <h2 className="text-lg font-semibold px-4 pt-4 pb-2">{name}</h2>
+            {operations
+              .filter(({ operation }) => operation.tags.includes(name))
+              .map(({ key, method, path, operation }) => {
+                const isOpen = expanded === key;
+                return (
+                  <div key={key} className="border-t">
+                    <button
+                      type="button"
+                      className="flex w-full items-center gap-3 px-4 py-2 text-left hover:bg-gray-50"
+                      onClick={() => setExpanded(isOpen ? null : key)}
+                    >
+                      {isOpen ? (
+                        <ChevronDown className="w-4 h-4 shrink-0" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 shrink-0" />
+                      )}
+                      <span
+                        className={`w-16 rounded px-2 py-0.5 text-center text-xs font-semibold uppercase ${METHOD_STYLES[method]}`}
+                      >
+                        {method}
+                      </span>
+                      <span className="font-mono text-sm">{path}</span>
+                      <span className="text-sm text-gray-600">
+                        {operation.summary}
+                      </span>
+                    </button>
+                    {isOpen && <OperationDetails operation={operation} />}
+                  </div>
+                );
+              })}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+};
+
+export default ApiDocsPage;
@@ -0,0 +1,584 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  RefreshCw,
+  Plus,
+  Ban,
+  X,
+  AlertTriangle,
+  Loader,
+  Copy,
+} from "lucide-react";
+import { API_KEY_SCOPES, type Permission } from "@/lib/permissions";
+import type { ApiKey, FieldErrors } from "@/lib/types";
+import { FieldError } from "@/components/field-error";
+import { api } from "@/lib/api-client";
+
+// --- Local Type Definitions ---
+
+type ApiKeyFormData = {
+  name: string;
+  scopes: Permission[];
+  expiresOn: string; // YYYY-MM-DD, or "" for a key that never expires
+};
+
+const initialFormData: ApiKeyFormData = {
+  name: "",
+  scopes: [],
+  expiresOn: "",
+};
+
+// Scopes grouped by what they cover, e.g. "products" -> products:read, ...
+const SCOPE_GROUPS = API_KEY_SCOPES.reduce<Record<string, Permission[]>>(
+  (groups, scope) => {
+    const resource = scope.split(":")[0];
+    (groups[resource] ??= []).push(scope);
+    return groups;
+  },
+  {}
+);
+
+type KeyStatus = "active" | "expired" | "revoked";
+
+const STATUS_BADGES: Record<KeyStatus, string> = {
+  active: "bg-green-100 text-green-800",
+  expired: "bg-yellow-100 text-yellow-800",
+  revoked: "bg-gray-100 text-gray-800",
+};
+
+// --- Helper Functions ---
+
+/**
+ * Formats a date string into a readable format.
+ */
+const formatDate = (dateString: string): string => {
+  return new Date(dateString.replace(" ", "T")).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const keyStatus = (key: ApiKey): KeyStatus => {
+  if (key.revoked_at) return "revoked";
+  if (key.expires_at && Date.parse(key.expires_at) <= Date.now()) {
+    return "expired";
+  }
+  return "active";
+};
+
+// --- Extracted Components ---
+
+interface ApiKeyFormProps {
+  formData: ApiKeyFormData;
+  setFormData: React.Dispatch<React.SetStateAction<ApiKeyFormData>>;
+  fieldErrors: FieldErrors; // From a rejected save, by field
+  handleSave: (e: React.FormEvent<HTMLFormElement>) => Promise<void>;
+  loading: boolean;
+  closeModal: () => void;
+}
+
+/**
+ * Form for creating a key: its name, what it may do and when it expires.
+ */
+const ApiKeyForm: React.FC<ApiKeyFormProps> = ({
+  formData,
+  setFormData,
+  fieldErrors,
+  handleSave,
+  loading,
+  closeModal,
+}) => {
+  const toggleScope = (scope: Permission) =>
+    setFormData({
+      ...formData,
+      scopes: formData.scopes.includes(scope)
+        ? formData.scopes.filter((s) => s !== scope)
+        : [...formData.scopes, scope],
+    });
+
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Name
+        </label>
+        <input
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          required
+          maxLength={100}
+          placeholder="E.g., Web shop"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <FieldError errors={fieldErrors} field="name" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Scopes
+        </label>
+        <div className="max-h-60 overflow-y-auto border border-gray-200 rounded-md p-3 space-y-2">
+          {Object.entries(SCOPE_GROUPS).map(([resource, scopes]) => (
+            <div key={resource}>
+              <p className="text-xs font-semibold text-gray-500 uppercase">
+                {resource}
+              </p>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {scopes.map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-center text-sm text-gray-700"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={formData.scopes.includes(scope)}
+                      onChange={() => toggleScope(scope)}
+                      className="mr-1"
+                    />
+                    {scope.split(":")[1]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Grant only what the integration needs.
+        </p>
+        <FieldError errors={fieldErrors} field="scopes" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Expires On (optional)
+        </label>
+        <input
+          type="date"
+          value={formData.expiresOn}
+          onChange={(e) =>
+            setFormData({ ...formData, expiresOn: e.target.value })
+          }
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Leave blank for a key that works until it is revoked.
+        </p>
+        <FieldError errors={fieldErrors} field="expiresOn" />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <button
+          type="button"
+          onClick={closeModal}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+          disabled={loading}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 flex items-center justify-center"
+          disabled={loading}
+        >
+          {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          Create Key
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface ModalProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Extracted Modal component for general use.
+ */
+const Modal: React.FC<ModalProps> = ({ children, isOpen, title, onClose }) =>
+  isOpen ? (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 sm:p-8 relative"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{title}</h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+        {children}
+      </div>
+    </div>
+  ) : null;
+
+// --- Main Component ---
+export default function ApiKeysPage() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [formData, setFormData] = useState<ApiKeyFormData>(initialFormData);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  // The key just created, shown once so it can be copied
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+  const [keyToRevoke, setKeyToRevoke] = useState<ApiKey | null>(null);
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  /**
+   * Fetches every key, revoked ones included, from the API.
+   */
+  const fetchApiKeys = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const result = await api.get<{ apiKeys: ApiKey[] }>("/api/api-keys");
+
+      if (result.ok) {
+        setApiKeys(result.data.apiKeys);
+      } else {
+        setError(result.error.message || "Failed to fetch API keys.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const openNew = () => {
+    setFormData(initialFormData);
+    setFieldErrors({});
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setFormData(initialFormData);
+    setFieldErrors({});
+  };
+
+  /**
+   * Creates the key and shows it; it cannot be looked up again.
+   */
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const result = await api.post<{ id: string; key: string }>(
+        "/api/api-keys",
+        {
+          name: formData.name.trim(),
+          scopes: formData.scopes,
+          expiresOn: formData.expiresOn,
+        }
+      );
+
+      if (result.ok) {
+        closeModal();
+        setCreatedKey(result.data.key);
+        fetchApiKeys();
+      } else {
+        setError(result.error.message || "Failed to create API key.");
+        setFieldErrors(result.error.fields ?? {});
+      }
+    } catch (err) {
+      console.error("Save error:", err);
+      setError("Network error during save operation.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyCreatedKey = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      setMessage("API key copied to the clipboard.");
+    } catch {
+      setError("Could not copy; select the key and copy it by hand.");
+    }
+  };
+
+  /**
+   * Revokes a key after confirmation. Systems using it are cut off at once.
+   */
+  const executeRevoke = async () => {
+    if (!keyToRevoke) return;
+
+    const id = keyToRevoke.id;
+    setKeyToRevoke(null);
+    setLoading(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const result = await api.delete(`/api/api-keys?id=${id}`);
+
+      if (result.ok) {
+        setMessage("API key revoked.");
+        fetchApiKeys();
+      } else {
+        setError(result.error.message || "Failed to revoke API key.");
+      }
+    } catch (err) {
+      console.error("Revoke error:", err);
+      setError("Network error during revocation.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center pb-6 border-b border-gray-200 mb-6">
+        <div className="mb-3 sm:mb-0">
+          <h1 className="text-3xl font-extrabold text-gray-900">API Keys</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Other systems send a key as{" "}
+            <code>Authorization: Bearer &lt;key&gt;</code>. It acts for the
+            owner who created it, limited to its scopes.
+          </p>
+        </div>
+        <div className="flex space-x-3">
+          <button
+            onClick={fetchApiKeys}
+            disabled={loading}
+            className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
+          >
+            {loading ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </button>
+          <button
+            onClick={openNew}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 transition duration-150"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Key
+          </button>
+        </div>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Scopes
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Last Used
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expires
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Created
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {apiKeys.length > 0 ? (
+              apiKeys.map((key) => {
+                const status = keyStatus(key);
+                return (
+                  <tr key={key.id} className="hover:bg-gray-50 transition">
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="font-medium text-gray-900">
+                        {key.name}
+                      </div>
+                      <div className="font-mono text-xs text-gray-500">
+                        {key.prefix}…
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-xs text-gray-600">
+                      <div className="flex flex-wrap gap-1 max-w-md">
+                        {key.scopes.map((scope) => (
+                          <span
+                            key={scope}
+                            className="px-2 py-0.5 rounded-full bg-gray-100 font-mono"
+                          >
+                            {scope}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span
+                        className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${STATUS_BADGES[status]}`}
+                      >
+                        {status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {key.last_used_at
+                        ? formatDate(key.last_used_at)
+                        : "Never"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {key.expires_at ? formatDate(key.expires_at) : "Never"}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                      {formatDate(key.created_at)}
+                      <div className="text-xs">by {key.created_by_name}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      {!key.revoked_at && (
+                        <button
+                          onClick={() => setKeyToRevoke(key)}
+                          className="text-red-600 hover:text-red-900 p-1 rounded-full hover:bg-red-100 transition"
+                          title="Revoke Key"
+                        >
+                          <Ban className="w-5 h-5" />
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })
+            ) : (
+              <tr>
+                <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? "Loading API keys..." : "No API keys yet."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* New Key Modal */}
+      <Modal isOpen={isModalOpen} title="New API Key" onClose={closeModal}>
+        <ApiKeyForm
+          formData={formData}
+          setFormData={setFormData}
+          fieldErrors={fieldErrors}
+          handleSave={handleSave}
+          loading={loading}
+          closeModal={closeModal}
+        />
+      </Modal>
+
+      {/* Created Key Modal: the only time the key is shown */}
+      <Modal
+        isOpen={!!createdKey}
+        title="API Key Created"
+        onClose={() => setCreatedKey(null)}
+      >
+        <p className="text-gray-700 mb-4">
+          Copy the key now and store it somewhere safe. It will not be shown
+          again.
+        </p>
+        <div className="flex items-center gap-2 mb-6">
+          <code className="flex-1 break-all rounded-md bg-gray-100 p-3 text-sm">
+            {createdKey}
+          </code>
+          <button
+            type="button"
+            onClick={copyCreatedKey}
+            className="p-2 text-gray-600 rounded-lg hover:bg-gray-100"
+            title="Copy Key"
+          >
+            <Copy className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={() => setCreatedKey(null)}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150"
+          >
+            Done
+          </button>
+        </div>
+      </Modal>
+
+      {/* Revoke Confirmation Modal */}
+      <Modal
+        isOpen={!!keyToRevoke}
+        title="Revoke API Key"
+        onClose={() => setKeyToRevoke(null)}
+      >
+        <p className="text-gray-700 mb-6">
+          Revoke <strong>{keyToRevoke?.name}</strong>? Anything using it will be
+          refused from now on. This cannot be undone.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={() => setKeyToRevoke(null)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={executeRevoke}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg shadow-md hover:bg-red-700 transition duration-150 flex items-center justify-center"
+            disabled={loading}
+          >
+            {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            Revoke
+          </button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
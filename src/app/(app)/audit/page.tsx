@@ -0,0 +1,508 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  RefreshCw,
+  AlertTriangle,
+  Loader,
+  History,
+  ChevronLeft,
+  ChevronRight,
+} from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { api } from "@/lib/api-client";
+import type { AuditEntity, AuditEntry } from "@/lib/types";
+
+type AuditPage = {
+  entries: AuditEntry[];
+  total: number;
+  actors: { id: string; name: string }[]; // Everyone in the log, for the filter
+};
+
+// --- Local Type Definitions ---
+
+type AuditFilters = {
+  entity: AuditEntity | "";
+  actorId: string;
+  from: string;
+  to: string;
+};
+
+const initialFilters: AuditFilters = {
+  entity: "",
+  actorId: "",
+  from: "",
+  to: "",
+};
+
+const ENTITY_LABELS: Record<AuditEntity, string> = {
+  product: "Product",
+  transaction: "Transaction",
+  partner: "Partner",
+  expense: "Expense",
+  loan: "Loan",
+  purchase_order: "Purchase Order",
+  payment: "Payment",
+  invoice: "Invoice",
+  user: "User",
+  settings: "Settings",
+  api_key: "API Key",
+};
+
+const ACTION_BADGES: Record<AuditEntry["action"], string> = {
+  create: "bg-green-100 text-green-800",
+  update: "bg-blue-100 text-blue-800",
+  delete: "bg-red-100 text-red-800",
+};
+
+// Bookkeeping columns that change on every write and only add noise to diffs
+const IGNORED_FIELDS = ["created_at", "updated_at"];
+
+const PAGE_SIZE = 25;
+
+// --- Helper Functions ---
+
+/**
+ * Formats an audit timestamp (stored in UTC) in local time.
+ */
+const formatTimestamp = (value: string): string => {
+  return new Date(value.replace(" ", "T") + "Z").toLocaleString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+};
+
+/**
+ * Lists the fields that differ between the before and after images of an
+ * entry. Creates show every field of the new record, deletes every field of
+ * the removed one.
+ */
+const changedFields = (
+  entry: AuditEntry
+): { field: string; before: unknown; after: unknown }[] => {
+  const keys = new Set([
+    ...Object.keys(entry.before ?? {}),
+    ...Object.keys(entry.after ?? {}),
+  ]);
+  return [...keys]
+    .filter((key) => !IGNORED_FIELDS.includes(key))
+    .map((key) => ({
+      field: key,
+      before: entry.before?.[key],
+      after: entry.after?.[key],
+    }))
+    .filter((change) => change.before !== change.after);
+};
+
+/**
+ * A readable label for the record an entry refers to.
+ */
+const describeRecord = (entry: AuditEntry): string => {
+  const image = entry.after ?? entry.before ?? {};
+  const label =
+    image.name ??
+    image.description ??
+    image.imei ??
+    image.snapshot_partner_name;
+  return label ? String(label) : entry.entity_id.slice(0, 8);
+};
+
+// --- Extracted Components ---
+
+/**
+ * Field-by-field view of what a single entry changed.
+ */
+const ChangeTable: React.FC<{ entry: AuditEntry }> = ({ entry }) => {
+  const changes = changedFields(entry);
+  if (changes.length === 0) {
+    return <p className="text-xs text-gray-500">No field changes recorded.</p>;
+  }
+  return (
+    <table className="w-full text-xs">
+      <tbody>
+        {changes.map((change) => (
+          <tr key={change.field} className="align-top">
+            <td className="py-1 pr-3 font-medium text-gray-600 whitespace-nowrap">
+              {change.field}
+            </td>
+            {entry.action !== "create" && (
+              <td className="py-1 pr-3 text-red-700 line-through break-all">
+                {formatValue(change.before)}
+              </td>
+            )}
+            {entry.action !== "delete" && (
+              <td className="py-1 text-green-700 break-all">
+                {formatValue(change.after)}
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
+
+interface HistoryDrawerProps {
+  target: { entity: AuditEntity; entityId: string; label: string } | null;
+  onClose: () => void;
+}
+
+/**
+ * Side drawer showing every logged change to a single record, oldest first.
+ */
+const HistoryDrawer: React.FC<HistoryDrawerProps> = ({ target, onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!target) return;
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError("");
+      try {
+        const params = new URLSearchParams({
+          entity: target.entity,
+          entityId: target.entityId,
+          limit: "500",
+        });
+        const result = await api.get<AuditPage>(`/api/audit?${params}`);
+
+        if (result.ok) {
+          setEntries([...result.data.entries].reverse());
+        } else {
+          setError(result.error.message || "Failed to fetch record history.");
+        }
+      } catch (err) {
+        console.error("Fetch error:", err);
+        setError("Network error or API failure.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchHistory();
+  }, [target]);
+
+  return (
+    <Sheet open={!!target} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>
+            {target ? ENTITY_LABELS[target.entity] : ""} history
+          </SheetTitle>
+          <SheetDescription>{target?.label}</SheetDescription>
+        </SheetHeader>
+
+        {loading && (
+          <div className="flex items-center text-sm text-gray-500 mt-6">
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+            Loading history...
+          </div>
+        )}
+        {error && (
+          <div className="p-3 mt-6 rounded-lg bg-red-100 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <ol className="mt-6 space-y-4">
+          {entries.map((entry) => (
+            <li key={entry.id} className="border-l-2 border-gray-200 pl-4">
+              <div className="flex items-center justify-between mb-1">
+                <span
+                  className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                    ACTION_BADGES[entry.action]
+                  }`}
+                >
+                  {entry.action}
+                </span>
+                <span className="text-xs text-gray-500">
+                  {formatTimestamp(entry.created_at)}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500 mb-2">
+                by {entry.actor_name}
+              </p>
+              <ChangeTable entry={entry} />
+            </li>
+          ))}
+        </ol>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+// --- Main Component ---
+export default function AuditPage() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actors, setActors] = useState<{ id: string; name: string }[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [filters, setFilters] = useState<AuditFilters>(initialFilters);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [historyTarget, setHistoryTarget] =
+    useState<HistoryDrawerProps["target"]>(null);
+
+  // Reset error after a few seconds
+  useEffect(() => {
+    if (error) {
+      const timer = setTimeout(() => setError(""), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error]);
+
+  /**
+   * Fetches one page of the audit log using the current filters.
+   */
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+      });
+      for (const [key, value] of Object.entries(filters)) {
+        if (value) params.set(key, value);
+      }
+
+      const result = await api.get<AuditPage>(`/api/audit?${params}`);
+
+      if (result.ok) {
+        setEntries(result.data.entries);
+        setTotal(result.data.total);
+        setActors(result.data.actors);
+      } else {
+        setError(result.error.message || "Failed to fetch audit log.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, filters]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center pb-6 border-b border-gray-200 mb-6">
+        <h1 className="text-3xl font-extrabold text-gray-900 mb-3 sm:mb-0">
+          Audit Log
+        </h1>
+        <button
+          onClick={fetchEntries}
+          disabled={loading}
+          className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
+        >
+          {loading ? (
+            <Loader className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <RefreshCw className="w-4 h-4 mr-2" />
+          )}
+          Refresh
+        </button>
+      </header>
+
+      {/* Filters */}
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 mb-6">
+        <select
+          value={filters.entity}
+          onChange={(e) => updateFilter("entity", e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All records</option>
+          {Object.entries(ENTITY_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.actorId}
+          onChange={(e) => updateFilter("actorId", e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          <option value="">All users</option>
+          {actors.map((actor) => (
+            <option key={actor.id} value={actor.id}>
+              {actor.name}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={filters.from}
+          onChange={(e) => updateFilter("from", e.target.value)}
+          aria-label="From date"
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <input
+          type="date"
+          value={filters.to}
+          onChange={(e) => updateFilter("to", e.target.value)}
+          aria-label="To date"
+          className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <button
+          onClick={() => {
+            setFilters(initialFilters);
+            setPage(1);
+          }}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+        >
+          Clear filters
+        </button>
+      </div>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                When
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                User
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Action
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Record
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Changes
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                History
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {entries.length > 0 ? (
+              entries.map((entry) => (
+                <tr
+                  key={entry.id}
+                  className="hover:bg-gray-50 transition align-top"
+                >
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {formatTimestamp(entry.created_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {entry.actor_name}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        ACTION_BADGES[entry.action]
+                      }`}
+                    >
+                      {entry.action}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    <span className="text-gray-500">
+                      {ENTITY_LABELS[entry.entity]}:
+                    </span>{" "}
+                    {describeRecord(entry)}
+                  </td>
+                  <td className="px-6 py-4 text-sm min-w-[280px]">
+                    <ChangeTable entry={entry} />
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <button
+                      onClick={() =>
+                        setHistoryTarget({
+                          entity: entry.entity,
+                          entityId: entry.entity_id,
+                          label: describeRecord(entry),
+                        })
+                      }
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded-full hover:bg-blue-100 transition"
+                      title="View Record History"
+                    >
+                      <History className="w-5 h-5" />
+                    </button>
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? "Loading audit log..." : "No entries found."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex items-center justify-between mt-4 text-sm text-gray-600">
+        <span>
+          {total} {total === 1 ? "entry" : "entries"}
+        </span>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || loading}
+            className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50"
+            title="Previous Page"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span>
+            Page {page} of {totalPages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(totalPages, p + 1))}
+            disabled={page >= totalPages || loading}
+            className="p-2 rounded-lg border border-gray-300 bg-white hover:bg-gray-100 disabled:opacity-50"
+            title="Next Page"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <HistoryDrawer
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+      />
+    </div>
+  );
+}
@@ -1,11 +1,5 @@
 "use client";
-import React, {
-  useState,
-  useEffect,
-  useCallback,
-  useMemo,
-  useRef,
-} from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import {
   RefreshCw,
   Plus,
@@ -21,7 +15,20 @@ import {
   Info,
   ChevronDown,
   MoreVertical,
+  Handshake,
+  LineChart as LineChartIcon,
+  Tag,
 } from "lucide-react";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
@@ -30,6 +37,26 @@ import {
   DropdownMenuItem,
 } from "@radix-ui/react-dropdown-menu";
 import debounce from "@/lib/debounce";
+import { useAuth } from "@/context/auth-context";
+import type { Permission } from "@/lib/permissions";
+import type {
+  Discount,
+  ErrorCode,
+  FieldErrors,
+  Invoice,
+  PriceHistoryEntry,
+} from "@/lib/types";
+import { FieldError } from "@/components/field-error";
+import {
+  DocumentPdfLinks,
+  InvoiceReceipt,
+  printReceipt,
+} from "@/components/invoice-receipt";
+import { LabelDialog, type LabelItem } from "@/components/label-dialog";
+import { useScanner } from "@/context/scanner-context";
+import { useMutate, useQuery } from "@/context/data-context";
+import { apiUrl, optimisticUpdate } from "@/lib/query-client";
+import { api } from "@/lib/api-client";
 
 // --- TYPE DEFINITIONS (Based on provided APIs and context) ---
 
@@ -49,21 +76,28 @@ export type Product = {
   type: "individual" | "sku";
   name: string;
   category: string;
-  price: number; // Current selling/lending price
+  cost_price: number;
+  sell_price: number; // List price for sales and loans
+  min_price?: number | null;
   stock: number;
   imei?: string | null;
   created_at: string;
   partnerId?: string | null; // Vendor/Supplier association
+  on_loan?: number; // Units currently lent to partners
+  tax_exempt?: number; // 1 when the product is never taxed
 };
 
 /** Transaction type from /api/transactions (Aliased columns are used for naming) */
 export type Transaction = {
   id: string;
   productId: string; // Mapped from product_id
-  type: "purchase" | "sale";
+  type: "purchase" | "sale" | "lend-out" | "return";
   quantity: number;
   price: number; // Unit price at time of transaction
   totalAmount: number; // Mapped from total_amount
+  listPrice?: number | null; // Unit list price, for sales
+  discountAmount?: number; // List total less the amount charged
+  discountReason?: string | null;
   date: string; // ISO date string
   party: string; // Buyer/Partner Name (mapped from snapshot_partner_name or party)
   partnerId: string; // Mapped from partner_id
@@ -75,11 +109,14 @@ export type Transaction = {
 type ProductFormData = {
   name: string;
   category: string;
-  price: number;
+  costPrice: number;
+  sellPrice: number;
+  minPrice: string; // Empty means no minimum
   stock: number;
   type: Product["type"];
   imei: string; // Used only if type is 'individual'
   partnerId: string; // Optional field for vendor association
+  taxExempt: boolean;
 };
 
 /** Form data structure for recording a Transaction */
@@ -92,6 +129,13 @@ type TransactionFormData = {
   partyShop?: string | null;
   date: string;
   price: Transaction["price"];
+  dueDate: string; // Expected return date, for lend-outs
+  amountPaid: string; // Paid now on a partner sale; empty means in full
+  discountType: Discount["type"];
+  discountValue: string; // Empty means no discount
+  discountReason: string;
+  approverEmail: string; // Manager approving a sale the cashier cannot make
+  approverPassword: string;
 };
 
 // --- CONSTANTS ---
@@ -112,11 +156,14 @@ const INVENTORY_CATEGORIES: string[] = [
 const initialProductFormData: ProductFormData = {
   name: "",
   category: INVENTORY_CATEGORIES[0],
-  price: 0,
+  costPrice: 0,
+  sellPrice: 0,
+  minPrice: "",
   stock: 1,
   type: "sku",
   imei: "",
   partnerId: "",
+  taxExempt: false,
 };
 
 const initialTransactionFormData: TransactionFormData = {
@@ -128,10 +175,43 @@ const initialTransactionFormData: TransactionFormData = {
   partyPhone: "",
   partyShop: "",
   date: new Date().toISOString().substring(0, 10), // Today's date YYYY-MM-DD
+  dueDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .substring(0, 10), // One week from today
+  amountPaid: "",
+  discountType: "percent",
+  discountValue: "",
+  discountReason: "",
+  approverEmail: "",
+  approverPassword: "",
 };
 
+// Sale errors a manager can clear by approving the sale
+const APPROVAL_CODES: ErrorCode[] = [
+  "DISCOUNT_LIMIT_EXCEEDED",
+  "BELOW_COST",
+  "BELOW_MIN_PRICE",
+];
+
 // --- Helper Components & Functions ---
 
+/**
+ * Gross margin as a percentage of the selling price, or null when there is
+ * no selling price to measure against.
+ */
+const marginPercent = (cost: number, sell: number): number | null =>
+  sell > 0 ? ((sell - cost) / sell) * 100 : null;
+
+/** Returns what is left of `amount` after taking `discount` off it. */
+const applyDiscount = (amount: number, discount: Discount | null): number => {
+  if (!discount) return amount;
+  const off =
+    discount.type === "percent"
+      ? (amount * discount.value) / 100
+      : discount.value;
+  return Math.max(0, Math.round((amount - off) * 100) / 100);
+};
+
 /** Formats currency */
 const formatCurrency = (amount: number): string => {
   return new Intl.NumberFormat("en-QA", {
@@ -248,6 +328,7 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
   handleDeleteClick,
 }) => {
   const [isOpen, setIsOpen] = useState(false);
+  const { can } = useAuth();
   const isIndividual = product.type === "individual";
   const isOutOfStock = product.stock === 0;
 
@@ -275,7 +356,15 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
   }, [isOpen]); // Only rerun effect when isOpen changes
 
   // Define actions available in the dropdown
-  const actions = [
+  const actions: {
+    id: string;
+    label: string;
+    icon: React.ComponentType<{ className?: string }>;
+    onClick: () => void;
+    disabled?: boolean;
+    className: string;
+    permission: Permission;
+  }[] = [
     {
       id: "edit",
       label: "Edit Details",
@@ -285,6 +374,7 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
         setIsOpen(false); // Close dropdown after action
       },
       className: "text-blue-600 hover:bg-blue-50",
+      permission: "products:write",
     },
     {
       id: "sale",
@@ -296,6 +386,19 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
       },
       disabled: isOutOfStock,
       className: "text-red-600 hover:bg-red-50 disabled:text-gray-400",
+      permission: "transactions:write",
+    },
+    {
+      id: "lend",
+      label: "Lend to Partner",
+      icon: Handshake,
+      onClick: () => {
+        openTransactionModal(product, "lend-out");
+        setIsOpen(false); // Close dropdown after action
+      },
+      disabled: isOutOfStock,
+      className: "text-amber-600 hover:bg-amber-50 disabled:text-gray-400",
+      permission: "transactions:write",
     },
     {
       id: "delete",
@@ -307,8 +410,11 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
       },
       className:
         "text-gray-700 hover:bg-gray-100 border-t border-gray-100 mt-2 pt-2",
+      permission: "products:delete",
     },
   ];
+  // Hide what the current role is not allowed to do
+  const allowedActions = actions.filter((action) => can(action.permission));
 
   return (
     // Attach the ref here
@@ -327,7 +433,7 @@ const ActionDropdown: React.FC<ActionDropdownProps> = ({
           sideOffset={8}
         >
           <div className="py-2 space-y-2">
-            {actions.map((action) => (
+            {allowedActions.map((action) => (
               <DropdownMenuItem
                 key={action.id}
                 onClick={action.onClick}
@@ -402,6 +508,137 @@ const ConfirmDeleteModal: React.FC<ConfirmDeleteModalProps> = ({
   </Modal>
 );
 
+// --- Component: PriceHistoryModal ---
+
+interface PriceHistoryModalProps {
+  product: Product | null;
+  onClose: () => void;
+}
+
+/** Charts a product's cost, selling and minimum price over time. */
+const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({
+  product,
+  onClose,
+}) => {
+  const [history, setHistory] = useState<PriceHistoryEntry[]>([]);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!product) return;
+    setHistory([]);
+    setError("");
+    api
+      .get<{
+        history: PriceHistoryEntry[];
+      }>(`/api/products/price-history?id=${product.id}`)
+      .then((result) => {
+        if (result.ok) setHistory(result.data.history);
+        else setError(result.error.message || "Failed to load price history.");
+      })
+      .catch(() => setError("Network error or API failure."));
+  }, [product]);
+
+  // Extend the last prices to today so the chart shows how long they held
+  const chartData = history.length
+    ? [
+        ...history,
+        {
+          ...history[history.length - 1],
+          changed_at: new Date().toISOString(),
+        },
+      ].map((entry) => ({
+        date: new Date(entry.changed_at).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+          year: "2-digit",
+        }),
+        cost: entry.cost_price,
+        sell: entry.sell_price,
+        min: entry.min_price,
+      }))
+    : [];
+
+  return (
+    <Modal
+      isOpen={!!product}
+      title={`Price History: ${product?.name ?? ""}`}
+      onClose={onClose}
+      className="max-w-2xl"
+    >
+      {error ? (
+        <Alert message={error} isError />
+      ) : history.length === 0 ? (
+        <p className="text-gray-500">No price changes recorded.</p>
+      ) : (
+        <div className="space-y-4">
+          <ResponsiveContainer width="100%" height={240}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis />
+              <Tooltip
+                formatter={(value: number) => `${value.toFixed(2)} QAR`}
+              />
+              <Legend />
+              <Line
+                type="stepAfter"
+                dataKey="sell"
+                name="Selling"
+                stroke="#16a34a"
+              />
+              <Line
+                type="stepAfter"
+                dataKey="cost"
+                name="Cost"
+                stroke="#dc2626"
+              />
+              <Line
+                type="stepAfter"
+                dataKey="min"
+                name="Minimum"
+                stroke="#d97706"
+                strokeDasharray="4 4"
+              />
+            </LineChart>
+          </ResponsiveContainer>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Changed</th>
+                <th className="py-2 pr-4 font-medium">By</th>
+                <th className="py-2 pr-4 font-medium text-right">Cost</th>
+                <th className="py-2 pr-4 font-medium text-right">Selling</th>
+                <th className="py-2 font-medium text-right">Minimum</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {[...history].reverse().map((entry) => (
+                <tr key={entry.id}>
+                  <td className="py-2 pr-4">
+                    {new Date(entry.changed_at).toLocaleString("en-US")}
+                  </td>
+                  <td className="py-2 pr-4">{entry.changed_by_name ?? "—"}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatCurrency(entry.cost_price)}
+                  </td>
+                  <td className="py-2 pr-4 text-right">
+                    {formatCurrency(entry.sell_price)}
+                  </td>
+                  <td className="py-2 text-right">
+                    {entry.min_price === null
+                      ? "—"
+                      : formatCurrency(entry.min_price)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Modal>
+  );
+};
+
 // --- Component: MovementsLog ---
 
 interface MovementsLogProps {
@@ -429,6 +666,10 @@ const MovementsLog: React.FC<MovementsLogProps> = ({
     switch (type) {
       case "sale":
         return "bg-red-100 text-red-800 border-red-300";
+      case "lend-out":
+        return "bg-amber-100 text-amber-800 border-amber-300";
+      case "return":
+        return "bg-green-100 text-green-800 border-green-300";
       default:
         return "bg-gray-100 text-gray-800 border-gray-300";
     }
@@ -537,9 +778,7 @@ const MovementsLog: React.FC<MovementsLogProps> = ({
 
 // --- Main Component ---
 export default function InventoryPage() {
-  const [products, setProducts] = useState<Product[]>([]);
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [partners, setPartners] = useState<Partner[]>([]); // Assuming partners API exists
+  const { can } = useAuth();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [message, setMessage] = useState("");
@@ -547,9 +786,6 @@ export default function InventoryPage() {
   const [searchText, setSearchText] = useState("");
   const [page, setPage] = useState(1);
   const [limit] = useState(10);
-  const [total, setTotal] = useState(0);
-
-  const totalPages = Math.ceil(total / limit);
 
   // Tab State
   const [activeTab, setActiveTab] = useState<"active" | "movements">("active");
@@ -557,11 +793,14 @@ export default function InventoryPage() {
   // Product Modal State
   const [selectedReceipt, setSelectedReceipt] = useState<any>(null);
   const [isReceiptModalOpen, setIsReceiptModalOpen] = useState(false);
+  const [receiptInvoice, setReceiptInvoice] = useState<Invoice | null>(null);
   const [isProductModalOpen, setIsProductModalOpen] = useState(false);
   const [currentProduct, setCurrentProduct] = useState<Product | null>(null);
   const [productFormData, setProductFormData] = useState<ProductFormData>(
     initialProductFormData
   );
+  // What the server rejected in the last product save, by field
+  const [productErrors, setProductErrors] = useState<FieldErrors>({});
 
   // Transaction Modal State
   const [isTransactionModalOpen, setIsTransactionModalOpen] = useState(false);
@@ -570,6 +809,14 @@ export default function InventoryPage() {
   );
   const [transactionFormData, setTransactionFormData] =
     useState<TransactionFormData>(initialTransactionFormData);
+  // Set once the server says the sale needs a manager's approval
+  const [needsApproval, setNeedsApproval] = useState(false);
+  const [priceHistoryProduct, setPriceHistoryProduct] =
+    useState<Product | null>(null);
+  // Products ticked in the table, kept across pages, for printing labels
+  const [selectedProducts, setSelectedProducts] = useState<Product[]>([]);
+  // Open label dialog and what it starts with
+  const [labelItems, setLabelItems] = useState<LabelItem[] | null>(null);
 
   // Delete Confirmation State
   const [isConfirmDeleteModalOpen, setIsConfirmDeleteModalOpen] =
@@ -580,59 +827,46 @@ export default function InventoryPage() {
 
   // --- Data Fetching ---
 
-  const fetchData = useCallback(async () => {
-    setLoading(true);
-    setError("");
-    try {
-      const res =
-        activeTab === "active"
-          ? await fetch(
-              `/api/products?q=${encodeURIComponent(
-                search
-              )}&page=${page}&limit=${limit}`
-            )
-          : await fetch(
-              `/api/transactions?q=${encodeURIComponent(
-                search
-              )}&page=${page}&limit=${limit}`
-            );
-      const data = await res.json();
-      if (res.ok) {
-        activeTab === "active"
-          ? setProducts(data.products || [])
-          : setTransactions(data.transactions || []);
-        setTotal(data.total);
-      } else {
-        setError(data.message || "Failed to fetch products.");
-      }
-    } catch (err) {
-      setError("Network error fetching products.");
-    }
-  }, [activeTab, page, search]);
+  // The table on screen, products or the transaction log, a page at a time
+  const listUrl = apiUrl(
+    activeTab === "active" ? "/api/products" : "/api/transactions",
+    { q: search, page, limit }
+  );
+  const productsQuery = useQuery<{ products: Product[]; total: number }>(
+    activeTab === "active" ? listUrl : null
+  );
+  const transactionsQuery = useQuery<{
+    transactions: Transaction[];
+    total: number;
+  }>(activeTab === "movements" ? listUrl : null);
+  const listQuery = activeTab === "active" ? productsQuery : transactionsQuery;
+  const partnersQuery = useQuery<{ partners: Partner[] }>("/api/partners");
+
+  const products = productsQuery.data?.products ?? [];
+  const transactions = transactionsQuery.data?.transactions ?? [];
+  const partners = partnersQuery.data?.partners ?? [];
+  const total = listQuery.data?.total ?? 0;
+  const totalPages = Math.ceil(total / limit);
+  const fetching = listQuery.loading || partnersQuery.loading;
 
-  const fetchPartners = useCallback(async () => {
-    // NOTE: Assuming this API returns Partners data
-    try {
-      const response = await fetch("/api/partners");
-      const result = await response.json();
-      if (response.ok) {
-        setPartners(result.partners || []);
-      }
-    } catch (err) {
-      console.error("Failed to fetch partners:", err);
-      // NOTE: Failing partner fetch shouldn't block the app, so only logging error.
-    }
-  }, []);
+  const refreshAllData = () =>
+    Promise.all([listQuery.refetch(), partnersQuery.refetch()]);
 
-  const refreshAllData = useCallback(async () => {
-    setLoading(true);
-    await Promise.all([fetchData(), fetchPartners()]);
-    setLoading(false);
-  }, [fetchData]);
+  // Writes refresh whatever they change on this page, in other tabs too
+  const mutate = useMutate();
 
+  // Links from product labels and scans elsewhere in the app open the page
+  // searching for the scanned code; an unknown code opens the product form
   useEffect(() => {
-    refreshAllData();
-  }, [refreshAllData]);
+    const params = new URLSearchParams(window.location.search);
+    const q = params.get("q");
+    const code = params.get("new");
+    if (q) {
+      setSearchText(q);
+      setSearch(q);
+    }
+    if (code) openProductModalForCode(code);
+  }, []);
 
   // Reset message/error after a delay
   useEffect(() => {
@@ -654,32 +888,72 @@ export default function InventoryPage() {
         ? {
             name: product.name,
             category: product.category,
-            price: product.price,
+            costPrice: product.cost_price,
+            sellPrice: product.sell_price,
+            minPrice:
+              product.min_price === null || product.min_price === undefined
+                ? ""
+                : String(product.min_price),
             stock: product.stock,
             type: product.type,
             imei: product.imei || "",
             partnerId: product.partnerId || "", // Reset or set based on product if needed
+            taxExempt: !!product.tax_exempt,
           }
         : initialProductFormData
     );
+    setProductErrors({});
     setIsProductModalOpen(true);
   };
 
+  /**
+   * Opens the new product form with the IMEI / serial number filled in.
+   */
+  const openProductModalForCode = (code: string) => {
+    openProductModal(null);
+    setProductFormData({ ...initialProductFormData, imei: code });
+  };
+
+  // Scanning a known code shows just that product
+  useScanner({
+    onProduct: (_product, code) => {
+      setActiveTab("active");
+      setSearchText(code);
+      setSearch(code);
+      setPage(1);
+    },
+    onCreate: openProductModalForCode,
+  });
+
   const closeProductModal = () => {
     setIsProductModalOpen(false);
     setCurrentProduct(null);
     setProductFormData(initialProductFormData);
+    setProductErrors({});
   };
   const openReceiptModal = (transaction: any, productName: string) => {
-    console.log(productName);
     const data = { ...transaction, productName: productName || "Unknown" };
     setSelectedReceipt(data);
+    setReceiptInvoice(null);
     setIsReceiptModalOpen(true);
+
+    // A sale prints its whole invoice, not just this line
+    if (transaction.invoiceId) {
+      api
+        .get<{
+          invoice: Invoice;
+        }>(`/api/invoices?id=${encodeURIComponent(transaction.invoiceId)}`)
+        .then((result) =>
+          setReceiptInvoice(result.ok ? result.data.invoice : null)
+        )
+        .catch(() => setReceiptInvoice(null));
+    }
   };
 
   const closeReceiptModal = () => {
     setIsReceiptModalOpen(false);
     setSelectedReceipt(null);
+    setReceiptInvoice(null);
   };
   const handleDeleteClick = (product: Product) => {
     setProductToDeleteId(product.id);
@@ -700,7 +974,12 @@ export default function InventoryPage() {
     const method = isEditing ? "PUT" : "POST";
 
     // Basic validation and type conversion
-    const priceValue = parseFloat(productFormData.price.toString());
+    const priceValue = parseFloat(productFormData.costPrice.toString());
+    const sellValue = parseFloat(productFormData.sellPrice.toString());
+    const minValue =
+      productFormData.minPrice === ""
+        ? null
+        : parseFloat(productFormData.minPrice);
     let stockValue = parseInt(productFormData.stock.toString(), 10);
     const isIndividual = productFormData.type === "individual";
 
@@ -708,14 +987,29 @@ export default function InventoryPage() {
       stockValue = 1; // Force stock to 1 for individual products
     }
 
+    // New SKU products may start empty and be stocked via a purchase order;
+    // an edited product keeps its stock whatever the form says
+    const minStock = isIndividual ? 1 : 0;
     if (
       isNaN(priceValue) ||
       isNaN(stockValue) ||
       priceValue < 1 ||
-      stockValue < 1
+      stockValue < minStock
+    ) {
+      setError(
+        "Price must be greater than 0 and stock must be a valid non-negative number."
+      );
+      setLoading(false);
+      return;
+    }
+    if (
+      isNaN(sellValue) ||
+      sellValue <= 0 ||
+      (minValue !== null &&
+        (isNaN(minValue) || minValue < 0 || minValue > sellValue))
     ) {
       setError(
-        "Price and Stock must be valid non-negative numbers and greater than 0."
+        "Selling price must be greater than 0, and any minimum price no higher than it."
       );
       setLoading(false);
       return;
@@ -724,21 +1018,29 @@ export default function InventoryPage() {
     try {
       const payload = {
         ...productFormData,
-        price: priceValue,
+        costPrice: priceValue,
+        sellPrice: sellValue,
+        minPrice: minValue,
         stock: stockValue,
         imei: productFormData.imei,
       };
-      const response = await fetch(url, {
+      const result = await mutate<{ id: string }>(url, {
         method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: payload,
       });
 
-      const result = await response.json();
-      if (response.ok) {
+      if (result.ok && isEditing) {
+        // Editing never touches stock or the purchases already recorded
+        setMessage("Product updated successfully.");
+        closeProductModal();
+      } else if (result.ok && stockValue === 0) {
+        // Nothing was bought yet, so there is no purchase to record
+        setMessage("Product added. Order stock for it with a purchase order.");
+        closeProductModal();
+      } else if (result.ok) {
         // 2. POST the Transaction
         const transactionPayload = {
-          productId: result.id,
+          productId: result.data.id,
           type: "purchase",
           quantity: stockValue,
           price: priceValue,
@@ -750,29 +1052,32 @@ export default function InventoryPage() {
           partyShop: transactionFormData.partyShop,
           partnerId: productFormData.partnerId, // Use a placeholder if not a partner transaction
         };
-        const responseTr = await fetch(urlTr, {
-          method,
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(transactionPayload),
+        const transactionResult = await mutate(urlTr, {
+          method: "POST",
+          body: transactionPayload,
         });
-        if (responseTr.ok) {
-          setMessage(
-            `Product and transaction ${
-              isEditing ? "updated" : "added"
-            } successfully.`
-          );
+        if (transactionResult.ok) {
+          setMessage("Product and transaction added successfully.");
           closeProductModal();
-          fetchData(); // Refresh data
+          // Label the stock just bought in
+          setLabelItems([
+            {
+              productId: result.data.id,
+              name: productFormData.name,
+              copies: stockValue,
+            },
+          ]);
         } else {
           setError(
-            result.message ||
-              `Failed to ${isEditing ? "update" : "add"} transaction.`
+            transactionResult.error.message || "Failed to add transaction."
           );
         }
       } else {
         setError(
-          result.message || `Failed to ${isEditing ? "update" : "add"} product.`
+          result.error.message ||
+            `Failed to ${isEditing ? "update" : "add"} product.`
         );
+        setProductErrors(result.error.fields ?? {});
       }
     } catch (err) {
       setError("Network error during product save.");
@@ -793,16 +1098,26 @@ export default function InventoryPage() {
     setIsConfirmDeleteModalOpen(false); // Close modal immediately
 
     try {
-      const response = await fetch(`/api/products?id=${productToDeleteId}`, {
+      const id = productToDeleteId;
+      const result = await mutate(`/api/products?id=${id}`, {
         method: "DELETE",
+        // Gone from the table before the server answers
+        optimistic: [
+          optimisticUpdate<{ products: Product[]; total: number }>(
+            "/api/products",
+            (cached) => ({
+              ...cached,
+              products: cached.products.filter((product) => product.id !== id),
+              total: cached.total - 1,
+            })
+          ),
+        ],
       });
-      const result = await response.json();
 
-      if (response.ok) {
+      if (result.ok) {
         setMessage("Product and related transactions deleted successfully.");
-        refreshAllData(); // Refresh both products and transactions
       } else {
-        setError(result.message || "Failed to delete product.");
+        setError(result.error.message || "Failed to delete product.");
       }
     } catch (err) {
       setError("Network error during product deletion.");
@@ -828,8 +1143,9 @@ export default function InventoryPage() {
     let defaultPartnerId = "";
     let defaultPartyName = "";
 
-    // If transaction is related to a partner (lend-out, return, purchase), default to the first one available
-    if (partners.length > 0) {
+    // Lend-outs and purchases need a partner, so default to the first one
+    // available; sales default to a walk-in customer
+    if (partners.length > 0 && type !== "sale") {
       defaultPartnerId = partners[0].id;
       defaultPartyName = type === "purchase" ? partners[0].name : "";
     }
@@ -840,7 +1156,9 @@ export default function InventoryPage() {
       partnerId: defaultPartnerId,
       partyName: defaultPartyName,
       quantity: 1, // Default to 1
+      price: type === "lend-out" ? product.sell_price : 0, // Loans default to the selling price
     });
+    setNeedsApproval(false);
     setIsTransactionModalOpen(true);
   };
 
@@ -848,6 +1166,7 @@ export default function InventoryPage() {
     setIsTransactionModalOpen(false);
     setTransactionProduct(null);
     setTransactionFormData(initialTransactionFormData);
+    setNeedsApproval(false);
   };
 
   // Updates partyName when partnerId changes for transactions involving partners
@@ -880,7 +1199,8 @@ export default function InventoryPage() {
     setError("");
 
     const quantity = parseInt(transactionFormData.quantity.toString(), 10);
-    const productPrice = transactionFormData.price || transactionProduct.price; // Use form price or fallback to current product price
+    const productPrice =
+      transactionFormData.price || transactionProduct.sell_price; // Use form price or fall back to the list price
 
     if (isNaN(quantity) || quantity <= 0) {
       setError("Quantity must be a positive number.");
@@ -898,78 +1218,99 @@ export default function InventoryPage() {
     }
 
     try {
-      // 1. Calculate new stock and total amount
-      const newStock = transactionProduct.stock - quantity;
-      const totalAmount = productPrice * quantity; // Total amount is calculated based on current price * quantity
+      if (transactionFormData.type === "lend-out") {
+        // Lent stock leaves the shelf but stays on the loan until it is
+        // returned or converted into a sale.
+        const loanResult = await mutate("/api/loans", {
+          method: "POST",
+          body: {
+            productId: transactionProduct.id,
+            partnerId: transactionFormData.partnerId,
+            quantity: quantity,
+            unitPrice: productPrice,
+            date: new Date().toISOString(),
+            dueDate: transactionFormData.dueDate,
+          },
+        });
+
+        if (!loanResult.ok) {
+          setError(loanResult.error.message || "Failed to record loan.");
+          return;
+        }
+
+        setMessage("Loan recorded successfully! Stock updated.");
+        closeTransactionModal();
+        return;
+      }
+
+      const discountValue = parseFloat(transactionFormData.discountValue);
+      const discount: Discount | null =
+        discountValue > 0
+          ? { type: transactionFormData.discountType, value: discountValue }
+          : null;
+      const saleTotal = applyDiscount(quantity * productPrice, discount);
 
-      // 2. POST the Transaction
-      const transactionPayload = {
+      // Sales to a partner may be taken partly on credit; the unpaid part
+      // is added to the partner's balance.
+      const salePartner = partners.find(
+        (p) => p.id === transactionFormData.partnerId
+      );
+      const amountPaid =
+        salePartner && transactionFormData.amountPaid !== ""
+          ? parseFloat(transactionFormData.amountPaid)
+          : undefined;
+      if (
+        amountPaid !== undefined &&
+        (isNaN(amountPaid) || amountPaid < 0 || amountPaid > saleTotal)
+      ) {
+        setError("Amount paid must be between zero and the sale total.");
+        return;
+      }
+
+      // The server validates stock, records the sale and decrements stock
+      // in a single database transaction.
+      const salePayload = {
         productId: transactionProduct.id,
-        type: "sale",
         quantity: quantity,
         price: productPrice,
-        imei: transactionProduct.imei,
-        totalAmount: totalAmount,
         date: new Date().toISOString(),
-        party: transactionFormData.partyName || "Unknown",
-        partyPhone: transactionFormData.partyPhone || "",
-        partyShop: transactionFormData.partyShop || null,
-        partnerId: transactionFormData.partnerId || "CUSTOMER", // Use a placeholder if not a partner transaction
+        party: salePartner?.name || transactionFormData.partyName || "Unknown",
+        partyPhone: salePartner?.phone || transactionFormData.partyPhone || "",
+        partyShop:
+          salePartner?.shop_name || transactionFormData.partyShop || null,
+        partnerId: salePartner?.id || "CUSTOMER", // Use a placeholder if not a partner transaction
+        amountPaid,
+        discount,
+        discountReason: transactionFormData.discountReason || undefined,
+        approval: needsApproval
+          ? {
+              email: transactionFormData.approverEmail,
+              password: transactionFormData.approverPassword,
+            }
+          : undefined,
       };
 
-      const transResponse = await fetch("/api/transactions", {
+      const saleResult = await mutate("/api/sales", {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(transactionPayload),
+        body: salePayload,
       });
-      const transResult = await transResponse.json();
 
-      if (!transResponse.ok) {
-        setError(transResult.message || "Failed to record transaction.");
-        setLoading(false);
+      if (!saleResult.ok) {
+        setError(saleResult.error.message || "Failed to record sale.");
+        if (APPROVAL_CODES.includes(saleResult.error.code)) {
+          setNeedsApproval(true);
+        }
         return;
       }
 
-      // 3. PUT the updated Product Stock
-      const stockUpdatePayload = {
-        // Only sending required fields for PUT API
-        name: transactionProduct.name,
-        category: transactionProduct.category,
-        type: transactionProduct.type,
-        price: transactionProduct.price,
-        stock: newStock,
-        imei: transactionProduct.imei,
-        partnerId: transactionFormData.partnerId || null,
-      };
-
-      const productResponse = await fetch(
-        `/api/products?id=${transactionProduct.id}`,
-        {
-          method: "PUT",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify(stockUpdatePayload),
-        }
+      setMessage(
+        `${
+          transactionFormData.type.charAt(0).toUpperCase() +
+          transactionFormData.type.slice(1)
+        } recorded successfully! Stock updated.`
       );
 
-      if (!productResponse.ok) {
-        console.error(
-          "Failed to update product stock after transaction:",
-          await productResponse.json()
-        );
-        setMessage(
-          "Transaction recorded, but stock update failed. Please check product record."
-        );
-      } else {
-        setMessage(
-          `${
-            transactionFormData.type.charAt(0).toUpperCase() +
-            transactionFormData.type.slice(1)
-          } recorded successfully! Stock updated.`
-        );
-      }
-
       closeTransactionModal();
-      refreshAllData(); // Refresh both products and transactions
     } catch (err) {
       setError("A network error occurred during the transaction.");
     } finally {
@@ -1008,6 +1349,17 @@ export default function InventoryPage() {
   /** Renders the form for adding/editing a product. */
   const renderProductForm = () => {
     const isIndividual = productFormData.type === "individual";
+    // Existing prices can only be changed by roles allowed to set them
+    const isPriceLocked = !!currentProduct && !can("products:price");
+    const priceInputClass = `w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm ${
+      isPriceLocked
+        ? "bg-gray-100 cursor-not-allowed"
+        : "focus:ring-blue-500 focus:border-blue-500"
+    }`;
+    const formMargin = marginPercent(
+      productFormData.costPrice,
+      productFormData.sellPrice
+    );
     return (
       <form onSubmit={handleProductSave} className="space-y-4">
         {/* Name and Category */}
@@ -1035,6 +1387,7 @@ export default function InventoryPage() {
               </select>
               <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
             </div>
+            <FieldError errors={productErrors} field="type" />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1060,6 +1413,21 @@ export default function InventoryPage() {
               </select>
               <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
             </div>
+            <FieldError errors={productErrors} field="category" />
+            <label className="flex items-center mt-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={productFormData.taxExempt}
+                onChange={(e) =>
+                  setProductFormData({
+                    ...productFormData,
+                    taxExempt: e.target.checked,
+                  })
+                }
+                className="mr-2"
+              />
+              Tax exempt
+            </label>
           </div>
         </div>
 
@@ -1079,26 +1447,88 @@ export default function InventoryPage() {
               placeholder="E.g., Ultra Fast Charger"
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
             />
+            <FieldError errors={productErrors} field="name" />
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Price (QAR)
+              Cost Price (QAR)
             </label>
             <input
               type="number"
               step="0.01"
               min="0"
-              value={productFormData.price}
+              value={productFormData.costPrice}
               onChange={(e) =>
                 setProductFormData({
                   ...productFormData,
-                  price: parseFloat(e.target.value) || 0,
+                  costPrice: parseFloat(e.target.value) || 0,
                 })
               }
               required
+              disabled={isPriceLocked}
               placeholder="0.00"
-              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              className={priceInputClass}
             />
+            <FieldError errors={productErrors} field="costPrice" />
+          </div>
+        </div>
+
+        {/* Selling and Minimum Price */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Selling Price (QAR)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={productFormData.sellPrice}
+              onChange={(e) =>
+                setProductFormData({
+                  ...productFormData,
+                  sellPrice: parseFloat(e.target.value) || 0,
+                })
+              }
+              required
+              disabled={isPriceLocked}
+              placeholder="0.00"
+              className={priceInputClass}
+            />
+            <FieldError errors={productErrors} field="sellPrice" />
+            {formMargin !== null && (
+              <p
+                className={`text-xs mt-1 ${
+                  formMargin < 0 ? "text-red-500" : "text-gray-500"
+                }`}
+              >
+                Margin: {formMargin.toFixed(1)}%
+              </p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Minimum Price (QAR)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={productFormData.minPrice}
+              onChange={(e) =>
+                setProductFormData({
+                  ...productFormData,
+                  minPrice: e.target.value,
+                })
+              }
+              disabled={isPriceLocked}
+              placeholder="Optional"
+              className={priceInputClass}
+            />
+            <FieldError errors={productErrors} field="minPrice" />
+            <p className="text-xs text-gray-500 mt-1">
+              Selling below it needs a manager&apos;s approval.
+            </p>
           </div>
         </div>
 
@@ -1110,23 +1540,34 @@ export default function InventoryPage() {
             </label>
             <input
               type="number"
-              min="1"
+              min={currentProduct ? 1 : 0}
               value={isIndividual ? 1 : productFormData.stock}
               onChange={(e) =>
                 setProductFormData({
                   ...productFormData,
-                  stock: parseInt(e.target.value, 10) || 1,
+                  stock: Math.max(0, parseInt(e.target.value, 10) || 0),
                 })
               }
               required
-              disabled={isIndividual}
+              disabled={isIndividual || !!currentProduct}
               placeholder="0"
               className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm ${
-                isIndividual
+                isIndividual || currentProduct
                   ? "bg-gray-100 cursor-not-allowed"
                   : "focus:ring-blue-500 focus:border-blue-500"
               }`}
             />
+            <FieldError errors={productErrors} field="stock" />
+            {!currentProduct && !isIndividual && (
+              <p className="text-xs text-gray-500 mt-1">
+                Enter 0 to order stock through a purchase order instead.
+              </p>
+            )}
+            {currentProduct && (
+              <p className="text-xs text-gray-500 mt-1">
+                Stock changes with purchases, receipts, sales and returns.
+              </p>
+            )}
           </div>
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1145,6 +1586,7 @@ export default function InventoryPage() {
               placeholder="Recommended"
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
             />
+            <FieldError errors={productErrors} field="imei" />
           </div>
         </div>
         <div>
@@ -1191,6 +1633,7 @@ export default function InventoryPage() {
             </select>
             <ChevronDown className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
           </div>
+          <FieldError errors={productErrors} field="partnerId" />
         </div>
         <div className="flex justify-end space-x-3 pt-4 border-t border-gray-100">
           <button
@@ -1222,16 +1665,38 @@ export default function InventoryPage() {
 
     const isSale = type === "sale";
     const isPurchase = type === "purchase";
+    const isLend = type === "lend-out";
 
     const isIndividualProduct = transactionProduct.type === "individual";
 
-    const actionText = isSale ? "Sell" : "Record Stock-In (Purchase)";
+    const actionText = isSale
+      ? "Sell"
+      : isLend
+        ? "Lend Out"
+        : "Record Stock-In (Purchase)";
 
-    const partnerRequired = isPurchase;
-    const isOutgoing = isSale;
+    const partnerRequired = isPurchase || isLend;
+    const isOutgoing = isSale || isLend;
 
     const currentStock = transactionProduct.stock;
-    const currentPrice = transactionProduct.price;
+    const currentPrice = transactionProduct.sell_price;
+
+    // What the sale comes to after its discount, against the list price
+    const listTotal = currentPrice * quantity;
+    const discountValue = parseFloat(transactionFormData.discountValue);
+    const saleTotal = applyDiscount(
+      (transactionFormData.price || currentPrice) * quantity,
+      discountValue > 0
+        ? { type: transactionFormData.discountType, value: discountValue }
+        : null
+    );
+    const isDiscounted = isSale && saleTotal < listTotal;
+    const isOverridden = isSale && saleTotal !== listTotal;
+    const isBelowCost =
+      isSale && saleTotal < transactionProduct.cost_price * quantity;
+    const minPrice = transactionProduct.min_price;
+    const isBelowMin =
+      isSale && minPrice != null && saleTotal < minPrice * quantity;
 
     const transactionTypes = [
       {
@@ -1240,6 +1705,12 @@ export default function InventoryPage() {
         icon: DollarSign,
         color: "bg-red-600 hover:bg-red-700",
       },
+      {
+        type: "lend-out" as const,
+        label: "Lend to Partner",
+        icon: Handshake,
+        color: "bg-amber-600 hover:bg-amber-700",
+      },
     ];
 
     const isQuantityDisabled = isIndividualProduct;
@@ -1285,6 +1756,17 @@ export default function InventoryPage() {
               <button
                 key={t.type}
                 type="button"
+                onClick={() =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    type: t.type,
+                    price: t.type === "lend-out" ? currentPrice : 0,
+                    partnerId:
+                      t.type === "lend-out"
+                        ? partnerId || partners[0]?.id || ""
+                        : "",
+                  })
+                }
                 className={`p-3 text-center rounded-lg border-2 font-semibold transition ${
                   type === t.type
                     ? `${t.color} text-white border-transparent shadow-lg`
@@ -1300,54 +1782,121 @@ export default function InventoryPage() {
 
         {/* Partner Selection (Required for Purchase, Lend Out, Return) */}
         <div className="grid grid-cols-1">
-          <div>
-            <label
-              htmlFor="customerName"
-              className="block text-sm font-medium text-gray-700 mb-1"
-            >
-              Customer Name
-            </label>
-            <input
-              id="customerName"
-              type="text"
-              placeholder="E.g., John Doe"
-              value={transactionFormData.partyName}
-              onChange={(e) =>
-                setTransactionFormData({
-                  ...transactionFormData,
-                  partyName: e.target.value,
-                })
-              }
-              className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500`}
-            />
-          </div>
-          <div>
-            <label
-              htmlFor="customerPhone"
-              className="block text-sm font-medium text-gray-700 mb-1 mt-2"
-            >
-              Customer Phone
-            </label>
-            <input
-              id="customerPhone"
-              type="text"
-              placeholder="E.g., +97412345678"
-              value={transactionFormData.partyPhone}
-              onChange={(e) =>
-                setTransactionFormData({
-                  ...transactionFormData,
-                  partyPhone: e.target.value,
-                })
-              }
-              className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500`}
-            />
-          </div>
+          {isLend ? (
+            <div>
+              <label
+                htmlFor="lendPartner"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Lend To (Partner)
+              </label>
+              <select
+                id="lendPartner"
+                value={partnerId}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    partnerId: e.target.value,
+                  })
+                }
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              >
+                {partners.length === 0 && (
+                  <option value="">No partners available</option>
+                )}
+                {partners.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.shop_name ? ` (${p.shop_name})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ) : (
+            <>
+              <div>
+                <label
+                  htmlFor="salePartner"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Sell To
+                </label>
+                <select
+                  id="salePartner"
+                  value={partnerId}
+                  onChange={(e) =>
+                    setTransactionFormData({
+                      ...transactionFormData,
+                      partnerId: e.target.value,
+                      amountPaid: "",
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="">Walk-in customer</option>
+                  {partners.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                      {p.shop_name ? ` (${p.shop_name})` : ""}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
+          {isSale && !partnerId && (
+            <>
+              <div>
+                <label
+                  htmlFor="customerName"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Customer Name
+                </label>
+                <input
+                  id="customerName"
+                  type="text"
+                  placeholder="E.g., John Doe"
+                  value={transactionFormData.partyName}
+                  onChange={(e) =>
+                    setTransactionFormData({
+                      ...transactionFormData,
+                      partyName: e.target.value,
+                    })
+                  }
+                  className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500`}
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="customerPhone"
+                  className="block text-sm font-medium text-gray-700 mb-1 mt-2"
+                >
+                  Customer Phone
+                </label>
+                <input
+                  id="customerPhone"
+                  type="text"
+                  placeholder="E.g., +97412345678"
+                  value={transactionFormData.partyPhone}
+                  onChange={(e) =>
+                    setTransactionFormData({
+                      ...transactionFormData,
+                      partyPhone: e.target.value,
+                    })
+                  }
+                  className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500`}
+                />
+              </div>
+            </>
+          )}
           <div>
             <label
               htmlFor="salePrice"
               className="block text-sm font-medium text-gray-700 mb-1 mt-2"
             >
-              Final Sale Price
+              {isLend ? "Unit Value (while on loan)" : "Unit Price"}
             </label>
             <input
               id="salePrice"
@@ -1363,7 +1912,157 @@ export default function InventoryPage() {
               }
               className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500`}
             />
+            {isSale && (
+              <p className="text-xs text-gray-500 mt-1">
+                Leave at 0 to charge the list price of{" "}
+                {formatCurrency(currentPrice)}.
+              </p>
+            )}
           </div>
+          {isSale && (
+            <div>
+              <label
+                htmlFor="discountValue"
+                className="block text-sm font-medium text-gray-700 mb-1 mt-2"
+              >
+                Discount
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="discountValue"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="None"
+                  value={transactionFormData.discountValue}
+                  onChange={(e) =>
+                    setTransactionFormData({
+                      ...transactionFormData,
+                      discountValue: e.target.value,
+                    })
+                  }
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <select
+                  value={transactionFormData.discountType}
+                  onChange={(e) =>
+                    setTransactionFormData({
+                      ...transactionFormData,
+                      discountType: e.target.value as Discount["type"],
+                    })
+                  }
+                  className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  aria-label="Discount type"
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">QAR</option>
+                </select>
+              </div>
+              <p className="text-sm text-gray-700 mt-2">
+                Total: <strong>{formatCurrency(saleTotal)}</strong>
+                {isDiscounted && (
+                  <span className="text-gray-500">
+                    {" "}
+                    ({formatCurrency(listTotal - saleTotal)} off{" "}
+                    {formatCurrency(listTotal)} list)
+                  </span>
+                )}
+              </p>
+              {(isBelowCost || isBelowMin) && (
+                <p className="text-xs text-amber-700 mt-1">
+                  This is below {isBelowCost ? "cost" : "the minimum price"} and
+                  needs a manager&apos;s approval.
+                </p>
+              )}
+            </div>
+          )}
+          {isOverridden && (
+            <div>
+              <label
+                htmlFor="discountReason"
+                className="block text-sm font-medium text-gray-700 mb-1 mt-2"
+              >
+                Reason for Price Change
+              </label>
+              <input
+                id="discountReason"
+                type="text"
+                required
+                placeholder="E.g., Loyal customer, damaged box"
+                value={transactionFormData.discountReason}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    discountReason: e.target.value,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+          {isSale && needsApproval && (
+            <div className="mt-2 p-3 border border-amber-300 bg-amber-50 rounded-lg space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                Manager Approval
+              </p>
+              <input
+                type="email"
+                required
+                placeholder="Manager email"
+                autoComplete="off"
+                value={transactionFormData.approverEmail}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    approverEmail: e.target.value,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+              <input
+                type="password"
+                required
+                placeholder="Manager password"
+                autoComplete="new-password"
+                value={transactionFormData.approverPassword}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    approverPassword: e.target.value,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+          {isSale && partnerId && (
+            <div>
+              <label
+                htmlFor="amountPaid"
+                className="block text-sm font-medium text-gray-700 mb-1 mt-2"
+              >
+                Amount Paid Now
+              </label>
+              <input
+                id="amountPaid"
+                type="number"
+                min={0}
+                step="0.01"
+                placeholder="Paid in full"
+                value={transactionFormData.amountPaid}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    amountPaid: e.target.value,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Anything unpaid is added to the partner&apos;s balance.
+              </p>
+            </div>
+          )}
         </div>
 
         {/* Quantity and Date */}
@@ -1425,6 +2124,30 @@ export default function InventoryPage() {
               className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+          {isLend && (
+            <div>
+              <label
+                htmlFor="dueDate"
+                className="block text-sm font-medium text-gray-700 mb-1"
+              >
+                Expected Return Date
+              </label>
+              <input
+                id="dueDate"
+                type="date"
+                min={transactionFormData.date}
+                value={transactionFormData.dueDate}
+                onChange={(e) =>
+                  setTransactionFormData({
+                    ...transactionFormData,
+                    dueDate: e.target.value,
+                  })
+                }
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
         </div>
 
         {/* Total Amount Summary */}
@@ -1462,6 +2185,22 @@ export default function InventoryPage() {
   }; // End of renderTransactionForm
 
   /** Renders the main table of active products. */
+  /**
+   * Ticks or unticks a product for label printing.
+   */
+  const toggleSelected = (product: Product) =>
+    setSelectedProducts((selected) =>
+      selected.some((p) => p.id === product.id)
+        ? selected.filter((p) => p.id !== product.id)
+        : [...selected, product]
+    );
+
+  const allOnPageSelected =
+    products.length > 0 &&
+    products.every((product) =>
+      selectedProducts.some((p) => p.id === product.id)
+    );
+
   const renderInventoryTable = () => {
     return (
       <div className="bg-white rounded-xl shadow-xl overflow-hidden">
@@ -1469,6 +2208,28 @@ export default function InventoryPage() {
           <table className="min-w-full divide-y divide-gray-200">
             <thead className="bg-gray-50">
               <tr>
+                <th className="pl-6 py-3 w-4">
+                  <input
+                    type="checkbox"
+                    checked={allOnPageSelected}
+                    onChange={() =>
+                      setSelectedProducts((selected) =>
+                        allOnPageSelected
+                          ? selected.filter(
+                              (p) => !products.some((q) => q.id === p.id)
+                            )
+                          : [
+                              ...selected,
+                              ...products.filter(
+                                (product) =>
+                                  !selected.some((p) => p.id === product.id)
+                              ),
+                            ]
+                      )
+                    }
+                    aria-label="Select all products on this page"
+                  />
+                </th>
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Product Name
                 </th>
@@ -1478,6 +2239,9 @@ export default function InventoryPage() {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Price
                 </th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Margin
+                </th>
                 <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Stock
                 </th>
@@ -1490,7 +2254,7 @@ export default function InventoryPage() {
               {products.length === 0 ? (
                 <tr>
                   <td
-                    colSpan={5}
+                    colSpan={7}
                     className="px-6 py-8 text-center text-gray-500"
                   >
                     No products found. Click "Add Product" to create an
@@ -1500,12 +2264,26 @@ export default function InventoryPage() {
               ) : (
                 products.map((product) => {
                   const isIndividual = product.type === "individual";
+                  const margin = marginPercent(
+                    product.cost_price,
+                    product.sell_price
+                  );
 
                   return (
                     <tr
                       key={product.id}
                       className="hover:bg-gray-50 transition"
                     >
+                      <td className="pl-6 py-4 w-4">
+                        <input
+                          type="checkbox"
+                          checked={selectedProducts.some(
+                            (p) => p.id === product.id
+                          )}
+                          onChange={() => toggleSelected(product)}
+                          aria-label={`Select ${product.name}`}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="text-sm font-medium text-gray-900">
                           {product.name}
@@ -1530,8 +2308,31 @@ export default function InventoryPage() {
                           </div>
                         )}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                        {formatCurrency(product.price)}
+                      <td className="px-6 py-4 whitespace-nowrap text-sm">
+                        <div className="flex items-center font-medium text-gray-900">
+                          {formatCurrency(product.sell_price)}
+                          <button
+                            type="button"
+                            onClick={() => setPriceHistoryProduct(product)}
+                            className="ml-2 text-gray-400 hover:text-blue-600"
+                            title="Price history"
+                            aria-label={`Price history of ${product.name}`}
+                          >
+                            <LineChartIcon className="w-4 h-4" />
+                          </button>
+                        </div>
+                        <div className="text-xs text-gray-400">
+                          Cost {formatCurrency(product.cost_price)}
+                        </div>
+                      </td>
+                      <td
+                        className={`px-6 py-4 whitespace-nowrap text-right text-sm font-medium ${
+                          margin !== null && margin < 0
+                            ? "text-red-600"
+                            : "text-gray-900"
+                        }`}
+                      >
+                        {margin === null ? "—" : `${margin.toFixed(1)}%`}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-center">
                         <span
@@ -1543,6 +2344,11 @@ export default function InventoryPage() {
                         >
                           {product.stock}
                         </span>
+                        {!!product.on_loan && (
+                          <div className="text-xs text-amber-700 mt-1">
+                            {product.on_loan} on loan
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 text-center">
                         {product.stock === 0 ? (
@@ -1571,83 +2377,7 @@ export default function InventoryPage() {
 
   const printRef = useRef<HTMLDivElement>(null);
   const handlePrint = () => {
-    if (!printRef.current) return;
-
-    const printContent = printRef.current.innerHTML;
-    const tailwindLink =
-      "https://cdnjs.cloudflare.com/ajax/libs/tailwindcss/2.2.19/tailwind.min.css";
-
-    const printWindow = window.open("", "_blank", "width=1000,height=800");
-
-    if (printWindow) {
-      printWindow.document.write(`
-            <html>
-                <head>
-                    <title>Transaction Receipt</title>
-                    <link rel="stylesheet" href="${tailwindLink}">
-                    <style>
-                        /* Print-specific styles to ensure proper spacing and scaling */
-                        @media print {
-                            body {
-                                padding: 0 !important;
-                                margin: 0 !important;
-                                background: white !important;
-                                display: block !important;
-                            }
-                            .receipt {
-                                width: 100% !important; 
-                                max-width: 100% !important; 
-                                margin: 0 !important; 
-                                box-shadow: none !important;
-                                border: none !important;
-                                border-radius: 0 !important;
-                                padding: 10px; /* Small paper edge clearance */
-                            }
-
-                            /* FIX: Re-establish vertical margin/spacing for block elements */
-                            .receipt h2, 
-                            .receipt p, 
-                            .receipt div:not(.flex) {
-                                /* Apply a small bottom margin to simulate Tailwind's space-y */
-                                margin-bottom: 0.5rem !important; 
-                            }
-                            
-                            /* Ensure large text elements like titles retain space */
-                            .receipt .text-2xl, 
-                            .receipt .text-xl {
-                                margin-bottom: 1rem !important;
-                            }
-
-                            /* Ensure border-t and border-b spacing is preserved */
-                            .receipt .border-t, 
-                            .receipt .border-b {
-                                padding-top: 0.5rem !important;
-                                padding-bottom: 0.5rem !important;
-                            }
-
-                            /* Optional: If space-y is still collapsing, you may need a more aggressive selector */
-                            .receipt > div > div {
-                                margin-top: 1rem !important;
-                            }
-                        }
-                    </style>
-                </head>
-                <body>
-                    <div class="receipt">${printContent}</div>
-                </body>
-            </html>
-        `);
-
-      printWindow.document.close();
-      printWindow.focus();
-
-      const printLogic = () => {
-        printWindow.print();
-        printWindow.close();
-      };
-
-      setTimeout(printLogic, 500);
-    }
+    if (printRef.current) printReceipt(printRef.current, "Transaction Receipt");
   };
   // 1. Debounce for manual typing (prevents fetch on every key)
   const debouncedSetSearch = useMemo(
@@ -1671,11 +2401,31 @@ export default function InventoryPage() {
           <button
             onClick={refreshAllData}
             className="p-3 bg-white text-gray-700 border border-gray-300 rounded-xl shadow-sm hover:bg-gray-100 transition disabled:opacity-50"
-            disabled={loading}
+            disabled={loading || fetching}
             title="Refresh All Data"
           >
-            <RefreshCw className={`w-5 h-5 ${loading ? "animate-spin" : ""}`} />
+            <RefreshCw
+              className={`w-5 h-5 ${loading || fetching ? "animate-spin" : ""}`}
+            />
           </button>
+          {selectedProducts.length > 0 && (
+            <button
+              onClick={() =>
+                setLabelItems(
+                  selectedProducts.map((product) => ({
+                    productId: product.id,
+                    name: product.name,
+                    // One label per unit on hand, at least one
+                    copies: Math.max(1, product.stock),
+                  }))
+                )
+              }
+              className="flex items-center px-4 py-2 bg-white text-gray-700 font-semibold border border-gray-300 rounded-xl shadow-sm hover:bg-gray-100 transition"
+            >
+              <Tag className="w-5 h-5 mr-2" />
+              Print Labels ({selectedProducts.length})
+            </button>
+          )}
           <button
             onClick={() => openProductModal(null)}
             className="flex items-center px-4 py-2 bg-blue-600 text-white font-semibold rounded-xl shadow-md hover:bg-blue-700 transition disabled:opacity-50"
@@ -1688,8 +2438,11 @@ export default function InventoryPage() {
       </header>
 
       {/* Alerts */}
-      {(message || error) && (
-        <Alert message={message || error} isError={!!error} />
+      {(message || error || listQuery.error) && (
+        <Alert
+          message={message || error || listQuery.error}
+          isError={!message}
+        />
       )}
 
       {/* Loading Indicator for general actions */}
@@ -1822,7 +2575,7 @@ export default function InventoryPage() {
           <MovementsLog
             products={products}
             transactions={transactions}
-            loading={loading}
+            loading={loading || fetching}
             openReceiptModal={openReceiptModal}
           />
         )}
@@ -1874,6 +2627,10 @@ export default function InventoryPage() {
 
       {/* --- MODALS --- */}
 
+      {labelItems && (
+        <LabelDialog items={labelItems} onClose={() => setLabelItems(null)} />
+      )}
+
       <Modal
         isOpen={isProductModalOpen}
         onClose={closeProductModal}
@@ -1896,7 +2653,12 @@ export default function InventoryPage() {
         onClose={closeReceiptModal}
         title="Transaction Receipt"
         footer={
-          <div className="flex-none border-t border-gray-100 bg-white p-4 sticky bottom-0 z-10 print-button-container">
+          <div className="flex-none border-t border-gray-100 bg-white p-4 sticky bottom-0 z-10 print-button-container space-y-2">
+            {(receiptInvoice ?? selectedReceipt) && (
+              <DocumentPdfLinks
+                documentId={(receiptInvoice ?? selectedReceipt).id}
+              />
+            )}
             <button
               onClick={handlePrint}
               className="w-full py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700"
@@ -1906,7 +2668,14 @@ export default function InventoryPage() {
           </div>
         }
       >
-        {selectedReceipt ? (
+        {receiptInvoice ? (
+          <div
+            id="receipt"
+            className="flex flex-col h-[600px] w-full max-w-md mx-auto bg-white rounded-2xl shadow-lg border border-gray-100 overflow-y-auto"
+          >
+            <InvoiceReceipt ref={printRef} invoice={receiptInvoice} />
+          </div>
+        ) : selectedReceipt ? (
           <div
             id="receipt"
             className="flex flex-col h-[600px] w-full max-w-md mx-auto bg-white rounded-2xl shadow-lg border border-gray-100 overflow-hidden"
@@ -1918,6 +2687,11 @@ export default function InventoryPage() {
                 <h2 className="text-lg font-semibold text-gray-800">
                   Payment Receipt
                 </h2>
+                {selectedReceipt.number && (
+                  <span className="text-xs text-gray-400 font-mono">
+                    {selectedReceipt.number}
+                  </span>
+                )}
               </div>
 
               {/* Company & Job Info */}
@@ -1976,12 +2750,19 @@ export default function InventoryPage() {
                     </p>
                   </div>
                   <span className="font-semibold text-gray-700">
-                    {selectedReceipt.price} QAR
+                    {(selectedReceipt.listPrice ?? selectedReceipt.price) *
+                      selectedReceipt.quantity}{" "}
+                    QAR
                   </span>
                 </div>
+                {selectedReceipt.discountReason && (
+                  <p className="text-xs text-gray-500">
+                    {"Discount: " + selectedReceipt.discountReason}
+                  </p>
+                )}
                 <div className="border-t mt-3 pt-2 flex justify-between text-green-700 font-semibold">
                   <span>Total</span>
-                  <span>{selectedReceipt.price} QAR</span>
+                  <span>{selectedReceipt.totalAmount} QAR</span>
                 </div>
               </div>
 
@@ -1993,12 +2774,14 @@ export default function InventoryPage() {
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Discount</span>
-                  <span className="font-medium text-red-500">0 QAR</span>
+                  <span className="font-medium text-red-500">
+                    {selectedReceipt.discountAmount ?? 0} QAR
+                  </span>
                 </div>
                 <div className="border-t mt-2 pt-2 flex justify-between items-center">
                   <span className="text-gray-500 text-sm">Grand Total</span>
                   <span className="text-2xl font-bold text-green-600">
-                    {selectedReceipt.price} QAR
+                    {selectedReceipt.totalAmount} QAR
                   </span>
                 </div>
               </div>
@@ -2009,6 +2792,11 @@ export default function InventoryPage() {
         )}
       </Modal>
 
+      <PriceHistoryModal
+        product={priceHistoryProduct}
+        onClose={() => setPriceHistoryProduct(null)}
+      />
+
       <ConfirmDeleteModal
         isOpen={isConfirmDeleteModalOpen}
         productName={
@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect } from "react";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   Users,
   LayoutDashboard,
@@ -9,6 +9,16 @@ import {
   DollarSign,
   LogOut,
   PanelLeft,
+  ShieldCheck,
+  ShieldAlert,
+  History,
+  Settings,
+  Handshake,
+  ClipboardList,
+  Hourglass,
+  ShoppingCart,
+  BookOpen,
+  KeyRound,
 } from "lucide-react";
 
 import { DeskVaultIcon } from "@/components/icons";
@@ -25,13 +35,104 @@ import {
 } from "@/components/ui/sidebar";
 import { NavLink } from "@/components/nav-link";
 import { DataProvider } from "@/context/data-context";
+import { ScannerProvider } from "@/context/scanner-context";
 import { Separator } from "@/components/ui/separator";
 import { AuthProvider, useAuth } from "@/context/auth-context";
 import { Skeleton } from "@/components/ui/skeleton";
+import type { Permission } from "@/lib/permissions";
+
+// Sidebar entries, each shown only to roles holding its permission
+const NAV_ITEMS: {
+  href: string;
+  label: string;
+  icon: React.ComponentType;
+  permission: Permission;
+}[] = [
+  {
+    href: "/reports",
+    label: "Reports",
+    icon: LayoutDashboard,
+    permission: "reports:read",
+  },
+  {
+    href: "/reports/aging",
+    label: "Aging",
+    icon: Hourglass,
+    permission: "reports:read",
+  },
+  {
+    href: "/inventory",
+    label: "Inventory",
+    icon: Package,
+    permission: "products:read",
+  },
+  {
+    href: "/pos",
+    label: "Point of Sale",
+    icon: ShoppingCart,
+    permission: "transactions:write",
+  },
+  {
+    href: "/loans",
+    label: "Loans",
+    icon: Handshake,
+    permission: "transactions:read",
+  },
+  {
+    href: "/purchase-orders",
+    label: "Purchase Orders",
+    icon: ClipboardList,
+    permission: "purchase-orders:read",
+  },
+  {
+    href: "/partners",
+    label: "Vendors",
+    icon: Users,
+    permission: "partners:read",
+  },
+  {
+    href: "/account",
+    label: "Account",
+    icon: DollarSign,
+    permission: "expenses:read",
+  },
+  {
+    href: "/audit",
+    label: "Audit",
+    icon: History,
+    permission: "audit:read",
+  },
+  {
+    href: "/users",
+    label: "Users",
+    icon: ShieldCheck,
+    permission: "users:manage",
+  },
+  {
+    href: "/settings",
+    label: "Settings",
+    icon: Settings,
+    permission: "settings:manage",
+  },
+  {
+    href: "/api-keys",
+    label: "API Keys",
+    icon: KeyRound,
+    permission: "api-keys:manage",
+  },
+  {
+    // Every role can read products, so everyone sees the docs
+    href: "/api-docs",
+    label: "API Docs",
+    icon: BookOpen,
+    permission: "products:read",
+  },
+];
 
 function AppLayoutContent({ children }: { children: React.ReactNode }) {
-  const { logout, isAuthenticated } = useAuth();
+  const { logout, isAuthenticated, can } = useAuth();
   const router = useRouter();
+  const pathname = usePathname();
 
   useEffect(() => {
     if (isAuthenticated === false) {
@@ -40,6 +141,8 @@ function AppLayoutContent({ children }: { children: React.ReactNode }) {
     }
   }, [isAuthenticated, router]);
 
+  const currentItem = NAV_ITEMS.find((item) => pathname.startsWith(item.href));
+
   if (isAuthenticated === null || isAuthenticated === false) {
     return (
       <div className="flex h-screen w-full items-center justify-center">
@@ -54,77 +157,74 @@ function AppLayoutContent({ children }: { children: React.ReactNode }) {
 
   return (
     <DataProvider>
-      <SidebarProvider>
-        <div className="flex min-h-screen w-full">
-          <Sidebar>
-            <SidebarHeader>
-              <div className="flex items-center gap-3 p-2">
-                <DeskVaultIcon className="h-8 w-8 text-foreground" />
-                <h1 className="text-xl font-semibold text-foreground">
-                  DeskVault
-                </h1>
-              </div>
-            </SidebarHeader>
-            <SidebarContent>
-              <SidebarMenu className="mt-20 px-4 space-y-2">
-                <SidebarMenuItem>
-                  <NavLink href="/reports">
-                    <LayoutDashboard />
-                    Reports
-                  </NavLink>
-                </SidebarMenuItem>
-                <SidebarMenuItem>
-                  <NavLink href="/inventory">
-                    <Package />
-                    Inventory
-                  </NavLink>
-                </SidebarMenuItem>
-                <SidebarMenuItem>
-                  <NavLink href="/partners">
-                    <Users />
-                    Vendors
-                  </NavLink>
-                </SidebarMenuItem>
-                <SidebarMenuItem>
-                  <NavLink href="/account">
-                    <DollarSign />
-                    Account
-                  </NavLink>
-                </SidebarMenuItem>
-              </SidebarMenu>
-            </SidebarContent>
-            <SidebarFooter>
-              <Separator className="mb-2" />
-              <Button
-                variant="ghost"
-                className="w-full justify-start"
-                onClick={logout}
-              >
-                <LogOut className="mr-2 h-4 w-4" />
-                Logout
-              </Button>
-            </SidebarFooter>
-          </Sidebar>
-          <div className="flex flex-1 flex-col">
-            <header className="sticky top-0 z-30 flex h-auto items-center justify-between border-b bg-background px-4 py-4 md:px-6 md:hidden">
-              <div className="flex items-center gap-3">
-                <SidebarTrigger>
-                  <PanelLeft />
-                </SidebarTrigger>
-                <DeskVaultIcon className="h-8 w-8 text-primary" />
-                <h1 className="text-3xl font-headline font-semibold text-foreground">
-                  DeskVault
-                </h1>
-              </div>
-              <Button variant="outline" onClick={logout}>
-                <LogOut className="mr-2 h-4 w-4" />
-                Logout
-              </Button>
-            </header>
-            <main className="flex-1 p-4 md:p-6">{children}</main>
+      <ScannerProvider>
+        <SidebarProvider>
+          <div className="flex min-h-screen w-full">
+            <Sidebar>
+              <SidebarHeader>
+                <div className="flex items-center gap-3 p-2">
+                  <DeskVaultIcon className="h-8 w-8 text-foreground" />
+                  <h1 className="text-xl font-semibold text-foreground">
+                    DeskVault
+                  </h1>
+                </div>
+              </SidebarHeader>
+              <SidebarContent>
+                <SidebarMenu className="mt-20 px-4 space-y-2">
+                  {NAV_ITEMS.filter((item) => can(item.permission)).map(
+                    (item) => (
+                      <SidebarMenuItem key={item.href}>
+                        <NavLink href={item.href}>
+                          <item.icon />
+                          {item.label}
+                        </NavLink>
+                      </SidebarMenuItem>
+                    )
+                  )}
+                </SidebarMenu>
+              </SidebarContent>
+              <SidebarFooter>
+                <Separator className="mb-2" />
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start"
+                  onClick={logout}
+                >
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Logout
+                </Button>
+              </SidebarFooter>
+            </Sidebar>
+            <div className="flex flex-1 flex-col">
+              <header className="sticky top-0 z-30 flex h-auto items-center justify-between border-b bg-background px-4 py-4 md:px-6 md:hidden">
+                <div className="flex items-center gap-3">
+                  <SidebarTrigger>
+                    <PanelLeft />
+                  </SidebarTrigger>
+                  <DeskVaultIcon className="h-8 w-8 text-primary" />
+                  <h1 className="text-3xl font-headline font-semibold text-foreground">
+                    DeskVault
+                  </h1>
+                </div>
+                <Button variant="outline" onClick={logout}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Logout
+                </Button>
+              </header>
+              <main className="flex-1 p-4 md:p-6">
+                {currentItem && !can(currentItem.permission) ? (
+                  <div className="flex h-full flex-col items-center justify-center gap-2 text-center text-muted-foreground">
+                    <ShieldAlert className="h-10 w-10" />
+                    <p>You do not have access to this page.</p>
+                  </div>
+                ) : (
+                  children
+                )}
+              </main>
+            </div>
           </div>
-        </div>
-      </SidebarProvider>
+        </SidebarProvider>
+      </ScannerProvider>
     </DataProvider>
   );
 }
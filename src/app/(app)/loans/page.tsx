@@ -0,0 +1,693 @@
+"use client";
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import {
+  RefreshCw,
+  X,
+  AlertTriangle,
+  Loader,
+  Undo2,
+  DollarSign,
+  Clock,
+} from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { useMutate } from "@/context/data-context";
+import { api } from "@/lib/api-client";
+import type { EnrichedLoan, ErrorCode } from "@/lib/types";
+
+// --- Local Type Definitions ---
+
+type StatusFilter = "open" | "closed" | "all";
+
+/** A return or a conversion to sale being recorded against a loan. */
+type SettlementFormData = {
+  mode: "return" | "convert";
+  quantity: number;
+  price: number; // Unit sale price, for conversions
+  amountPaid: number; // Paid now, for conversions; the rest goes on account
+  date: string;
+  discountReason: string; // Needed when the price is not the list price
+  approverEmail: string;
+  approverPassword: string;
+};
+
+type PartnerGroup = {
+  partnerId: string;
+  partnerName: string;
+  partnerPhone: string;
+  partnerShop: string | null;
+  loans: EnrichedLoan[];
+  outstanding: number;
+  overdue: number; // Loans past their expected return date
+};
+
+// --- Helper Functions ---
+
+/** Formats currency */
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat("en-QA", {
+    style: "currency",
+    currency: "QAR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+/**
+ * Formats a date string into a readable format.
+ */
+const formatDate = (dateString: string): string => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+// Conversion errors a manager can clear by approving the sale
+const APPROVAL_CODES: ErrorCode[] = [
+  "DISCOUNT_LIMIT_EXCEEDED",
+  "BELOW_COST",
+  "BELOW_MIN_PRICE",
+];
+
+/**
+ * Groups loans by partner, partners with overdue loans first.
+ */
+const groupByPartner = (loans: EnrichedLoan[]): PartnerGroup[] => {
+  const groups = new Map<string, PartnerGroup>();
+  for (const loan of loans) {
+    let group = groups.get(loan.partner_id);
+    if (!group) {
+      group = {
+        partnerId: loan.partner_id,
+        partnerName: loan.partner_name,
+        partnerPhone: loan.partner_phone,
+        partnerShop: loan.partner_shop,
+        loans: [],
+        outstanding: 0,
+        overdue: 0,
+      };
+      groups.set(loan.partner_id, group);
+    }
+    group.loans.push(loan);
+    group.outstanding += loan.outstanding;
+    if (loan.days_overdue > 0) group.overdue += 1;
+  }
+  return [...groups.values()].sort(
+    (a, b) =>
+      b.overdue - a.overdue || a.partnerName.localeCompare(b.partnerName)
+  );
+};
+
+// --- Extracted Components ---
+
+interface ModalProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Extracted Modal component for general use.
+ */
+const Modal: React.FC<ModalProps> = ({ children, isOpen, title, onClose }) =>
+  isOpen ? (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 sm:p-8 relative"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{title}</h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+        {children}
+      </div>
+    </div>
+  ) : null;
+
+// --- Main Component ---
+export default function LoansPage() {
+  const { can } = useAuth();
+  const [loans, setLoans] = useState<EnrichedLoan[]>([]);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("open");
+  const [loading, setLoading] = useState(false);
+  const mutate = useMutate();
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const [selectedLoan, setSelectedLoan] = useState<EnrichedLoan | null>(null);
+  const [formData, setFormData] = useState<SettlementFormData | null>(null);
+  // Set once the server says the conversion needs a manager's approval
+  const [needsApproval, setNeedsApproval] = useState(false);
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  /**
+   * Fetches loans matching the status filter.
+   */
+  const fetchLoans = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const result = await api.get<{ loans: EnrichedLoan[] }>(
+        `/api/loans${query}`
+      );
+
+      if (result.ok) {
+        setLoans(result.data.loans);
+      } else {
+        setError(result.error.message || "Failed to fetch loans.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  const partnerGroups = useMemo(() => groupByPartner(loans), [loans]);
+  const overdueCount = loans.filter((l) => l.days_overdue > 0).length;
+
+  const openSettlement = (loan: EnrichedLoan, mode: "return" | "convert") => {
+    setSelectedLoan(loan);
+    setFormData({
+      mode,
+      quantity: loan.outstanding,
+      price: loan.unit_price,
+      amountPaid: 0,
+      date: today(),
+      discountReason: "",
+      approverEmail: "",
+      approverPassword: "",
+    });
+    setNeedsApproval(false);
+  };
+
+  const closeSettlement = () => {
+    setSelectedLoan(null);
+    setFormData(null);
+    setNeedsApproval(false);
+  };
+
+  /**
+   * Records a return or converts loaned units into a sale.
+   */
+  const handleSettlement = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedLoan || !formData) return;
+
+    setLoading(true);
+    setError("");
+    setMessage("");
+
+    const isReturn = formData.mode === "return";
+    try {
+      const result = await mutate(
+        `/api/loans/${isReturn ? "return" : "convert"}?id=${selectedLoan.id}`,
+        {
+          method: "POST",
+          body: {
+            quantity: formData.quantity,
+            price: isReturn ? undefined : formData.price,
+            amountPaid:
+              isReturn || !formData.amountPaid
+                ? undefined
+                : formData.amountPaid,
+            date: new Date(formData.date).toISOString(),
+            discountReason: isReturn
+              ? undefined
+              : formData.discountReason || undefined,
+            approval:
+              !isReturn && needsApproval
+                ? {
+                    email: formData.approverEmail,
+                    password: formData.approverPassword,
+                  }
+                : undefined,
+          },
+        }
+      );
+
+      if (result.ok) {
+        setMessage(
+          isReturn
+            ? "Return recorded successfully! Stock updated."
+            : "Loan converted to a sale successfully!"
+        );
+        closeSettlement();
+        fetchLoans();
+      } else {
+        setError(
+          result.error.message ||
+            `Failed to ${isReturn ? "record return" : "convert loan"}.`
+        );
+        if (!isReturn && APPROVAL_CODES.includes(result.error.code)) {
+          setNeedsApproval(true);
+        }
+      }
+    } catch (err) {
+      console.error("Settlement error:", err);
+      setError("Network error during loan update.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center pb-6 border-b border-gray-200 mb-6">
+        <div>
+          <h1 className="text-3xl font-extrabold text-gray-900">
+            Outstanding Loans
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Stock lent to partners, grouped by partner.
+            {overdueCount > 0 && (
+              <span className="ml-2 font-semibold text-red-600">
+                {overdueCount} overdue
+              </span>
+            )}
+          </p>
+        </div>
+        <div className="flex space-x-3 mt-3 sm:mt-0">
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
+            aria-label="Loan status"
+          >
+            <option value="open">Outstanding</option>
+            <option value="closed">Settled</option>
+            <option value="all">All loans</option>
+          </select>
+          <button
+            onClick={fetchLoans}
+            disabled={loading}
+            className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
+          >
+            {loading ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </button>
+        </div>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      {partnerGroups.length === 0 && (
+        <div className="bg-white rounded-xl shadow-lg p-8 text-center text-gray-500">
+          {loading
+            ? "Loading loans..."
+            : "No loans found. Lend stock from the Inventory page."}
+        </div>
+      )}
+
+      <div className="space-y-6">
+        {partnerGroups.map((group) => (
+          <section
+            key={group.partnerId}
+            className={`bg-white rounded-xl shadow-lg overflow-hidden border-l-4 ${
+              group.overdue > 0 ? "border-red-500" : "border-amber-400"
+            }`}
+          >
+            <div className="flex flex-col sm:flex-row justify-between sm:items-center px-6 py-4 bg-gray-50 border-b border-gray-200">
+              <div>
+                <h2 className="text-lg font-bold text-gray-900">
+                  {group.partnerName}
+                  {group.partnerShop && (
+                    <span className="ml-2 text-sm font-normal text-gray-500">
+                      {group.partnerShop}
+                    </span>
+                  )}
+                </h2>
+                <p className="text-sm text-gray-500">{group.partnerPhone}</p>
+              </div>
+              <div className="flex items-center space-x-3 mt-2 sm:mt-0 text-sm">
+                <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-800 font-semibold">
+                  {group.outstanding} units out
+                </span>
+                {group.overdue > 0 && (
+                  <span className="px-3 py-1 rounded-full bg-red-100 text-red-800 font-semibold flex items-center">
+                    <Clock className="w-4 h-4 mr-1" />
+                    {group.overdue} overdue
+                  </span>
+                )}
+              </div>
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead>
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Product
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Lent
+                    </th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Due
+                    </th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Lent / Returned / Sold
+                    </th>
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Outstanding
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Value Out
+                    </th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Actions
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {group.loans.map((loan) => {
+                    const isOverdue = loan.days_overdue > 0;
+                    return (
+                      <tr
+                        key={loan.id}
+                        className={
+                          isOverdue
+                            ? "bg-red-50 hover:bg-red-100 transition"
+                            : "hover:bg-gray-50 transition"
+                        }
+                      >
+                        <td className="px-6 py-4 whitespace-nowrap">
+                          <div className="text-sm font-medium text-gray-900">
+                            {loan.product_name}
+                          </div>
+                          {loan.product_imei && (
+                            <div className="text-xs text-gray-500">
+                              IMEI: {loan.product_imei}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {formatDate(loan.lent_at)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm">
+                          <span
+                            className={
+                              isOverdue
+                                ? "font-semibold text-red-700"
+                                : "text-gray-700"
+                            }
+                          >
+                            {formatDate(loan.due_date)}
+                          </span>
+                          {isOverdue && (
+                            <div className="text-xs text-red-600">
+                              {loan.days_overdue}{" "}
+                              {loan.days_overdue === 1 ? "day" : "days"} overdue
+                            </div>
+                          )}
+                          {loan.status === "closed" && (
+                            <div className="text-xs text-green-700">
+                              Settled
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                          {loan.quantity} / {loan.returned_quantity} /{" "}
+                          {loan.sold_quantity}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-center">
+                          <span className="px-3 py-1 inline-flex text-sm leading-5 font-bold rounded-full bg-amber-100 text-amber-800">
+                            {loan.outstanding}
+                          </span>
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                          {formatCurrency(loan.outstanding * loan.unit_price)}
+                        </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                          {loan.status === "open" &&
+                            can("transactions:write") && (
+                              <>
+                                <button
+                                  onClick={() => openSettlement(loan, "return")}
+                                  className="text-green-600 hover:text-green-900 p-1 rounded-full hover:bg-green-100 transition"
+                                  title="Record Return"
+                                >
+                                  <Undo2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={() =>
+                                    openSettlement(loan, "convert")
+                                  }
+                                  className="text-red-600 hover:text-red-900 p-1 rounded-full hover:bg-red-100 transition"
+                                  title="Convert to Sale"
+                                >
+                                  <DollarSign className="w-5 h-5" />
+                                </button>
+                              </>
+                            )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        ))}
+      </div>
+
+      {/* Return / Convert Modal */}
+      <Modal
+        isOpen={!!selectedLoan && !!formData}
+        title={
+          formData?.mode === "return" ? "Record Return" : "Convert to Sale"
+        }
+        onClose={closeSettlement}
+      >
+        {selectedLoan && formData && (
+          <form onSubmit={handleSettlement} className="space-y-4">
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200">
+              <h4 className="text-lg font-bold text-gray-900">
+                {selectedLoan.product_name}
+              </h4>
+              <p className="text-sm text-gray-600 mt-1">
+                Lent to {selectedLoan.partner_name} |{" "}
+                <span className="font-semibold">
+                  {selectedLoan.outstanding}
+                </span>{" "}
+                still out
+              </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity
+                </label>
+                <input
+                  type="number"
+                  min={1}
+                  max={selectedLoan.outstanding}
+                  value={formData.quantity}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      quantity: parseInt(e.target.value, 10) || 0,
+                    })
+                  }
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Date
+                </label>
+                <input
+                  type="date"
+                  value={formData.date}
+                  onChange={(e) =>
+                    setFormData({ ...formData, date: e.target.value })
+                  }
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+
+            {formData.mode === "convert" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Unit Sale Price
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={formData.price}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      price: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Total: {formatCurrency(formData.price * formData.quantity)}
+                  {formData.price !== selectedLoan.list_price && (
+                    <span>
+                      {" "}
+                      (list price {formatCurrency(selectedLoan.list_price)}{" "}
+                      each)
+                    </span>
+                  )}
+                </p>
+              </div>
+            )}
+
+            {formData.mode === "convert" &&
+              formData.price !== selectedLoan.list_price && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason for Price Change
+                  </label>
+                  <input
+                    type="text"
+                    required
+                    placeholder="E.g., Agreed when lent, damaged box"
+                    value={formData.discountReason}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        discountReason: e.target.value,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              )}
+
+            {formData.mode === "convert" && needsApproval && (
+              <div className="p-3 border border-amber-300 bg-amber-50 rounded-lg space-y-2">
+                <p className="text-sm font-medium text-amber-800">
+                  Manager Approval
+                </p>
+                <input
+                  type="email"
+                  required
+                  placeholder="Manager email"
+                  autoComplete="off"
+                  value={formData.approverEmail}
+                  onChange={(e) =>
+                    setFormData({ ...formData, approverEmail: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <input
+                  type="password"
+                  required
+                  placeholder="Manager password"
+                  autoComplete="new-password"
+                  value={formData.approverPassword}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      approverPassword: e.target.value,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            )}
+
+            {formData.mode === "convert" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paid Now
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={formData.price * formData.quantity}
+                  step="0.01"
+                  value={formData.amountPaid}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      amountPaid: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  Anything unpaid is added to the partner&apos;s balance.
+                </p>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4">
+              <button
+                type="button"
+                onClick={closeSettlement}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 flex items-center justify-center"
+                disabled={
+                  loading ||
+                  formData.quantity < 1 ||
+                  formData.quantity > selectedLoan.outstanding
+                }
+              >
+                {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+                {formData.mode === "return" ? "Record Return" : "Record Sale"}
+              </button>
+            </div>
+          </form>
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 "use client";
-import React, { useState, useEffect, useCallback, useMemo } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import {
   RefreshCw,
   Plus,
@@ -10,8 +10,27 @@ import {
   Loader,
   User,
   Store,
+  FileText,
+  FileDown,
+  Wallet,
 } from "lucide-react";
+import { format, startOfMonth } from "date-fns";
 import debounce from "@/lib/debounce";
+import { useAuth } from "@/context/auth-context";
+import { useMutate, useQuery } from "@/context/data-context";
+import { apiUrl, optimisticUpdate } from "@/lib/query-client";
+import {
+  DateRangePicker,
+  type DateRange,
+} from "@/components/date-range-picker";
+import { FieldError } from "@/components/field-error";
+import type {
+  FieldErrors,
+  OpenItem,
+  PartnerStatement,
+  PaymentDirection,
+  PaymentMethod,
+} from "@/lib/types";
 
 // --- Type Definitions (Mirroring the API) ---
 
@@ -27,6 +46,9 @@ export type Partner = {
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
+  receivable?: number;
+  payable?: number;
+  balance?: number;
 };
 
 /**
@@ -50,8 +72,31 @@ const initialFormData: PartnerFormData = {
 // Available Partner Types
 const PARTNER_TYPES: Partner["type"][] = ["individual", "shop"];
 
+const PAYMENT_METHODS: PaymentMethod[] = ["cash", "card", "bank", "other"];
+
 // --- Helper Functions ---
 
+/** Formats currency */
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat("en-QA", {
+    style: "currency",
+    currency: "QAR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+/**
+ * Describes a net balance from the shop's point of view. Positive means the
+ * partner owes the shop.
+ */
+const describeBalance = (balance: number) => {
+  if (balance > 0) return { label: "Owes you", className: "text-green-700" };
+  if (balance < 0) return { label: "You owe", className: "text-red-600" };
+  return { label: "Settled", className: "text-gray-500" };
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
 /**
  * Formats a date string into a readable format.
  */
@@ -70,10 +115,12 @@ const usePartnerModal = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [currentPartner, setCurrentPartner] = useState<Partner | null>(null);
   const [formData, setFormData] = useState<PartnerFormData>(initialFormData);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
 
   const openNew = () => {
     setCurrentPartner(null);
     setFormData(initialFormData);
+    setFieldErrors({});
     setIsModalOpen(true);
   };
 
@@ -85,6 +132,7 @@ const usePartnerModal = () => {
       phone: partner.phone,
       shop_name: partner.shop_name || "",
     });
+    setFieldErrors({});
     setIsModalOpen(true);
   };
 
@@ -92,6 +140,7 @@ const usePartnerModal = () => {
     setIsModalOpen(false);
     setCurrentPartner(null);
     setFormData(initialFormData);
+    setFieldErrors({});
   };
 
   return {
@@ -99,6 +148,8 @@ const usePartnerModal = () => {
     currentPartner,
     formData,
     setFormData,
+    fieldErrors,
+    setFieldErrors,
     openNew,
     openEdit,
     closeModal,
@@ -110,6 +161,7 @@ const usePartnerModal = () => {
 interface PartnerFormProps {
   formData: PartnerFormData;
   setFormData: React.Dispatch<React.SetStateAction<PartnerFormData>>;
+  fieldErrors: FieldErrors; // From a rejected save, by field
   handleSave: (e: React.FormEvent<HTMLFormElement>) => Promise<void>;
   loading: boolean;
   currentPartner: Partner | null;
@@ -122,6 +174,7 @@ interface PartnerFormProps {
 const PartnerForm: React.FC<PartnerFormProps> = ({
   formData,
   setFormData,
+  fieldErrors,
   handleSave,
   loading,
   currentPartner,
@@ -151,6 +204,7 @@ const PartnerForm: React.FC<PartnerFormProps> = ({
             </option>
           ))}
         </select>
+        <FieldError errors={fieldErrors} field="type" />
       </div>
 
       <div>
@@ -165,6 +219,7 @@ const PartnerForm: React.FC<PartnerFormProps> = ({
           placeholder="E.g., Jane Doe"
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
         />
+        <FieldError errors={fieldErrors} field="name" />
       </div>
 
       {/* Conditional Shop Name Field */}
@@ -183,6 +238,7 @@ const PartnerForm: React.FC<PartnerFormProps> = ({
             placeholder="E.g., Gear Lending Co."
             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
           />
+          <FieldError errors={fieldErrors} field="shop_name" />
         </div>
       )}
 
@@ -198,6 +254,7 @@ const PartnerForm: React.FC<PartnerFormProps> = ({
           placeholder="(555) 555-5555"
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
         />
+        <FieldError errors={fieldErrors} field="phone" />
       </div>
 
       <div className="flex justify-end space-x-3 pt-4">
@@ -326,9 +383,518 @@ const DeleteConfirmationModal: React.FC<DeleteConfirmationModalProps> = ({
     </div>
   ) : null;
 
+interface PaymentModalProps {
+  partner: Partner;
+  direction: PaymentDirection;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+/**
+ * Records money received from or paid to a partner and lets the user apply it
+ * to the partner's unpaid sales or purchases. Anything left unapplied stays
+ * on the partner's account as credit.
+ */
+const PaymentModal: React.FC<PaymentModalProps> = ({
+  partner,
+  direction: initialDirection,
+  onClose,
+  onSaved,
+}) => {
+  const [direction, setDirection] =
+    useState<PaymentDirection>(initialDirection);
+  const [amount, setAmount] = useState("");
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [date, setDate] = useState(today());
+  const [reference, setReference] = useState("");
+  const [notes, setNotes] = useState("");
+  const [applied, setApplied] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const mutate = useMutate();
+
+  // Payments in settle sales; payments out settle purchases
+  const { data: openItemsData } = useQuery<{ items: OpenItem[] }>(
+    apiUrl("/api/partners/open-items", {
+      id: partner.id,
+      type: direction === "in" ? "sale" : "purchase",
+    })
+  );
+  const openItems = openItemsData?.items ?? [];
+
+  useEffect(() => {
+    setApplied({});
+  }, [partner.id, direction]);
+
+  const totalApplied = openItems.reduce(
+    (sum, item) => sum + (parseFloat(applied[item.transaction_id]) || 0),
+    0
+  );
+
+  /**
+   * Fills the allocation inputs from the amount, oldest items first.
+   */
+  const autoAllocate = () => {
+    let remaining = parseFloat(amount) || 0;
+    const next: Record<string, string> = {};
+    for (const item of openItems) {
+      if (remaining <= 0) break;
+      const portion = Math.min(remaining, item.outstanding);
+      next[item.transaction_id] = portion.toFixed(2);
+      remaining = Math.round((remaining - portion) * 100) / 100;
+    }
+    setApplied(next);
+  };
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      setError("Enter an amount greater than zero.");
+      return;
+    }
+    if (totalApplied > value + 0.001) {
+      setError("The amounts applied exceed the payment.");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      const allocations = openItems
+        .map((item) => ({
+          transactionId: item.transaction_id,
+          amount: parseFloat(applied[item.transaction_id]) || 0,
+        }))
+        .filter((allocation) => allocation.amount > 0);
+
+      const result = await mutate("/api/payments", {
+        method: "POST",
+        body: {
+          partnerId: partner.id,
+          direction,
+          amount: value,
+          method,
+          date: new Date(date).toISOString(),
+          reference: reference.trim() || null,
+          notes: notes.trim() || null,
+          allocations,
+        },
+      });
+      if (result.ok) {
+        onSaved(
+          direction === "in"
+            ? `Payment of ${formatCurrency(value)} received from ${partner.name}.`
+            : `Payment of ${formatCurrency(value)} made to ${partner.name}.`
+        );
+      } else {
+        setError(result.error.message || "Failed to record payment.");
+      }
+    } catch (err) {
+      console.error("Payment error:", err);
+      setError("Network error while recording the payment.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-2xl p-6 sm:p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">
+          Record Payment – {partner.name}
+        </h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        {error && (
+          <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Direction
+              </label>
+              <select
+                value={direction}
+                onChange={(e) =>
+                  setDirection(e.target.value as PaymentDirection)
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              >
+                <option value="in">Received from partner</option>
+                <option value="out">Paid to partner</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Amount (QAR)
+              </label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Method
+              </label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              >
+                {PAYMENT_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {m.charAt(0).toUpperCase() + m.slice(1)}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Date
+              </label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reference
+              </label>
+              <input
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Cheque or transfer number"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Notes
+              </label>
+              <input
+                type="text"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+          </div>
+
+          {/* Allocation to unpaid transactions */}
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-sm font-semibold text-gray-700">
+                Apply to unpaid {direction === "in" ? "sales" : "purchases"}
+              </h3>
+              <button
+                type="button"
+                onClick={autoAllocate}
+                disabled={openItems.length === 0}
+                className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                Auto-allocate oldest first
+              </button>
+            </div>
+            {openItems.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                Nothing is outstanding. The payment will be kept as credit on
+                the partner&apos;s account.
+              </p>
+            ) : (
+              <table className="min-w-full text-sm border rounded-lg">
+                <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Date</th>
+                    <th className="px-3 py-2 text-left">Item</th>
+                    <th className="px-3 py-2 text-right">Outstanding</th>
+                    <th className="px-3 py-2 text-right">Apply</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {openItems.map((item) => (
+                    <tr key={item.transaction_id}>
+                      <td className="px-3 py-2">{formatDate(item.date)}</td>
+                      <td className="px-3 py-2">
+                        {item.quantity} x{" "}
+                        {item.product_name ?? "Deleted product"}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        {formatCurrency(item.outstanding)}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <input
+                          type="number"
+                          min="0"
+                          max={item.outstanding}
+                          step="0.01"
+                          value={applied[item.transaction_id] ?? ""}
+                          onChange={(e) =>
+                            setApplied({
+                              ...applied,
+                              [item.transaction_id]: e.target.value,
+                            })
+                          }
+                          className="w-28 px-2 py-1 border border-gray-300 rounded-md text-right"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {openItems.length > 0 && (
+              <p className="text-xs text-gray-500 mt-2">
+                Applied {formatCurrency(totalApplied)}; anything left over stays
+                on account as credit.
+              </p>
+            )}
+          </div>
+
+          <div className="flex justify-end space-x-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+              disabled={loading}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 flex items-center justify-center"
+              disabled={loading}
+            >
+              {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+              Record Payment
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+interface StatementModalProps {
+  partner: Partner;
+  canRecordPayments: boolean;
+  onClose: () => void;
+  onPaymentSaved: (message: string) => void;
+}
+
+/**
+ * A partner's account statement for a date range: balance brought forward,
+ * each sale, purchase and payment with a running balance, and the closing
+ * balance.
+ */
+const StatementModal: React.FC<StatementModalProps> = ({
+  partner,
+  canRecordPayments,
+  onClose,
+  onPaymentSaved,
+}) => {
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+
+  const { data, error, loading } = useQuery<{ statement: PartnerStatement }>(
+    apiUrl("/api/partners/statement", {
+      id: partner.id,
+      from: range?.from ? format(range.from, "yyyy-MM-dd") : null,
+      to: range?.from ? format(range.to ?? range.from, "yyyy-MM-dd") : null,
+    })
+  );
+  const statement = data?.statement;
+
+  // The same range as shown, for the PDF copy of the statement
+  const pdfParams = new URLSearchParams(
+    range?.from
+      ? {
+          from: format(range.from, "yyyy-MM-dd"),
+          to: format(range.to ?? range.from, "yyyy-MM-dd"),
+        }
+      : {}
+  );
+
+  const closing = statement?.closingBalance ?? 0;
+  const closingStatus = describeBalance(closing);
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-40 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-4xl p-6 sm:p-8 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-1">
+          Statement – {partner.name}
+        </h2>
+        {partner.shop_name && (
+          <p className="text-sm text-gray-500 mb-4">{partner.shop_name}</p>
+        )}
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+          <DateRangePicker value={range} onChange={setRange} />
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={`/api/documents/${encodeURIComponent(partner.id)}/pdf?${pdfParams}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100"
+            >
+              <FileDown className="w-4 h-4 mr-2" />
+              Download PDF
+            </a>
+            {canRecordPayments && (
+              <button
+                onClick={() => setIsPaymentOpen(true)}
+                className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 transition duration-150"
+              >
+                <Wallet className="w-4 h-4 mr-2" />
+                Record Payment
+              </button>
+            )}
+          </div>
+        </div>
+
+        {error && (
+          <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        {loading && !statement ? (
+          <div className="text-center p-10 text-gray-500 flex justify-center items-center">
+            <Loader className="w-6 h-6 mr-2 animate-spin" /> Loading
+            Statement...
+          </div>
+        ) : statement ? (
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="px-3 py-2 text-left">Date</th>
+                <th className="px-3 py-2 text-left">Description</th>
+                <th className="px-3 py-2 text-right">Debit</th>
+                <th className="px-3 py-2 text-right">Credit</th>
+                <th className="px-3 py-2 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              <tr className="bg-gray-50 font-medium">
+                <td className="px-3 py-2" colSpan={4}>
+                  Balance brought forward
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(statement.openingBalance)}
+                </td>
+              </tr>
+              {statement.lines.map((line) => (
+                <tr key={`${line.kind}-${line.reference}`}>
+                  <td className="px-3 py-2 whitespace-nowrap">
+                    {formatDate(line.date)}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className="capitalize text-gray-500 mr-2">
+                      {line.kind.replace("-", " ")}
+                    </span>
+                    {line.description}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {line.debit ? formatCurrency(line.debit) : ""}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {line.credit ? formatCurrency(line.credit) : ""}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {formatCurrency(line.balance)}
+                  </td>
+                </tr>
+              ))}
+              {statement.lines.length === 0 && (
+                <tr>
+                  <td
+                    colSpan={5}
+                    className="px-3 py-6 text-center text-gray-500"
+                  >
+                    No activity in this period.
+                  </td>
+                </tr>
+              )}
+              <tr className="bg-gray-50 font-semibold">
+                <td className="px-3 py-2" colSpan={4}>
+                  Closing balance{" "}
+                  <span className={`ml-2 text-xs ${closingStatus.className}`}>
+                    {closingStatus.label}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-right">
+                  {formatCurrency(closing)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        ) : null}
+        <p className="text-xs text-gray-500 mt-3">
+          Debits are sales and payments made to the partner; credits are
+          purchases and payments received. A positive balance is owed to the
+          shop.
+        </p>
+
+        {isPaymentOpen && (
+          <PaymentModal
+            partner={partner}
+            direction={closing < 0 ? "out" : "in"}
+            onClose={() => setIsPaymentOpen(false)}
+            onSaved={(message) => {
+              setIsPaymentOpen(false);
+              onPaymentSaved(message);
+            }}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
 // --- Main Component ---
 export default function PartnersPage() {
-  const [partners, setPartners] = useState<Partner[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [message, setMessage] = useState("");
@@ -336,16 +902,24 @@ export default function PartnersPage() {
   const [limit, setLimit] = useState(10);
   const [searchQueryText, setSearchQueryText] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [totalPartners, setTotalPartners] = useState(0);
   // State for Delete Confirmation Modal
   const [isDeleteModalOpen, setIsDeleteModalOpen] = useState(false);
   const [partnerToDelete, setPartnerToDelete] = useState<Partner | null>(null);
+  // Partner whose account statement is open
+  const [statementPartner, setStatementPartner] = useState<Partner | null>(
+    null
+  );
+  const { can } = useAuth();
+  const canReadPayments = can("payments:read");
+  const canWritePayments = can("payments:write");
 
   const {
     isModalOpen,
     currentPartner,
     formData,
     setFormData,
+    fieldErrors,
+    setFieldErrors,
     openNew,
     openEdit,
     closeModal,
@@ -368,39 +942,18 @@ export default function PartnersPage() {
     }
   }, [message, error]);
 
-  /**
-   * Fetches all non-deleted partners from the API.
-   */
-  const fetchPartners = useCallback(async () => {
-    setLoading(true);
-    setError("");
-    try {
-      const params = new URLSearchParams({
-        page: page.toString(),
-        limit: limit.toString(),
-        q: searchQuery,
-      });
-      const response = await fetch(`/api/partners?${params}`);
-      const result = await response.json();
-
-      if (response.ok) {
-        setPartners(result.partners);
-        setTotalPartners(result.total);
-      } else {
-        setError(result.message || "Failed to fetch vendors.");
-      }
-    } catch (err) {
-      console.error("Fetch error:", err);
-      setError("Network error or API failure.");
-    } finally {
-      setLoading(false);
-    }
-  }, [page, limit, searchQuery]);
-
-  // Re-fetch when page, limit, or searchQuery changes
-  useEffect(() => {
-    fetchPartners();
-  }, [fetchPartners]);
+  // All non-deleted partners matching the search, one page at a time
+  const {
+    data,
+    error: fetchError,
+    loading: fetching,
+    refetch,
+  } = useQuery<{ partners: Partner[]; total: number }>(
+    apiUrl("/api/partners", { page, limit, q: searchQuery })
+  );
+  const partners = data?.partners ?? [];
+  const totalPartners = data?.total ?? 0;
+  const mutate = useMutate();
 
   /**
    * Handles form submission for both adding and editing partners.
@@ -438,22 +991,20 @@ export default function PartnersPage() {
         shop_name: formData.type === "shop" ? formData.shop_name.trim() : null,
       };
 
-      const response = await fetch(url, {
+      const result = await mutate(url, {
         method: method,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(payload),
+        body: payload,
       });
 
-      const result = await response.json();
-
-      if (response.ok) {
+      if (result.ok) {
         setMessage(`Vendor ${isEditing ? "updated" : "added"} successfully!`);
         closeModal();
-        fetchPartners(); // Refresh the list
       } else {
         setError(
-          result.message || `Failed to ${isEditing ? "update" : "add"} vendor.`
+          result.error.message ||
+            `Failed to ${isEditing ? "update" : "add"} vendor.`
         );
+        setFieldErrors(result.error.fields ?? {});
       }
     } catch (err) {
       console.error("Save error:", err);
@@ -485,16 +1036,25 @@ export default function PartnersPage() {
     setMessage("");
 
     try {
-      const response = await fetch(`/api/partners?id=${id}`, {
+      const result = await mutate(`/api/partners?id=${id}`, {
         method: "DELETE",
+        // Gone from the list before the server answers
+        optimistic: [
+          optimisticUpdate<{ partners: Partner[]; total: number }>(
+            "/api/partners",
+            (cached) => ({
+              ...cached,
+              partners: cached.partners.filter((partner) => partner.id !== id),
+              total: cached.total - 1,
+            })
+          ),
+        ],
       });
-      const result = await response.json();
 
-      if (response.ok) {
+      if (result.ok) {
         setMessage("Vendor soft-deleted successfully.");
-        fetchPartners();
       } else {
-        setError(result.message || "Failed to delete vendor.");
+        setError(result.error.message || "Failed to delete vendor.");
       }
     } catch (err) {
       console.error("Delete error:", err);
@@ -512,11 +1072,11 @@ export default function PartnersPage() {
         </h1>
         <div className="flex space-x-3">
           <button
-            onClick={fetchPartners}
-            disabled={loading}
+            onClick={refetch}
+            disabled={loading || fetching}
             className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
           >
-            {loading ? (
+            {loading || fetching ? (
               <Loader className="w-4 h-4 mr-2 animate-spin" />
             ) : (
               <RefreshCw className="w-4 h-4 mr-2" />
@@ -533,10 +1093,10 @@ export default function PartnersPage() {
         </div>
       </header>
       {/* Notifications */}
-      {error && (
+      {(error || fetchError) && (
         <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
           <AlertTriangle className="w-5 h-5 mr-2" />
-          <strong>Error:</strong> {error}
+          <strong>Error:</strong> {error || fetchError}
         </div>
       )}
       {message && (
@@ -629,7 +1189,7 @@ export default function PartnersPage() {
           </div>
         </div>
       </div>
-      {loading && partners.length === 0 && (
+      {(loading || fetching) && partners.length === 0 && (
         <div className="text-center p-10 text-gray-500 flex justify-center items-center">
           <Loader className="w-6 h-6 mr-2 animate-spin" /> Loading Vendors...
         </div>
@@ -652,6 +1212,11 @@ export default function PartnersPage() {
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Phone
               </th>
+              {canReadPayments && (
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Balance
+                </th>
+              )}
               <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Joined
               </th>
@@ -694,10 +1259,31 @@ export default function PartnersPage() {
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                     {partner.phone}
                   </td>
+                  {canReadPayments && (
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                      <div className="font-medium text-gray-900">
+                        {formatCurrency(Math.abs(partner.balance ?? 0))}
+                      </div>
+                      <div
+                        className={`text-xs ${describeBalance(partner.balance ?? 0).className}`}
+                      >
+                        {describeBalance(partner.balance ?? 0).label}
+                      </div>
+                    </td>
+                  )}
                   <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
                     {formatDate(partner.created_at)}
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                    {canReadPayments && (
+                      <button
+                        onClick={() => setStatementPartner(partner)}
+                        className="text-gray-600 hover:text-gray-900 p-1 rounded-full hover:bg-gray-100 transition"
+                        title="Statement"
+                      >
+                        <FileText className="w-5 h-5" />
+                      </button>
+                    )}
                     <button
                       onClick={() => openEdit(partner)}
                       className="text-blue-600 hover:text-blue-900 p-1 rounded-full hover:bg-blue-100 transition"
@@ -717,7 +1303,10 @@ export default function PartnersPage() {
               ))
             ) : (
               <tr>
-                <td colSpan={6} className="px-6 py-8 text-center text-gray-500">
+                <td
+                  colSpan={canReadPayments ? 7 : 6}
+                  className="px-6 py-8 text-center text-gray-500"
+                >
                   No active vendors found. Add a new vendor to get started!
                 </td>
               </tr>
@@ -745,6 +1334,15 @@ export default function PartnersPage() {
                   {partner.type}
                 </span>
                 <div className="flex space-x-2">
+                  {canReadPayments && (
+                    <button
+                      onClick={() => setStatementPartner(partner)}
+                      className="text-gray-600 hover:text-gray-900 p-1 rounded-full hover:bg-gray-100 transition"
+                      title="Statement"
+                    >
+                      <FileText className="w-4 h-4" />
+                    </button>
+                  )}
                   <button
                     onClick={() => openEdit(partner)}
                     className="text-blue-600 hover:text-blue-900 p-1 rounded-full hover:bg-blue-100 transition"
@@ -772,6 +1370,14 @@ export default function PartnersPage() {
               <p className="text-sm text-gray-600 mb-2">
                 Phone: {partner.phone}
               </p>
+              {canReadPayments && (
+                <p
+                  className={`text-sm mb-2 ${describeBalance(partner.balance ?? 0).className}`}
+                >
+                  {describeBalance(partner.balance ?? 0).label}:{" "}
+                  {formatCurrency(Math.abs(partner.balance ?? 0))}
+                </p>
+              )}
               <p className="text-xs text-gray-500">
                 Joined: {formatDate(partner.created_at)}
               </p>
@@ -813,6 +1419,7 @@ export default function PartnersPage() {
         <PartnerForm
           formData={formData}
           setFormData={setFormData}
+          fieldErrors={fieldErrors}
           handleSave={handleSave}
           loading={loading}
           currentPartner={currentPartner}
@@ -828,6 +1435,16 @@ export default function PartnersPage() {
         loading={loading}
         partnerName={partnerToDelete?.name || "this vendor"}
       />
+
+      {/* Account Statement Modal */}
+      {statementPartner && (
+        <StatementModal
+          partner={statementPartner}
+          canRecordPayments={canWritePayments}
+          onClose={() => setStatementPartner(null)}
+          onPaymentSaved={setMessage}
+        />
+      )}
     </div>
   );
 }
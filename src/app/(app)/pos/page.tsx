@@ -0,0 +1,856 @@
+"use client";
+import React, {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+} from "react";
+import {
+  AlertTriangle,
+  Loader,
+  Minus,
+  Plus,
+  Printer,
+  ScanLine,
+  ShoppingCart,
+  Trash2,
+  X,
+} from "lucide-react";
+import debounce from "@/lib/debounce";
+import { lookupCode, useScanner } from "@/context/scanner-context";
+import { useMutate } from "@/context/data-context";
+import { api } from "@/lib/api-client";
+import {
+  DocumentPdfLinks,
+  InvoiceReceipt,
+  printReceipt,
+} from "@/components/invoice-receipt";
+import type {
+  Discount,
+  ErrorCode,
+  Invoice,
+  Partner,
+  PaymentMethod,
+  Product,
+} from "@/lib/types";
+
+// --- Local Type Definitions ---
+
+type CartLine = {
+  product: Product;
+  quantity: number;
+  price: string; // Unit price rung up; blank charges the list price
+  discountType: Discount["type"];
+  discountValue: string;
+};
+
+type CheckoutFormData = {
+  partnerId: string; // "" for a walk-in customer
+  partyName: string;
+  partyPhone: string;
+  saleDiscountType: Discount["type"];
+  saleDiscountValue: string;
+  amountPaid: string; // Partners only; blank pays the full total
+  paymentMethod: PaymentMethod;
+  discountReason: string;
+  approverEmail: string;
+  approverPassword: string;
+};
+
+const initialCheckoutFormData: CheckoutFormData = {
+  partnerId: "",
+  partyName: "",
+  partyPhone: "",
+  saleDiscountType: "percent",
+  saleDiscountValue: "",
+  amountPaid: "",
+  paymentMethod: "cash",
+  discountReason: "",
+  approverEmail: "",
+  approverPassword: "",
+};
+
+const PAYMENT_METHODS: PaymentMethod[] = ["cash", "card", "bank", "other"];
+
+// Sale errors a manager can clear by approving the sale
+const APPROVAL_CODES: ErrorCode[] = [
+  "DISCOUNT_LIMIT_EXCEEDED",
+  "BELOW_COST",
+  "BELOW_MIN_PRICE",
+];
+
+// --- Helper Functions ---
+
+/** Formats currency */
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat("en-QA", {
+    style: "currency",
+    currency: "QAR",
+  }).format(amount);
+};
+
+/** Returns what is left of `amount` after taking `discount` off it. */
+const applyDiscount = (amount: number, discount: Discount | null): number => {
+  if (!discount) return amount;
+  const off =
+    discount.type === "percent"
+      ? (amount * discount.value) / 100
+      : discount.value;
+  return Math.max(0, Math.round((amount - off) * 100) / 100);
+};
+
+/** Builds a discount from form fields, or null when none is given. */
+const toDiscount = (type: Discount["type"], value: string): Discount | null => {
+  const parsed = parseFloat(value);
+  return parsed > 0 ? { type, value: parsed } : null;
+};
+
+/** The unit price a cart line is rung up at. */
+const unitPrice = (line: CartLine): number =>
+  line.price === "" ? line.product.sell_price : parseFloat(line.price) || 0;
+
+/** A cart line's amount after its own discount, before the sale discount. */
+const lineAmount = (line: CartLine): number =>
+  applyDiscount(
+    unitPrice(line) * line.quantity,
+    toDiscount(line.discountType, line.discountValue)
+  );
+
+// --- Main Component ---
+export default function PosPage() {
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<Product[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [cart, setCart] = useState<CartLine[]>([]);
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [formData, setFormData] = useState<CheckoutFormData>(
+    initialCheckoutFormData
+  );
+  const [needsApproval, setNeedsApproval] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const mutate = useMutate();
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  const [receipt, setReceipt] = useState<Invoice | null>(null);
+  const searchRef = useRef<HTMLInputElement>(null);
+  const printRef = useRef<HTMLDivElement>(null);
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  useEffect(() => {
+    api
+      .get<{ partners: Partner[] }>("/api/partners?limit=1000")
+      .then((result) => setPartners(result.ok ? result.data.partners : []))
+      .catch(() => setPartners([]));
+  }, []);
+
+  /**
+   * Looks up products by name or IMEI.
+   */
+  const fetchResults = useCallback(async (q: string): Promise<Product[]> => {
+    if (!q.trim()) {
+      setResults([]);
+      return [];
+    }
+    setSearching(true);
+    try {
+      const result = await api.get<{ products: Product[] }>(
+        `/api/products?q=${encodeURIComponent(q.trim())}&limit=20`
+      );
+      const found = result.ok ? result.data.products : [];
+      setResults(found);
+      return found;
+    } catch (err) {
+      console.error("Search error:", err);
+      setResults([]);
+      return [];
+    } finally {
+      setSearching(false);
+    }
+  }, []);
+
+  const debouncedFetchResults = useMemo(
+    () => debounce(fetchResults, 300),
+    [fetchResults]
+  );
+
+  /**
+   * Adds one unit of a product to the cart, or one more of a product that is
+   * already in it, without going over the stock on hand.
+   */
+  const addToCart = (product: Product) => {
+    const existing = cart.find((line) => line.product.id === product.id);
+    const inCart = existing?.quantity ?? 0;
+    if (product.stock <= inCart) {
+      setError(
+        product.type === "individual" && existing
+          ? `${product.name} (${product.imei}) is already in the cart.`
+          : `Only ${product.stock} of ${product.name} in stock.`
+      );
+      return;
+    }
+    setCart(
+      existing
+        ? cart.map((line) =>
+            line === existing ? { ...line, quantity: line.quantity + 1 } : line
+          )
+        : [
+            ...cart,
+            {
+              product,
+              quantity: 1,
+              price: "",
+              discountType: "percent",
+              discountValue: "",
+            },
+          ]
+    );
+    setNeedsApproval(false);
+    setSearch("");
+    setResults([]);
+    searchRef.current?.focus();
+  };
+
+  // Scans anywhere on the page ring the product up; creating a product for
+  // an unknown code opens Inventory in a new tab so the cart is kept
+  const { promptUnknown } = useScanner({
+    onProduct: addToCart,
+    onCreate: (code) =>
+      window.open(`/inventory?new=${encodeURIComponent(code)}`, "_blank"),
+  });
+
+  /**
+   * Handles Enter in the search box, which is also where a barcode scanner
+   * types. An exact code, then an exact name or a single result, goes
+   * straight into the cart.
+   */
+  const handleSearchKeyDown = async (
+    e: React.KeyboardEvent<HTMLInputElement>
+  ) => {
+    if (e.key !== "Enter") return;
+    e.preventDefault();
+    const code = search.trim();
+    if (!code) return;
+
+    try {
+      const scanned = await lookupCode(code);
+      if (scanned) {
+        addToCart(scanned);
+        return;
+      }
+    } catch (err) {
+      console.error("Lookup error:", err);
+    }
+
+    const found = await fetchResults(code);
+    const exact =
+      found.find((p) => p.name.toLowerCase() === code.toLowerCase()) ??
+      (found.length === 1 ? found[0] : undefined);
+    if (exact) {
+      addToCart(exact);
+    } else if (found.length === 0) {
+      promptUnknown(code);
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<CartLine>) => {
+    setCart(
+      cart.map((line, i) => (i === index ? { ...line, ...changes } : line))
+    );
+    setNeedsApproval(false);
+  };
+
+  const removeLine = (index: number) => {
+    setCart(cart.filter((_, i) => i !== index));
+    setNeedsApproval(false);
+  };
+
+  const saleDiscount = toDiscount(
+    formData.saleDiscountType,
+    formData.saleDiscountValue
+  );
+  const listTotal = cart.reduce(
+    (sum, line) => sum + line.product.sell_price * line.quantity,
+    0
+  );
+  const subtotal = cart.reduce((sum, line) => sum + lineAmount(line), 0);
+  const total = applyDiscount(subtotal, saleDiscount);
+  const isOverridden =
+    cart.length > 0 && Math.round(total * 100) !== Math.round(listTotal * 100);
+  const belowCost = cart.some(
+    (line) => lineAmount(line) < line.product.cost_price * line.quantity
+  );
+  const salePartner = partners.find((p) => p.id === formData.partnerId);
+
+  /**
+   * Records the cart as one invoice and shows its receipt.
+   */
+  const handleCheckout = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (cart.length === 0) {
+      setError("Add at least one item to the cart.");
+      return;
+    }
+
+    const amountPaid =
+      salePartner && formData.amountPaid !== ""
+        ? parseFloat(formData.amountPaid)
+        : undefined;
+    if (amountPaid !== undefined && (isNaN(amountPaid) || amountPaid < 0)) {
+      setError("Amount paid must be zero or more.");
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    setMessage("");
+    try {
+      // The server checks stock and pricing for every line and records the
+      // invoice, its lines and the payment in a single database transaction.
+      const result = await mutate<{ id: string }>("/api/invoices", {
+        method: "POST",
+        body: {
+          lines: cart.map((line) => ({
+            productId: line.product.id,
+            quantity: line.quantity,
+            price: line.price === "" ? undefined : unitPrice(line),
+            discount: toDiscount(line.discountType, line.discountValue),
+          })),
+          saleDiscount,
+          discountReason: formData.discountReason || undefined,
+          approval: needsApproval
+            ? {
+                email: formData.approverEmail,
+                password: formData.approverPassword,
+              }
+            : undefined,
+          date: new Date().toISOString(),
+          partnerId: salePartner?.id || "CUSTOMER",
+          party: salePartner?.name || formData.partyName || "Walk-in Customer",
+          partyPhone: salePartner?.phone || formData.partyPhone || "",
+          partyShop: salePartner?.shop_name || null,
+          amountPaid,
+          paymentMethod: formData.paymentMethod,
+        },
+      });
+
+      if (!result.ok) {
+        setError(result.error.message || "Failed to record sale.");
+        if (APPROVAL_CODES.includes(result.error.code)) {
+          setNeedsApproval(true);
+        }
+        return;
+      }
+
+      setCart([]);
+      setFormData(initialCheckoutFormData);
+      setNeedsApproval(false);
+      setMessage("Sale recorded successfully! Stock updated.");
+
+      const invoiceResult = await api.get<{ invoice: Invoice }>(
+        `/api/invoices?id=${encodeURIComponent(result.data.id)}`
+      );
+      if (invoiceResult.ok) {
+        setReceipt(invoiceResult.data.invoice);
+      }
+    } catch (err) {
+      console.error("Checkout error:", err);
+      setError("A network error occurred during the sale.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeReceipt = () => {
+    setReceipt(null);
+    searchRef.current?.focus();
+  };
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="pb-6 border-b border-gray-200 mb-6">
+        <h1 className="text-3xl font-extrabold text-gray-900">Point of Sale</h1>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* --- Search / Scan --- */}
+        <section className="lg:col-span-2 bg-white rounded-xl shadow-lg p-6">
+          <label
+            htmlFor="pos-search"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Scan or Search
+          </label>
+          <div className="relative">
+            <ScanLine className="w-5 h-5 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              id="pos-search"
+              ref={searchRef}
+              type="text"
+              autoFocus
+              autoComplete="off"
+              placeholder="Scan an IMEI or type a product name"
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                debouncedFetchResults(e.target.value);
+              }}
+              onKeyDown={handleSearchKeyDown}
+              className="w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <ul className="mt-4 divide-y divide-gray-100">
+            {searching && (
+              <li className="py-3 text-sm text-gray-500 flex items-center">
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+                Searching...
+              </li>
+            )}
+            {!searching &&
+              results.map((product) => (
+                <li
+                  key={product.id}
+                  className="py-3 flex items-center justify-between"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {product.name}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {product.imei ? `IMEI ${product.imei} · ` : ""}
+                      {product.stock} in stock ·{" "}
+                      {formatCurrency(product.sell_price)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => addToCart(product)}
+                    disabled={product.stock <= 0}
+                    className="flex items-center px-3 py-1 text-sm font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add
+                  </button>
+                </li>
+              ))}
+          </ul>
+        </section>
+
+        {/* --- Cart & Checkout --- */}
+        <form
+          onSubmit={handleCheckout}
+          className="lg:col-span-3 bg-white rounded-xl shadow-lg p-6 space-y-4"
+        >
+          <h2 className="text-lg font-semibold text-gray-800 flex items-center">
+            <ShoppingCart className="w-5 h-5 mr-2" />
+            Cart
+          </h2>
+
+          {cart.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              Scan or search for a product to start a sale.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="py-2 pr-2">Item</th>
+                    <th className="py-2 px-2">Qty</th>
+                    <th className="py-2 px-2">Unit Price</th>
+                    <th className="py-2 px-2">Discount</th>
+                    <th className="py-2 px-2 text-right">Amount</th>
+                    <th className="py-2 pl-2" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {cart.map((line, index) => (
+                    <tr key={line.product.id}>
+                      <td className="py-2 pr-2">
+                        <p className="font-medium text-gray-900">
+                          {line.product.name}
+                        </p>
+                        {line.product.imei && (
+                          <p className="text-xs text-gray-500">
+                            IMEI {line.product.imei}
+                          </p>
+                        )}
+                      </td>
+                      <td className="py-2 px-2">
+                        {line.product.type === "individual" ? (
+                          line.quantity
+                        ) : (
+                          <div className="flex items-center space-x-1">
+                            <button
+                              type="button"
+                              onClick={() =>
+                                line.quantity > 1 &&
+                                updateLine(index, {
+                                  quantity: line.quantity - 1,
+                                })
+                              }
+                              className="p-1 text-gray-500 hover:text-gray-800"
+                              aria-label="Decrease quantity"
+                            >
+                              <Minus className="w-3 h-3" />
+                            </button>
+                            <span className="w-6 text-center">
+                              {line.quantity}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => addToCart(line.product)}
+                              className="p-1 text-gray-500 hover:text-gray-800"
+                              aria-label="Increase quantity"
+                            >
+                              <Plus className="w-3 h-3" />
+                            </button>
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2 px-2">
+                        <input
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          placeholder={String(line.product.sell_price)}
+                          value={line.price}
+                          onChange={(e) =>
+                            updateLine(index, { price: e.target.value })
+                          }
+                          className="w-24 px-2 py-1 border border-gray-300 rounded-md"
+                          aria-label={`Unit price for ${line.product.name}`}
+                        />
+                      </td>
+                      <td className="py-2 px-2">
+                        <div className="flex items-center space-x-1">
+                          <input
+                            type="number"
+                            min={0}
+                            step="0.01"
+                            placeholder="0"
+                            value={line.discountValue}
+                            onChange={(e) =>
+                              updateLine(index, {
+                                discountValue: e.target.value,
+                              })
+                            }
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                            aria-label={`Discount for ${line.product.name}`}
+                          />
+                          <select
+                            value={line.discountType}
+                            onChange={(e) =>
+                              updateLine(index, {
+                                discountType: e.target
+                                  .value as Discount["type"],
+                              })
+                            }
+                            className="px-1 py-1 border border-gray-300 rounded-md"
+                          >
+                            <option value="percent">%</option>
+                            <option value="fixed">QAR</option>
+                          </select>
+                        </div>
+                      </td>
+                      <td className="py-2 px-2 text-right font-medium">
+                        {formatCurrency(lineAmount(line))}
+                      </td>
+                      <td className="py-2 pl-2">
+                        <button
+                          type="button"
+                          onClick={() => removeLine(index)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Customer
+              </label>
+              <select
+                value={formData.partnerId}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    partnerId: e.target.value,
+                    amountPaid: "",
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              >
+                <option value="">Walk-in customer</option>
+                {partners.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.shop_name ? ` (${p.shop_name})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {salePartner ? (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Amount Paid Now
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Full amount"
+                  value={formData.amountPaid}
+                  onChange={(e) =>
+                    setFormData({ ...formData, amountPaid: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Name
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="Optional"
+                    value={formData.partyName}
+                    onChange={(e) =>
+                      setFormData({ ...formData, partyName: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Phone
+                  </label>
+                  <input
+                    type="tel"
+                    placeholder="Optional"
+                    value={formData.partyPhone}
+                    onChange={(e) =>
+                      setFormData({ ...formData, partyPhone: e.target.value })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                  />
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Sale Discount
+              </label>
+              <div className="flex space-x-2">
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="0"
+                  value={formData.saleDiscountValue}
+                  onChange={(e) => {
+                    setFormData({
+                      ...formData,
+                      saleDiscountValue: e.target.value,
+                    });
+                    setNeedsApproval(false);
+                  }}
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+                />
+                <select
+                  value={formData.saleDiscountType}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      saleDiscountType: e.target.value as Discount["type"],
+                    })
+                  }
+                  className="px-2 py-2 border border-gray-300 rounded-md shadow-sm"
+                >
+                  <option value="percent">%</option>
+                  <option value="fixed">QAR</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Payment Method
+              </label>
+              <select
+                value={formData.paymentMethod}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    paymentMethod: e.target.value as PaymentMethod,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm capitalize"
+              >
+                {PAYMENT_METHODS.map((m) => (
+                  <option key={m} value={m}>
+                    {m}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {isOverridden && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason for Price Change
+              </label>
+              <input
+                type="text"
+                required
+                placeholder="E.g., Loyal customer, bundle deal"
+                value={formData.discountReason}
+                onChange={(e) =>
+                  setFormData({ ...formData, discountReason: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+          )}
+          {belowCost && (
+            <p className="text-sm text-amber-700">
+              One or more items are below cost; a manager must approve this
+              sale.
+            </p>
+          )}
+          {needsApproval && (
+            <div className="p-3 border border-amber-300 bg-amber-50 rounded-lg space-y-2">
+              <p className="text-sm font-medium text-amber-800">
+                Manager Approval
+              </p>
+              <input
+                type="email"
+                required
+                placeholder="Manager email"
+                autoComplete="off"
+                value={formData.approverEmail}
+                onChange={(e) =>
+                  setFormData({ ...formData, approverEmail: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+              <input
+                type="password"
+                required
+                placeholder="Manager password"
+                autoComplete="new-password"
+                value={formData.approverPassword}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    approverPassword: e.target.value,
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm"
+              />
+            </div>
+          )}
+
+          {/* Totals */}
+          <div className="border-t pt-4 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">List total</span>
+              <span>{formatCurrency(listTotal)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-600">Discount</span>
+              <span className="text-red-500">
+                {formatCurrency(Math.max(0, listTotal - total))}
+              </span>
+            </div>
+            <div className="flex justify-between items-center pt-2">
+              <span className="text-gray-500">Total</span>
+              <span className="text-2xl font-bold text-green-600">
+                {formatCurrency(total)}
+              </span>
+            </div>
+          </div>
+
+          <button
+            type="submit"
+            disabled={loading || cart.length === 0}
+            className="w-full flex items-center justify-center py-3 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700 disabled:opacity-50"
+          >
+            {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            Complete Sale
+          </button>
+        </form>
+      </div>
+
+      {/* --- Receipt --- */}
+      {receipt && (
+        <div
+          className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+          onClick={closeReceipt}
+        >
+          <div
+            className="bg-white rounded-xl shadow-2xl w-full max-w-md relative flex flex-col max-h-[90vh]"
+            onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+          >
+            <button
+              onClick={closeReceipt}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-6 h-6" />
+            </button>
+            <div className="overflow-y-auto">
+              <InvoiceReceipt ref={printRef} invoice={receipt} />
+            </div>
+            <div className="border-t border-gray-100 p-4 space-y-2">
+              <DocumentPdfLinks documentId={receipt.id} />
+              <button
+                onClick={() =>
+                  printRef.current &&
+                  printReceipt(printRef.current, "Sales Invoice")
+                }
+                className="w-full flex items-center justify-center py-2 rounded-lg bg-green-600 text-white font-medium hover:bg-green-700"
+              >
+                <Printer className="w-4 h-4 mr-2" />
+                Print Receipt
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
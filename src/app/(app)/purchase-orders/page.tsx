@@ -0,0 +1,1121 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  Plus,
+  RefreshCw,
+  X,
+  AlertTriangle,
+  Loader,
+  Eye,
+  Send,
+  PackageCheck,
+  Lock,
+  Edit,
+  Trash2,
+} from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { useMutate } from "@/context/data-context";
+import { LabelDialog, type LabelItem } from "@/components/label-dialog";
+import { api } from "@/lib/api-client";
+import type {
+  Partner,
+  Product,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+} from "@/lib/types";
+
+// --- Local Type Definitions ---
+
+type OrderLineForm = {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+};
+
+type OrderFormData = {
+  partnerId: string;
+  expectedDate: string;
+  notes: string;
+  lines: OrderLineForm[];
+};
+
+const initialOrderFormData: OrderFormData = {
+  partnerId: "",
+  expectedDate: "",
+  notes: "",
+  lines: [],
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially Received",
+  received: "Received",
+  closed: "Closed",
+};
+
+// --- Helper Functions ---
+
+/** Formats currency */
+const formatCurrency = (amount: number): string => {
+  return new Intl.NumberFormat("en-QA", {
+    style: "currency",
+    currency: "QAR",
+    minimumFractionDigits: 2,
+  }).format(amount);
+};
+
+/**
+ * Formats a date string into a readable format.
+ */
+const formatDate = (dateString: string | null): string => {
+  if (!dateString) return "—";
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+/** Short, human-friendly order reference */
+const orderNumber = (id: string) => `PO-${id.slice(0, 8).toUpperCase()}`;
+
+/**
+ * Determines the Tailwind CSS classes for the order status badge.
+ */
+const getStatusStyle = (status: PurchaseOrderStatus) => {
+  switch (status) {
+    case "draft":
+      return "bg-gray-100 text-gray-800";
+    case "sent":
+      return "bg-blue-100 text-blue-800";
+    case "partially_received":
+      return "bg-amber-100 text-amber-800";
+    case "received":
+      return "bg-green-100 text-green-800";
+    case "closed":
+      return "bg-purple-100 text-purple-800";
+  }
+};
+
+const today = () => new Date().toISOString().substring(0, 10);
+
+// --- Extracted Components ---
+
+interface ModalProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  title: string;
+  onClose: () => void;
+  wide?: boolean;
+}
+
+/**
+ * Extracted Modal component for general use.
+ */
+const Modal: React.FC<ModalProps> = ({
+  children,
+  isOpen,
+  title,
+  onClose,
+  wide,
+}) =>
+  isOpen ? (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className={`bg-white rounded-xl shadow-2xl w-full ${
+          wide ? "max-w-3xl" : "max-w-lg"
+        } max-h-[90vh] overflow-y-auto p-6 sm:p-8 relative`}
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{title}</h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+        {children}
+      </div>
+    </div>
+  ) : null;
+
+// --- Main Component ---
+export default function PurchaseOrdersPage() {
+  const { can } = useAuth();
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [vendors, setVendors] = useState<Partner[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [statusFilter, setStatusFilter] = useState<PurchaseOrderStatus | "">(
+    ""
+  );
+  const [loading, setLoading] = useState(false);
+  const mutate = useMutate();
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  // Order form (create / edit draft)
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingOrderId, setEditingOrderId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<OrderFormData>(initialOrderFormData);
+
+  // Order detail and goods receipt
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(
+    null
+  );
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [receiptDate, setReceiptDate] = useState(today());
+  const [amountPaid, setAmountPaid] = useState(0); // Paid to the vendor on delivery
+  const [receivedQuantities, setReceivedQuantities] = useState<
+    Record<string, number>
+  >({});
+  // Labels offered for the goods just received
+  const [labelItems, setLabelItems] = useState<LabelItem[] | null>(null);
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  /**
+   * Fetches purchase orders matching the status filter.
+   */
+  const fetchOrders = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const query = statusFilter ? `?status=${statusFilter}` : "";
+      const result = await api.get<{ orders: PurchaseOrder[] }>(
+        `/api/purchase-orders${query}`
+      );
+
+      if (result.ok) {
+        setOrders(result.data.orders);
+      } else {
+        setError(result.error.message || "Failed to fetch purchase orders.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  /**
+   * Fetches vendors (shop partners) and products for the order form.
+   */
+  const fetchCatalogue = useCallback(async () => {
+    try {
+      const [partnersResult, productsResult] = await Promise.all([
+        api.get<{ partners: Partner[] }>("/api/partners?limit=1000"),
+        api.get<{ products: Product[] }>("/api/products?limit=1000"),
+      ]);
+      if (partnersResult.ok) {
+        setVendors(
+          partnersResult.data.partners.filter((p) => p.type === "shop")
+        );
+      }
+      if (productsResult.ok) {
+        setProducts(productsResult.data.products);
+      }
+    } catch (err) {
+      console.error("Catalogue fetch error:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Only people who raise orders need the vendor and product lists
+  const canWriteOrders = can("purchase-orders:write");
+  useEffect(() => {
+    if (canWriteOrders) fetchCatalogue();
+  }, [canWriteOrders, fetchCatalogue]);
+
+  /**
+   * Loads one order with its lines into the detail modal.
+   */
+  const openOrder = async (orderId: string) => {
+    setLoading(true);
+    try {
+      const result = await api.get<{ order: PurchaseOrder }>(
+        `/api/purchase-orders?id=${orderId}`
+      );
+      if (result.ok) {
+        setSelectedOrder(result.data.order);
+        setIsReceiving(false);
+      } else {
+        setError(result.error.message || "Failed to load purchase order.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const closeOrder = () => {
+    setSelectedOrder(null);
+    setIsReceiving(false);
+  };
+
+  // -------------------------
+  // Order Form Logic
+  // -------------------------
+
+  const openCreateForm = () => {
+    setEditingOrderId(null);
+    setFormData({
+      ...initialOrderFormData,
+      partnerId: vendors[0]?.id || "",
+      lines: [],
+    });
+    setIsFormOpen(true);
+  };
+
+  const openEditForm = (order: PurchaseOrder) => {
+    setEditingOrderId(order.id);
+    setFormData({
+      partnerId: order.partner_id,
+      expectedDate: order.expected_date || "",
+      notes: order.notes || "",
+      lines: (order.lines || []).map((line) => ({
+        productId: line.product_id,
+        quantity: line.quantity,
+        unitCost: line.unit_cost,
+      })),
+    });
+    closeOrder();
+    setIsFormOpen(true);
+  };
+
+  const addLine = () => {
+    const used = new Set(formData.lines.map((line) => line.productId));
+    const product = products.find((p) => !used.has(p.id));
+    if (!product) return;
+    setFormData({
+      ...formData,
+      lines: [
+        ...formData.lines,
+        { productId: product.id, quantity: 1, unitCost: product.cost_price },
+      ],
+    });
+  };
+
+  const updateLine = (index: number, patch: Partial<OrderLineForm>) => {
+    setFormData({
+      ...formData,
+      lines: formData.lines.map((line, i) =>
+        i === index ? { ...line, ...patch } : line
+      ),
+    });
+  };
+
+  const removeLine = (index: number) => {
+    setFormData({
+      ...formData,
+      lines: formData.lines.filter((_, i) => i !== index),
+    });
+  };
+
+  const orderTotal = formData.lines.reduce(
+    (sum, line) => sum + line.quantity * line.unitCost,
+    0
+  );
+
+  /**
+   * Creates a draft order or saves changes to one.
+   */
+  const handleOrderSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+
+    const isEditing = !!editingOrderId;
+    try {
+      const result = await mutate(
+        isEditing
+          ? `/api/purchase-orders?id=${editingOrderId}`
+          : "/api/purchase-orders",
+        {
+          method: isEditing ? "PUT" : "POST",
+          body: {
+            ...formData,
+            expectedDate: formData.expectedDate || null,
+          },
+        }
+      );
+
+      if (result.ok) {
+        setMessage(
+          `Purchase order ${isEditing ? "updated" : "created"} successfully.`
+        );
+        setIsFormOpen(false);
+        fetchOrders();
+      } else {
+        setError(
+          result.error.message ||
+            `Failed to ${isEditing ? "update" : "create"} purchase order.`
+        );
+      }
+    } catch (err) {
+      console.error("Save error:", err);
+      setError("Network error during purchase order save.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // -------------------------
+  // Status Changes & Receipts
+  // -------------------------
+
+  /**
+   * Sends, closes or deletes the selected order.
+   */
+  const handleOrderAction = async (action: "send" | "close" | "delete") => {
+    if (!selectedOrder) return;
+    if (
+      action === "delete" &&
+      !window.confirm("Delete this draft purchase order?")
+    ) {
+      return;
+    }
+
+    setLoading(true);
+    setError("");
+    try {
+      const result =
+        action === "delete"
+          ? await mutate(`/api/purchase-orders?id=${selectedOrder.id}`, {
+              method: "DELETE",
+            })
+          : await mutate(
+              `/api/purchase-orders/${action}?id=${selectedOrder.id}`,
+              { method: "POST" }
+            );
+
+      if (result.ok) {
+        setMessage(result.message || "Purchase order updated.");
+        if (action === "delete") {
+          closeOrder();
+        } else {
+          openOrder(selectedOrder.id);
+        }
+        fetchOrders();
+      } else {
+        setError(result.error.message || "Failed to update purchase order.");
+      }
+    } catch (err) {
+      console.error("Order action error:", err);
+      setError("Network error during purchase order update.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const startReceiving = () => {
+    if (!selectedOrder) return;
+    // Default to receiving everything still expected
+    setReceivedQuantities(
+      Object.fromEntries(
+        (selectedOrder.lines || []).map((line) => [line.id, line.backordered])
+      )
+    );
+    setReceiptDate(today());
+    setAmountPaid(0);
+    setIsReceiving(true);
+  };
+
+  /**
+   * Books in the received quantities against the selected order.
+   */
+  const handleReceive = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selectedOrder) return;
+
+    setLoading(true);
+    setError("");
+    try {
+      const result = await mutate(
+        `/api/purchase-orders/receive?id=${selectedOrder.id}`,
+        {
+          method: "POST",
+          body: {
+            date: new Date(receiptDate).toISOString(),
+            amountPaid: amountPaid || undefined,
+            lines: Object.entries(receivedQuantities).map(
+              ([lineId, quantity]) => ({ lineId, quantity })
+            ),
+          },
+        }
+      );
+
+      if (result.ok) {
+        setMessage(result.message || "Goods received.");
+        const received = (selectedOrder.lines || []).filter(
+          (line) => (receivedQuantities[line.id] ?? 0) > 0
+        );
+        if (received.length > 0) {
+          setLabelItems(
+            received.map((line) => ({
+              productId: line.product_id,
+              name: line.product_name,
+              copies: receivedQuantities[line.id],
+            }))
+          );
+        }
+        openOrder(selectedOrder.id);
+        fetchOrders();
+      } else {
+        setError(result.error.message || "Failed to receive goods.");
+      }
+    } catch (err) {
+      console.error("Receipt error:", err);
+      setError("Network error during goods receipt.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const receivingAnything = Object.values(receivedQuantities).some(
+    (quantity) => quantity > 0
+  );
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center pb-6 border-b border-gray-200 mb-6">
+        <div>
+          <h1 className="text-3xl font-extrabold text-gray-900">
+            Purchase Orders
+          </h1>
+          <p className="text-gray-500 mt-1">
+            Stock ordered from vendors, expected and received.
+          </p>
+        </div>
+        <div className="flex space-x-3 mt-3 sm:mt-0">
+          <select
+            value={statusFilter}
+            onChange={(e) =>
+              setStatusFilter(e.target.value as PurchaseOrderStatus | "")
+            }
+            className="px-3 py-2 border border-gray-300 rounded-lg shadow-sm text-sm"
+            aria-label="Order status"
+          >
+            <option value="">All statuses</option>
+            {Object.entries(STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={fetchOrders}
+            disabled={loading}
+            className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
+          >
+            {loading ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </button>
+          {canWriteOrders && (
+            <button
+              onClick={openCreateForm}
+              className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              New Purchase Order
+            </button>
+          )}
+        </div>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Order
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Vendor
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Status
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Expected
+              </th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Ordered / Received
+              </th>
+              <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Backorder
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Total
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {orders.length === 0 && (
+              <tr>
+                <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? "Loading orders..." : "No purchase orders found."}
+                </td>
+              </tr>
+            )}
+            {orders.map((order) => (
+              <tr key={order.id} className="hover:bg-gray-50 transition">
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">
+                    {orderNumber(order.id)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(order.created_at)}
+                  </div>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                  {order.partner_shop || order.partner_name}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span
+                    className={`px-3 py-1 inline-flex text-xs leading-5 font-semibold rounded-full ${getStatusStyle(
+                      order.status
+                    )}`}
+                  >
+                    {STATUS_LABELS[order.status]}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                  {formatDate(order.expected_date)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-center text-sm text-gray-700">
+                  {order.ordered_quantity} / {order.received_quantity}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-center">
+                  {order.backordered > 0 ? (
+                    <span className="px-3 py-1 inline-flex text-sm leading-5 font-bold rounded-full bg-amber-100 text-amber-800">
+                      {order.backordered}
+                    </span>
+                  ) : (
+                    <span className="text-sm text-gray-400">—</span>
+                  )}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm text-gray-900">
+                  {formatCurrency(order.total_cost)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                  <button
+                    onClick={() => openOrder(order.id)}
+                    className="text-blue-600 hover:text-blue-900 p-1 rounded-full hover:bg-blue-100 transition"
+                    title="View Order"
+                  >
+                    <Eye className="w-5 h-5" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Order Detail / Receipt Modal */}
+      <Modal
+        isOpen={!!selectedOrder}
+        title={
+          selectedOrder
+            ? `${isReceiving ? "Receive Goods" : "Purchase Order"} ${orderNumber(
+                selectedOrder.id
+              )}`
+            : ""
+        }
+        onClose={closeOrder}
+        wide
+      >
+        {selectedOrder && (
+          <form onSubmit={handleReceive} className="space-y-4">
+            <div className="p-4 bg-gray-50 rounded-lg border border-gray-200 grid grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="text-gray-500">Vendor: </span>
+                <span className="font-semibold text-gray-900">
+                  {selectedOrder.partner_shop || selectedOrder.partner_name}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Status: </span>
+                <span
+                  className={`px-2 py-0.5 text-xs font-semibold rounded-full ${getStatusStyle(
+                    selectedOrder.status
+                  )}`}
+                >
+                  {STATUS_LABELS[selectedOrder.status]}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-500">Expected: </span>
+                {formatDate(selectedOrder.expected_date)}
+              </div>
+              <div>
+                <span className="text-gray-500">Sent: </span>
+                {formatDate(selectedOrder.sent_at)}
+              </div>
+              {selectedOrder.notes && (
+                <div className="col-span-2 text-gray-700">
+                  {selectedOrder.notes}
+                </div>
+              )}
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium text-right">
+                      Unit Cost
+                    </th>
+                    <th className="py-2 pr-4 font-medium text-center">
+                      Expected
+                    </th>
+                    <th className="py-2 pr-4 font-medium text-center">
+                      Received
+                    </th>
+                    <th className="py-2 pr-4 font-medium text-center">
+                      Backorder
+                    </th>
+                    {isReceiving ? (
+                      <th className="py-2 font-medium text-center">
+                        Receiving Now
+                      </th>
+                    ) : (
+                      <th className="py-2 font-medium text-right">
+                        Line Total
+                      </th>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {(selectedOrder.lines || []).map((line) => (
+                    <tr key={line.id}>
+                      <td className="py-2 pr-4 text-gray-900">
+                        {line.product_name}
+                      </td>
+                      <td className="py-2 pr-4 text-right">
+                        {formatCurrency(line.unit_cost)}
+                      </td>
+                      <td className="py-2 pr-4 text-center">{line.quantity}</td>
+                      <td className="py-2 pr-4 text-center">
+                        {line.received_quantity}
+                      </td>
+                      <td
+                        className={`py-2 pr-4 text-center ${
+                          line.backordered > 0
+                            ? "font-semibold text-amber-700"
+                            : "text-gray-400"
+                        }`}
+                      >
+                        {line.backordered}
+                      </td>
+                      {isReceiving ? (
+                        <td className="py-2 text-center">
+                          <input
+                            type="number"
+                            min={0}
+                            max={line.backordered}
+                            value={receivedQuantities[line.id] ?? 0}
+                            onChange={(e) =>
+                              setReceivedQuantities({
+                                ...receivedQuantities,
+                                [line.id]: parseInt(e.target.value, 10) || 0,
+                              })
+                            }
+                            disabled={line.backordered === 0}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-center"
+                          />
+                        </td>
+                      ) : (
+                        <td className="py-2 text-right">
+                          {formatCurrency(line.quantity * line.unit_cost)}
+                        </td>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="font-semibold text-gray-900">
+                    <td className="py-2 pr-4">Total</td>
+                    <td />
+                    <td className="py-2 pr-4 text-center">
+                      {selectedOrder.ordered_quantity}
+                    </td>
+                    <td className="py-2 pr-4 text-center">
+                      {selectedOrder.received_quantity}
+                    </td>
+                    <td className="py-2 pr-4 text-center">
+                      {selectedOrder.backordered}
+                    </td>
+                    <td className="py-2 text-right">
+                      {!isReceiving && formatCurrency(selectedOrder.total_cost)}
+                    </td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+
+            {isReceiving ? (
+              <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3 pt-4">
+                <div className="flex gap-3">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Received On
+                    </label>
+                    <input
+                      type="date"
+                      value={receiptDate}
+                      onChange={(e) => setReceiptDate(e.target.value)}
+                      required
+                      className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Paid on Delivery
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={amountPaid}
+                      onChange={(e) =>
+                        setAmountPaid(parseFloat(e.target.value) || 0)
+                      }
+                      className="w-36 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex space-x-3">
+                  <button
+                    type="button"
+                    onClick={() => setIsReceiving(false)}
+                    className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+                    disabled={loading}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 transition duration-150 flex items-center justify-center disabled:opacity-50"
+                    disabled={loading || !receivingAnything}
+                  >
+                    {loading && (
+                      <Loader className="w-4 h-4 mr-2 animate-spin" />
+                    )}
+                    Confirm Receipt
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-wrap justify-end gap-3 pt-4">
+                {selectedOrder.status === "draft" && canWriteOrders && (
+                  <>
+                    <button
+                      type="button"
+                      onClick={() => handleOrderAction("delete")}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-red-700 bg-red-100 rounded-lg hover:bg-red-200 transition duration-150"
+                      disabled={loading}
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => openEditForm(selectedOrder)}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+                      disabled={loading}
+                    >
+                      <Edit className="w-4 h-4 mr-2" />
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleOrderAction("send")}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150"
+                      disabled={loading}
+                    >
+                      <Send className="w-4 h-4 mr-2" />
+                      Mark as Sent
+                    </button>
+                  </>
+                )}
+                {["sent", "partially_received", "received"].includes(
+                  selectedOrder.status
+                ) &&
+                  canWriteOrders && (
+                    <button
+                      type="button"
+                      onClick={() => handleOrderAction("close")}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+                      disabled={loading}
+                      title={
+                        selectedOrder.backordered > 0
+                          ? "Closing cancels the remaining backorder"
+                          : undefined
+                      }
+                    >
+                      <Lock className="w-4 h-4 mr-2" />
+                      Close Order
+                    </button>
+                  )}
+                {["sent", "partially_received"].includes(
+                  selectedOrder.status
+                ) &&
+                  can("purchase-orders:receive") && (
+                    <button
+                      type="button"
+                      onClick={startReceiving}
+                      className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 transition duration-150"
+                      disabled={loading}
+                    >
+                      <PackageCheck className="w-4 h-4 mr-2" />
+                      Receive Goods
+                    </button>
+                  )}
+              </div>
+            )}
+          </form>
+        )}
+      </Modal>
+
+      {/* Create / Edit Order Modal */}
+      <Modal
+        isOpen={isFormOpen}
+        title={editingOrderId ? "Edit Purchase Order" : "New Purchase Order"}
+        onClose={() => setIsFormOpen(false)}
+        wide
+      >
+        <form onSubmit={handleOrderSave} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vendor
+              </label>
+              <select
+                value={formData.partnerId}
+                onChange={(e) =>
+                  setFormData({ ...formData, partnerId: e.target.value })
+                }
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="" disabled>
+                  Select a vendor
+                </option>
+                {vendors.map((vendor) => (
+                  <option key={vendor.id} value={vendor.id}>
+                    {vendor.shop_name || vendor.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Expected Delivery
+              </label>
+              <input
+                type="date"
+                value={formData.expectedDate}
+                onChange={(e) =>
+                  setFormData({ ...formData, expectedDate: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Lines
+              </label>
+              <button
+                type="button"
+                onClick={addLine}
+                disabled={formData.lines.length >= products.length}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add Line
+              </button>
+            </div>
+            {formData.lines.length === 0 && (
+              <p className="text-sm text-gray-500">No lines yet.</p>
+            )}
+            <div className="space-y-2">
+              {formData.lines.map((line, index) => {
+                const product = products.find((p) => p.id === line.productId);
+                const isIndividual = product?.type === "individual";
+                return (
+                  <div
+                    key={index}
+                    className="grid grid-cols-12 gap-2 items-center"
+                  >
+                    <select
+                      value={line.productId}
+                      onChange={(e) => {
+                        const next = products.find(
+                          (p) => p.id === e.target.value
+                        );
+                        updateLine(index, {
+                          productId: e.target.value,
+                          unitCost: next?.cost_price ?? line.unitCost,
+                          quantity:
+                            next?.type === "individual" ? 1 : line.quantity,
+                        });
+                      }}
+                      className="col-span-6 px-3 py-2 border border-gray-300 rounded-md shadow-sm bg-white text-sm"
+                      aria-label="Product"
+                    >
+                      {products.map((p) => (
+                        <option
+                          key={p.id}
+                          value={p.id}
+                          disabled={
+                            p.id !== line.productId &&
+                            formData.lines.some((l) => l.productId === p.id)
+                          }
+                        >
+                          {p.name}
+                          {p.imei ? ` (${p.imei})` : ""}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      type="number"
+                      min={1}
+                      value={line.quantity}
+                      onChange={(e) =>
+                        updateLine(index, {
+                          quantity: parseInt(e.target.value, 10) || 0,
+                        })
+                      }
+                      disabled={isIndividual}
+                      required
+                      className="col-span-2 px-2 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+                      aria-label="Quantity"
+                      title={
+                        isIndividual ? "IMEI-tracked: one unit" : undefined
+                      }
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={line.unitCost}
+                      onChange={(e) =>
+                        updateLine(index, {
+                          unitCost: parseFloat(e.target.value) || 0,
+                        })
+                      }
+                      required
+                      className="col-span-3 px-2 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+                      aria-label="Unit cost"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeLine(index)}
+                      className="col-span-1 text-red-600 hover:text-red-900 p-1 rounded-full hover:bg-red-100 transition justify-self-center"
+                      title="Remove Line"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Notes
+            </label>
+            <textarea
+              value={formData.notes}
+              onChange={(e) =>
+                setFormData({ ...formData, notes: e.target.value })
+              }
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div className="flex justify-between items-center pt-4">
+            <p className="text-sm text-gray-700">
+              Total:{" "}
+              <span className="font-bold">{formatCurrency(orderTotal)}</span>
+            </p>
+            <div className="flex space-x-3">
+              <button
+                type="button"
+                onClick={() => setIsFormOpen(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+                disabled={loading}
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 flex items-center justify-center disabled:opacity-50"
+                disabled={
+                  loading || !formData.partnerId || formData.lines.length === 0
+                }
+              >
+                {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+                {editingOrderId ? "Save Draft" : "Create Draft"}
+              </button>
+            </div>
+          </div>
+        </form>
+      </Modal>
+
+      {labelItems && (
+        <LabelDialog
+          items={labelItems}
+          title="Print Labels for Received Goods"
+          onClose={() => setLabelItems(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+"use client";
+
+import React, { Fragment, useEffect, useState } from "react";
+import { ChevronDown, ChevronRight, Download } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { api } from "@/lib/api-client";
+import type { AgingBucket, AgingReport, AgingSide } from "@/lib/types";
+
+const BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1-30": "1–30 days",
+  "31-60": "31–60 days",
+  "61-90": "61–90 days",
+  "90+": "90+ days",
+};
+
+const BUCKETS = Object.keys(BUCKET_LABELS) as AgingBucket[];
+
+const SIDE_LABELS: Record<AgingSide, string> = {
+  receivable: "Customers owe us",
+  payable: "We owe vendors",
+};
+
+/** Formats a money amount, leaving zero cells blank for readability. */
+const formatAmount = (amount: number): string =>
+  amount ? amount.toFixed(2) : "—";
+
+/**
+ * Formats a date string into a readable format.
+ */
+const formatDate = (dateString: string): string => {
+  return new Date(dateString).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+const AgingPage = () => {
+  const [side, setSide] = useState<AgingSide>("receivable");
+  const [asOf, setAsOf] = useState(new Date().toISOString().slice(0, 10));
+  const [report, setReport] = useState<AgingReport | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    const fetchReport = async () => {
+      const params = new URLSearchParams({ side, asOf });
+      try {
+        const result = await api.get<AgingReport>(
+          `/api/reports/aging?${params}`
+        );
+        if (result.ok) {
+          setReport(result.data);
+          setError("");
+        } else {
+          setError(result.error.message || "Failed to load aging report.");
+        }
+      } catch {
+        setError("Network error or API failure.");
+      }
+    };
+    setExpanded(null);
+    fetchReport();
+  }, [side, asOf]);
+
+  const csvUrl = (detail: boolean) =>
+    `/api/reports/aging?${new URLSearchParams({
+      side,
+      asOf,
+      format: "csv",
+      ...(detail ? { detail: "true" } : {}),
+    })}`;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Aging Report</h1>
+          <p className="text-sm text-gray-500">
+            Unpaid balances by how long ago the sale or purchase was made.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={side}
+            onChange={(e) => setSide(e.target.value as AgingSide)}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            aria-label="Receivables or payables"
+          >
+            {Object.entries(SIDE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={asOf}
+            onChange={(e) => e.target.value && setAsOf(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            aria-label="As of"
+          />
+          <a
+            href={csvUrl(false)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-100"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            CSV
+          </a>
+          <a
+            href={csvUrl(true)}
+            className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md shadow-sm hover:bg-gray-100"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Detail CSV
+          </a>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-100 text-red-700">{error}</div>
+      )}
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-6 gap-4">
+        {BUCKETS.map((bucket) => (
+          <Card key={bucket}>
+            <CardContent className="p-4">
+              <h2 className="text-sm font-semibold text-gray-600">
+                {BUCKET_LABELS[bucket]}
+              </h2>
+              <p
+                className={`text-xl font-bold ${
+                  bucket === "current"
+                    ? "text-gray-900"
+                    : bucket === "90+"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                }`}
+              >
+                {(report?.totals[bucket] ?? 0).toFixed(2)} QAR
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent className="p-4">
+            <h2 className="text-sm font-semibold text-gray-600">Total</h2>
+            <p className="text-xl font-bold text-blue-600">
+              {(report?.totals.total ?? 0).toFixed(2)} QAR
+            </p>
+            {!!report?.totals.unappliedCredit && (
+              <p className="text-xs text-gray-500">
+                Less {report.totals.unappliedCredit.toFixed(2)} QAR unapplied
+                credit
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Per-partner buckets with drill-down */}
+      <Card>
+        <CardContent className="p-4 space-y-2">
+          <h2 className="text-lg font-semibold">By partner</h2>
+          {!report || report.rows.length === 0 ? (
+            <p className="text-gray-500">Nothing is outstanding.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Partner</th>
+                    {BUCKETS.map((bucket) => (
+                      <th
+                        key={bucket}
+                        className="py-2 pr-4 font-medium text-right"
+                      >
+                        {BUCKET_LABELS[bucket]}
+                      </th>
+                    ))}
+                    <th className="py-2 pr-4 font-medium text-right">Total</th>
+                    <th className="py-2 font-medium text-right">
+                      Unapplied Credit
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.rows.map((row) => {
+                    const key = row.partnerId ?? "walk-in";
+                    const isOpen = expanded === key;
+                    return (
+                      <Fragment key={key}>
+                        <tr
+                          className="cursor-pointer hover:bg-gray-50"
+                          onClick={() => setExpanded(isOpen ? null : key)}
+                        >
+                          <td className="py-2 pr-4">
+                            <span className="flex items-center">
+                              {isOpen ? (
+                                <ChevronDown className="w-4 h-4 mr-1" />
+                              ) : (
+                                <ChevronRight className="w-4 h-4 mr-1" />
+                              )}
+                              <span>
+                                {row.partnerName}
+                                {row.partnerShop && (
+                                  <span className="text-gray-500">
+                                    {" "}
+                                    ({row.partnerShop})
+                                  </span>
+                                )}
+                              </span>
+                            </span>
+                          </td>
+                          {BUCKETS.map((bucket) => (
+                            <td key={bucket} className="py-2 pr-4 text-right">
+                              {formatAmount(row.buckets[bucket])}
+                            </td>
+                          ))}
+                          <td className="py-2 pr-4 text-right font-medium">
+                            {row.total.toFixed(2)} QAR
+                          </td>
+                          <td className="py-2 text-right text-gray-500">
+                            {formatAmount(row.unappliedCredit)}
+                          </td>
+                        </tr>
+                        {isOpen && (
+                          <tr>
+                            <td colSpan={BUCKETS.length + 3} className="pb-4">
+                              {row.items.length === 0 ? (
+                                <p className="pl-6 py-2 text-gray-500">
+                                  No unpaid transactions; the balance is
+                                  unapplied credit.
+                                </p>
+                              ) : (
+                                <table className="ml-6 mt-1 text-xs bg-gray-50 rounded-md">
+                                  <thead>
+                                    <tr className="text-left text-gray-500">
+                                      <th className="px-3 py-1 font-medium">
+                                        Date
+                                      </th>
+                                      <th className="px-3 py-1 font-medium">
+                                        Item
+                                      </th>
+                                      <th className="px-3 py-1 font-medium text-right">
+                                        Total
+                                      </th>
+                                      <th className="px-3 py-1 font-medium text-right">
+                                        Paid
+                                      </th>
+                                      <th className="px-3 py-1 font-medium text-right">
+                                        Outstanding
+                                      </th>
+                                      <th className="px-3 py-1 font-medium text-right">
+                                        Age
+                                      </th>
+                                    </tr>
+                                  </thead>
+                                  <tbody>
+                                    {row.items.map((item) => (
+                                      <tr key={item.transaction_id}>
+                                        <td className="px-3 py-1">
+                                          {formatDate(item.date)}
+                                        </td>
+                                        <td className="px-3 py-1">
+                                          {item.quantity} x{" "}
+                                          {item.product_name ??
+                                            "Deleted product"}
+                                        </td>
+                                        <td className="px-3 py-1 text-right">
+                                          {item.total.toFixed(2)}
+                                        </td>
+                                        <td className="px-3 py-1 text-right">
+                                          {item.paid.toFixed(2)}
+                                        </td>
+                                        <td className="px-3 py-1 text-right font-medium">
+                                          {item.outstanding.toFixed(2)}
+                                        </td>
+                                        <td className="px-3 py-1 text-right">
+                                          {item.age_days} d
+                                        </td>
+                                      </tr>
+                                    ))}
+                                  </tbody>
+                                </table>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AgingPage;
@@ -1,8 +1,7 @@
 "use client";
 
-import React, { useEffect, useState } from "react";
+import React, { useState } from "react";
 import { Card, CardContent } from "@/components/ui/card";
-import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   BarChart,
   Bar,
@@ -10,108 +9,106 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
-import { format, startOfWeek, startOfMonth } from "date-fns";
+import { format, startOfMonth } from "date-fns";
+import {
+  DateRangePicker,
+  type DateRange,
+} from "@/components/date-range-picker";
+import { useQuery } from "@/context/data-context";
+import { apiUrl } from "@/lib/query-client";
+import type { Report, ReportGranularity, ReportGroupBy } from "@/lib/types";
 
-type Transaction = {
-  id: string;
-  type: "purchase" | "sale" | "lend-out" | "return";
-  totalAmount: number;
-  date: string;
+const GRANULARITY_LABELS: Record<ReportGranularity, string> = {
+  day: "Daily",
+  week: "Weekly",
+  month: "Monthly",
+  quarter: "Quarterly",
+  year: "Yearly",
 };
 
-type Expense = {
-  id: string;
-  amount: number;
-  date: string;
-  category: string;
+const GROUP_BY_LABELS: Record<ReportGroupBy, string> = {
+  category: "Sales by category",
+  product: "Sales by product",
+  partner: "Sales by partner",
+  "transaction-type": "Transactions by type",
+  "expense-category": "Expenses by category",
 };
 
 const ReportsPage = () => {
-  const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [activeTab, setActiveTab] = useState<"week" | "month" | "all">("week");
-
-  const parseDate = (dateStr: string) => new Date(dateStr.replace(" ", "T"));
-
-  // ✅ Fetch all transactions (we’ll filter both sales & purchases)
-  useEffect(() => {
-    const fetchTransactions = async () => {
-      const res = await fetch("/api/transactions");
-      const json = await res.json();
-      setTransactions(json.transactions || []);
-    };
-    fetchTransactions();
-  }, []);
-
-  // ✅ Fetch expenses
-  useEffect(() => {
-    const fetchExpenses = async () => {
-      const res = await fetch("/api/expenses");
-      const json = await res.json();
-      if (json.success) {
-        setExpenses(json.data.expenses || []);
-      }
-    };
-    fetchExpenses();
-  }, []);
-
-  // ✅ Filter by active tab
-  const filterByTab = <T extends { date: string }>(data: T[]) => {
-    const now = new Date();
-    const weekStart = startOfWeek(now, { weekStartsOn: 1 });
-    const monthStart = startOfMonth(now);
-
-    if (activeTab === "week") {
-      return data.filter((d) => parseDate(d.date) >= weekStart);
-    }
-    if (activeTab === "month") {
-      return data.filter((d) => parseDate(d.date) >= monthStart);
-    }
-    return data;
-  };
-
-  // ✅ Separate filtered sales and purchases
-  const filteredSales = filterByTab(
-    transactions.filter((t) => t.type === "sale")
-  );
-  const filteredPurchases = filterByTab(
-    transactions.filter((t) => t.type === "purchase")
-  );
-  const filteredExpenses = filterByTab(expenses);
+  const [range, setRange] = useState<DateRange | undefined>({
+    from: startOfMonth(new Date()),
+    to: new Date(),
+  });
+  const [granularity, setGranularity] = useState<ReportGranularity>("day");
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>("category");
 
-  // ✅ Totals
-  const totalSales = filteredSales.reduce((sum, t) => sum + t.totalAmount, 0);
-  const totalPurchases = filteredPurchases.reduce(
-    (sum, t) => sum + t.totalAmount,
-    0
+  // All aggregation happens server-side over the full dataset
+  const { data: report, error } = useQuery<Report>(
+    apiUrl("/api/reports", {
+      granularity,
+      groupBy,
+      from: range?.from ? format(range.from, "yyyy-MM-dd") : null,
+      to: range?.from ? format(range.to ?? range.from, "yyyy-MM-dd") : null,
+    })
   );
-  const totalExpenses = filteredExpenses.reduce((sum, e) => sum + e.amount, 0);
-  const totalProfit = totalSales - (totalExpenses + totalPurchases);
+  const summary = report?.summary;
+  const series = report?.series ?? [];
+  const groups = report?.groups ?? [];
+  const tax = report?.tax;
 
-  // ✅ Chart data (updated)
-  const chartData = [
-    { name: "Sales", amount: totalSales },
-    { name: "Purchases", amount: totalPurchases },
-    { name: "Expenses", amount: totalExpenses },
-  ];
+  const totalSales = summary?.sales ?? 0;
+  const costOfGoodsSold = summary?.costOfGoodsSold ?? 0;
+  const grossProfit = summary?.grossProfit ?? 0;
+  const totalExpenses = summary?.expenses ?? 0;
+  const netProfit = summary?.netProfit ?? 0;
+  const showsProfit = groupBy !== "expense-category";
 
   return (
     <div className="p-6 space-y-6">
-      <h1 className="text-2xl font-bold">Reports</h1>
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <h1 className="text-2xl font-bold">Reports</h1>
 
-      {/* Tabs */}
-      <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)}>
-        <TabsList>
-          <TabsTrigger value="week">This Week</TabsTrigger>
-          <TabsTrigger value="month">This Month</TabsTrigger>
-          <TabsTrigger value="all">All Time</TabsTrigger>
-        </TabsList>
-      </Tabs>
+        {/* Filters */}
+        <div className="flex flex-wrap gap-3">
+          <DateRangePicker value={range} onChange={setRange} />
+          <select
+            value={granularity}
+            onChange={(e) =>
+              setGranularity(e.target.value as ReportGranularity)
+            }
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            aria-label="Granularity"
+          >
+            {Object.entries(GRANULARITY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as ReportGroupBy)}
+            className="px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+            aria-label="Group by"
+          >
+            {Object.entries(GROUP_BY_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-100 text-red-700">{error}</div>
+      )}
 
       {/* Totals */}
-      <div className="grid grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
         <Card>
           <CardContent className="p-4">
             <h2 className="text-lg font-semibold">Total Sales</h2>
@@ -123,9 +120,34 @@ const ReportsPage = () => {
 
         <Card>
           <CardContent className="p-4">
-            <h2 className="text-lg font-semibold">Total Purchases</h2>
+            <h2 className="text-lg font-semibold">Cost of Goods Sold</h2>
             <p className="text-xl font-bold text-blue-600">
-              {totalPurchases.toFixed(2)} QAR
+              {costOfGoodsSold.toFixed(2)} QAR
+            </p>
+            <p className="text-xs text-gray-500">
+              {summary?.costingMethod === "weighted-average"
+                ? "Weighted average"
+                : "FIFO"}{" "}
+              costing
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <h2 className="text-lg font-semibold">Gross Profit</h2>
+            <p
+              className={`text-xl font-bold ${
+                grossProfit >= 0 ? "text-green-700" : "text-red-700"
+              }`}
+            >
+              {grossProfit.toFixed(2)} QAR
+            </p>
+            <p className="text-xs text-gray-500">
+              Margin{" "}
+              {summary?.grossMargin != null
+                ? `${summary.grossMargin.toFixed(1)}%`
+                : "—"}
             </p>
           </CardContent>
         </Card>
@@ -141,13 +163,16 @@ const ReportsPage = () => {
 
         <Card>
           <CardContent className="p-4">
-            <h2 className="text-lg font-semibold">Total Profit</h2>
+            <h2 className="text-lg font-semibold">Net Profit</h2>
             <p
               className={`text-xl font-bold ${
-                totalProfit >= 0 ? "text-green-700" : "text-red-700"
+                netProfit >= 0 ? "text-green-700" : "text-red-700"
               }`}
             >
-              {totalProfit.toFixed(2)} QAR
+              {netProfit.toFixed(2)} QAR
+            </p>
+            <p className="text-xs text-gray-500">
+              Stock bought: {(summary?.purchases ?? 0).toFixed(2)} QAR
             </p>
           </CardContent>
         </Card>
@@ -157,42 +182,206 @@ const ReportsPage = () => {
       <Card>
         <CardContent className="p-4">
           <h2 className="text-lg font-semibold mb-4">
-            Sales, Purchases & Expenses
+            {GRANULARITY_LABELS[granularity]} Sales, Profit & Expenses
           </h2>
-          <ResponsiveContainer width="100%" height={300}>
-            <BarChart data={chartData}>
-              <CartesianGrid strokeDasharray="3 3" />
-              <XAxis dataKey="name" />
-              <YAxis />
-              <Tooltip
-                formatter={(value: number) => `${value.toFixed(2)} QAR`}
-              />
-              <Bar dataKey="amount" fill="#8884d8" />
-            </BarChart>
-          </ResponsiveContainer>
+          {series.length === 0 ? (
+            <p className="text-gray-500">No activity in this period.</p>
+          ) : (
+            <ResponsiveContainer width="100%" height={300}>
+              <BarChart data={series}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="period" />
+                <YAxis />
+                <Tooltip
+                  formatter={(value: number) => `${value.toFixed(2)} QAR`}
+                />
+                <Legend />
+                <Bar dataKey="sales" name="Sales" fill="#16a34a" />
+                <Bar dataKey="grossProfit" name="Gross Profit" fill="#8884d8" />
+                <Bar dataKey="expenses" name="Expenses" fill="#dc2626" />
+              </BarChart>
+            </ResponsiveContainer>
+          )}
         </CardContent>
       </Card>
 
-      {/* Transactions List (Sales Only) */}
+      {/* Breakdown */}
       <Card>
         <CardContent className="p-4 space-y-2">
-          <h2 className="text-lg font-semibold">Sales Transactions</h2>
-          {filteredSales.length === 0 ? (
-            <p className="text-gray-500">No sales found.</p>
+          <h2 className="text-lg font-semibold">{GROUP_BY_LABELS[groupBy]}</h2>
+          {groups.length === 0 ? (
+            <p className="text-gray-500">Nothing recorded in this period.</p>
           ) : (
-            <ul className="divide-y">
-              {filteredSales.map((t) => (
-                <li key={t.id} className="py-2 flex justify-between">
-                  <span>{format(parseDate(t.date), "dd MMM yyyy")}</span>
-                  <span className="font-medium text-green-600">
-                    {t.totalAmount.toFixed(2)} QAR
-                  </span>
-                </li>
-              ))}
-            </ul>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Name</th>
+                    <th className="py-2 pr-4 font-medium text-right">Count</th>
+                    {showsProfit && (
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Units
+                      </th>
+                    )}
+                    <th className="py-2 pr-4 font-medium text-right">Amount</th>
+                    {showsProfit && (
+                      <>
+                        <th className="py-2 pr-4 font-medium text-right">
+                          Cost of Goods
+                        </th>
+                        <th className="py-2 pr-4 font-medium text-right">
+                          Gross Profit
+                        </th>
+                        <th className="py-2 font-medium text-right">Margin</th>
+                      </>
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {groups.map((g) => (
+                    <tr key={g.key}>
+                      <td className="py-2 pr-4 capitalize">{g.label}</td>
+                      <td className="py-2 pr-4 text-right">{g.count}</td>
+                      {showsProfit && (
+                        <td className="py-2 pr-4 text-right">{g.quantity}</td>
+                      )}
+                      <td className="py-2 pr-4 text-right font-medium">
+                        {g.amount.toFixed(2)} QAR
+                      </td>
+                      {showsProfit && (
+                        <>
+                          <td className="py-2 pr-4 text-right">
+                            {g.costOfGoodsSold != null
+                              ? `${g.costOfGoodsSold.toFixed(2)} QAR`
+                              : "—"}
+                          </td>
+                          <td
+                            className={`py-2 pr-4 text-right ${
+                              (g.grossProfit ?? 0) >= 0
+                                ? "text-green-700"
+                                : "text-red-700"
+                            }`}
+                          >
+                            {g.grossProfit != null
+                              ? `${g.grossProfit.toFixed(2)} QAR`
+                              : "—"}
+                          </td>
+                          <td className="py-2 text-right">
+                            {g.grossProfit != null && g.amount > 0
+                              ? `${((g.grossProfit / g.amount) * 100).toFixed(1)}%`
+                              : "—"}
+                          </td>
+                        </>
+                      )}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
           )}
         </CardContent>
       </Card>
+
+      {/* Tax */}
+      {tax && (
+        <Card>
+          <CardContent className="p-4 space-y-4">
+            <div className="flex flex-wrap justify-between items-baseline gap-2">
+              <h2 className="text-lg font-semibold">Tax</h2>
+              <p
+                className={`text-lg font-bold ${
+                  tax.netTax > 0 ? "text-red-700" : "text-green-700"
+                }`}
+              >
+                {tax.netTax >= 0
+                  ? `Tax owed: ${tax.netTax.toFixed(2)} QAR`
+                  : `Tax reclaimable: ${(-tax.netTax).toFixed(2)} QAR`}
+              </p>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium"></th>
+                    <th className="py-2 pr-4 font-medium text-right">Net</th>
+                    <th className="py-2 pr-4 font-medium text-right">Tax</th>
+                    <th className="py-2 font-medium text-right">Gross</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {[
+                    { label: "Output tax (sales)", totals: tax.output },
+                    {
+                      label: "Input tax (purchases)",
+                      totals: tax.input.purchases,
+                    },
+                    {
+                      label: "Input tax (expenses)",
+                      totals: tax.input.expenses,
+                    },
+                  ].map(({ label, totals }) => (
+                    <tr key={label}>
+                      <td className="py-2 pr-4">{label}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {totals.net.toFixed(2)} QAR
+                      </td>
+                      <td className="py-2 pr-4 text-right font-medium">
+                        {totals.tax.toFixed(2)} QAR
+                      </td>
+                      <td className="py-2 text-right">
+                        {totals.gross.toFixed(2)} QAR
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {tax.byRate.length > 0 && (
+              <div className="overflow-x-auto">
+                <h3 className="text-sm font-semibold text-gray-700 mb-1">
+                  By rate
+                </h3>
+                <table className="min-w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Rate</th>
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Sales (net)
+                      </th>
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Output Tax
+                      </th>
+                      <th className="py-2 pr-4 font-medium text-right">
+                        Purchases & Expenses (net)
+                      </th>
+                      <th className="py-2 font-medium text-right">Input Tax</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {tax.byRate.map((row) => (
+                      <tr key={row.rate}>
+                        <td className="py-2 pr-4">{row.rate}%</td>
+                        <td className="py-2 pr-4 text-right">
+                          {row.outputNet.toFixed(2)} QAR
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {row.outputTax.toFixed(2)} QAR
+                        </td>
+                        <td className="py-2 pr-4 text-right">
+                          {row.inputNet.toFixed(2)} QAR
+                        </td>
+                        <td className="py-2 text-right">
+                          {row.inputTax.toFixed(2)} QAR
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -0,0 +1,602 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import { AlertTriangle, Loader, Plus, Save, Trash2 } from "lucide-react";
+import type {
+  CostingMethod,
+  DocumentType,
+  NumberingSequence,
+  Product,
+  Role,
+  ShopSettings,
+} from "@/lib/types";
+import { ROLES } from "@/lib/permissions";
+import { api } from "@/lib/api-client";
+
+// --- Local Type Definitions ---
+
+const COSTING_OPTIONS: {
+  value: CostingMethod;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "fifo",
+    label: "FIFO (first in, first out)",
+    description:
+      "Each sale uses the cost of the oldest stock still on hand. Profit follows the actual order stock was bought in.",
+  },
+  {
+    value: "weighted-average",
+    label: "Weighted average",
+    description:
+      "Each sale uses the average cost of all units on hand, recalculated after every purchase. Smooths out price changes.",
+  },
+];
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  cashier: "Cashier",
+};
+
+const DOCUMENT_LABELS: Record<DocumentType, string> = {
+  sale: "Sales invoices",
+  purchase: "Purchases",
+  return: "Returns",
+  expense: "Expense vouchers",
+};
+
+/**
+ * An example of the next number a sequence format would produce.
+ */
+const previewNumber = (sequence: NumberingSequence): string =>
+  [
+    sequence.prefix,
+    sequence.yearlyReset ? String(new Date().getFullYear()) : null,
+    "1".padStart(sequence.padding, "0"),
+  ]
+    .filter(Boolean)
+    .join("-");
+
+// Matches the limit enforced by PUT /api/settings
+const MAX_LOGO_BYTES = 200 * 1024;
+
+// --- Main Component ---
+export default function SettingsPage() {
+  const [settings, setSettings] = useState<ShopSettings | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+  // Categories in use, suggested when adding a tax override
+  const [categories, setCategories] = useState<string[]>([]);
+  const [newCategory, setNewCategory] = useState("");
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  /**
+   * Fetches the current shop settings.
+   */
+  const fetchSettings = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const result = await api.get<{ settings: ShopSettings }>("/api/settings");
+
+      if (result.ok) {
+        setSettings(result.data.settings);
+      } else {
+        setError(result.error.message || "Failed to fetch settings.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSettings();
+    api
+      .get<{ products: Product[] }>("/api/products?limit=1000")
+      .then((result) =>
+        setCategories(
+          result.ok
+            ? Array.from(
+                new Set(result.data.products.map((p) => p.category))
+              ).sort()
+            : []
+        )
+      )
+      .catch(() => setCategories([]));
+  }, [fetchSettings]);
+
+  /**
+   * Sets or removes (rate null) the tax override for a category.
+   */
+  const setCategoryRate = (category: string, rate: number | null) => {
+    if (!settings) return;
+    const categoryTaxRates = { ...settings.categoryTaxRates };
+    if (rate === null) {
+      delete categoryTaxRates[category];
+    } else {
+      categoryTaxRates[category] = rate;
+    }
+    setSettings({ ...settings, categoryTaxRates });
+  };
+
+  /**
+   * Reads a chosen logo image into a data URL kept with the settings.
+   */
+  const handleLogoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !settings) return;
+    if (!["image/png", "image/jpeg"].includes(file.type)) {
+      setError("The logo must be a PNG or JPEG image.");
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setError("The logo must be 200 KB or smaller.");
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = () =>
+      setSettings({ ...settings, shopLogo: reader.result as string });
+    reader.readAsDataURL(file);
+  };
+
+  /**
+   * Saves the edited settings.
+   */
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!settings) return;
+
+    setLoading(true);
+    setError("");
+    setMessage("");
+    try {
+      const result = await api.put<{ settings: ShopSettings }>(
+        "/api/settings",
+        settings
+      );
+
+      if (result.ok) {
+        setSettings(result.data.settings);
+        setMessage("Settings saved successfully!");
+      } else {
+        setError(result.error.message || "Failed to save settings.");
+      }
+    } catch (err) {
+      console.error("Save error:", err);
+      setError("Network error during save operation.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="pb-6 border-b border-gray-200 mb-6">
+        <h1 className="text-3xl font-extrabold text-gray-900">Settings</h1>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      {settings ? (
+        <form onSubmit={handleSave} className="space-y-6 max-w-2xl">
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-1">
+              Shop Details
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Printed at the top and bottom of PDF invoices, receipts and
+              statements. Changes apply to every document printed afterwards,
+              including reprints of old ones.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Shop Name
+                </label>
+                <input
+                  type="text"
+                  maxLength={100}
+                  value={settings.shopName}
+                  onChange={(e) =>
+                    setSettings({ ...settings, shopName: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Address
+                </label>
+                <textarea
+                  rows={3}
+                  maxLength={500}
+                  value={settings.shopAddress}
+                  onChange={(e) =>
+                    setSettings({ ...settings, shopAddress: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Logo (PNG or JPEG, up to 200 KB)
+                </label>
+                <div className="flex items-center gap-4">
+                  {settings.shopLogo && (
+                    <img
+                      src={settings.shopLogo}
+                      alt="Shop logo"
+                      className="h-12 max-w-[160px] object-contain border border-gray-200 rounded"
+                    />
+                  )}
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={handleLogoChange}
+                    className="text-sm text-gray-700"
+                  />
+                  {settings.shopLogo && (
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setSettings({ ...settings, shopLogo: null })
+                      }
+                      className="text-red-600 hover:text-red-800 p-1"
+                      title="Remove logo"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Document Footer
+                </label>
+                <textarea
+                  rows={2}
+                  maxLength={500}
+                  value={settings.documentFooter}
+                  onChange={(e) =>
+                    setSettings({ ...settings, documentFooter: e.target.value })
+                  }
+                  placeholder="e.g. Thank you for your business."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-1">
+              Inventory Costing
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              How the cost of goods sold is calculated for gross profit.
+              Products sold by IMEI are always costed at the exact price paid
+              for that unit.
+            </p>
+            <div className="space-y-3">
+              {COSTING_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`flex items-start p-3 border rounded-lg cursor-pointer ${
+                    settings.costingMethod === option.value
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="costingMethod"
+                    value={option.value}
+                    checked={settings.costingMethod === option.value}
+                    onChange={() =>
+                      setSettings({ ...settings, costingMethod: option.value })
+                    }
+                    className="mt-1 mr-3"
+                  />
+                  <span>
+                    <span className="block text-sm font-medium text-gray-900">
+                      {option.label}
+                    </span>
+                    <span className="block text-xs text-gray-500">
+                      {option.description}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-1">Tax</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              Applied to sales, purchases and expenses recorded from now on.
+              Products marked tax exempt are never taxed.
+            </p>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Default Rate (%)
+                </label>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  value={settings.taxRate}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      taxRate: parseFloat(e.target.value) || 0,
+                    })
+                  }
+                  className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                />
+              </div>
+
+              <label className="flex items-start">
+                <input
+                  type="checkbox"
+                  checked={settings.pricesIncludeTax}
+                  onChange={(e) =>
+                    setSettings({
+                      ...settings,
+                      pricesIncludeTax: e.target.checked,
+                    })
+                  }
+                  className="mt-1 mr-3"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-gray-900">
+                    Prices include tax
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    When ticked, prices and amounts entered are gross and the
+                    tax is worked out of them. Otherwise tax is added on top.
+                  </span>
+                </span>
+              </label>
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  Category Overrides
+                </h3>
+                {Object.keys(settings.categoryTaxRates).length === 0 && (
+                  <p className="text-xs text-gray-500 mb-2">
+                    Every category uses the default rate.
+                  </p>
+                )}
+                <div className="space-y-2">
+                  {Object.entries(settings.categoryTaxRates).map(
+                    ([category, rate]) => (
+                      <div key={category} className="flex items-center gap-3">
+                        <span className="flex-1 text-sm text-gray-800 truncate">
+                          {category}
+                        </span>
+                        <input
+                          type="number"
+                          min={0}
+                          max={100}
+                          step="0.01"
+                          value={rate}
+                          onChange={(e) =>
+                            setCategoryRate(
+                              category,
+                              parseFloat(e.target.value) || 0
+                            )
+                          }
+                          className="w-24 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                          aria-label={`Tax rate for ${category}`}
+                        />
+                        <button
+                          type="button"
+                          onClick={() => setCategoryRate(category, null)}
+                          className="text-red-600 hover:text-red-800 p-1"
+                          title="Remove override"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )
+                  )}
+                </div>
+                <div className="flex items-center gap-3 mt-3">
+                  <input
+                    type="text"
+                    list="tax-categories"
+                    value={newCategory}
+                    onChange={(e) => setNewCategory(e.target.value)}
+                    placeholder="Category"
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm"
+                  />
+                  <datalist id="tax-categories">
+                    {categories.map((category) => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      const category = newCategory.trim();
+                      if (!category) return;
+                      setCategoryRate(
+                        category,
+                        settings.categoryTaxRates[category] ?? settings.taxRate
+                      );
+                      setNewCategory("");
+                    }}
+                    className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100"
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Add Override
+                  </button>
+                </div>
+              </div>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-1">
+              Discount Limits
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              The largest discount off the list price each role may give on a
+              sale without approval. Going further, or selling below cost, needs
+              a manager or owner to approve the sale.
+            </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              {ROLES.map((role) => (
+                <div key={role}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {ROLE_LABELS[role]} (%)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.1"
+                    value={settings.maxDiscountPercent[role]}
+                    onChange={(e) =>
+                      setSettings({
+                        ...settings,
+                        maxDiscountPercent: {
+                          ...settings.maxDiscountPercent,
+                          [role]: parseFloat(e.target.value) || 0,
+                        },
+                      })
+                    }
+                    className="w-32 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl shadow-lg p-6">
+            <h2 className="text-lg font-semibold text-gray-800 mb-1">
+              Document Numbering
+            </h2>
+            <p className="text-sm text-gray-500 mb-4">
+              How receipts, invoices and vouchers are numbered. Each document
+              type counts up from its own sequence and needs a prefix of its
+              own; with yearly reset the year is part of the number and counting
+              starts again at 1 each year.
+            </p>
+            <div className="space-y-3">
+              {(Object.keys(DOCUMENT_LABELS) as DocumentType[]).map((type) => {
+                const sequence = settings.documentNumbering[type];
+                const setSequence = (changes: Partial<NumberingSequence>) =>
+                  setSettings({
+                    ...settings,
+                    documentNumbering: {
+                      ...settings.documentNumbering,
+                      [type]: { ...sequence, ...changes },
+                    },
+                  });
+                return (
+                  <div
+                    key={type}
+                    className="grid grid-cols-2 sm:grid-cols-5 gap-3 items-center"
+                  >
+                    <span className="text-sm font-medium text-gray-700">
+                      {DOCUMENT_LABELS[type]}
+                    </span>
+                    <input
+                      type="text"
+                      maxLength={10}
+                      value={sequence.prefix}
+                      onChange={(e) =>
+                        setSequence({
+                          prefix: e.target.value
+                            .replace(/[^A-Za-z0-9]/g, "")
+                            .toUpperCase(),
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label={`Prefix for ${DOCUMENT_LABELS[type]}`}
+                    />
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={sequence.padding}
+                      onChange={(e) =>
+                        setSequence({
+                          padding: parseInt(e.target.value, 10) || 1,
+                        })
+                      }
+                      className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                      aria-label={`Digits for ${DOCUMENT_LABELS[type]}`}
+                    />
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={sequence.yearlyReset}
+                        onChange={(e) =>
+                          setSequence({ yearlyReset: e.target.checked })
+                        }
+                        className="mr-2"
+                      />
+                      Yearly reset
+                    </label>
+                    <span className="text-sm font-mono text-gray-500">
+                      {previewNumber(sequence)}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 disabled:opacity-50"
+              disabled={loading}
+            >
+              {loading ? (
+                <Loader className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="w-4 h-4 mr-2" />
+              )}
+              Save Settings
+            </button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-gray-500">
+          {loading ? "Loading settings..." : "Settings unavailable."}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,544 @@
+"use client";
+import React, { useState, useEffect, useCallback } from "react";
+import {
+  RefreshCw,
+  Plus,
+  Edit2,
+  UserX,
+  X,
+  AlertTriangle,
+  Loader,
+} from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { ROLES } from "@/lib/permissions";
+import type { FieldErrors, Role, User } from "@/lib/types";
+import { FieldError } from "@/components/field-error";
+import { api, apiRequest } from "@/lib/api-client";
+
+// --- Local Type Definitions ---
+
+/**
+ * Defines the structure of data used in the User form. The password is
+ * required for new users and optional (reset only) when editing.
+ */
+type UserFormData = {
+  email: string;
+  name: string;
+  role: Role;
+  password: string;
+};
+
+// Initial state for the form
+const initialFormData: UserFormData = {
+  email: "",
+  name: "",
+  role: "cashier",
+  password: "",
+};
+
+// Short description of what each role may do, shown in the form
+const ROLE_DESCRIPTIONS: Record<Role, string> = {
+  owner: "Full access, including user management.",
+  manager: "Everything except user management and system settings.",
+  cashier:
+    "Sales and stock. Cannot delete products, change prices or see reports.",
+};
+
+const ROLE_BADGES: Record<Role, string> = {
+  owner: "bg-purple-100 text-purple-800",
+  manager: "bg-blue-100 text-blue-800",
+  cashier: "bg-gray-100 text-gray-800",
+};
+
+// --- Helper Functions ---
+
+/**
+ * Formats a date string into a readable format.
+ */
+const formatDate = (dateString: string): string => {
+  return new Date(dateString.replace(" ", "T")).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "short",
+    day: "numeric",
+  });
+};
+
+// --- Extracted Components ---
+
+interface UserFormProps {
+  formData: UserFormData;
+  setFormData: React.Dispatch<React.SetStateAction<UserFormData>>;
+  fieldErrors: FieldErrors; // From a rejected save, by field
+  handleSave: (e: React.FormEvent<HTMLFormElement>) => Promise<void>;
+  loading: boolean;
+  currentUser: User | null;
+  closeModal: () => void;
+}
+
+/**
+ * Form for creating a user or changing an existing user's name and role.
+ */
+const UserForm: React.FC<UserFormProps> = ({
+  formData,
+  setFormData,
+  fieldErrors,
+  handleSave,
+  loading,
+  currentUser,
+  closeModal,
+}) => {
+  const isEditing = !!currentUser;
+  return (
+    <form onSubmit={handleSave} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Email
+        </label>
+        <input
+          type="email"
+          value={formData.email}
+          onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+          required
+          disabled={isEditing} // Email is the login and cannot be changed
+          placeholder="name@example.com"
+          className={`w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm ${
+            isEditing
+              ? "bg-gray-100 cursor-not-allowed"
+              : "focus:ring-blue-500 focus:border-blue-500"
+          }`}
+        />
+        <FieldError errors={fieldErrors} field="email" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Name
+        </label>
+        <input
+          type="text"
+          value={formData.name}
+          onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+          required
+          placeholder="E.g., Jane Doe"
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <FieldError errors={fieldErrors} field="name" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Role
+        </label>
+        <select
+          value={formData.role}
+          onChange={(e) =>
+            setFormData({ ...formData, role: e.target.value as Role })
+          }
+          required
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        >
+          {ROLES.map((role) => (
+            <option key={role} value={role}>
+              {role.charAt(0).toUpperCase() + role.slice(1)}
+            </option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          {ROLE_DESCRIPTIONS[formData.role]}
+        </p>
+        <FieldError errors={fieldErrors} field="role" />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          {isEditing ? "New Password (optional)" : "Password"}
+        </label>
+        <input
+          type="password"
+          value={formData.password}
+          onChange={(e) =>
+            setFormData({ ...formData, password: e.target.value })
+          }
+          required={!isEditing}
+          minLength={8}
+          autoComplete="new-password"
+          placeholder={
+            isEditing ? "Leave blank to keep" : "At least 8 characters"
+          }
+          className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-blue-500 focus:border-blue-500"
+        />
+        <FieldError errors={fieldErrors} field="password" />
+      </div>
+
+      <div className="flex justify-end space-x-3 pt-4">
+        <button
+          type="button"
+          onClick={closeModal}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+          disabled={loading}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 transition duration-150 flex items-center justify-center"
+          disabled={loading}
+        >
+          {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+          {isEditing ? "Update User" : "Add User"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+interface ModalProps {
+  children: React.ReactNode;
+  isOpen: boolean;
+  title: string;
+  onClose: () => void;
+}
+
+/**
+ * Extracted Modal component for general use.
+ */
+const Modal: React.FC<ModalProps> = ({ children, isOpen, title, onClose }) =>
+  isOpen ? (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 sm:p-8 relative"
+        onClick={(e) => e.stopPropagation()} // Prevent closing when clicking inside
+      >
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">{title}</h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+        {children}
+      </div>
+    </div>
+  ) : null;
+
+// --- Main Component ---
+export default function UsersPage() {
+  const { user: signedInUser } = useAuth();
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [message, setMessage] = useState("");
+
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [formData, setFormData] = useState<UserFormData>(initialFormData);
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({});
+  const [userToDeactivate, setUserToDeactivate] = useState<User | null>(null);
+
+  // Reset message after a few seconds
+  useEffect(() => {
+    if (message || error) {
+      const timer = setTimeout(() => {
+        setMessage("");
+        setError("");
+      }, 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [message, error]);
+
+  /**
+   * Fetches all active users from the API.
+   */
+  const fetchUsers = useCallback(async () => {
+    setLoading(true);
+    setError("");
+    try {
+      const result = await api.get<{ users: User[] }>("/api/users");
+
+      if (result.ok) {
+        setUsers(result.data.users);
+      } else {
+        setError(result.error.message || "Failed to fetch users.");
+      }
+    } catch (err) {
+      console.error("Fetch error:", err);
+      setError("Network error or API failure.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchUsers();
+  }, [fetchUsers]);
+
+  const openNew = () => {
+    setCurrentUser(null);
+    setFormData(initialFormData);
+    setFieldErrors({});
+    setIsModalOpen(true);
+  };
+
+  const openEdit = (user: User) => {
+    setCurrentUser(user);
+    setFormData({
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      password: "",
+    });
+    setFieldErrors({});
+    setIsModalOpen(true);
+  };
+
+  const closeModal = () => {
+    setIsModalOpen(false);
+    setCurrentUser(null);
+    setFormData(initialFormData);
+    setFieldErrors({});
+  };
+
+  /**
+   * Handles form submission for both adding and editing users.
+   */
+  const handleSave = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setLoading(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const isEditing = !!currentUser;
+      const result = await apiRequest(
+        isEditing ? `/api/users?id=${currentUser.id}` : "/api/users",
+        {
+          method: isEditing ? "PUT" : "POST",
+          body: {
+            email: formData.email.trim(),
+            name: formData.name.trim(),
+            role: formData.role,
+            password: formData.password || undefined,
+          },
+        }
+      );
+
+      if (result.ok) {
+        setMessage(`User ${isEditing ? "updated" : "added"} successfully!`);
+        closeModal();
+        fetchUsers();
+      } else {
+        setError(
+          result.error.message ||
+            `Failed to ${isEditing ? "update" : "add"} user.`
+        );
+        setFieldErrors(result.error.fields ?? {});
+      }
+    } catch (err) {
+      console.error("Save error:", err);
+      setError("Network error during save operation.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Deactivates a user after confirmation. Their sessions are revoked.
+   */
+  const executeDeactivate = async () => {
+    if (!userToDeactivate) return;
+
+    const id = userToDeactivate.id;
+    setUserToDeactivate(null);
+    setLoading(true);
+    setError("");
+    setMessage("");
+
+    try {
+      const result = await api.delete(`/api/users?id=${id}`);
+
+      if (result.ok) {
+        setMessage("User deactivated successfully.");
+        fetchUsers();
+      } else {
+        setError(result.error.message || "Failed to deactivate user.");
+      }
+    } catch (err) {
+      console.error("Deactivate error:", err);
+      setError("Network error during deactivation.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen p-4 sm:p-8 font-sans">
+      <header className="flex flex-col sm:flex-row justify-between items-start sm:items-center pb-6 border-b border-gray-200 mb-6">
+        <h1 className="text-3xl font-extrabold text-gray-900 mb-3 sm:mb-0">
+          User Management
+        </h1>
+        <div className="flex space-x-3">
+          <button
+            onClick={fetchUsers}
+            disabled={loading}
+            className="flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg shadow-sm hover:bg-gray-100 transition duration-150 disabled:opacity-50"
+          >
+            {loading ? (
+              <Loader className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RefreshCw className="w-4 h-4 mr-2" />
+            )}
+            Refresh
+          </button>
+          <button
+            onClick={openNew}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg shadow-md hover:bg-green-700 transition duration-150"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New User
+          </button>
+        </div>
+      </header>
+
+      {/* Notifications */}
+      {error && (
+        <div className="p-3 mb-4 rounded-lg bg-red-100 text-red-700 flex items-center">
+          <AlertTriangle className="w-5 h-5 mr-2" />
+          <strong>Error:</strong> {error}
+        </div>
+      )}
+      {message && (
+        <div className="p-3 mb-4 rounded-lg bg-blue-100 text-blue-700">
+          {message}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Name
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Email
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Role
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Added
+              </th>
+              <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {users.length > 0 ? (
+              users.map((user) => (
+                <tr key={user.id} className="hover:bg-gray-50 transition">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                    {user.name}
+                    {user.id === signedInUser?.id && (
+                      <span className="ml-2 text-xs text-gray-400">(you)</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                    {user.email}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span
+                      className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${
+                        ROLE_BADGES[user.role]
+                      }`}
+                    >
+                      {user.role}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-500">
+                    {formatDate(user.created_at)}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                    <button
+                      onClick={() => openEdit(user)}
+                      className="text-blue-600 hover:text-blue-900 p-1 rounded-full hover:bg-blue-100 transition"
+                      title="Edit User"
+                    >
+                      <Edit2 className="w-5 h-5" />
+                    </button>
+                    {user.id !== signedInUser?.id && (
+                      <button
+                        onClick={() => setUserToDeactivate(user)}
+                        className="text-red-600 hover:text-red-900 p-1 rounded-full hover:bg-red-100 transition"
+                        title="Deactivate User"
+                      >
+                        <UserX className="w-5 h-5" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            ) : (
+              <tr>
+                <td colSpan={5} className="px-6 py-8 text-center text-gray-500">
+                  {loading ? "Loading users..." : "No users found."}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* User Modal (Add/Edit) */}
+      <Modal
+        isOpen={isModalOpen}
+        title={currentUser ? "Edit User" : "Add New User"}
+        onClose={closeModal}
+      >
+        <UserForm
+          formData={formData}
+          setFormData={setFormData}
+          fieldErrors={fieldErrors}
+          handleSave={handleSave}
+          loading={loading}
+          currentUser={currentUser}
+          closeModal={closeModal}
+        />
+      </Modal>
+
+      {/* Deactivate Confirmation Modal */}
+      <Modal
+        isOpen={!!userToDeactivate}
+        title="Deactivate User"
+        onClose={() => setUserToDeactivate(null)}
+      >
+        <p className="text-gray-700 mb-6">
+          Deactivate <strong>{userToDeactivate?.name}</strong>? They will be
+          signed out immediately and can no longer log in.
+        </p>
+        <div className="flex justify-end space-x-3">
+          <button
+            type="button"
+            onClick={() => setUserToDeactivate(null)}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition duration-150"
+            disabled={loading}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={executeDeactivate}
+            className="px-4 py-2 text-sm font-medium text-white bg-red-600 rounded-lg shadow-md hover:bg-red-700 transition duration-150 flex items-center justify-center"
+            disabled={loading}
+          >
+            {loading && <Loader className="w-4 h-4 mr-2 animate-spin" />}
+            Deactivate
+          </button>
+        </div>
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import { NextRequest } from "next/server";
+import { fail, withRequest } from "@/lib/api-response";
+
+// --- /api/* (No such endpoint) ---
+// Answers in the API's envelope rather than with the app's HTML 404 page.
+const notFound = withRequest(async (request: NextRequest) =>
+  fail("NOT_FOUND", `No API endpoint at ${request.nextUrl.pathname}.`)
+);
+
+export {
+  notFound as GET,
+  notFound as POST,
+  notFound as PUT,
+  notFound as PATCH,
+  notFound as DELETE,
+};
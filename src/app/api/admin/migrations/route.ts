@@ -0,0 +1,19 @@
+import { withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { appliedOnStartup, db } from "@/lib/database";
+import { getMigrationStatus } from "@/lib/migrations";
+
+// --- GET /api/admin/migrations (Report applied migrations) ---
+// Opening the database applies every pending migration, so a running server
+// has none left to report. Instead the response lists the full history and
+// which of those migrations this server applied when it started;
+// `npm run db:status` shows pending migrations before the app runs them.
+export const GET = withPermission("settings:manage", async () => {
+  try {
+    const { applied, currentVersion } = getMigrationStatus(db);
+    return ok({ applied, currentVersion, appliedOnStartup });
+  } catch (error) {
+    console.error("GET Migrations DB error:", error);
+    return fail("INTERNAL_ERROR", "Error reading migration status.");
+  }
+});
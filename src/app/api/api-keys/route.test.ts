@@ -0,0 +1,51 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import { call, signIn, type Caller } from "@/test/helpers";
+import { DELETE, POST } from "./route";
+
+describe("POST and DELETE /api/api-keys", () => {
+  let owner: Caller;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+  });
+
+  it("logs a key's creation and revocation without its hash", async () => {
+    const created = await call(POST, owner, {
+      method: "POST",
+      body: { name: "Web shop", scopes: ["products:read"] },
+    });
+    expect(created.status).toBe(201);
+    const keyId = created.body.data.id;
+
+    const revoked = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/api-keys?id=${keyId}`,
+    });
+    expect(revoked.status).toBe(200);
+
+    const entries = db
+      .prepare(
+        `SELECT actor_id, action, before_json, after_json FROM audit_log
+         WHERE entity = 'api_key' AND entity_id = ? ORDER BY id`
+      )
+      .all(keyId) as {
+      actor_id: string;
+      action: string;
+      before_json: string | null;
+      after_json: string;
+    }[];
+    expect(entries.map((entry) => [entry.actor_id, entry.action])).toEqual([
+      [owner.id, "create"],
+      [owner.id, "update"],
+    ]);
+    expect(JSON.parse(entries[0].after_json)).toMatchObject({
+      name: "Web shop",
+      revoked_at: null,
+    });
+    expect(JSON.parse(entries[1].after_json).revoked_at).not.toBeNull();
+    for (const entry of entries) {
+      expect(entry.after_json).not.toContain("key_hash");
+    }
+  });
+});
@@ -0,0 +1,75 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { createApiKey, listApiKeys, revokeApiKey } from "@/lib/api-keys";
+import { apiKeyBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- GET /api/api-keys (Read All, revoked and expired included) ---
+export const GET = withPermission("api-keys:manage", async () => {
+  try {
+    const apiKeys = listApiKeys();
+    return ok({ apiKeys, total: apiKeys.length });
+  } catch (error) {
+    console.error("GET API keys DB error:", error);
+    return fail("INTERNAL_ERROR", "Error fetching API keys.");
+  }
+});
+
+// --- POST /api/api-keys (Create; the key is only ever returned here) ---
+export const POST = withPermission(
+  "api-keys:manage",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, apiKeyBody);
+      if (!body.success) return body.response;
+      const { name, scopes, expiresOn } = body.data;
+
+      const { id, key } = createApiKey(user, {
+        name,
+        scopes,
+        expiresAt: expiresOn,
+      });
+
+      return ok(
+        { id, key },
+        {
+          status: 201,
+          message: "API key created. Copy it now; it will not be shown again.",
+        }
+      );
+    } catch (error) {
+      console.error("POST API key error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during API key creation."
+      );
+    }
+  }
+);
+
+// --- DELETE /api/api-keys?id=... (Revoke) ---
+export const DELETE = withPermission(
+  "api-keys:manage",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "API key ID is required for revocation.");
+    }
+
+    try {
+      if (!revokeApiKey(user, id)) {
+        return fail(
+          "API_KEY_NOT_FOUND",
+          "API key not found or already revoked."
+        );
+      }
+      return ok(null, { message: "API key revoked." });
+    } catch (error) {
+      console.error("DELETE API key DB error:", error);
+      return fail("INTERNAL_ERROR", "Error revoking API key.");
+    }
+  }
+);
@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { db } from "@/lib/database";
+import { auditQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+import type { AuditEntry } from "@/lib/types";
+
+type AuditRow = Omit<AuditEntry, "before" | "after"> & {
+  before_json: string | null;
+  after_json: string | null;
+};
+
+// --- GET /api/audit (Read log, newest first) ---
+// Filters: entity, entityId, actorId, from, to (YYYY-MM-DD, inclusive).
+export const GET = withPermission(
+  "audit:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), auditQuery);
+      if (!query.success) return query.response;
+      const { entity, entityId, actorId, from, to, page, limit } = query.data;
+      const offset = (page - 1) * limit;
+
+      let whereClause = "WHERE 1 = 1";
+      const params: any[] = [];
+
+      if (entity) {
+        whereClause += " AND entity = ?";
+        params.push(entity);
+      }
+      if (entityId) {
+        whereClause += " AND entity_id = ?";
+        params.push(entityId);
+      }
+      if (actorId) {
+        whereClause += " AND actor_id = ?";
+        params.push(actorId);
+      }
+      if (from) {
+        whereClause += " AND date(created_at) >= date(?)";
+        params.push(from);
+      }
+      if (to) {
+        whereClause += " AND date(created_at) <= date(?)";
+        params.push(to);
+      }
+
+      const rows = db
+        .prepare(
+          `SELECT * FROM audit_log
+           ${whereClause}
+           ORDER BY id DESC
+           LIMIT ? OFFSET ?`
+        )
+        .all(...params, limit, offset) as AuditRow[];
+
+      const entries: AuditEntry[] = rows.map(
+        ({ before_json, after_json, ...row }) => ({
+          ...row,
+          before: before_json ? JSON.parse(before_json) : null,
+          after: after_json ? JSON.parse(after_json) : null,
+        })
+      );
+
+      const { count } = db
+        .prepare(`SELECT COUNT(*) as count FROM audit_log ${whereClause}`)
+        .get(...params) as { count: number };
+
+      // Everyone who appears in the log, for the user filter
+      const actors = db
+        .prepare(
+          `SELECT actor_id AS id, MAX(actor_name) AS name
+           FROM audit_log
+           WHERE actor_id IS NOT NULL
+           GROUP BY actor_id
+           ORDER BY name ASC`
+        )
+        .all() as { id: string; name: string }[];
+
+      return ok({ entries, total: count, actors });
+    } catch (error) {
+      console.error("GET Audit DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching audit log.");
+    }
+  }
+);
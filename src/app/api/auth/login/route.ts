@@ -0,0 +1,35 @@
+import { NextRequest } from "next/server";
+import { authenticateUser } from "@/lib/users";
+import { createSession } from "@/lib/auth";
+import { fail, ok, withRequest } from "@/lib/api-response";
+import { SESSION_COOKIE } from "@/lib/auth-constants";
+import { loginBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/auth/login (Start a session) ---
+export const POST = withRequest(async (request: NextRequest) => {
+  try {
+    const body = await parseBody(request, loginBody);
+    if (!body.success) return body.response;
+    const { email, password } = body.data;
+
+    const user = await authenticateUser(email, password);
+    if (!user) {
+      return fail("INVALID_CREDENTIALS", "Invalid email or password.");
+    }
+
+    const { token, expiresAt } = createSession(user.id);
+    const response = ok({ user });
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      expires: expiresAt,
+    });
+    return response;
+  } catch (error) {
+    console.error("POST Login API error:", error);
+    return fail("INTERNAL_ERROR", "Internal Server Error during login.");
+  }
+});
@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server";
+import { revokeSession } from "@/lib/auth";
+import { fail, ok, withRequest } from "@/lib/api-response";
+import { SESSION_COOKIE } from "@/lib/auth-constants";
+
+// --- POST /api/auth/logout (Revoke the current session) ---
+export const POST = withRequest(async (request: NextRequest) => {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      revokeSession(token);
+    }
+
+    const response = ok(null, { message: "Logged out successfully." });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error("POST Logout API error:", error);
+    return fail("INTERNAL_ERROR", "Internal Server Error during logout.");
+  }
+});
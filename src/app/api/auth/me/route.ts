@@ -0,0 +1,7 @@
+import { withAuth } from "@/lib/auth";
+import { ok } from "@/lib/api-response";
+
+// --- GET /api/auth/me (Current user) ---
+export const GET = withAuth(async (_request, user) => {
+  return ok({ user });
+});
@@ -0,0 +1,93 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { POST as recordSale } from "@/app/api/sales/route";
+import { call, createProduct, signIn, type Caller } from "@/test/helpers";
+import { GET } from "./route";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+
+/** Where `needle` first appears in `bytes`, or -1. */
+function indexOf(bytes: Uint8Array, needle: number[]): number {
+  for (let i = 0; i + needle.length <= bytes.length; i++) {
+    if (needle.every((byte, j) => bytes[i + j] === byte)) return i;
+  }
+  return -1;
+}
+
+describe("GET /api/documents/:id/escpos", () => {
+  let cashier: Caller;
+  let saleId: string;
+
+  const receipt = (id: string, query: string) =>
+    call(GET, cashier, {
+      path: `/api/documents/${id}/escpos?${query}`,
+      params: { id },
+    });
+
+  beforeAll(async () => {
+    const owner = await signIn("owner");
+    cashier = await signIn("cashier");
+    const productId = await createProduct(owner, {
+      name: "USB-C Charger 65W with a name too long for one receipt line",
+    });
+    const sale = await call(recordSale, cashier, {
+      method: "POST",
+      body: { productId, quantity: 2, date: "2026-04-01T10:00:00.000Z" },
+    });
+    expect(sale.status).toBe(201);
+    saleId = sale.body.data.id;
+  });
+
+  it.each([
+    [58, 32, "USB-C Charger 65W with a name"],
+    [80, 48, "USB-C Charger 65W with a name too long for one"],
+  ])("prints a receipt on %i mm paper", async (paper, columns, firstLine) => {
+    const { status, headers, bytes } = await receipt(
+      saleId,
+      `paper=${paper}&code=qr`
+    );
+    expect(status).toBe(200);
+    expect(headers.get("content-type")).toBe("application/octet-stream");
+    expect(headers.get("content-disposition")).toMatch(/filename=".+\.bin"/);
+
+    expect([...bytes.slice(0, 2)]).toEqual([ESC, 0x40]);
+    expect([...bytes.slice(-4)]).toEqual([GS, 0x56, 0x42, 3]);
+    // The receipt number is stored as a QR code, then printed
+    const store = indexOf(bytes, [GS, 0x28, 0x6b]);
+    expect(store).toBeGreaterThan(0);
+    expect(
+      indexOf(bytes, [GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30])
+    ).toBeGreaterThan(store);
+
+    // The dashed rules span the paper exactly
+    const rule = [...`\x00${"-".repeat(columns)}\n`].map((c) =>
+      c.charCodeAt(0)
+    );
+    expect(indexOf(bytes, rule)).toBeGreaterThan(0);
+    expect(indexOf(bytes, [0x2d, ...rule.slice(1)])).toBe(-1);
+
+    // The product name wraps between words at the paper width
+    const text = Buffer.from(bytes).toString("latin1");
+    const [nameLine, nextLine] = text.slice(text.indexOf("USB-C")).split("\n");
+    expect(nameLine).toBe(firstLine);
+    expect(nextLine.length).toBeLessThanOrEqual(columns);
+  });
+
+  it("prints a barcode when asked", async () => {
+    const { bytes } = await receipt(saleId, "paper=58&code=barcode");
+    expect(indexOf(bytes, [GS, 0x6b, 73])).toBeGreaterThan(0);
+    expect(indexOf(bytes, [GS, 0x28, 0x6b])).toBe(-1);
+  });
+
+  it("rejects a paper width the printers do not take", async () => {
+    const { status, body } = await receipt(saleId, "paper=100");
+    expect(status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_FAILED");
+  });
+
+  it("reports a document that does not exist", async () => {
+    const { status, body } = await receipt("missing", "paper=80");
+    expect(status).toBe(404);
+    expect(body.error.code).toBe("DOCUMENT_NOT_FOUND");
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith } from "@/lib/api-response";
+import {
+  DocumentError,
+  findDocument,
+  renderThermalReceipt,
+} from "@/lib/documents";
+import { receiptQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/documents/:id/escpos (Receipt as raw ESC/POS bytes for a thermal printer) ---
+// ?paper=58|80 (default 80) and ?code=none|barcode|qr (default none). Meant
+// for a print bridge on the counter, which sends the bytes to the printer
+// unchanged.
+export const GET = withPermission(
+  "transactions:read",
+  async (
+    request: NextRequest,
+    _user,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    try {
+      const { id } = await params;
+      const query = parseQuery(new URL(request.url), receiptQuery);
+      if (!query.success) return query.response;
+
+      const source = findDocument(id);
+      if (!source) {
+        throw new DocumentError("Document not found.", "DOCUMENT_NOT_FOUND");
+      }
+      const { bytes, filename } = renderThermalReceipt(source, query.data);
+      return new Response(Buffer.from(bytes), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return failWith(error);
+      }
+      console.error("GET Document ESC/POS error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error while rendering the receipt."
+      );
+    }
+  }
+);
@@ -0,0 +1,61 @@
+import { NextRequest } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { fail, failWith } from "@/lib/api-response";
+import { callerCan } from "@/lib/permissions";
+import { DocumentError, findDocument, renderDocument } from "@/lib/documents";
+import { documentPdfQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/documents/:id/pdf (Invoice, receipt or partner statement as a PDF) ---
+// ?template=invoice|receipt for sales and transactions; ?from=&to= for statements
+export const GET = withAuth(
+  async (
+    request: NextRequest,
+    user,
+    { params }: { params: Promise<{ id: string }> }
+  ) => {
+    try {
+      const { id } = await params;
+      const query = parseQuery(new URL(request.url), documentPdfQuery);
+      if (!query.success) return query.response;
+      const { template, from, to } = query.data;
+
+      const source = findDocument(id);
+      if (!source) {
+        throw new DocumentError("Document not found.", "DOCUMENT_NOT_FOUND");
+      }
+      // Statements show balances and payments; the rest are sales records
+      const permission =
+        source.kind === "statement" ? "payments:read" : "transactions:read";
+      if (!callerCan(user, permission)) {
+        return fail(
+          "FORBIDDEN",
+          "You do not have permission to perform this action."
+        );
+      }
+
+      const { bytes, filename } = await renderDocument(source, {
+        template,
+        from,
+        to,
+      });
+      return new Response(Buffer.from(bytes), {
+        status: 200,
+        headers: {
+          "Content-Type": "application/pdf",
+          "Content-Disposition": `inline; filename="${filename}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof DocumentError) {
+        return failWith(error);
+      }
+      console.error("GET Document PDF error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error while rendering the document."
+      );
+    }
+  }
+);
@@ -1,157 +1,199 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
 import { db } from "@/lib/database";
+import { auditedChange } from "@/lib/audit";
 import { randomUUID } from "crypto";
 import { Expense } from "@/lib/types";
-
-// --- Helper Response ---
-function jsonResponse(
-  success: boolean,
-  data: any = null,
-  message: string = ""
-) {
-  return NextResponse.json({ success, data, message });
-}
+import { splitTax } from "@/lib/tax";
+import { nextDocumentNumber } from "@/lib/numbering";
+import { expenseBody, listQuery } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
 
 // --- GET /api/expenses ---
-export async function GET(request: NextRequest) {
-  try {
-    const url = new URL(request.url);
-    const q = url.searchParams.get("q")?.trim() || "";
-    const page = parseInt(url.searchParams.get("page") || "1", 10);
-    const limit = parseInt(url.searchParams.get("limit") || "10", 10);
-    const offset = (page - 1) * limit;
-
-    let whereClause = "WHERE deleted_at IS NULL";
-    const params: any[] = [];
-
-    if (q) {
-      whereClause += " AND description LIKE ?";
-      params.push(`%${q}%`);
-    }
-
-    const stmt = db.prepare(`
-      SELECT id, date, category, description, amount, created_at, updated_at, deleted_at
+export const GET = withPermission(
+  "expenses:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), listQuery);
+      if (!query.success) return query.response;
+      const { q, page, limit } = query.data;
+      const offset = (page - 1) * limit;
+
+      let whereClause = "WHERE deleted_at IS NULL";
+      const params: any[] = [];
+
+      if (q) {
+        whereClause += " AND (description LIKE ? OR number LIKE ?)";
+        params.push(`%${q}%`, `%${q}%`);
+      }
+
+      const stmt = db.prepare(`
+      SELECT id, number, date, category, description, amount, tax_rate, net_amount, tax_amount,
+        created_at, updated_at, deleted_at
       FROM expenses
       ${whereClause}
       ORDER BY date DESC
       LIMIT ? OFFSET ?
     `);
 
-    const expenses: Expense[] = stmt.all(...params, limit, offset) as Expense[];
+      const expenses: Expense[] = stmt.all(
+        ...params,
+        limit,
+        offset
+      ) as Expense[];
 
-    // Get total count for pagination
-    const countStmt = db.prepare(`
+      // Get total count for pagination
+      const countStmt = db.prepare(`
       SELECT COUNT(*) as count FROM expenses ${whereClause}
     `);
-    const { count } = countStmt.get(...params) as { count: number };
+      const { count } = countStmt.get(...params) as { count: number };
 
-    return jsonResponse(true, { expenses, total: count });
-  } catch (error) {
-    console.error("GET Expenses DB error:", error);
-    return jsonResponse(false, null, "Error fetching expenses.");
+      return ok({ expenses, total: count });
+    } catch (error) {
+      console.error("GET Expenses DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching expenses.");
+    }
   }
-}
+);
 
 // --- POST /api/expenses ---
-export async function POST(request: NextRequest) {
-  try {
-    const { category, description, amount, date } = await request.json();
-    const id = randomUUID();
-    const now = new Date().toISOString();
-
-    if (!category || !description || amount === undefined || !date) {
-      return jsonResponse(false, null, "Missing required expense fields.");
-    }
-    if (typeof amount !== "number" || amount <= 0) {
-      return jsonResponse(false, null, "Amount must be a positive number.");
-    }
-
-    const stmt = db.prepare(`
-      INSERT INTO expenses (id, category, description, amount, date, created_at, updated_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+export const POST = withPermission(
+  "expenses:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, expenseBody);
+      if (!body.success) return body.response;
+      const { category, description, amount, date, taxRate } = body.data;
+      const id = randomUUID();
+      const now = new Date().toISOString();
+
+      // Expenses are entered as paid, so the tax is worked out of the amount
+      const tax = splitTax(amount, taxRate, true);
+
+      const stmt = db.prepare(`
+      INSERT INTO expenses (id, number, category, description, amount, tax_rate, net_amount, tax_amount, date, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
-    stmt.run(id, category, description, amount, date, now, now);
-
-    return jsonResponse(true, { id }, "Expense added successfully.");
-  } catch (error) {
-    console.error("POST Expense API error:", error);
-    return jsonResponse(
-      false,
-      null,
-      "Internal Server Error during expense creation."
-    );
-  }
-}
+      // The voucher number is taken in the same transaction as the insert
+      auditedChange(user, "expense", "create", id, () =>
+        stmt.run(
+          id,
+          nextDocumentNumber("expense", date),
+          category,
+          description,
+          tax.gross,
+          tax.rate,
+          tax.net,
+          tax.tax,
+          date,
+          now,
+          now
+        )
+      );
 
-// --- PUT /api/expenses?id=... ---
-export async function PUT(request: NextRequest) {
-  const url = new URL(request.url);
-  const id = url.searchParams.get("id");
-
-  if (!id)
-    return jsonResponse(false, null, "Expense ID is required for update.");
-
-  try {
-    const { category, description, amount, date } = await request.json();
-    const now = new Date().toISOString();
-
-    if (!category || !description || amount === undefined || !date) {
-      return jsonResponse(
-        false,
-        null,
-        "Missing required expense fields for update."
+      return ok(
+        { id },
+        { status: 201, message: "Expense added successfully." }
+      );
+    } catch (error) {
+      console.error("POST Expense API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during expense creation."
       );
     }
-    if (typeof amount !== "number" || amount <= 0) {
-      return jsonResponse(false, null, "Amount must be a positive number.");
+  }
+);
+
+// --- PUT /api/expenses?id=... ---
+export const PUT = withPermission(
+  "expenses:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Expense ID is required for update.");
     }
 
-    const stmt = db.prepare(`
+    try {
+      const body = await parseBody(request, expenseBody);
+      if (!body.success) return body.response;
+      const { category, description, amount, date, taxRate } = body.data;
+      const now = new Date().toISOString();
+
+      // Expenses are entered as paid, so the tax is worked out of the amount
+      const tax = splitTax(amount, taxRate, true);
+
+      const stmt = db.prepare(`
       UPDATE expenses
-      SET category = ?, description = ?, amount = ?, date = ?, updated_at = ?
+      SET category = ?, description = ?, amount = ?, tax_rate = ?, net_amount = ?, tax_amount = ?,
+        date = ?, updated_at = ?
       WHERE id = ? AND deleted_at IS NULL
     `);
-    const result = stmt.run(category, description, amount, date, now, id);
+      const result = auditedChange(user, "expense", "update", id, () =>
+        stmt.run(
+          category,
+          description,
+          tax.gross,
+          tax.rate,
+          tax.net,
+          tax.tax,
+          date,
+          now,
+          id
+        )
+      );
 
-    if (result.changes === 0) {
-      return jsonResponse(false, null, "Expense not found or no changes made.");
+      if (result.changes === 0) {
+        return fail(
+          "EXPENSE_NOT_FOUND",
+          "Expense not found or no changes made."
+        );
+      }
+
+      return ok(null, { message: "Expense updated successfully." });
+    } catch (error) {
+      console.error("PUT Expense API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during expense update."
+      );
     }
-
-    return jsonResponse(true, null, "Expense updated successfully.");
-  } catch (error) {
-    console.error("PUT Expense API error:", error);
-    return jsonResponse(
-      false,
-      null,
-      "Internal Server Error during expense update."
-    );
   }
-}
+);
 
 // --- DELETE /api/expenses?id=... ---
-export async function DELETE(request: NextRequest) {
-  const url = new URL(request.url);
-  const id = url.searchParams.get("id");
+export const DELETE = withPermission(
+  "expenses:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
 
-  if (!id)
-    return jsonResponse(false, null, "Expense ID is required for deletion.");
+    if (!id) {
+      return missingParam("id", "Expense ID is required for deletion.");
+    }
 
-  try {
-    const now = new Date().toISOString();
-    const stmt = db.prepare(`
+    try {
+      const now = new Date().toISOString();
+      const stmt = db.prepare(`
       UPDATE expenses
       SET deleted_at = ?
       WHERE id = ? AND deleted_at IS NULL
     `);
-    const result = stmt.run(now, id);
+      const result = auditedChange(user, "expense", "delete", id, () =>
+        stmt.run(now, id)
+      );
 
-    if (result.changes === 0) {
-      return jsonResponse(false, null, "Expense not found.");
-    }
+      if (result.changes === 0) {
+        return fail("EXPENSE_NOT_FOUND", "Expense not found.");
+      }
 
-    return jsonResponse(true, null, "Expense deleted successfully.");
-  } catch (error) {
-    console.error("DELETE Expense DB error:", error);
-    return jsonResponse(false, null, "Error deleting expense.");
+      return ok(null, { message: "Expense deleted successfully." });
+    } catch (error) {
+      console.error("DELETE Expense DB error:", error);
+      return fail("INTERNAL_ERROR", "Error deleting expense.");
+    }
   }
-}
+);
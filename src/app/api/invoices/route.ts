@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, ok } from "@/lib/api-response";
+import { recordInvoice, StockError } from "@/lib/sales";
+import { getInvoice, listInvoices } from "@/lib/invoices";
+import { PaymentError } from "@/lib/accounts";
+import { PricingError, resolveApprover } from "@/lib/pricing";
+import { invoiceBody, invoiceListQuery } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+
+// --- GET /api/invoices (Read; ?id=... for one invoice with its lines) ---
+export const GET = withPermission(
+  "transactions:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const id = url.searchParams.get("id");
+
+      if (id) {
+        const invoice = getInvoice(id);
+        if (!invoice) {
+          return fail("INVOICE_NOT_FOUND", "Invoice not found.");
+        }
+        return ok({ invoice });
+      }
+
+      const query = parseQuery(url, invoiceListQuery);
+      if (!query.success) return query.response;
+      const { partnerId, from, to, page, limit } = query.data;
+
+      const invoices = listInvoices({
+        partnerId,
+        from,
+        to,
+        limit,
+        offset: (page - 1) * limit,
+      });
+      return ok({ invoices, page, limit });
+    } catch (error) {
+      console.error("GET Invoices DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching invoices.");
+    }
+  }
+);
+
+// --- POST /api/invoices (Record a multi-line sale and decrement stock atomically) ---
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, invoiceBody);
+      if (!body.success) return body.response;
+      const { approval, ...invoice } = body.data;
+
+      const approver = await resolveApprover(approval);
+      const { id, lines, totalAmount } = recordInvoice(user, {
+        ...invoice,
+        approver,
+      });
+
+      return ok(
+        { id, lines, totalAmount },
+        { status: 201, message: "Sale recorded successfully." }
+      );
+    } catch (error) {
+      if (
+        error instanceof StockError ||
+        error instanceof PaymentError ||
+        error instanceof PricingError
+      ) {
+        return failWith(error);
+      }
+      console.error("POST Invoice API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during sale recording."
+      );
+    }
+  }
+);
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith } from "@/lib/api-response";
+import { LabelError, renderLabels } from "@/lib/labels";
+import { labelQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/labels (Product labels as PDF, SVG or ESC/POS) ---
+// ?items=<id>:<copies>,... &template=price|barcode|qr|full
+// &symbology=code128|ean13 &output=sheet-pdf|sheet-svg|thermal-pdf|escpos
+// &paper=58|80 (escpos only)
+export const GET = withPermission(
+  "products:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const query = parseQuery(url, labelQuery);
+      if (!query.success) return query.response;
+      const { items, template, symbology, output, paper } = query.data;
+
+      const { body, contentType, filename } = await renderLabels(items, {
+        template,
+        symbology,
+        output,
+        paper,
+        baseUrl: url.origin,
+      });
+      return new Response(typeof body === "string" ? body : Buffer.from(body), {
+        status: 200,
+        headers: {
+          "Content-Type": contentType,
+          "Content-Disposition": `${output === "escpos" ? "attachment" : "inline"}; filename="${filename}"`,
+          "Cache-Control": "private, no-store",
+        },
+      });
+    } catch (error) {
+      if (error instanceof LabelError) {
+        return failWith(error);
+      }
+      console.error("GET Labels API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error while rendering labels."
+      );
+    }
+  }
+);
@@ -0,0 +1,99 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import { lendOut } from "@/lib/lending";
+import {
+  call,
+  createPartner,
+  createProduct,
+  signIn,
+  type Caller,
+} from "@/test/helpers";
+import { POST } from "./route";
+
+describe("POST /api/loans/convert", () => {
+  let owner: Caller;
+  let manager: Caller;
+  let cashier: Caller;
+  let productId: string; // Costs 5, sells for 10
+  let partnerId: string;
+
+  // Lends two units at the product's list price
+  const lend = (product = productId, unitPrice = 10) =>
+    lendOut(owner, {
+      productId: product,
+      partnerId,
+      quantity: 2,
+      unitPrice,
+      date: "2026-03-01T10:00:00.000Z",
+      dueDate: "2026-03-15",
+    }).id;
+
+  const convert = (caller: Caller, loanId: string, body: object) =>
+    call(POST, caller, {
+      method: "POST",
+      path: `/api/loans/convert?id=${loanId}`,
+      body: { quantity: 2, amountPaid: 0, ...body },
+    });
+
+  const loanStatus = (loanId: string) =>
+    db.prepare("SELECT status FROM loans WHERE id = ?").pluck().get(loanId);
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+    manager = await signIn("manager");
+    cashier = await signIn("cashier");
+    partnerId = await createPartner(owner);
+    productId = await createProduct(owner, { partnerId });
+  });
+
+  it("converts at the loan's value without a reason", async () => {
+    const loanId = lend();
+    const { status } = await convert(cashier, loanId, {});
+    expect(status).toBe(201);
+    expect(loanStatus(loanId)).toBe("closed");
+  });
+
+  it("holds a cashier to their discount limit", async () => {
+    const loanId = lend();
+    const { status, body } = await convert(cashier, loanId, {
+      price: 0.01,
+      discountReason: "Friend of the shop",
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("DISCOUNT_LIMIT_EXCEEDED");
+    expect(loanStatus(loanId)).toBe("open");
+  });
+
+  it("stops a cashier converting below cost without approval", async () => {
+    // 4.9 is within the cashier's 10% limit but below the cost of 5
+    const cheap = await createProduct(owner, { partnerId, sellPrice: 5.2 });
+    const loanId = lend(cheap, 5.2);
+    const { status, body } = await convert(cashier, loanId, {
+      price: 4.9,
+      discountReason: "Scratched",
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("BELOW_COST");
+    expect(loanStatus(loanId)).toBe("open");
+
+    const approved = await convert(cashier, loanId, {
+      price: 4.9,
+      discountReason: "Scratched",
+      approval: { email: manager.email, password: "password123" },
+    });
+    expect(approved.status).toBe(201);
+    expect(
+      db
+        .prepare(
+          "SELECT price, discount_amount, approved_by FROM transactions WHERE loan_id = ? AND type = 'sale'"
+        )
+        .get(loanId)
+    ).toEqual({ price: 4.9, discount_amount: 0.6, approved_by: manager.id });
+  });
+
+  it("asks for a reason when charging other than the list price", async () => {
+    const { status, body } = await convert(cashier, lend(), { price: 9.5 });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("REASON_REQUIRED");
+  });
+});
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import { LoanError, convertLoanToSale } from "@/lib/lending";
+import { PaymentError } from "@/lib/accounts";
+import { PricingError, resolveApprover } from "@/lib/pricing";
+import { loanConversionBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/loans/convert?id=... (Turn loaned units into a sale) ---
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const loanId = url.searchParams.get("id");
+
+    if (!loanId) {
+      return missingParam("id", "Loan ID is required for a conversion.");
+    }
+
+    try {
+      const body = await parseBody(request, loanConversionBody);
+      if (!body.success) return body.response;
+
+      const { approval, ...conversion } = body.data;
+
+      const approver = await resolveApprover(approval);
+      const { saleId, invoiceId } = convertLoanToSale(user, loanId, {
+        ...conversion,
+        approver,
+      });
+
+      return ok(
+        { id: loanId, saleId, invoiceId },
+        { status: 201, message: "Loan converted to a sale." }
+      );
+    } catch (error) {
+      if (
+        error instanceof LoanError ||
+        error instanceof PaymentError ||
+        error instanceof PricingError
+      ) {
+        return failWith(error);
+      }
+      console.error("POST Loan conversion API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during loan conversion."
+      );
+    }
+  }
+);
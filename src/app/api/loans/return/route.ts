@@ -0,0 +1,41 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import { LoanError, returnLoan } from "@/lib/lending";
+import { StockError } from "@/lib/sales";
+import { loanReturnBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/loans/return?id=... (Record a full or partial return) ---
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const loanId = url.searchParams.get("id");
+
+    if (!loanId) {
+      return missingParam("id", "Loan ID is required for a return.");
+    }
+
+    try {
+      const body = await parseBody(request, loanReturnBody);
+      if (!body.success) return body.response;
+
+      const { stock } = returnLoan(user, loanId, body.data);
+
+      return ok(
+        { id: loanId, stock },
+        { message: "Return recorded successfully." }
+      );
+    } catch (error) {
+      if (error instanceof StockError || error instanceof LoanError) {
+        return failWith(error);
+      }
+      console.error("POST Loan return API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during return recording."
+      );
+    }
+  }
+);
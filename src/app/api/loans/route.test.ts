@@ -0,0 +1,50 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import {
+  call,
+  createPartner,
+  createProduct,
+  signIn,
+  type Caller,
+} from "@/test/helpers";
+import { POST } from "./route";
+
+describe("POST /api/loans", () => {
+  let owner: Caller;
+  let productId: string;
+  let partnerId: string;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+    partnerId = await createPartner(owner);
+    productId = await createProduct(owner, { partnerId, sellPrice: 12 });
+  });
+
+  const lend = (unitPrice?: number | string) =>
+    call(POST, owner, {
+      method: "POST",
+      body: {
+        productId,
+        partnerId,
+        quantity: 1,
+        unitPrice,
+        dueDate: "2099-01-01",
+      },
+    });
+
+  const unitPriceOf = (loanId: string) =>
+    db.prepare("SELECT unit_price FROM loans WHERE id = ?").pluck().get(loanId);
+
+  it("agrees the product's list price when no value is given", async () => {
+    for (const unitPrice of [undefined, ""]) {
+      const { status, body } = await lend(unitPrice);
+      expect(status).toBe(201);
+      expect(unitPriceOf(body.data.id)).toBe(12);
+    }
+  });
+
+  it("keeps a value given for the loan", async () => {
+    const { body } = await lend(11);
+    expect(unitPriceOf(body.data.id)).toBe(11);
+  });
+});
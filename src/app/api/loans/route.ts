@@ -0,0 +1,51 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, ok } from "@/lib/api-response";
+import { LoanError, lendOut, listLoans } from "@/lib/lending";
+import { StockError } from "@/lib/sales";
+import { loanBody, loanListQuery } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+
+// --- GET /api/loans (Read; ?status=open|closed&partnerId=...) ---
+export const GET = withPermission(
+  "transactions:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), loanListQuery);
+      if (!query.success) return query.response;
+
+      const loans = listLoans(query.data);
+      return ok({ loans, total: loans.length });
+    } catch (error) {
+      console.error("GET Loans DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching loans.");
+    }
+  }
+);
+
+// --- POST /api/loans (Lend stock to a partner) ---
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, loanBody);
+      if (!body.success) return body.response;
+
+      const { id, stock } = lendOut(user, body.data);
+
+      return ok(
+        { id, stock },
+        { status: 201, message: "Loan recorded successfully." }
+      );
+    } catch (error) {
+      if (error instanceof StockError || error instanceof LoanError) {
+        return failWith(error);
+      }
+      console.error("POST Loan API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during loan recording."
+      );
+    }
+  }
+);
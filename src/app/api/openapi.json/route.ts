@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { withAuth } from "@/lib/auth";
+import { openApiDocument } from "@/lib/openapi";
+
+// --- GET /api/openapi.json (API document) ---
+// The bare OpenAPI document rather than the envelope, so tools can read it
+export const GET = withAuth(async () => {
+  return NextResponse.json(openApiDocument());
+});
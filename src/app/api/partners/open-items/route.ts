@@ -0,0 +1,29 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { getOpenItems } from "@/lib/accounts";
+import { openItemsQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/partners/open-items?id=...&type=sale|purchase (Unpaid transactions) ---
+export const GET = withPermission(
+  "payments:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const id = url.searchParams.get("id");
+
+      if (!id) {
+        return missingParam("id", "Partner ID is required.");
+      }
+      const query = parseQuery(url, openItemsQuery);
+      if (!query.success) return query.response;
+
+      const items = getOpenItems(id, query.data.type);
+      return ok({ items, total: items.length });
+    } catch (error) {
+      console.error("GET Partner open items DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching unpaid transactions.");
+    }
+  }
+);
@@ -1,37 +1,33 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
 import { db } from "@/lib/database";
+import { auditedChange } from "@/lib/audit";
+import { getPartnerBalances } from "@/lib/accounts";
+import { listQuery, partnerBody } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+import type { Partner } from "@/lib/types";
 import { randomUUID } from "crypto";
 
-// Define the Partner type
-export type Partner = {
-  id: string;
-  type: "individual" | "shop";
-  name: string;
-  phone: string;
-  shop_name?: string | null;
-  created_at: string;
-  updated_at: string;
-  deleted_at?: string | null;
-};
-
 // --- GET /api/partners (Read All, exclude soft-deleted) ---
-export async function GET(request: NextRequest) {
-  try {
-    const url = new URL(request.url);
-    const q = url.searchParams.get("q")?.trim() || "";
-    const page = parseInt(url.searchParams.get("page") || "1", 10);
-    const limit = parseInt(url.searchParams.get("limit") || "10", 10);
-    const offset = (page - 1) * limit;
-
-    let whereClause = "WHERE deleted_at IS NULL";
-    const params: any[] = [];
-
-    if (q) {
-      whereClause += " AND name LIKE ?";
-      params.push(`%${q}%`);
-    }
-
-    const stmt = db.prepare(`
+export const GET = withPermission(
+  "partners:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), listQuery);
+      if (!query.success) return query.response;
+      const { q, page, limit } = query.data;
+      const offset = (page - 1) * limit;
+
+      let whereClause = "WHERE deleted_at IS NULL";
+      const params: any[] = [];
+
+      if (q) {
+        whereClause += " AND name LIKE ?";
+        params.push(`%${q}%`);
+      }
+
+      const stmt = db.prepare(`
       SELECT id, type, name, phone, shop_name, created_at, updated_at, deleted_at
       FROM partners
       ${whereClause}
@@ -39,155 +35,154 @@ export async function GET(request: NextRequest) {
       LIMIT ? OFFSET ?
     `);
 
-    const partners: Partner[] = stmt.all(...params, limit, offset) as Partner[];
+      const partners: Partner[] = stmt.all(
+        ...params,
+        limit,
+        offset
+      ) as Partner[];
 
-    // Total count for pagination
-    const countStmt = db.prepare(`
+      // Total count for pagination
+      const countStmt = db.prepare(`
       SELECT COUNT(*) as count FROM partners ${whereClause}
     `);
-    const { count } = countStmt.get(...params) as { count: number };
-
-    return NextResponse.json({ partners, total: count }, { status: 200 });
-  } catch (error) {
-    console.error("GET Partners DB error:", error);
-    return NextResponse.json(
-      { message: "Error fetching partners." },
-      { status: 500 }
-    );
+      const { count } = countStmt.get(...params) as { count: number };
+
+      // Attach what each partner owes the shop and what the shop owes them
+      const balances = getPartnerBalances(partners.map((p) => p.id));
+      const withBalances = partners.map((p) => ({ ...p, ...balances[p.id] }));
+
+      return ok({ partners: withBalances, total: count });
+    } catch (error) {
+      console.error("GET Partners DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching partners.");
+    }
   }
-}
+);
 
 // --- POST /api/partners (Create) ---
-export async function POST(request: NextRequest) {
-  try {
-    const { type, name, phone, shop_name } = await request.json();
-    const newPartnerId = randomUUID();
-
-    if (!type || !name || !phone) {
-      return NextResponse.json(
-        { message: "Missing required fields: type, name, and phone." },
-        { status: 400 }
+export const POST = withPermission(
+  "partners:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, partnerBody);
+      if (!body.success) return body.response;
+      const { type, name, phone, shop_name } = body.data;
+      const newPartnerId = randomUUID();
+
+      const stmt = db.prepare(
+        `INSERT INTO partners (id, type, name, phone, shop_name)
+       VALUES (?, ?, ?, ?, ?)`
       );
-    }
 
-    const stmt = db.prepare(
-      `INSERT INTO partners (id, type, name, phone, shop_name)
-       VALUES (?, ?, ?, ?, ?)`
-    );
-
-    stmt.run(
-      newPartnerId,
-      type,
-      name,
-      phone,
-      type === "shop" ? shop_name : null
-    );
-
-    return NextResponse.json(
-      { id: newPartnerId, message: "Partner added successfully." },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error("POST Partner API error:", error);
-    return NextResponse.json(
-      { message: "Internal Server Error during partner creation." },
-      { status: 500 }
-    );
-  }
-}
+      auditedChange(user, "partner", "create", newPartnerId, () =>
+        stmt.run(
+          newPartnerId,
+          type,
+          name,
+          phone,
+          type === "shop" ? shop_name : null
+        )
+      );
 
-// --- PUT /api/partners?id=... (Update) ---
-export async function PUT(request: NextRequest) {
-  const url = new URL(request.url);
-  const partnerId = url.searchParams.get("id");
-
-  if (!partnerId) {
-    return NextResponse.json(
-      { message: "Partner ID is required for update." },
-      { status: 400 }
-    );
+      return ok(
+        { id: newPartnerId },
+        { status: 201, message: "Partner added successfully." }
+      );
+    } catch (error) {
+      console.error("POST Partner API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during partner creation."
+      );
+    }
   }
+);
 
-  try {
-    const { type, name, phone, shop_name } = await request.json();
+// --- PUT /api/partners?id=... (Update) ---
+export const PUT = withPermission(
+  "partners:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const partnerId = url.searchParams.get("id");
 
-    if (!type || !name || !phone) {
-      return NextResponse.json(
-        { message: "Missing required fields: type, name, and phone." },
-        { status: 400 }
-      );
+    if (!partnerId) {
+      return missingParam("id", "Partner ID is required for update.");
     }
 
-    const stmt = db.prepare(
-      `UPDATE partners
+    try {
+      const body = await parseBody(request, partnerBody);
+      if (!body.success) return body.response;
+      const { type, name, phone, shop_name } = body.data;
+
+      const stmt = db.prepare(
+        `UPDATE partners
        SET type = ?, name = ?, phone = ?, shop_name = ?, updated_at = CURRENT_TIMESTAMP
        WHERE id = ? AND deleted_at IS NULL`
-    );
-
-    const result = stmt.run(
-      type,
-      name,
-      phone,
-      type === "shop" ? shop_name : null,
-      partnerId
-    );
-
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "Partner not found or already deleted." },
-        { status: 404 }
       );
-    }
 
-    return NextResponse.json(
-      { message: "Partner updated successfully." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("PUT Partner API error:", error);
-    return NextResponse.json(
-      { message: "Internal Server Error during partner update." },
-      { status: 500 }
-    );
+      const result = auditedChange(user, "partner", "update", partnerId, () =>
+        stmt.run(
+          type,
+          name,
+          phone,
+          type === "shop" ? shop_name : null,
+          partnerId
+        )
+      );
+
+      if (result.changes === 0) {
+        return fail(
+          "PARTNER_NOT_FOUND",
+          "Partner not found or already deleted."
+        );
+      }
+
+      return ok(null, { message: "Partner updated successfully." });
+    } catch (error) {
+      console.error("PUT Partner API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during partner update."
+      );
+    }
   }
-}
+);
 
 // --- DELETE /api/partners?id=... (Soft Delete) ---
-export async function DELETE(request: NextRequest) {
-  const url = new URL(request.url);
-  const partnerId = url.searchParams.get("id");
-
-  if (!partnerId) {
-    return NextResponse.json(
-      { message: "Partner ID is required for deletion." },
-      { status: 400 }
-    );
-  }
+export const DELETE = withPermission(
+  "partners:delete",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const partnerId = url.searchParams.get("id");
+
+    if (!partnerId) {
+      return missingParam("id", "Partner ID is required for deletion.");
+    }
 
-  try {
-    const stmt = db.prepare(
-      `UPDATE partners
+    try {
+      const stmt = db.prepare(
+        `UPDATE partners
        SET deleted_at = CURRENT_TIMESTAMP
        WHERE id = ? AND deleted_at IS NULL`
-    );
-    const result = stmt.run(partnerId);
-
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "Partner not found or already deleted." },
-        { status: 404 }
       );
-    }
+      // A soft delete is logged as a delete; the row itself is kept.
+      const result = auditedChange(user, "partner", "delete", partnerId, () =>
+        stmt.run(partnerId)
+      );
 
-    return NextResponse.json(
-      { message: "Partner deleted successfully (soft delete)." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("DELETE Partner DB error:", error);
-    return NextResponse.json(
-      { message: "Error deleting partner." },
-      { status: 500 }
-    );
+      if (result.changes === 0) {
+        return fail(
+          "PARTNER_NOT_FOUND",
+          "Partner not found or already deleted."
+        );
+      }
+
+      return ok(null, {
+        message: "Partner deleted successfully (soft delete).",
+      });
+    } catch (error) {
+      console.error("DELETE Partner DB error:", error);
+      return fail("INTERNAL_ERROR", "Error deleting partner.");
+    }
   }
-}
+);
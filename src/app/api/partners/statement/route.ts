@@ -0,0 +1,43 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { db } from "@/lib/database";
+import { getPartnerBalances, getStatement } from "@/lib/accounts";
+import { statementQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/partners/statement?id=...&from=YYYY-MM-DD&to=YYYY-MM-DD ---
+export const GET = withPermission(
+  "payments:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const id = url.searchParams.get("id");
+
+      if (!id) {
+        return missingParam("id", "Partner ID is required.");
+      }
+      const query = parseQuery(url, statementQuery);
+      if (!query.success) return query.response;
+      const { from, to } = query.data;
+
+      const partner = db
+        .prepare(
+          "SELECT id, type, name, phone, shop_name FROM partners WHERE id = ?"
+        )
+        .get(id);
+      if (!partner) {
+        return fail("PARTNER_NOT_FOUND", "Partner not found.");
+      }
+
+      return ok({
+        partner,
+        balance: getPartnerBalances([id])[id],
+        statement: getStatement(id, { from, to }),
+      });
+    } catch (error) {
+      console.error("GET Partner statement DB error:", error);
+      return fail("INTERNAL_ERROR", "Error building partner statement.");
+    }
+  }
+);
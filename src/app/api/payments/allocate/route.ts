@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import { PaymentError, allocatePayment } from "@/lib/accounts";
+import { allocationBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/payments/allocate?id=... (Apply unallocated credit to open items) ---
+export const POST = withPermission(
+  "payments:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Payment ID is required.");
+    }
+
+    try {
+      const body = await parseBody(request, allocationBody);
+      if (!body.success) return body.response;
+
+      allocatePayment(user, id, body.data.allocations);
+      return ok(null, { message: "Payment allocated successfully." });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return failWith(error);
+      }
+      console.error("POST Payment allocation API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during payment allocation."
+      );
+    }
+  }
+);
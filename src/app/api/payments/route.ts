@@ -0,0 +1,82 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import {
+  PaymentError,
+  deletePayment,
+  listPayments,
+  recordPayment,
+} from "@/lib/accounts";
+import { paymentBody, paymentListQuery } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+
+// --- GET /api/payments (Read; ?partnerId=...&from=YYYY-MM-DD&to=YYYY-MM-DD) ---
+export const GET = withPermission(
+  "payments:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), paymentListQuery);
+      if (!query.success) return query.response;
+
+      const payments = listPayments(query.data);
+      return ok({ payments, total: payments.length });
+    } catch (error) {
+      console.error("GET Payments DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching payments.");
+    }
+  }
+);
+
+// --- POST /api/payments (Record money received from or paid to a partner) ---
+export const POST = withPermission(
+  "payments:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, paymentBody);
+      if (!body.success) return body.response;
+
+      const id = recordPayment(user, body.data);
+
+      return ok(
+        { id },
+        { status: 201, message: "Payment recorded successfully." }
+      );
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return failWith(error);
+      }
+      console.error("POST Payment API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during payment recording."
+      );
+    }
+  }
+);
+
+// --- DELETE /api/payments?id=... (Remove a payment recorded in error) ---
+export const DELETE = withPermission(
+  "transactions:manage",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Payment ID is required for deletion.");
+    }
+
+    try {
+      deletePayment(user, id);
+      return ok(null, { message: "Payment deleted successfully." });
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return failWith(error);
+      }
+      console.error("DELETE Payment API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during payment deletion."
+      );
+    }
+  }
+);
@@ -0,0 +1,45 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { db } from "@/lib/database";
+import { toEan13 } from "@/lib/barcodes";
+import { productLookupQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+import type { Product } from "@/lib/types";
+
+// --- GET /api/products/lookup?code=... (Exact match on a scanned code) ---
+export const GET = withPermission(
+  "products:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), productLookupQuery);
+      if (!query.success) return query.response;
+      const { code } = query.data;
+
+      const selectByCode = db.prepare(`
+      SELECT id, type, name, category, cost_price, sell_price, min_price, stock, imei, tax_exempt, created_at,
+        (SELECT COALESCE(SUM(l.quantity - l.returned_quantity - l.sold_quantity), 0)
+         FROM loans l
+         WHERE l.product_id = products.id AND l.status = 'open') AS on_loan
+      FROM products
+      WHERE imei = ?
+    `);
+
+      let product = selectByCode.get(code) as Product | undefined;
+      // Labels print a 12-digit code as an EAN-13, so the scanner reads it
+      // back with a check digit the product does not have
+      if (!product && toEan13(code.slice(0, 12)) === code) {
+        product = selectByCode.get(code.slice(0, 12)) as Product | undefined;
+      }
+
+      if (!product) {
+        return fail("PRODUCT_NOT_FOUND", `No product has the code ${code}.`);
+      }
+
+      return ok({ product });
+    } catch (error) {
+      console.error("GET Product lookup DB error:", error);
+      return fail("INTERNAL_ERROR", "Error looking up product.");
+    }
+  }
+);
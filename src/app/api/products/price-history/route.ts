@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { db } from "@/lib/database";
+import { getPriceHistory } from "@/lib/price-history";
+
+// --- GET /api/products/price-history?id=... (A product's price changes) ---
+export const GET = withPermission(
+  "products:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const id = url.searchParams.get("id");
+
+      if (!id) {
+        return missingParam("id", "Product ID is required.");
+      }
+
+      const product = db
+        .prepare(
+          "SELECT id, name, cost_price, sell_price, min_price FROM products WHERE id = ?"
+        )
+        .get(id);
+      if (!product) {
+        return fail("PRODUCT_NOT_FOUND", "Product not found.");
+      }
+
+      return ok({ product, history: getPriceHistory(id) });
+    } catch (error) {
+      console.error("GET Price history DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching price history.");
+    }
+  }
+);
@@ -0,0 +1,194 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import {
+  call,
+  createPartner,
+  createProduct,
+  receiveGoods,
+  signIn,
+  type Caller,
+} from "@/test/helpers";
+import { POST as lendOut } from "../loans/route";
+import { POST as createPurchaseOrder } from "../purchase-orders/route";
+import { POST as recordSale } from "../sales/route";
+import { POST as recordTransaction } from "../transactions/route";
+import { DELETE, PUT } from "./route";
+
+describe("DELETE /api/products", () => {
+  let owner: Caller;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+  });
+
+  it("deletes a product with its transactions and price history", async () => {
+    const partnerId = await createPartner(owner);
+    const productId = await createProduct(owner, { partnerId });
+    const purchase = await call(recordTransaction, owner, {
+      method: "POST",
+      body: {
+        productId,
+        type: "purchase",
+        quantity: 2,
+        price: 5,
+        totalAmount: 10,
+        imei: "",
+        date: "2026-01-10T10:00:00.000Z",
+        partnerId,
+        amountPaid: 0,
+      },
+    });
+    expect(purchase.status).toBe(201);
+    expect(
+      db
+        .prepare("SELECT COUNT(*) FROM price_history WHERE product_id = ?")
+        .pluck()
+        .get(productId)
+    ).toBe(1);
+
+    const { status } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/products?id=${productId}`,
+    });
+    expect(status).toBe(200);
+    for (const table of ["products", "price_history", "transactions"]) {
+      const column = table === "products" ? "id" : "product_id";
+      expect(
+        db.prepare(`SELECT 1 FROM ${table} WHERE ${column} = ?`).get(productId)
+      ).toBeUndefined();
+    }
+  });
+
+  it("reports a product that does not exist", async () => {
+    const { status, body } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: "/api/products?id=missing",
+    });
+    expect(status).toBe(404);
+    expect(body.error.code).toBe("PRODUCT_NOT_FOUND");
+  });
+
+  it("refuses to delete a product that is on a purchase order", async () => {
+    const partnerId = await createPartner(owner);
+    const productId = await createProduct(owner, { partnerId });
+    const order = await call(createPurchaseOrder, owner, {
+      method: "POST",
+      body: {
+        partnerId,
+        lines: [{ productId, quantity: 2, unitCost: 5 }],
+      },
+    });
+    expect(order.status).toBe(201);
+
+    const { status, body } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/products?id=${productId}`,
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("PRODUCT_IN_USE");
+    expect(
+      db.prepare("SELECT 1 FROM products WHERE id = ?").get(productId)
+    ).toBeTruthy();
+  });
+
+  it("refuses to delete a product that has been sold", async () => {
+    const productId = await createProduct(owner);
+    const sale = await call(recordSale, owner, {
+      method: "POST",
+      body: { productId, quantity: 1, date: "2026-04-01T10:00:00.000Z" },
+    });
+    expect(sale.status).toBe(201);
+
+    const { status, body } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/products?id=${productId}`,
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("PRODUCT_IN_USE");
+    expect(
+      db
+        .prepare("SELECT COUNT(*) FROM transactions WHERE product_id = ?")
+        .pluck()
+        .get(productId)
+    ).toBe(1);
+  });
+
+  it("refuses to delete a product with units out on loan", async () => {
+    const partnerId = await createPartner(owner);
+    const productId = await createProduct(owner, { partnerId });
+    const loan = await call(lendOut, owner, {
+      method: "POST",
+      body: { productId, partnerId, quantity: 2, dueDate: "2099-01-01" },
+    });
+    expect(loan.status).toBe(201);
+
+    const { status, body } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/products?id=${productId}`,
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("PRODUCT_IN_USE");
+    expect(
+      db
+        .prepare("SELECT quantity, status FROM loans WHERE id = ?")
+        .get(loan.body.data.id)
+    ).toEqual({ quantity: 2, status: "open" });
+  });
+});
+
+describe("PUT /api/products", () => {
+  it("leaves stock and recorded purchases as they are", async () => {
+    const owner = await signIn("owner");
+    const partnerId = await createPartner(owner);
+    const productId = await createProduct(owner, { partnerId });
+    await call(recordTransaction, owner, {
+      method: "POST",
+      body: {
+        productId,
+        type: "purchase",
+        quantity: 10,
+        price: 5,
+        totalAmount: 50,
+        imei: "",
+        date: "2026-01-10T10:00:00.000Z",
+        partnerId,
+      },
+    });
+    await receiveGoods(owner, {
+      partnerId,
+      productId,
+      quantity: 4,
+      unitCost: 3,
+    });
+    const ledger = () =>
+      db
+        .prepare(
+          "SELECT quantity, price, total_amount FROM transactions WHERE product_id = ? ORDER BY quantity"
+        )
+        .all(productId) as { quantity: number }[];
+    const before = ledger();
+
+    const { status } = await call(PUT, owner, {
+      method: "PUT",
+      path: `/api/products?id=${productId}`,
+      body: {
+        type: "sku",
+        name: `Renamed ${productId}`,
+        category: "Accessories",
+        costPrice: 6,
+        sellPrice: 10,
+        stock: 99,
+        partnerId,
+      },
+    });
+    expect(status).toBe(200);
+    expect(ledger()).toEqual(before);
+    expect(before.map((row) => row.quantity)).toEqual([4, 10]);
+    expect(
+      db
+        .prepare("SELECT stock FROM products WHERE id = ?")
+        .pluck()
+        .get(productId)
+    ).toBe(14);
+  });
+});
@@ -1,240 +1,365 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { callerCan } from "@/lib/permissions";
 import { db } from "@/lib/database";
+import {
+  auditedBulkChange,
+  auditedChange,
+  recordAudit,
+  snapshot,
+} from "@/lib/audit";
+import { recordPriceChange } from "@/lib/price-history";
+import { listQuery, productBody } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+import type { Product } from "@/lib/types";
 import { randomUUID } from "crypto";
 
-// Define the Product type for consistency
-export type Product = {
-  id: string;
-  type: "individual" | "sku";
-  name: string;
-  category: string;
-  price: number;
-  stock: number;
-  imei?: string | null;
-  created_at: string;
-};
-
 // --- GET /api/products (Read All) ---
-export async function GET(request: NextRequest) {
-  try {
-    const url = new URL(request.url);
-    const q = url.searchParams.get("q")?.trim() || "";
-    const page = parseInt(url.searchParams.get("page") || "1", 10);
-    const limit = parseInt(url.searchParams.get("limit") || "10", 10);
-    const offset = (page - 1) * limit;
-
-    // Only active products: stock > 0
-    let whereClause = "WHERE stock > -1"; // Adjusted to include zero stock
-    const params: any[] = [];
-
-    if (q) {
-      // Search differently depending on product type
-      whereClause += ` AND (
-        imei LIKE ?)
+export const GET = withPermission(
+  "products:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), listQuery);
+      if (!query.success) return query.response;
+      const { q, page, limit } = query.data;
+      const offset = (page - 1) * limit;
+
+      // Only active products: stock > 0
+      let whereClause = "WHERE stock > -1"; // Adjusted to include zero stock
+      const params: any[] = [];
+
+      if (q) {
+        // Match IMEI-tracked units by IMEI and any product by name
+        whereClause += ` AND (
+        imei LIKE ? OR name LIKE ?)
       `;
-      params.push(`%${q}%`);
-    }
+        params.push(`%${q}%`, `%${q}%`);
+      }
 
-    const stmt = db.prepare(`
-      SELECT id, type, name, category, price, stock, imei, created_at
+      const stmt = db.prepare(`
+      SELECT id, type, name, category, cost_price, sell_price, min_price, stock, imei, tax_exempt, created_at,
+        (SELECT COALESCE(SUM(l.quantity - l.returned_quantity - l.sold_quantity), 0)
+         FROM loans l
+         WHERE l.product_id = products.id AND l.status = 'open') AS on_loan
       FROM products
       ${whereClause}
       ORDER BY name ASC
       LIMIT ? OFFSET ?
     `);
 
-    const products: Product[] = stmt.all(...params, limit, offset) as Product[];
-
-    // Total count for pagination (respecting filters)
-    const countStmt = db.prepare(
-      `SELECT COUNT(*) as count FROM products ${whereClause}`
-    );
-    const { count } = countStmt.get(...params) as { count: number };
-
-    return NextResponse.json({ products, total: count }, { status: 200 });
-  } catch (error) {
-    console.error("GET Products DB error:", error);
-    return NextResponse.json(
-      { message: "Error fetching products." },
-      { status: 500 }
-    );
+      const products: Product[] = stmt.all(
+        ...params,
+        limit,
+        offset
+      ) as Product[];
+
+      // Total count for pagination (respecting filters)
+      const countStmt = db.prepare(
+        `SELECT COUNT(*) as count FROM products ${whereClause}`
+      );
+      const { count } = countStmt.get(...params) as { count: number };
+
+      return ok({ products, total: count });
+    } catch (error) {
+      console.error("GET Products DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching products.");
+    }
   }
-}
+);
 
 // --- POST /api/products (Create) ---
-export async function POST(request: NextRequest) {
-  try {
-    const data = await request.json();
-    const { type, name, category, price, stock, imei, partnerId } = data;
-    const newProductId = randomUUID();
-    const createdAt = new Date().toISOString();
-
-    if (
-      !type ||
-      !name ||
-      !category ||
-      price === undefined ||
-      stock === undefined ||
-      !partnerId
-    ) {
-      return NextResponse.json(
-        { message: "Missing required fields for product creation." },
-        { status: 400 }
+export const POST = withPermission(
+  "products:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, productBody);
+      if (!body.success) return body.response;
+      const {
+        type,
+        name,
+        category,
+        costPrice,
+        sellPrice,
+        minPrice,
+        stock,
+        imei,
+        partnerId,
+        taxExempt,
+      } = body.data;
+      const newProductId = randomUUID();
+      const createdAt = new Date().toISOString();
+
+      const stmt = db.prepare(
+        "INSERT INTO products (id, type, name, category, cost_price, sell_price, min_price, stock, imei, partner_id, tax_exempt, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)"
       );
-    }
 
-    const imeiValue = imei;
-
-    const stmt = db.prepare(
-      "INSERT INTO products (id, type, name, category, price, stock, imei, partner_id, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
-    );
-
-    stmt.run(
-      newProductId,
-      type,
-      name,
-      category,
-      price,
-      stock,
-      imeiValue,
-      partnerId,
-      createdAt
-    );
-
-    return NextResponse.json(
-      { id: newProductId, message: "Product added successfully." },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error("POST Product API error:", error);
-    const err = error as Error;
-
-    if (err.message.includes("UNIQUE constraint failed: products.name")) {
-      return NextResponse.json(
-        { message: "A product with this name already exists." },
-        { status: 409 }
+      auditedChange(user, "product", "create", newProductId, () => {
+        const result = stmt.run(
+          newProductId,
+          type,
+          name,
+          category,
+          costPrice,
+          sellPrice,
+          minPrice,
+          stock,
+          imei,
+          partnerId,
+          taxExempt ? 1 : 0,
+          createdAt
+        );
+        recordPriceChange(user, newProductId);
+        return result;
+      });
+
+      return ok(
+        { id: newProductId },
+        { status: 201, message: "Product added successfully." }
+      );
+    } catch (error) {
+      console.error("POST Product API error:", error);
+      const err = error as Error;
+
+      if (err.message.includes("UNIQUE constraint failed: products.name")) {
+        return fail(
+          "PRODUCT_NAME_TAKEN",
+          "A product with this name already exists."
+        );
+      }
+      if (err.message.includes("UNIQUE constraint failed: products.imei")) {
+        return fail(
+          "IMEI_TAKEN",
+          "A product with this IMEI / serial number already exists."
+        );
+      }
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during product creation."
       );
     }
-    return NextResponse.json(
-      { message: "Internal Server Error during product creation." },
-      { status: 500 }
-    );
   }
-}
+);
 
 // --- PUT /api/products?id=... (Update) ---
-export async function PUT(request: NextRequest) {
-  const url = new URL(request.url);
-  const productId = url.searchParams.get("id");
-
-  if (!productId) {
-    return NextResponse.json(
-      { message: "Product ID is required for update." },
-      { status: 400 }
-    );
-  }
+export const PUT = withPermission(
+  "products:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const productId = url.searchParams.get("id");
 
-  try {
-    const data = await request.json();
-    const { type, name, category, price, stock, imei, partnerId } = data;
-
-    if (
-      !type ||
-      !name ||
-      !category ||
-      price === undefined ||
-      stock === undefined ||
-      !partnerId
-    ) {
-      return NextResponse.json(
-        { message: "Missing required fields for product update." },
-        { status: 400 }
-      );
+    if (!productId) {
+      return missingParam("id", "Product ID is required for update.");
     }
 
-    const imeiValue = imei;
-
-    const stmt = db.prepare(
-      "UPDATE products SET type = ?, name = ?, category = ?, price = ?, stock = ?, imei = ?, partner_id = ? WHERE id = ?"
-    );
-    const result = stmt.run(
-      type,
-      name,
-      category,
-      price,
-      stock,
-      imeiValue,
-      partnerId,
-      productId
-    );
-
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "Product not found or no changes made." },
-        { status: 404 }
+    try {
+      const body = await parseBody(request, productBody);
+      if (!body.success) return body.response;
+      const {
+        type,
+        name,
+        category,
+        costPrice,
+        sellPrice,
+        minPrice,
+        imei,
+        partnerId,
+        taxExempt,
+      } = body.data;
+
+      // Only roles allowed to set prices may change an existing one.
+      if (!callerCan(user, "products:price")) {
+        const existing = db
+          .prepare(
+            "SELECT cost_price, sell_price, min_price FROM products WHERE id = ?"
+          )
+          .get(productId) as
+          | { cost_price: number; sell_price: number; min_price: number | null }
+          | undefined;
+        if (
+          existing &&
+          (existing.cost_price !== costPrice ||
+            existing.sell_price !== sellPrice ||
+            existing.min_price !== minPrice)
+        ) {
+          return fail(
+            "FORBIDDEN",
+            "You do not have permission to change prices."
+          );
+        }
+      }
+
+      // Stock is left alone: it only moves with the transactions that bring
+      // units in or take them out, so the ledger keeps adding up to it
+      const stmt = db.prepare(
+        "UPDATE products SET type = ?, name = ?, category = ?, cost_price = ?, sell_price = ?, min_price = ?, imei = ?, partner_id = ?, tax_exempt = COALESCE(?, tax_exempt) WHERE id = ?"
       );
-    }
+      const result = auditedChange(user, "product", "update", productId, () => {
+        const result = stmt.run(
+          type,
+          name,
+          category,
+          costPrice,
+          sellPrice,
+          minPrice,
+          imei,
+          partnerId,
+          // Left unchanged when the caller does not send it
+          taxExempt === undefined ? null : taxExempt ? 1 : 0,
+          productId
+        );
+        recordPriceChange(user, productId);
+        return result;
+      });
 
-    return NextResponse.json(
-      { id: productId, message: "Product updated successfully." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("PUT Product API error:", error);
-    const err = error as Error;
-
-    if (err.message.includes("UNIQUE constraint failed: products.name")) {
-      return NextResponse.json(
-        { message: "A product with this name already exists." },
-        { status: 409 }
+      if (result.changes === 0) {
+        return fail(
+          "PRODUCT_NOT_FOUND",
+          "Product not found or no changes made."
+        );
+      }
+
+      return ok(
+        { id: productId },
+        { message: "Product updated successfully." }
+      );
+    } catch (error) {
+      console.error("PUT Product API error:", error);
+      const err = error as Error;
+
+      if (err.message.includes("UNIQUE constraint failed: products.name")) {
+        return fail(
+          "PRODUCT_NAME_TAKEN",
+          "A product with this name already exists."
+        );
+      }
+      if (err.message.includes("UNIQUE constraint failed: products.imei")) {
+        return fail(
+          "IMEI_TAKEN",
+          "A product with this IMEI / serial number already exists."
+        );
+      }
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during product update."
       );
     }
-    return NextResponse.json(
-      { message: "Internal Server Error during product update." },
-      { status: 500 }
-    );
   }
-}
+);
 
 // --- DELETE /api/products?id=... (Delete) ---
-export async function DELETE(request: NextRequest) {
-  const url = new URL(request.url);
-  const productId = url.searchParams.get("id");
-
-  if (!productId) {
-    return NextResponse.json(
-      { message: "Product ID is required for deletion." },
-      { status: 400 }
-    );
-  }
-
-  try {
-    const stmt = db.prepare("DELETE FROM products WHERE id = ?");
-    const result = stmt.run(productId);
+export const DELETE = withPermission(
+  "products:delete",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const productId = url.searchParams.get("id");
 
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "Product not found." },
-        { status: 404 }
-      );
+    if (!productId) {
+      return missingParam("id", "Product ID is required for deletion.");
     }
 
-    // Optionally delete related transactions (cascading delete if foreign keys are set up, but safer to delete manually here)
-
-    const deleteTransactionsStmt = db.prepare(
-      "DELETE FROM transactions WHERE product_id = ?"
-    );
-    deleteTransactionsStmt.run(productId);
-
-    return NextResponse.json(
-      { message: "Product and related transactions deleted successfully." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("DELETE Product DB error:", error);
-    return NextResponse.json(
-      { message: "Error deleting product." },
-      { status: 500 }
-    );
+    try {
+      const result = db.transaction(
+        (): { changes: number } | { inUse: string } => {
+          const before = snapshot("product", productId);
+          if (!before) return { changes: 0 };
+
+          // Purchase orders are kept as a record of what was ordered, so a
+          // product on one stays.
+          const ordered = db
+            .prepare("SELECT 1 FROM purchase_order_lines WHERE product_id = ?")
+            .get(productId);
+          if (ordered) {
+            return {
+              inUse:
+                "Product is referenced by purchase orders and cannot be deleted.",
+            };
+          }
+          // Units out on loan are still the shop's and tracked by the loan
+          const lent = db
+            .prepare(
+              "SELECT 1 FROM loans WHERE product_id = ? AND status = 'open'"
+            )
+            .get(productId);
+          if (lent) {
+            return {
+              inUse: "Product has units out on loan and cannot be deleted.",
+            };
+          }
+
+          // Sales are invoice lines, and loans and payments point at their
+          // transactions, so a product with any of them is part of the books.
+          const recorded = db
+            .prepare(
+              `SELECT 1 FROM transactions t
+               WHERE t.product_id = ?
+                 AND (t.type IN ('sale', 'lend-out')
+                   OR t.invoice_id IS NOT NULL
+                   OR t.loan_id IS NOT NULL
+                   OR EXISTS (SELECT 1 FROM payment_allocations a
+                              WHERE a.transaction_id = t.id))
+               UNION ALL
+               SELECT 1 FROM loans WHERE product_id = ?
+               LIMIT 1`
+            )
+            .get(productId, productId);
+          if (recorded) {
+            return {
+              inUse:
+                "Product has sales, loans or payments recorded and cannot be deleted.",
+            };
+          }
+
+          // Related transactions go first so each one is logged individually
+          // rather than disappearing through the foreign key cascade.
+          auditedBulkChange(
+            user,
+            "transaction",
+            "delete",
+            { sql: "product_id = ?", params: [productId] },
+            () =>
+              db
+                .prepare("DELETE FROM transactions WHERE product_id = ?")
+                .run(productId)
+          );
+          // Its price history goes with it; the last prices stay in the audit
+          // log's copy of the product.
+          db.prepare("DELETE FROM price_history WHERE product_id = ?").run(
+            productId
+          );
+
+          const result = db
+            .prepare("DELETE FROM products WHERE id = ?")
+            .run(productId);
+          recordAudit(user, {
+            entity: "product",
+            entityId: productId,
+            action: "delete",
+            before,
+          });
+          return result;
+        }
+      )();
+
+      if ("inUse" in result) {
+        return fail("PRODUCT_IN_USE", result.inUse);
+      }
+      if (result.changes === 0) {
+        return fail("PRODUCT_NOT_FOUND", "Product not found.");
+      }
+
+      return ok(null, {
+        message: "Product and related transactions deleted successfully.",
+      });
+    } catch (error) {
+      console.error("DELETE Product DB error:", error);
+      if ((error as Error).message.includes("FOREIGN KEY constraint failed")) {
+        return fail(
+          "PRODUCT_IN_USE",
+          "Product is still referenced by other records and cannot be deleted."
+        );
+      }
+      return fail("INTERNAL_ERROR", "Error deleting product.");
+    }
   }
-}
+);
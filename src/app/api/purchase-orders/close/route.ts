@@ -0,0 +1,31 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import { PurchaseOrderError, closePurchaseOrder } from "@/lib/purchasing";
+
+// --- POST /api/purchase-orders/close?id=... (Close an order, cancelling any backorder) ---
+export const POST = withPermission(
+  "purchase-orders:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Purchase order ID is required.");
+    }
+
+    try {
+      closePurchaseOrder(user, id);
+      return ok({ id }, { message: "Purchase order closed." });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) {
+        return failWith(error);
+      }
+      console.error("POST Purchase Order close API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error while closing the purchase order."
+      );
+    }
+  }
+);
@@ -0,0 +1,54 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import { PurchaseOrderError, receivePurchaseOrder } from "@/lib/purchasing";
+import { StockError } from "@/lib/sales";
+import { PaymentError } from "@/lib/accounts";
+import { receiptBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/purchase-orders/receive?id=... (Book in received goods) ---
+// Body: { date?, lines: [{ lineId, quantity }], amountPaid? }. Lines with a
+// zero quantity are skipped, so the form can send every line of the order.
+// Whatever is not paid on delivery is owed to the vendor.
+export const POST = withPermission(
+  "purchase-orders:receive",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Purchase order ID is required for a receipt.");
+    }
+
+    try {
+      const body = await parseBody(request, receiptBody);
+      if (!body.success) return body.response;
+      const { date, lines, amountPaid } = body.data;
+
+      const transactionIds = receivePurchaseOrder(user, id, {
+        date,
+        lines: lines.filter((line) => line.quantity > 0),
+        amountPaid,
+      });
+
+      return ok(
+        { id, transactionIds },
+        { status: 201, message: "Goods received. Stock and purchases updated." }
+      );
+    } catch (error) {
+      if (
+        error instanceof PurchaseOrderError ||
+        error instanceof StockError ||
+        error instanceof PaymentError
+      ) {
+        return failWith(error);
+      }
+      console.error("POST Purchase Order receipt API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during goods receipt."
+      );
+    }
+  }
+);
@@ -0,0 +1,115 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
+import {
+  PurchaseOrderError,
+  createPurchaseOrder,
+  deletePurchaseOrder,
+  getPurchaseOrder,
+  listPurchaseOrders,
+  updatePurchaseOrder,
+} from "@/lib/purchasing";
+import { purchaseOrderBody, purchaseOrderListQuery } from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+
+// --- GET /api/purchase-orders (Read; ?id=... for one order with its lines) ---
+export const GET = withPermission(
+  "purchase-orders:read",
+  async (request: NextRequest) => {
+    try {
+      const url = new URL(request.url);
+      const id = url.searchParams.get("id");
+
+      if (id) {
+        const order = getPurchaseOrder(id);
+        if (!order) {
+          return fail("PURCHASE_ORDER_NOT_FOUND", "Purchase order not found.");
+        }
+        return ok({ order });
+      }
+
+      const query = parseQuery(url, purchaseOrderListQuery);
+      if (!query.success) return query.response;
+
+      const orders = listPurchaseOrders(query.data);
+      return ok({ orders, total: orders.length });
+    } catch (error) {
+      console.error("GET Purchase Orders DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching purchase orders.");
+    }
+  }
+);
+
+// --- POST /api/purchase-orders (Create a draft) ---
+export const POST = withPermission(
+  "purchase-orders:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, purchaseOrderBody);
+      if (!body.success) return body.response;
+
+      const id = createPurchaseOrder(user, body.data);
+      return ok({ id }, { status: 201, message: "Purchase order created." });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) return failWith(error);
+      console.error("POST Purchase Order API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during purchase order creation."
+      );
+    }
+  }
+);
+
+// --- PUT /api/purchase-orders?id=... (Edit a draft) ---
+export const PUT = withPermission(
+  "purchase-orders:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Purchase order ID is required for update.");
+    }
+
+    try {
+      const body = await parseBody(request, purchaseOrderBody);
+      if (!body.success) return body.response;
+
+      updatePurchaseOrder(user, id, body.data);
+      return ok({ id }, { message: "Purchase order updated." });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) return failWith(error);
+      console.error("PUT Purchase Order API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during purchase order update."
+      );
+    }
+  }
+);
+
+// --- DELETE /api/purchase-orders?id=... (Drafts only) ---
+export const DELETE = withPermission(
+  "purchase-orders:write",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const id = url.searchParams.get("id");
+
+    if (!id) {
+      return missingParam("id", "Purchase order ID is required for deletion.");
+    }
+
+    try {
+      deletePurchaseOrder(user, id);
+      return ok(null, { message: "Purchase order deleted." });
+    } catch (error) {
+      if (error instanceof PurchaseOrderError) return failWith(error);
+      console.error("DELETE Purchase Order API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during purchase order deletion."
+      );
+    }
+  }
+);
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { AGING_BUCKETS, getAgingReport } from "@/lib/accounts";
+import { toCsv } from "@/lib/csv";
+import { agingQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+import type { AgingReport } from "@/lib/types";
+
+/**
+ * One CSV line per partner, or per unpaid transaction when `detail` is set.
+ */
+function agingCsv(report: AgingReport, detail: boolean): string {
+  if (detail) {
+    return toCsv(
+      [
+        "Partner",
+        "Shop",
+        "Transaction",
+        "Date",
+        "Product",
+        "Quantity",
+        "Total",
+        "Paid",
+        "Outstanding",
+        "Age (days)",
+        "Bucket",
+      ],
+      report.rows.flatMap((row) =>
+        row.items.map((item) => [
+          row.partnerName,
+          row.partnerShop,
+          item.transaction_id,
+          item.date.slice(0, 10),
+          item.product_name,
+          item.quantity,
+          item.total.toFixed(2),
+          item.paid.toFixed(2),
+          item.outstanding.toFixed(2),
+          item.age_days,
+          item.bucket,
+        ])
+      )
+    );
+  }
+
+  return toCsv(
+    ["Partner", "Shop", ...AGING_BUCKETS, "Total", "Unapplied credit"],
+    [
+      ...report.rows.map((row) => [
+        row.partnerName,
+        row.partnerShop,
+        ...AGING_BUCKETS.map((bucket) => row.buckets[bucket].toFixed(2)),
+        row.total.toFixed(2),
+        row.unappliedCredit.toFixed(2),
+      ]),
+      [
+        "Total",
+        "",
+        ...AGING_BUCKETS.map((bucket) => report.totals[bucket].toFixed(2)),
+        report.totals.total.toFixed(2),
+        report.totals.unappliedCredit.toFixed(2),
+      ],
+    ]
+  );
+}
+
+// --- GET /api/reports/aging (Unpaid balances bucketed by age) ---
+// Query: side (receivable | payable, default receivable), asOf (YYYY-MM-DD,
+// default today), format (json | csv), detail (true for one CSV line per
+// transaction).
+export const GET = withPermission(
+  "reports:read",
+  async (request: NextRequest) => {
+    const query = parseQuery(new URL(request.url), agingQuery);
+    if (!query.success) return query.response;
+    const { side, asOf, format, detail } = query.data;
+
+    try {
+      const report = getAgingReport(side, asOf);
+      if (format === "csv") {
+        return new NextResponse(agingCsv(report, detail), {
+          status: 200,
+          headers: {
+            "Content-Type": "text/csv; charset=utf-8",
+            "Content-Disposition": `attachment; filename="${side}-aging-${asOf}${
+              detail ? "-detail" : ""
+            }.csv"`,
+          },
+        });
+      }
+      return ok(report);
+    } catch (error) {
+      console.error("GET Aging report DB error:", error);
+      return fail("INTERNAL_ERROR", "Error building aging report.");
+    }
+  }
+);
@@ -0,0 +1,26 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { getReport } from "@/lib/reports";
+import { reportQuery } from "@/lib/schemas";
+import { parseQuery } from "@/lib/validation";
+
+// --- GET /api/reports (Profit summary, time series and breakdown) ---
+// Query: from, to (YYYY-MM-DD, optional), granularity (default month),
+// groupBy (default category).
+export const GET = withPermission(
+  "reports:read",
+  async (request: NextRequest) => {
+    const query = parseQuery(new URL(request.url), reportQuery);
+    if (!query.success) return query.response;
+    const { from, to, granularity, groupBy } = query.data;
+
+    try {
+      const report = getReport({ from, to }, granularity, groupBy);
+      return ok(report);
+    } catch (error) {
+      console.error("GET Reports DB error:", error);
+      return fail("INTERNAL_ERROR", "Error building report.");
+    }
+  }
+);
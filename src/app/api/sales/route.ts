@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, ok } from "@/lib/api-response";
+import { recordSale, StockError } from "@/lib/sales";
+import { PaymentError } from "@/lib/accounts";
+import { PricingError, resolveApprover } from "@/lib/pricing";
+import { saleBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+
+// --- POST /api/sales (Record a sale and decrement stock atomically) ---
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, saleBody);
+      if (!body.success) return body.response;
+      const { approval, ...sale } = body.data;
+
+      const approver = await resolveApprover(approval);
+      const { id, invoiceId, stock } = recordSale(user, {
+        ...sale,
+        approver,
+      });
+
+      return ok(
+        { id, invoiceId, stock },
+        { status: 201, message: "Sale recorded successfully." }
+      );
+    } catch (error) {
+      if (
+        error instanceof StockError ||
+        error instanceof PaymentError ||
+        error instanceof PricingError
+      ) {
+        return failWith(error);
+      }
+      console.error("POST Sale API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during sale recording."
+      );
+    }
+  }
+);
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import { getSettings } from "@/lib/settings";
+import { call, signIn, type Caller } from "@/test/helpers";
+import { PUT } from "./route";
+
+describe("PUT /api/settings", () => {
+  let owner: Caller;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+  });
+
+  const number = (documentNumbering: object) =>
+    call(PUT, owner, { method: "PUT", body: { documentNumbering } });
+
+  it("refuses a prefix that another document type uses", async () => {
+    const { status, body } = await number({
+      return: { prefix: "PUR", yearlyReset: true, padding: 6 },
+    });
+    expect(status).toBe(400);
+    expect(body.error.code).toBe("VALIDATION_FAILED");
+    expect(body.error.fields).toEqual({
+      "documentNumbering.return.prefix":
+        "The prefix PUR is already used for purchase documents.",
+    });
+    expect(getSettings().documentNumbering.return.prefix).toBe("RET");
+  });
+
+  it("accepts a prefix no other type uses", async () => {
+    const { status } = await number({
+      return: { prefix: "RTN", yearlyReset: true, padding: 6 },
+    });
+    expect(status).toBe(200);
+    expect(getSettings().documentNumbering.return.prefix).toBe("RTN");
+  });
+
+  it("logs the settings a save changed", async () => {
+    const { status } = await call(PUT, owner, {
+      method: "PUT",
+      body: { shopName: "Corner Shop" },
+    });
+    expect(status).toBe(200);
+
+    const entry = db
+      .prepare(
+        `SELECT actor_id, before_json, after_json FROM audit_log
+         WHERE entity = 'settings' ORDER BY id DESC LIMIT 1`
+      )
+      .get() as { actor_id: string; before_json: string; after_json: string };
+    expect(entry.actor_id).toBe(owner.id);
+    expect(JSON.parse(entry.before_json)).toEqual({ shopName: "DeskVault" });
+    expect(JSON.parse(entry.after_json)).toEqual({ shopName: "Corner Shop" });
+  });
+});
@@ -0,0 +1,92 @@
+import { NextRequest } from "next/server";
+import { withAuth, withPermission } from "@/lib/auth";
+import { fail, ok } from "@/lib/api-response";
+import { recordAudit } from "@/lib/audit";
+import { db } from "@/lib/database";
+import { DOCUMENT_TYPES } from "@/lib/numbering";
+import { getSettings, updateSettings } from "@/lib/settings";
+import { settingsBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import type { DocumentType, ShopSettings } from "@/lib/types";
+
+// --- GET /api/settings (Read; every signed-in user) ---
+export const GET = withAuth(async () => {
+  try {
+    return ok({ settings: getSettings() });
+  } catch (error) {
+    console.error("GET Settings DB error:", error);
+    return fail("INTERNAL_ERROR", "Error fetching settings.");
+  }
+});
+
+// --- PUT /api/settings (Update any subset of settings) ---
+export const PUT = withPermission(
+  "settings:manage",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, settingsBody);
+      if (!body.success) return body.response;
+      const { maxDiscountPercent, documentNumbering, ...rest } = body.data;
+      const patch: Partial<ShopSettings> = rest;
+
+      if (maxDiscountPercent) {
+        // Roles left out keep their current limit
+        patch.maxDiscountPercent = {
+          ...getSettings().maxDiscountPercent,
+          ...maxDiscountPercent,
+        };
+      }
+      if (documentNumbering) {
+        // Document types left out keep their current format
+        patch.documentNumbering = {
+          ...getSettings().documentNumbering,
+          ...documentNumbering,
+        };
+        // Purchases and returns share a table and its unique number, and no
+        // two documents should read alike, so each type keeps its own prefix
+        const claimed = new Map<string, DocumentType>();
+        for (const type of DOCUMENT_TYPES) {
+          const prefix = patch.documentNumbering[type].prefix.toUpperCase();
+          const owner = claimed.get(prefix);
+          if (owner) {
+            // The error goes on whichever of the two this request changed
+            const [changed, other] = documentNumbering[type]
+              ? [type, owner]
+              : [owner, type];
+            const message = `The prefix ${prefix} is already used for ${other} documents.`;
+            return fail("VALIDATION_FAILED", message, {
+              [`documentNumbering.${changed}.prefix`]: message,
+            });
+          }
+          claimed.set(prefix, type);
+        }
+      }
+
+      const settings = db.transaction(() => {
+        // Only the settings this request sent are logged, so a save that
+        // leaves the logo alone does not copy it into every entry
+        const keys = Object.keys(patch) as (keyof ShopSettings)[];
+        const pick = (from: ShopSettings) =>
+          Object.fromEntries(keys.map((key) => [key, from[key]]));
+
+        const before = pick(getSettings());
+        const after = updateSettings(patch);
+        recordAudit(user, {
+          entity: "settings",
+          entityId: "shop",
+          action: "update",
+          before,
+          after: pick(after),
+        });
+        return after;
+      })();
+      return ok({ settings }, { message: "Settings saved successfully." });
+    } catch (error) {
+      console.error("PUT Settings API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error while saving settings."
+      );
+    }
+  }
+);
@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import {
+  call,
+  createPartner,
+  createProduct,
+  receiveGoods,
+  signIn,
+  type Caller,
+} from "@/test/helpers";
+import { POST, PUT } from "./route";
+
+describe("PUT /api/transactions", () => {
+  let owner: Caller;
+  let partnerId: string;
+  let productId: string;
+
+  // The fields a correction may change
+  const correction = (quantity: number) => ({
+    quantity,
+    price: 5,
+    totalAmount: 5 * quantity,
+    imei: "",
+    date: "2026-01-10T10:00:00.000Z",
+    partnerId,
+  });
+
+  const entry = (type: string, quantity: number) => ({
+    productId,
+    type,
+    ...correction(quantity),
+  });
+
+  const stock = () =>
+    db
+      .prepare("SELECT stock FROM products WHERE id = ?")
+      .pluck()
+      .get(productId);
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+    partnerId = await createPartner(owner);
+    productId = await createProduct(owner, { partnerId });
+  });
+
+  it("corrects one transaction and moves stock by the difference", async () => {
+    const purchase = await call(POST, owner, {
+      method: "POST",
+      body: { ...entry("purchase", 3), amountPaid: 0 },
+    });
+    const other = await call(POST, owner, {
+      method: "POST",
+      body: { ...entry("purchase", 2), amountPaid: 0 },
+    });
+    const before = stock() as number;
+
+    const { status } = await call(PUT, owner, {
+      method: "PUT",
+      path: `/api/transactions?id=${purchase.body.data.id}`,
+      body: correction(4),
+    });
+    expect(status).toBe(200);
+
+    const quantityOf = (id: string) =>
+      db
+        .prepare("SELECT quantity FROM transactions WHERE id = ?")
+        .pluck()
+        .get(id);
+    expect(quantityOf(purchase.body.data.id)).toBe(4);
+    expect(quantityOf(other.body.data.id)).toBe(2);
+    expect(stock()).toBe(before + 1);
+  });
+
+  it("refuses to change a purchase that has been paid for", async () => {
+    const paid = await call(POST, owner, {
+      method: "POST",
+      body: entry("purchase", 3),
+    });
+
+    const { status, body } = await call(PUT, owner, {
+      method: "PUT",
+      path: `/api/transactions?id=${paid.body.data.id}`,
+      body: correction(5),
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("TRANSACTION_IN_USE");
+  });
+
+  it("refuses to change a purchase booked by a purchase order receipt", async () => {
+    const receiptId = await receiveGoods(owner, {
+      partnerId,
+      productId,
+      quantity: 4,
+      unitCost: 3,
+    });
+    const before = stock();
+
+    const { status, body } = await call(PUT, owner, {
+      method: "PUT",
+      path: `/api/transactions?id=${receiptId}`,
+      body: correction(14),
+    });
+    expect(status).toBe(409);
+    expect(body.error.code).toBe("TRANSACTION_IN_USE");
+    expect(
+      db
+        .prepare("SELECT quantity, price FROM transactions WHERE id = ?")
+        .get(receiptId)
+    ).toEqual({ quantity: 4, price: 3 });
+    expect(stock()).toBe(before);
+  });
+
+  it("reports a transaction that does not exist", async () => {
+    const { status, body } = await call(PUT, owner, {
+      method: "PUT",
+      path: "/api/transactions?id=missing",
+      body: correction(1),
+    });
+    expect(status).toBe(404);
+    expect(body.error.code).toBe("TRANSACTION_NOT_FOUND");
+  });
+});
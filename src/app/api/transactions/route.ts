@@ -1,55 +1,61 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, failWith, missingParam, ok } from "@/lib/api-response";
 import { db } from "@/lib/database";
+import { auditedBulkChange, auditedChange } from "@/lib/audit";
+import { StockError, adjustStock } from "@/lib/sales";
+import { PaymentError, insertPayment } from "@/lib/accounts";
+import { productTax, splitTax } from "@/lib/tax";
+import { nextDocumentNumber } from "@/lib/numbering";
+import {
+  listQuery,
+  transactionBody,
+  transactionUpdateBody,
+} from "@/lib/schemas";
+import { parseBody, parseQuery } from "@/lib/validation";
+import type { Transaction, TransactionListItem } from "@/lib/types";
 import { randomUUID } from "crypto";
 
-// Define the Transaction type for consistency
-interface Transaction {
-  id: string;
-  productId: string; // CamelCase for TypeScript
-  type: "purchase" | "sale" | "lend-out" | "return";
-  quantity: number;
-  price: number;
-  imei?: string | null; // CamelCase for TypeScript
-  totalAmount: number; // CamelCase for TypeScript
-  date: string;
-  party: string;
-  partnerId: string; // CamelCase for TypeScript
-  created_at: string;
-}
 // --- GET /api/transactions (Read All) ---
-export async function GET(request: NextRequest) {
-  try {
-    const url = new URL(request.url);
-    const q = url.searchParams.get("q")?.trim() || "";
-    const page = parseInt(url.searchParams.get("page") || "1", 10);
-    const limit = parseInt(url.searchParams.get("limit") || "10", 10);
-    const offset = (page - 1) * limit;
+export const GET = withPermission(
+  "transactions:read",
+  async (request: NextRequest) => {
+    try {
+      const query = parseQuery(new URL(request.url), listQuery);
+      if (!query.success) return query.response;
+      const { q, page, limit } = query.data;
+      const offset = (page - 1) * limit;
 
-    let whereClause = "WHERE deleted_at IS NULL";
-    const params: any[] = [];
+      let whereClause = "WHERE deleted_at IS NULL";
+      const params: any[] = [];
 
-    if (q) {
-      // Corrected WHERE clause: remove the unnecessary closing parenthesis
-      // and ensure clear matching for IMEI
-      whereClause += ` AND (
-    imei LIKE ? 
+      if (q) {
+        // Corrected WHERE clause: remove the unnecessary closing parenthesis
+        // and ensure clear matching for IMEI
+        whereClause += ` AND (
+    imei LIKE ? OR number LIKE ?
   )`;
 
-      // Use wildcards for broad searching
-      const searchTerm = `%${q}%`;
+        // Use wildcards for broad searching
+        const searchTerm = `%${q}%`;
 
-      params.push(searchTerm);
-    }
+        params.push(searchTerm, searchTerm);
+      }
 
-    const stmt = db.prepare(`
+      const stmt = db.prepare(`
       SELECT 
         id, 
+        number,
         product_id AS productId,
         type, 
         quantity, 
         price, 
         imei,
         total_amount AS totalAmount,
+        list_price AS listPrice,
+        discount_amount AS discountAmount,
+        discount_reason AS discountReason,
+        invoice_id AS invoiceId,
         date, 
         snapshot_partner_name AS party, 
         partner_id AS partnerId,
@@ -60,215 +66,272 @@ export async function GET(request: NextRequest) {
       LIMIT ? OFFSET ?
     `);
 
-    const transactions: Transaction[] = stmt.all(
-      ...params,
-      limit,
-      offset
-    ) as Transaction[];
+      const transactions = stmt.all(
+        ...params,
+        limit,
+        offset
+      ) as TransactionListItem[];
 
-    const countStmt = db.prepare(
-      `SELECT COUNT(*) as count FROM transactions ${whereClause}`
-    );
-    const { count } = countStmt.get(...params) as { count: number };
+      const countStmt = db.prepare(
+        `SELECT COUNT(*) as count FROM transactions ${whereClause}`
+      );
+      const { count } = countStmt.get(...params) as { count: number };
 
-    return NextResponse.json({ transactions, total: count }, { status: 200 });
-  } catch (error) {
-    console.error("GET Transactions DB error:", error);
-    return NextResponse.json(
-      { message: "Error fetching transactions." },
-      { status: 500 }
-    );
+      return ok({ transactions, total: count });
+    } catch (error) {
+      console.error("GET Transactions DB error:", error);
+      return fail("INTERNAL_ERROR", "Error fetching transactions.");
+    }
   }
-}
+);
 
 // --- POST /api/transactions (Create) ---
-export async function POST(request: NextRequest) {
-  try {
-    const data = await request.json();
-    const {
-      productId,
-      type,
-      quantity,
-      price,
-      imei,
-      totalAmount,
-      date,
-      party,
-      partyPhone,
-      partyShop,
-      partnerId,
-    } = data;
-    const newTransactionId = randomUUID();
-
-    if (
-      !productId ||
-      !type ||
-      quantity === undefined ||
-      price === undefined ||
-      totalAmount === undefined ||
-      imei === undefined ||
-      !date
-    ) {
-      return NextResponse.json(
-        { message: "Missing required fields for transaction creation." },
-        { status: 400 }
-      );
-    }
-    // 1. Sanitize the incoming ID.
-    const sanitizedPartnerId = partnerId ? partnerId.trim() : "";
+export const POST = withPermission(
+  "transactions:write",
+  async (request: NextRequest, user) => {
+    try {
+      const body = await parseBody(request, transactionBody);
+      if (!body.success) return body.response;
+      const {
+        productId,
+        type,
+        quantity,
+        price,
+        imei,
+        totalAmount,
+        date,
+        party,
+        partyPhone,
+        partyShop,
+        partnerId,
+        amountPaid,
+      } = body.data;
+      const newTransactionId = randomUUID();
 
-    // 2. Since the database schema allows partner_id to be NULL,
-    // we set it to null for generic/walk-in transactions. This is the efficient approach.
-    const partnerIdForDB =
-      !sanitizedPartnerId || sanitizedPartnerId === "CUSTOMER"
-        ? null
-        : sanitizedPartnerId;
-    const stmt = db.prepare(
-      `INSERT INTO transactions (
-            id, product_id, type, quantity, price,imei, total_amount, date, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, partner_id
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-    );
+      // Sales and purchases are taxed at the product's rate; totalAmount is
+      // read as net or gross according to the shop's tax settings.
+      const tax =
+        type === "sale" || type === "purchase"
+          ? productTax(productId, totalAmount)
+          : splitTax(totalAmount, 0, true);
 
-    stmt.run(
-      newTransactionId, // 1. id
-      productId, // 2. product_id
-      type, // 3. type
-      quantity, // 4. quantity
-      price, // 5. price
-      imei, // 6. imei
-      totalAmount, // 6. total_amount
-      date, // 7. date
-      party, // 8. The value (party name) is inserted into the 'snapshot_partner_name' column
-      partyPhone || null, // 9. The value (party phone) is inserted into the 'snapshot_partner_phone' column
-      partyShop || null, // 10. The value (party shop) is inserted into the 'snapshot_partner_shop' column
-      partnerIdForDB
-    );
+      if (amountPaid !== undefined && amountPaid > tax.gross) {
+        const message =
+          "Amount paid must be between zero and the transaction total.";
+        return fail("VALIDATION_FAILED", message, { amountPaid: message });
+      }
+      const stmt = db.prepare(
+        `INSERT INTO transactions (
+            id, number, product_id, snapshot_product_name, type, quantity, price,imei, total_amount, tax_rate, net_amount, tax_amount, date, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, partner_id
+        ) VALUES (?, ?, ?, (SELECT name FROM products WHERE id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      );
 
-    return NextResponse.json(
-      { id: newTransactionId, message: "Transaction recorded successfully." },
-      { status: 201 }
-    );
-  } catch (error) {
-    console.error("POST Transaction API error:", error);
-    return NextResponse.json(
-      { message: "Internal Server Error during transaction recording." },
-      { status: 500 }
-    );
-  }
-}
-// --- PUT /api/transactions (Update) ---
-export async function PUT(request: NextRequest) {
-  try {
-    const data = await request.json();
-    const {
-      productId,
-      type,
-      quantity,
-      price,
-      totalAmount,
-      imei,
-      date,
-      party,
-      partyPhone,
-      partyShop,
-      partnerId,
-    } = data;
+      // Sales and purchases are settled on the spot unless the caller says
+      // how much was actually paid.
+      const paid = amountPaid ?? tax.gross;
+      db.transaction(() => {
+        auditedChange(user, "transaction", "create", newTransactionId, () =>
+          stmt.run(
+            newTransactionId, // 1. id
+            // Purchases and returns are numbered; loans out are not
+            type === "purchase" || type === "return"
+              ? nextDocumentNumber(type, date)
+              : null,
+            productId, // 2. product_id
+            productId, // Product name as recorded
+            type, // 3. type
+            quantity, // 4. quantity
+            price, // 5. price
+            imei, // 6. imei
+            tax.gross, // 6. total_amount
+            tax.rate,
+            tax.net,
+            tax.tax,
+            date, // 7. date
+            party, // 8. The value (party name) is inserted into the 'snapshot_partner_name' column
+            partyPhone, // 9. The value (party phone) is inserted into the 'snapshot_partner_phone' column
+            partyShop, // 10. The value (party shop) is inserted into the 'snapshot_partner_shop' column
+            partnerId
+          )
+        );
+        if ((type === "sale" || type === "purchase") && paid > 0) {
+          insertPayment(user, {
+            partnerId,
+            direction: type === "sale" ? "in" : "out",
+            amount: paid,
+            date,
+            allocations: [{ transactionId: newTransactionId, amount: paid }],
+          });
+        }
+      })();
 
-    if (!productId) {
-      return NextResponse.json(
-        { message: "Product ID is required for transaction update." },
-        { status: 400 }
+      return ok(
+        { id: newTransactionId },
+        { status: 201, message: "Transaction recorded successfully." }
+      );
+    } catch (error) {
+      if (error instanceof PaymentError) {
+        return failWith(error);
+      }
+      console.error("POST Transaction API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during transaction recording."
       );
     }
+  }
+);
+// --- PUT /api/transactions?id=... (Correct one transaction) ---
+// Only transactions entered by hand can be corrected. Those booked by a
+// purchase order receipt, an invoice or a loan, or with payments allocated
+// to them, stay as they are so the documents and balances built on them still
+// add up. A new quantity moves the product's stock by the difference.
+export const PUT = withPermission(
+  "transactions:manage",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const transactionId = url.searchParams.get("id");
 
-    // Sanitize partnerId
-    const sanitizedPartnerId = partnerId ? partnerId.trim() : "";
-    const partnerIdForDB =
-      !sanitizedPartnerId || sanitizedPartnerId === "CUSTOMER"
-        ? null
-        : sanitizedPartnerId;
+    if (!transactionId) {
+      return missingParam("id", "Transaction ID is required for update.");
+    }
 
-    const stmt = db.prepare(
-      `UPDATE transactions
-       SET type = ?, 
-           quantity = ?, 
-           price = ?, 
-            imei = ?,
-           total_amount = ?, 
-           date = ?, 
-           snapshot_partner_name = ?, 
-           snapshot_partner_phone = ?, 
-           snapshot_partner_shop = ?, 
-           partner_id = ?
-       WHERE product_id = ?`
-    );
+    try {
+      const body = await parseBody(request, transactionUpdateBody);
+      if (!body.success) return body.response;
+      const {
+        quantity,
+        price,
+        totalAmount,
+        imei,
+        date,
+        party,
+        partyPhone,
+        partyShop,
+        partnerId,
+      } = body.data;
 
-    const result = stmt.run(
-      type,
-      quantity,
-      price,
-      imei,
-      totalAmount,
-      date,
-      party,
-      partyPhone || null,
-      partyShop || null,
-      partnerIdForDB,
-      productId
-    );
+      const existing = db
+        .prepare(
+          `SELECT product_id, type, quantity,
+             purchase_order_id IS NOT NULL OR invoice_id IS NOT NULL
+               OR loan_id IS NOT NULL
+               OR EXISTS (SELECT 1 FROM payment_allocations a
+                          WHERE a.transaction_id = transactions.id) AS linked
+           FROM transactions
+           WHERE id = ? AND deleted_at IS NULL`
+        )
+        .get(transactionId) as
+        | {
+            product_id: string;
+            type: Transaction["type"];
+            quantity: number;
+            linked: number;
+          }
+        | undefined;
+      if (!existing) {
+        return fail("TRANSACTION_NOT_FOUND", "Transaction not found.");
+      }
+      if (existing.linked) {
+        return fail(
+          "TRANSACTION_IN_USE",
+          "This transaction belongs to a purchase order, invoice, loan or payment and cannot be edited."
+        );
+      }
 
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "No transaction found for the given productId." },
-        { status: 404 }
+      const stmt = db.prepare(
+        `UPDATE transactions
+         SET quantity = ?,
+             price = ?,
+             imei = ?,
+             total_amount = ?,
+             tax_rate = ?,
+             net_amount = ?,
+             tax_amount = ?,
+             date = ?,
+             snapshot_partner_name = ?,
+             snapshot_partner_phone = ?,
+             snapshot_partner_shop = ?,
+             partner_id = ?,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE id = ?`
       );
-    }
 
-    return NextResponse.json(
-      { message: "Transaction updated successfully." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("PUT Transaction DB error:", error);
-    return NextResponse.json(
-      { message: "Error updating transaction." },
-      { status: 500 }
-    );
+      const tax =
+        existing.type === "sale" || existing.type === "purchase"
+          ? productTax(existing.product_id, totalAmount)
+          : splitTax(totalAmount, 0, true);
+      // Purchases and returns brought stock in; sales and loans took it out
+      const direction =
+        existing.type === "purchase" || existing.type === "return" ? 1 : -1;
+
+      db.transaction(() => {
+        auditedChange(user, "transaction", "update", transactionId, () =>
+          stmt.run(
+            quantity,
+            price,
+            imei,
+            tax.gross,
+            tax.rate,
+            tax.net,
+            tax.tax,
+            date,
+            party,
+            partyPhone,
+            partyShop,
+            partnerId,
+            transactionId
+          )
+        );
+        if (quantity !== existing.quantity) {
+          adjustStock(
+            user,
+            existing.product_id,
+            direction * (quantity - existing.quantity)
+          );
+        }
+      })();
+
+      return ok(null, { message: "Transaction updated successfully." });
+    } catch (error) {
+      if (error instanceof StockError) {
+        return failWith(error);
+      }
+      console.error("PUT Transaction DB error:", error);
+      return fail("INTERNAL_ERROR", "Error updating transaction.");
+    }
   }
-}
+);
 
 // --- DELETE /api/transactions?id=... (Delete) ---
 // This handles deletion of transactions, often used for correcting errors or marking lent items as returned
-export async function DELETE(request: NextRequest) {
-  const url = new URL(request.url);
-  const transactionId = url.searchParams.get("id");
+export const DELETE = withPermission(
+  "transactions:manage",
+  async (request: NextRequest, user) => {
+    const url = new URL(request.url);
+    const transactionId = url.searchParams.get("id");
 
-  if (!transactionId) {
-    return NextResponse.json(
-      { message: "Transaction ID is required for deletion." },
-      { status: 400 }
-    );
-  }
+    if (!transactionId) {
+      return missingParam("id", "Transaction ID is required for deletion.");
+    }
 
-  try {
-    const stmt = db.prepare("DELETE FROM transactions WHERE product_id = ?");
-    const result = stmt.run(transactionId);
-    if (result.changes === 0) {
-      return NextResponse.json(
-        { message: "Transaction not found." },
-        { status: 404 }
+    try {
+      const stmt = db.prepare("DELETE FROM transactions WHERE product_id = ?");
+      const changes = auditedBulkChange(
+        user,
+        "transaction",
+        "delete",
+        { sql: "product_id = ?", params: [transactionId] },
+        () => stmt.run(transactionId)
       );
-    }
+      if (changes === 0) {
+        return fail("TRANSACTION_NOT_FOUND", "Transaction not found.");
+      }
 
-    return NextResponse.json(
-      { message: "Transaction deleted successfully." },
-      { status: 200 }
-    );
-  } catch (error) {
-    console.error("DELETE Transaction DB error:", error);
-    return NextResponse.json(
-      { message: "Error deleting transaction." },
-      { status: 500 }
-    );
+      return ok(null, { message: "Transaction deleted successfully." });
+    } catch (error) {
+      console.error("DELETE Transaction DB error:", error);
+      return fail("INTERNAL_ERROR", "Error deleting transaction.");
+    }
   }
-}
+);
@@ -0,0 +1,70 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { db } from "@/lib/database";
+import { call, signIn, type Caller } from "@/test/helpers";
+import { DELETE, PUT } from "./route";
+
+const auditOf = (userId: string) =>
+  (
+    db
+      .prepare(
+        `SELECT actor_id, action, before_json, after_json FROM audit_log
+         WHERE entity = 'user' AND entity_id = ? ORDER BY id`
+      )
+      .all(userId) as {
+      actor_id: string;
+      action: string;
+      before_json: string | null;
+      after_json: string | null;
+    }[]
+  ).map((entry) => ({
+    actorId: entry.actor_id,
+    action: entry.action,
+    before: entry.before_json ? JSON.parse(entry.before_json) : null,
+    after: entry.after_json ? JSON.parse(entry.after_json) : null,
+  }));
+
+describe("PUT and DELETE /api/users", () => {
+  let owner: Caller;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+  });
+
+  it("logs a role change without the password hash", async () => {
+    const cashier = await signIn("cashier");
+    const { status } = await call(PUT, owner, {
+      method: "PUT",
+      path: `/api/users?id=${cashier.id}`,
+      body: { name: cashier.name, role: "manager", password: "newpass123" },
+    });
+    expect(status).toBe(200);
+
+    const [entry, ...rest] = auditOf(cashier.id);
+    expect(rest).toEqual([]);
+    expect(entry).toMatchObject({
+      actorId: owner.id,
+      action: "update",
+      before: { role: "cashier" },
+      after: { role: "manager" },
+    });
+    expect(entry.before).not.toHaveProperty("password_hash");
+    expect(entry.after).not.toHaveProperty("password_hash");
+  });
+
+  it("logs a deactivation", async () => {
+    const cashier = await signIn("cashier");
+    const { status } = await call(DELETE, owner, {
+      method: "DELETE",
+      path: `/api/users?id=${cashier.id}`,
+    });
+    expect(status).toBe(200);
+
+    const [entry] = auditOf(cashier.id);
+    expect(entry).toMatchObject({
+      actorId: owner.id,
+      action: "delete",
+      before: { role: "cashier", deleted_at: null },
+      after: null,
+    });
+  });
+});
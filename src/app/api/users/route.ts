@@ -0,0 +1,193 @@
+import { NextRequest } from "next/server";
+import { withPermission } from "@/lib/auth";
+import { fail, missingParam, ok } from "@/lib/api-response";
+import { auditedChange } from "@/lib/audit";
+import { db } from "@/lib/database";
+import { createUser } from "@/lib/users";
+import { hashPassword } from "@/lib/password";
+import { userBody, userUpdateBody } from "@/lib/schemas";
+import { parseBody } from "@/lib/validation";
+import type { Role, User } from "@/lib/types";
+
+/**
+ * True if removing the owner role from (or deleting) this user would leave
+ * the shop without any active owner.
+ */
+function isLastOwner(userId: string): boolean {
+  const { count } = db
+    .prepare(
+      `SELECT COUNT(*) as count FROM users
+       WHERE role = 'owner' AND deleted_at IS NULL AND id != ?`
+    )
+    .get(userId) as { count: number };
+  const target = db
+    .prepare("SELECT role FROM users WHERE id = ? AND deleted_at IS NULL")
+    .get(userId) as { role: Role } | undefined;
+  return target?.role === "owner" && count === 0;
+}
+
+// --- GET /api/users (Read All, exclude deactivated) ---
+export const GET = withPermission("users:manage", async () => {
+  try {
+    const users = db
+      .prepare(
+        `SELECT id, email, name, role, created_at, updated_at, deleted_at
+         FROM users
+         WHERE deleted_at IS NULL
+         ORDER BY name ASC`
+      )
+      .all() as User[];
+
+    return ok({ users, total: users.length });
+  } catch (error) {
+    console.error("GET Users DB error:", error);
+    return fail("INTERNAL_ERROR", "Error fetching users.");
+  }
+});
+
+// --- POST /api/users (Create) ---
+export const POST = withPermission(
+  "users:manage",
+  async (request: NextRequest) => {
+    try {
+      const body = await parseBody(request, userBody);
+      if (!body.success) return body.response;
+
+      const user = await createUser(body.data);
+
+      return ok(
+        { id: user.id },
+        { status: 201, message: "User added successfully." }
+      );
+    } catch (error) {
+      console.error("POST User API error:", error);
+      const err = error as Error;
+
+      if (err.message.includes("UNIQUE constraint failed: users.email")) {
+        return fail("EMAIL_TAKEN", "A user with this email already exists.");
+      }
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during user creation."
+      );
+    }
+  }
+);
+
+// --- PUT /api/users?id=... (Update name, role, or reset password) ---
+export const PUT = withPermission(
+  "users:manage",
+  async (request: NextRequest, currentUser) => {
+    const url = new URL(request.url);
+    const userId = url.searchParams.get("id");
+
+    if (!userId) {
+      return missingParam("id", "User ID is required for update.");
+    }
+
+    try {
+      const body = await parseBody(request, userUpdateBody);
+      if (!body.success) return body.response;
+      const { name, role, password } = body.data;
+
+      if (role !== "owner" && isLastOwner(userId)) {
+        return fail("LAST_OWNER", "The shop must keep at least one owner.");
+      }
+
+      // Hashed up front: the audited write below runs synchronously
+      const passwordHash = password ? await hashPassword(password) : null;
+
+      const result = auditedChange(
+        currentUser,
+        "user",
+        "update",
+        userId,
+        () => {
+          const res = db
+            .prepare(
+              `UPDATE users
+               SET name = ?, role = ?, updated_at = CURRENT_TIMESTAMP
+               WHERE id = ? AND deleted_at IS NULL`
+            )
+            .run(name, role, userId);
+          if (res.changes > 0 && passwordHash) {
+            db.prepare("UPDATE users SET password_hash = ? WHERE id = ?").run(
+              passwordHash,
+              userId
+            );
+            // A password reset signs the user out everywhere.
+            db.prepare(
+              "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL"
+            ).run(userId);
+          }
+          return res;
+        }
+      );
+
+      if (result.changes === 0) {
+        return fail("USER_NOT_FOUND", "User not found or deactivated.");
+      }
+
+      return ok(null, { message: "User updated successfully." });
+    } catch (error) {
+      console.error("PUT User API error:", error);
+      return fail(
+        "INTERNAL_ERROR",
+        "Internal Server Error during user update."
+      );
+    }
+  }
+);
+
+// --- DELETE /api/users?id=... (Deactivate) ---
+export const DELETE = withPermission(
+  "users:manage",
+  async (request: NextRequest, currentUser) => {
+    const url = new URL(request.url);
+    const userId = url.searchParams.get("id");
+
+    if (!userId) {
+      return missingParam("id", "User ID is required for deactivation.");
+    }
+    if (userId === currentUser.id) {
+      return fail(
+        "SELF_DEACTIVATION",
+        "You cannot deactivate your own account."
+      );
+    }
+    if (isLastOwner(userId)) {
+      return fail("LAST_OWNER", "The shop must keep at least one owner.");
+    }
+
+    try {
+      // A deactivation is logged as a delete; the row itself is kept.
+      const result = auditedChange(
+        currentUser,
+        "user",
+        "delete",
+        userId,
+        () => {
+          const res = db
+            .prepare(
+              `UPDATE users SET deleted_at = CURRENT_TIMESTAMP
+               WHERE id = ? AND deleted_at IS NULL`
+            )
+            .run(userId);
+          db.prepare(
+            "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE user_id = ? AND revoked_at IS NULL"
+          ).run(userId);
+          return res;
+        }
+      );
+
+      if (result.changes === 0) {
+        return fail("USER_NOT_FOUND", "User not found or already deactivated.");
+      }
+
+      return ok(null, { message: "User deactivated successfully." });
+    } catch (error) {
+      console.error("DELETE User DB error:", error);
+      return fail("INTERNAL_ERROR", "Error deactivating user.");
+    }
+  }
+);
@@ -21,6 +21,7 @@ import {
 } from "@/components/ui/form";
 import { useToast } from "@/hooks/use-toast";
 import { DeskVaultIcon } from "@/components/icons";
+import { homePathFor } from "@/lib/permissions";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address."),
@@ -44,12 +45,12 @@ export default function LoginPage() {
   async function onSubmit(values: z.infer<typeof loginSchema>) {
     setIsLoading(true);
     try {
-      await login(values.email, values.password);
+      const user = await login(values.email, values.password);
       toast({
         title: "Login Successful",
-        description: "Welcome back!",
+        description: `Welcome back, ${user.name}!`,
       });
-      router.push("/reports");
+      router.push(homePathFor(user.role));
     } catch (error) {
       toast({
         title: "Login Failed",
@@ -3,18 +3,20 @@
 import { useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/auth-context';
+import { homePathFor } from '@/lib/permissions';
 
 export default function Home() {
   const router = useRouter();
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
 
   useEffect(() => {
+    if (isAuthenticated === null) return; // Session check still in flight
     if (isAuthenticated) {
-      router.replace('/reports');
+      router.replace(homePathFor(user?.role));
     } else {
       router.replace('/login');
     }
-  }, [isAuthenticated, router]);
+  }, [isAuthenticated, user, router]);
 
   return null; // Or a loading spinner
 }
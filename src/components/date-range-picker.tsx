@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import { CalendarIcon } from "lucide-react";
+import {
+  format,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+  subDays,
+} from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+export type { DateRange };
+
+// Shortcuts shown beside the calendar; `undefined` means all time
+const PRESETS: { label: string; range: () => DateRange | undefined }[] = [
+  {
+    label: "This week",
+    range: () => ({
+      from: startOfWeek(new Date(), { weekStartsOn: 1 }),
+      to: new Date(),
+    }),
+  },
+  {
+    label: "This month",
+    range: () => ({ from: startOfMonth(new Date()), to: new Date() }),
+  },
+  {
+    label: "Last 30 days",
+    range: () => ({ from: subDays(new Date(), 29), to: new Date() }),
+  },
+  {
+    label: "This year",
+    range: () => ({ from: startOfYear(new Date()), to: new Date() }),
+  },
+  { label: "All time", range: () => undefined },
+];
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+  className?: string;
+}
+
+/**
+ * Button that opens a two-month range calendar with common presets. An
+ * undefined value means no date restriction.
+ */
+export function DateRangePicker({
+  value,
+  onChange,
+  className,
+}: DateRangePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  const label = value?.from
+    ? value.to
+      ? `${format(value.from, "dd MMM yyyy")} – ${format(value.to, "dd MMM yyyy")}`
+      : format(value.from, "dd MMM yyyy")
+    : "All time";
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          className={cn("justify-start text-left font-normal", className)}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {label}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0 flex" align="start">
+        <div className="flex flex-col border-r p-2 space-y-1">
+          {PRESETS.map((preset) => (
+            <Button
+              key={preset.label}
+              variant="ghost"
+              size="sm"
+              className="justify-start"
+              onClick={() => {
+                onChange(preset.range());
+                setOpen(false);
+              }}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          defaultMonth={value?.from}
+          selected={value}
+          onSelect={onChange}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
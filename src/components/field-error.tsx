@@ -0,0 +1,17 @@
+import type { FieldErrors } from "@/lib/types";
+
+/**
+ * The API's complaint about one form field, shown under its input. Renders
+ * nothing when the field is fine.
+ */
+export function FieldError({
+  errors,
+  field,
+}: {
+  errors: FieldErrors;
+  field: string;
+}) {
+  const message = errors[field];
+  if (!message) return null;
+  return <p className="text-xs text-red-600 mt-1">{message}</p>;
+}
@@ -0,0 +1,257 @@
+"use client";
+
+import { forwardRef } from "react";
+import { FileDown } from "lucide-react";
+import type { Invoice } from "@/lib/types";
+
+// --- Receipts ---
+// Shared by the Inventory page and the POS till so a sale prints the same
+// way wherever it was rung up.
+
+/**
+ * Formats a date as d-m-yyyy followed by the local time.
+ */
+function formatReceiptDate(date: string): string {
+  const d = new Date(date);
+  return (
+    d.getDate() +
+    "-" +
+    (d.getMonth() + 1) +
+    "-" +
+    d.getFullYear() +
+    " " +
+    d.toLocaleTimeString()
+  );
+}
+
+const money = (amount: number) => `${Math.round(amount * 100) / 100} QAR`;
+
+/**
+ * The printable receipt for a whole invoice, one row per line. Pass the ref
+ * to `printReceipt` to print it.
+ */
+export const InvoiceReceipt = forwardRef<HTMLDivElement, { invoice: Invoice }>(
+  function InvoiceReceipt({ invoice }, ref) {
+    return (
+      <div ref={ref} className="flex-1 p-6 space-y-6">
+        {/* Header */}
+        <div className="flex justify-between items-start">
+          <h2 className="text-lg font-semibold text-gray-800">
+            Payment Receipt
+          </h2>
+          <span className="text-xs text-gray-400 font-mono">
+            {invoice.number}
+          </span>
+        </div>
+
+        {/* Customer & Date */}
+        <div className="flex justify-between">
+          <div>
+            <p className="text-sm text-gray-500">Customer</p>
+            <div className="flex items-center space-x-2 mt-1">
+              <div className="w-6 h-6 rounded-lg bg-gray-200 flex items-center justify-center font-bold text-xs">
+                {invoice.party.charAt(0).toUpperCase()}
+              </div>
+              <span className="text-gray-800 font-medium">{invoice.party}</span>
+            </div>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Date</p>
+            <p className="text-gray-800 font-medium">
+              {formatReceiptDate(invoice.date)}
+            </p>
+          </div>
+        </div>
+
+        {/* Tags */}
+        <div className="flex space-x-2">
+          <span className="text-xs px-2 py-1 rounded-full bg-orange-100 text-orange-600 font-medium">
+            sale
+          </span>
+          <span className="text-xs px-2 py-1 rounded-full bg-gray-100 text-gray-600 font-medium">
+            {invoice.line_count} {invoice.line_count === 1 ? "item" : "items"}
+          </span>
+        </div>
+
+        {/* Lines */}
+        <div className="border border-gray-100 rounded-xl p-4 space-y-3">
+          {(invoice.lines ?? []).map((line) => (
+            <div key={line.id} className="flex justify-between">
+              <div>
+                <p className="font-medium text-gray-800">
+                  {line.quantity + " x " + line.product_name}
+                </p>
+                {line.imei && (
+                  <p className="text-sm text-gray-500">
+                    {"serial: " + line.imei}
+                  </p>
+                )}
+                {line.discount_amount > 0 && (
+                  <p className="text-xs text-gray-500">
+                    {"Discount: " + money(line.discount_amount)}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <span className="font-semibold text-gray-700">
+                  {money(line.total_amount)}
+                </span>
+                {line.discount_amount > 0 && (
+                  <p className="text-xs text-gray-400 line-through">
+                    {money((line.list_price ?? line.price) * line.quantity)}
+                  </p>
+                )}
+              </div>
+            </div>
+          ))}
+          {invoice.discount_reason && (
+            <p className="text-xs text-gray-500">
+              {"Reason: " + invoice.discount_reason}
+            </p>
+          )}
+          <div className="border-t mt-3 pt-2 flex justify-between text-green-700 font-semibold">
+            <span>Total</span>
+            <span>{money(invoice.total_amount)}</span>
+          </div>
+        </div>
+
+        {/* Summary */}
+        <div className="space-y-2 text-sm">
+          <div className="flex justify-between">
+            <span className="text-gray-600">Subtotal</span>
+            <span className="font-medium">{money(invoice.list_total)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Discount</span>
+            <span className="font-medium text-red-500">
+              {money(invoice.discount_amount)}
+            </span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Tax included</span>
+            <span className="font-medium">{money(invoice.tax_amount)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Paid</span>
+            <span className="font-medium">{money(invoice.paid)}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Balance</span>
+            <span className="font-medium">{money(invoice.outstanding)}</span>
+          </div>
+          <div className="border-t mt-2 pt-2 flex justify-between items-center">
+            <span className="text-gray-500 text-sm">Grand Total</span>
+            <span className="text-2xl font-bold text-green-600">
+              {money(invoice.total_amount)}
+            </span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+);
+
+/**
+ * Links to the server-rendered PDF of a sale or other transaction, as an A4
+ * invoice or on receipt paper, for saving, emailing or archiving.
+ */
+export function DocumentPdfLinks({ documentId }: { documentId: string }) {
+  return (
+    <div className="flex gap-2">
+      {(["invoice", "receipt"] as const).map((template) => (
+        <a
+          key={template}
+          href={`/api/documents/${encodeURIComponent(documentId)}/pdf?template=${template}`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex-1 flex items-center justify-center py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-100"
+        >
+          <FileDown className="w-4 h-4 mr-2" />
+          {template === "invoice" ? "Invoice PDF" : "Receipt PDF"}
+        </a>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Prints a receipt's markup in a new window styled with Tailwind, then
+ * closes the window.
+ */
+export function printReceipt(content: HTMLElement, title = "Receipt") {
+  const printContent = content.innerHTML;
+  const tailwindLink =
+    "https://cdnjs.cloudflare.com/ajax/libs/tailwindcss/2.2.19/tailwind.min.css";
+
+  const printWindow = window.open("", "_blank", "width=1000,height=800");
+
+  if (printWindow) {
+    printWindow.document.write(`
+          <html>
+              <head>
+                  <title>${title}</title>
+                  <link rel="stylesheet" href="${tailwindLink}">
+                  <style>
+                      /* Print-specific styles to ensure proper spacing and scaling */
+                      @media print {
+                          body {
+                              padding: 0 !important;
+                              margin: 0 !important;
+                              background: white !important;
+                              display: block !important;
+                          }
+                          .receipt {
+                              width: 100% !important; 
+                              max-width: 100% !important; 
+                              margin: 0 !important; 
+                              box-shadow: none !important;
+                              border: none !important;
+                              border-radius: 0 !important;
+                              padding: 10px; /* Small paper edge clearance */
+                          }
+
+                          /* FIX: Re-establish vertical margin/spacing for block elements */
+                          .receipt h2, 
+                          .receipt p, 
+                          .receipt div:not(.flex) {
+                              /* Apply a small bottom margin to simulate Tailwind's space-y */
+                              margin-bottom: 0.5rem !important; 
+                          }
+                          
+                          /* Ensure large text elements like titles retain space */
+                          .receipt .text-2xl, 
+                          .receipt .text-xl {
+                              margin-bottom: 1rem !important;
+                          }
+
+                          /* Ensure border-t and border-b spacing is preserved */
+                          .receipt .border-t, 
+                          .receipt .border-b {
+                              padding-top: 0.5rem !important;
+                              padding-bottom: 0.5rem !important;
+                          }
+
+                          /* Optional: If space-y is still collapsing, you may need a more aggressive selector */
+                          .receipt > div > div {
+                              margin-top: 1rem !important;
+                          }
+                      }
+                  </style>
+              </head>
+              <body>
+                  <div class="receipt">${printContent}</div>
+              </body>
+          </html>
+      `);
+
+    printWindow.document.close();
+    printWindow.focus();
+
+    const printLogic = () => {
+      printWindow.print();
+      printWindow.close();
+    };
+
+    setTimeout(printLogic, 500);
+  }
+}
@@ -0,0 +1,237 @@
+"use client";
+
+import React, { useState } from "react";
+import { Printer, Trash2, X } from "lucide-react";
+
+// --- Labels ---
+// Shared by the Inventory page (selected products, or a product just bought
+// in) and the Purchase Orders page (goods just received). The labels
+// themselves are drawn by GET /api/labels.
+
+export type LabelItem = {
+  productId: string;
+  name: string;
+  copies: number;
+};
+
+const TEMPLATE_OPTIONS = [
+  {
+    value: "price",
+    label: "Price tag",
+    description: "Name, price and barcode",
+  },
+  { value: "barcode", label: "Barcode", description: "Large barcode and name" },
+  { value: "qr", label: "QR code", description: "QR link, name and price" },
+  { value: "full", label: "Full", description: "Name, price, barcode and QR" },
+];
+
+const OUTPUT_OPTIONS = [
+  { value: "sheet-pdf", label: "A4 sheet, 3 x 8 labels (PDF)" },
+  { value: "sheet-svg", label: "A4 sheet, 3 x 8 labels (SVG)" },
+  { value: "thermal-pdf", label: "Label printer, 50 x 30 mm (PDF)" },
+  { value: "escpos", label: "Receipt printer (ESC/POS)" },
+];
+
+/**
+ * Picks a template and output for labels of the given products and opens
+ * the result in a new tab. Copies start at the given counts and can be
+ * changed or removed before printing.
+ */
+export function LabelDialog({
+  items,
+  title = "Print Labels",
+  onClose,
+}: {
+  items: LabelItem[];
+  title?: string;
+  onClose: () => void;
+}) {
+  const [rows, setRows] = useState<LabelItem[]>(items);
+  const [template, setTemplate] = useState("price");
+  const [symbology, setSymbology] = useState("code128");
+  const [output, setOutput] = useState("sheet-pdf");
+  const [paper, setPaper] = useState("80");
+
+  const printable = rows.filter((row) => row.copies > 0);
+  const labelCount = printable.reduce((sum, row) => sum + row.copies, 0);
+
+  const handlePrint = () => {
+    const params = new URLSearchParams({
+      items: printable.map((row) => `${row.productId}:${row.copies}`).join(","),
+      template,
+      symbology,
+      output,
+    });
+    if (output === "escpos") params.set("paper", paper);
+    window.open(`/api/labels?${params}`, "_blank", "noopener");
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg p-6 relative max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="text-xl font-bold text-gray-800 mb-4">{title}</h2>
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="space-y-2 mb-4">
+          {rows.map((row, index) => (
+            <div key={row.productId} className="flex items-center gap-3">
+              <span className="flex-1 text-sm text-gray-800 truncate">
+                {row.name}
+              </span>
+              <input
+                type="number"
+                min={0}
+                value={row.copies}
+                onChange={(e) =>
+                  setRows(
+                    rows.map((other, otherIndex) =>
+                      otherIndex === index
+                        ? {
+                            ...other,
+                            copies: Math.max(
+                              0,
+                              parseInt(e.target.value, 10) || 0
+                            ),
+                          }
+                        : other
+                    )
+                  )
+                }
+                className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm"
+                aria-label={`Labels for ${row.name}`}
+              />
+              <button
+                type="button"
+                onClick={() =>
+                  setRows(rows.filter((_, otherIndex) => otherIndex !== index))
+                }
+                className="text-red-600 hover:text-red-800 p-1"
+                title="Remove"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Template
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {TEMPLATE_OPTIONS.map((option) => (
+                <label
+                  key={option.value}
+                  className={`p-2 border rounded-lg cursor-pointer ${
+                    template === option.value
+                      ? "border-blue-500 bg-blue-50"
+                      : "border-gray-200"
+                  }`}
+                >
+                  <input
+                    type="radio"
+                    name="labelTemplate"
+                    value={option.value}
+                    checked={template === option.value}
+                    onChange={() => setTemplate(option.value)}
+                    className="sr-only"
+                  />
+                  <span className="block text-sm font-medium text-gray-900">
+                    {option.label}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {option.description}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Barcode
+              </label>
+              <select
+                value={symbology}
+                onChange={(e) => setSymbology(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+              >
+                <option value="code128">Code 128</option>
+                <option value="ean13">EAN-13 where possible</option>
+              </select>
+            </div>
+            {output === "escpos" && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Paper
+                </label>
+                <select
+                  value={paper}
+                  onChange={(e) => setPaper(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="80">80 mm</option>
+                  <option value="58">58 mm</option>
+                </select>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Print On
+            </label>
+            <select
+              value={output}
+              onChange={(e) => setOutput(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+            >
+              {OUTPUT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Barcodes hold the product&apos;s IMEI or serial number; products
+            without one get a label without a barcode.
+          </p>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100"
+          >
+            Close
+          </button>
+          <button
+            type="button"
+            onClick={handlePrint}
+            disabled={labelCount === 0}
+            className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print {labelCount} {labelCount === 1 ? "Label" : "Labels"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
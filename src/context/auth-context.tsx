@@ -1,50 +1,72 @@
-
 "use client";
 
 import { createContext, useContext, useState, ReactNode, useEffect } from "react";
 import { useRouter } from 'next/navigation';
+import { hasPermission, type Permission } from "@/lib/permissions";
+import { api } from "@/lib/api-client";
+import type { SessionUser } from "@/lib/types";
 
 interface AuthContextType {
   isAuthenticated: boolean | null;
-  login: (email: string, pass: string) => Promise<void>;
-  logout: () => void;
+  user: SessionUser | null;
+  login: (email: string, pass: string) => Promise<SessionUser>;
+  logout: () => Promise<void>;
+  can: (permission: Permission) => boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [isAuthenticated, setIsAuthenticated] = useState<boolean | null>(null);
+  const [user, setUser] = useState<SessionUser | null>(null);
   const router = useRouter();
 
   useEffect(() => {
-    // On initial load, check localStorage
-    const isAuth = typeof window !== 'undefined' && localStorage.getItem("isAuthenticated") === "true";
-    setIsAuthenticated(isAuth);
+    // On initial load, ask the server whether the session cookie is valid
+    const checkSession = async () => {
+      try {
+        const result = await api.get<{ user: SessionUser }>("/api/auth/me");
+        if (result.ok) {
+          setUser(result.data.user);
+          setIsAuthenticated(true);
+        } else {
+          setIsAuthenticated(false);
+        }
+      } catch {
+        setIsAuthenticated(false);
+      }
+    };
+    checkSession();
   }, []);
 
   const login = async (email: string, pass: string) => {
-    return new Promise<void>((resolve, reject) => {
-        // Mock API call
-        setTimeout(() => {
-            if (email === "johndoe@gmail.com" && pass === "johndoe12") {
-                localStorage.setItem("isAuthenticated", "true");
-                setIsAuthenticated(true);
-                resolve();
-            } else {
-                reject(new Error("Invalid email or password"));
-            }
-        }, 1000);
+    const result = await api.post<{ user: SessionUser }>("/api/auth/login", {
+      email,
+      password: pass,
     });
+    if (!result.ok) {
+      throw new Error(result.error.message || "Invalid email or password");
+    }
+    setUser(result.data.user);
+    setIsAuthenticated(true);
+    return result.data.user;
   };
 
-  const logout = () => {
-    localStorage.removeItem("isAuthenticated");
-    setIsAuthenticated(false);
-    router.push('/login');
+  const logout = async () => {
+    try {
+      await api.post("/api/auth/logout");
+    } finally {
+      setUser(null);
+      setIsAuthenticated(false);
+      router.push('/login');
+    }
   };
 
+  // UI-only check; the API enforces the same matrix server-side
+  const can = (permission: Permission) => hasPermission(user?.role, permission);
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, login, logout }}>
+    <AuthContext.Provider value={{ isAuthenticated, user, login, logout, can }}>
       {children}
     </AuthContext.Provider>
   );
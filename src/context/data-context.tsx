@@ -1,84 +1,103 @@
 "use client";
 
-import { createContext, useContext, useState, ReactNode } from "react";
 import {
-  products as initialProducts,
-  transactions as initialTransactions,
-  partners as initialPartners,
-  expenses as initialExpenses,
-} from "@/lib/data";
-import type { Product, Transaction, Partner, Expense } from "@/lib/types";
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  useSyncExternalStore,
+  type ReactNode,
+} from "react";
+import {
+  QueryClient,
+  type MutationInit,
+  type QueryState,
+} from "@/lib/query-client";
 
-interface DataContextType {
-  products: Product[];
-  setProducts: React.Dispatch<React.SetStateAction<Product[]>>;
-  transactions: Transaction[];
-  setTransactions: React.Dispatch<React.SetStateAction<Transaction[]>>;
-  partners: Partner[];
-  setPartners: React.Dispatch<React.SetStateAction<Partner[]>>;
-  expenses: Expense[];
-  addExpense: (expense: Omit<Expense, "id">) => void;
-  addPartner: (partner: Omit<Partner, "id">) => void;
-  addProduct: (product: Omit<Product, "id">) => void;
-  addTransaction: (transaction: Omit<Transaction, "id">) => void;
-}
+const DataContext = createContext<QueryClient | undefined>(undefined);
 
-const DataContext = createContext<DataContextType | undefined>(undefined);
+// What a query without a URL (not wanted yet) reports
+const NO_QUERY: QueryState<never> = {
+  data: undefined,
+  error: "",
+  loading: false,
+  updatedAt: 0,
+};
 
+/**
+ * Holds the query cache shared by every page of the app.
+ */
 export function DataProvider({ children }: { children: ReactNode }) {
-  const [products, setProducts] = useState<Product[]>(initialProducts);
-  const [transactions, setTransactions] = useState<Transaction[]>(initialTransactions);
-  const [partners, setPartners] = useState<Partner[]>(initialPartners);
-  const [expenses, setExpenses] = useState<Expense[]>(initialExpenses);
+  const [client] = useState(() => new QueryClient());
 
-  const addExpense = (expense: Omit<Expense, "id">) => {
-    const newExpense = { ...expense, id: `exp-${Date.now()}` };
-    setExpenses((prev) => [newExpense, ...prev]);
-  };
-  
-  const addPartner = (partner: Omit<Partner, "id">) => {
-    const newPartner = { ...partner, id: `partner-${Date.now()}` };
-    setPartners(prev => [newPartner, ...prev]);
-    return newPartner;
-  }
-  
-  const addProduct = (product: Omit<Product, "id">) => {
-    const newProduct = { ...product, id: `prod-${Date.now()}` };
-    setProducts(prev => [newProduct, ...prev]);
-    return newProduct;
-  }
-  
-  const addTransaction = (transaction: Omit<Transaction, "id">) => {
-    const newTransaction = { ...transaction, id: `txn-${Date.now()}` };
-    setTransactions(prev => [newTransaction, ...prev]);
-    return newTransaction;
-  }
+  useEffect(() => () => client.close(), [client]);
 
-  return (
-    <DataContext.Provider
-      value={{
-        products,
-        setProducts,
-        transactions,
-        setTransactions,
-        partners,
-        setPartners,
-        expenses,
-        addExpense,
-        addPartner,
-        addProduct,
-        addTransaction,
-      }}
-    >
-      {children}
-    </DataContext.Provider>
-  );
+  return <DataContext.Provider value={client}>{children}</DataContext.Provider>;
 }
 
-export function useData() {
+export function useQueryClient() {
   const context = useContext(DataContext);
   if (context === undefined) {
-    throw new Error("useData must be used within a DataProvider");
+    throw new Error("useQueryClient must be used within a DataProvider");
   }
   return context;
 }
+
+/**
+ * Reads a GET endpoint through the cache; build the URL with `apiUrl`.
+ * Cached data shows at once and is refetched in the background when it is
+ * more than a few seconds old or a write has made it stale. While another
+ * URL loads (the next page of a table, say) the previous data stays on
+ * screen. Pass null to fetch nothing.
+ */
+export function useQuery<T>(url: string | null) {
+  const client = useQueryClient();
+
+  const subscribe = useCallback(
+    (listener: () => void) =>
+      url ? client.subscribe(url, listener) : () => {},
+    [client, url]
+  );
+  const getState = useCallback(
+    (): QueryState<T> => (url ? client.getState<T>(url) : NO_QUERY),
+    [client, url]
+  );
+  const state = useSyncExternalStore(subscribe, getState, getState);
+
+  useEffect(() => {
+    if (url) client.ensure(url);
+  }, [client, url]);
+
+  const previous = useRef<T | undefined>(undefined);
+  useEffect(() => {
+    if (state.data !== undefined) previous.current = state.data;
+  }, [state.data]);
+
+  const refetch = useCallback(
+    () => (url ? client.fetch(url) : Promise.resolve()),
+    [client, url]
+  );
+
+  return {
+    data: state.data ?? previous.current,
+    error: state.error,
+    // Also true before the first request has gone out
+    loading:
+      state.loading || (url !== null && state.updatedAt === 0 && !state.error),
+    refetch,
+  };
+}
+
+/**
+ * Returns the function pages send writes with: see `QueryClient.mutate`.
+ */
+export function useMutate() {
+  const client = useQueryClient();
+  return useCallback(
+    <T = unknown,>(input: string, init?: MutationInit) =>
+      client.mutate<T>(input, init),
+    [client]
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+  type MutableRefObject,
+  type ReactNode,
+} from "react";
+import { useRouter } from "next/navigation";
+import { Plus, ScanLine, X } from "lucide-react";
+import { useAuth } from "@/context/auth-context";
+import { api } from "@/lib/api-client";
+import type { Product } from "@/lib/types";
+
+// --- Barcode scanner ---
+// USB and Bluetooth scanners act as keyboards ("keyboard wedge"): they type
+// the code a few milliseconds a key and press Enter. The provider listens
+// for that anywhere in the app, looks the code up with
+// /api/products/lookup, and hands the product to whichever page registered
+// with `useScanner`; with no page registered it opens the product on the
+// Inventory page. Codes typed into a text field are left to that field, so
+// a scan can still fill in a form.
+
+// Keys further apart than this are a person typing
+const MAX_KEY_INTERVAL_MS = 50;
+// Shorter bursts are more likely fast typing than a code
+const MIN_CODE_LENGTH = 4;
+
+export type ScanHandlers = {
+  // A scanned code matched this product
+  onProduct?: (product: Product, code: string) => void;
+  // The user chose to create a product for an unknown code
+  onCreate?: (code: string) => void;
+};
+
+interface ScannerContextType {
+  register: (handlers: MutableRefObject<ScanHandlers>) => () => void;
+  promptUnknown: (code: string) => void;
+}
+
+const ScannerContext = createContext<ScannerContextType | undefined>(undefined);
+
+/**
+ * Finds the product with exactly this IMEI, serial number or barcode, or
+ * null when there is none.
+ */
+export async function lookupCode(code: string): Promise<Product | null> {
+  const result = await api.get<{ product: Product }>(
+    `/api/products/lookup?code=${encodeURIComponent(code)}`
+  );
+  if (result.ok) return result.data.product;
+  if (result.error.code === "PRODUCT_NOT_FOUND") return null;
+  throw new Error(result.error.message || "Failed to look up the code.");
+}
+
+/**
+ * Whether a key event is going into something the user types in.
+ */
+function isEditable(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    target instanceof HTMLTextAreaElement ||
+    target instanceof HTMLSelectElement ||
+    (target instanceof HTMLInputElement &&
+      !["checkbox", "radio", "button", "submit", "reset"].includes(target.type))
+  );
+}
+
+export function ScannerProvider({ children }: { children: ReactNode }) {
+  const { can } = useAuth();
+  const canLookUp = can("products:read");
+  const router = useRouter();
+  const page = useRef<MutableRefObject<ScanHandlers> | null>(null);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (error) {
+      const timer = setTimeout(() => setError(""), 5000);
+      return () => clearTimeout(timer);
+    }
+  }, [error]);
+
+  const register = useCallback((handlers: MutableRefObject<ScanHandlers>) => {
+    page.current = handlers;
+    return () => {
+      if (page.current === handlers) page.current = null;
+    };
+  }, []);
+
+  const promptUnknown = useCallback((code: string) => {
+    setUnknownCode(code);
+  }, []);
+
+  const handleScan = useCallback(
+    async (code: string) => {
+      try {
+        const product = await lookupCode(code);
+        if (!product) {
+          setUnknownCode(code);
+        } else if (page.current?.current.onProduct) {
+          page.current.current.onProduct(product, code);
+        } else {
+          router.push(`/inventory?q=${encodeURIComponent(code)}`);
+        }
+      } catch (err) {
+        console.error("Scan lookup error:", err);
+        setError(`Could not look up ${code}.`);
+      }
+    },
+    [router]
+  );
+
+  useEffect(() => {
+    if (!canLookUp) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.altKey || e.metaKey || isEditable(e.target)) {
+        buffer = "";
+        return;
+      }
+      const now = e.timeStamp;
+      const fast = now - lastKeyAt <= MAX_KEY_INTERVAL_MS;
+      lastKeyAt = now;
+
+      if (e.key === "Enter") {
+        if (fast && buffer.length >= MIN_CODE_LENGTH) {
+          e.preventDefault();
+          handleScan(buffer);
+        }
+        buffer = "";
+      } else if (e.key.length === 1) {
+        // A slow key starts a new burst
+        buffer = fast ? buffer + e.key : e.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown, true);
+    return () => window.removeEventListener("keydown", handleKeyDown, true);
+  }, [canLookUp, handleScan]);
+
+  const handleCreate = () => {
+    if (!unknownCode) return;
+    if (page.current?.current.onCreate) {
+      page.current.current.onCreate(unknownCode);
+    } else {
+      router.push(`/inventory?new=${encodeURIComponent(unknownCode)}`);
+    }
+    setUnknownCode(null);
+  };
+
+  return (
+    <ScannerContext.Provider value={{ register, promptUnknown }}>
+      {children}
+
+      {error && (
+        <div className="fixed bottom-4 right-4 z-50 p-3 bg-red-100 border border-red-400 text-red-700 rounded-lg shadow-lg text-sm">
+          {error}
+        </div>
+      )}
+
+      {unknownCode && (
+        <div
+          className="fixed inset-0 bg-gray-900 bg-opacity-70 flex items-center justify-center z-50 p-4"
+          onClick={() => setUnknownCode(null)}
+        >
+          <div
+            className="bg-white rounded-xl shadow-2xl w-full max-w-md p-6 relative"
+            onClick={(e) => e.stopPropagation()}
+          >
+            <h2 className="text-xl font-bold text-gray-800 mb-4 flex items-center">
+              <ScanLine className="w-6 h-6 mr-2" />
+              Unknown Code
+            </h2>
+            <button
+              onClick={() => setUnknownCode(null)}
+              className="absolute top-4 right-4 text-gray-400 hover:text-gray-600"
+            >
+              <X className="w-6 h-6" />
+            </button>
+            <p className="text-sm text-gray-700">
+              No product has the code{" "}
+              <span className="font-mono font-semibold">{unknownCode}</span>.
+            </p>
+            <div className="flex justify-end gap-3 mt-6">
+              <button
+                type="button"
+                onClick={() => setUnknownCode(null)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-100"
+              >
+                Dismiss
+              </button>
+              {can("products:write") && (
+                <button
+                  type="button"
+                  onClick={handleCreate}
+                  autoFocus
+                  className="flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-lg shadow-md hover:bg-blue-700"
+                >
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Product
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </ScannerContext.Provider>
+  );
+}
+
+/**
+ * Lets a page take over scans while it is mounted: `onProduct` gets every
+ * scanned product and `onCreate` the code the user chose to create a
+ * product for. Also returns `promptUnknown`, for a page's own scan box to
+ * show the same prompt as the global listener.
+ */
+export function useScanner(handlers: ScanHandlers = {}) {
+  const context = useContext(ScannerContext);
+  if (context === undefined) {
+    throw new Error("useScanner must be used within a ScannerProvider");
+  }
+  const { register, promptUnknown } = context;
+
+  // Kept current on every render so the handlers see the page's latest state
+  const latest = useRef(handlers);
+  useEffect(() => {
+    latest.current = handlers;
+  });
+  useEffect(() => register(latest), [register]);
+
+  return { promptUnknown };
+}
@@ -0,0 +1,61 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { POST as recordTransaction } from "@/app/api/transactions/route";
+import {
+  call,
+  createPartner,
+  createProduct,
+  signIn,
+  type Caller,
+} from "@/test/helpers";
+import { getAgingReport, insertPayment } from "./accounts";
+
+describe("getAgingReport", () => {
+  let owner: Caller;
+  let partnerId: string;
+
+  beforeAll(async () => {
+    owner = await signIn("owner");
+    partnerId = await createPartner(owner);
+    const productId = await createProduct(owner, { partnerId });
+
+    // Bought on credit in January, paid for in full in February
+    const purchase = await call(recordTransaction, owner, {
+      method: "POST",
+      body: {
+        productId,
+        type: "purchase",
+        quantity: 10,
+        price: 5,
+        totalAmount: 50,
+        imei: "",
+        date: "2026-01-10T10:00:00.000Z",
+        partnerId,
+        amountPaid: 0,
+      },
+    });
+    insertPayment(owner, {
+      partnerId,
+      direction: "out",
+      amount: 50,
+      date: "2026-02-10T10:00:00.000Z",
+      allocations: [{ transactionId: purchase.body.data.id, amount: 50 }],
+    });
+  });
+
+  const owedTo = (asOf: string) =>
+    getAgingReport("payable", asOf).rows.find(
+      (row) => row.partnerId === partnerId
+    );
+
+  it("ignores payments dated after the as-of day", () => {
+    expect(owedTo("2026-01-31")).toMatchObject({
+      total: 50,
+      buckets: { "1-30": 50 },
+      unappliedCredit: 0,
+    });
+  });
+
+  it("counts payments made by the as-of day", () => {
+    expect(owedTo("2026-02-28")).toBeUndefined();
+  });
+});
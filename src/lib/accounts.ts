@@ -0,0 +1,679 @@
+import { randomUUID } from "crypto";
+import { db } from "./database";
+import { recordAudit, snapshot } from "./audit";
+import type {
+  AgingBucket,
+  AgingItem,
+  AgingReport,
+  AgingRow,
+  AgingSide,
+  OpenItem,
+  PartnerBalance,
+  PartnerStatement,
+  Payment,
+  PaymentDirection,
+  PaymentMethod,
+  SessionUser,
+  StatementLine,
+} from "./types";
+import type { DateRange } from "./reports";
+
+// --- Receivables and payables ---
+// Sales raise what a partner owes the shop and purchases raise what the shop
+// owes the partner. Payments in and out settle them, either against specific
+// transactions (allocations) or as credit on the partner's account.
+
+/**
+ * Raised when a payment cannot be recorded or allocated. `code` is a stable
+ * identifier the API routes pass on to the client.
+ */
+export class PaymentError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "PARTNER_NOT_FOUND"
+      | "PAYMENT_NOT_FOUND"
+      | "TRANSACTION_NOT_FOUND"
+      | "ALLOCATION_MISMATCH"
+      | "OVER_ALLOCATED"
+      | "WALK_IN_UNPAID"
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+export type AllocationInput = { transactionId: string; amount: number };
+
+export type PaymentInput = {
+  partnerId: string | null;
+  direction: PaymentDirection;
+  amount: number;
+  method?: PaymentMethod;
+  date: string;
+  reference?: string | null;
+  notes?: string | null;
+  // Explicit allocations, or "oldest-first" to settle the oldest open items
+  allocations?: AllocationInput[] | "oldest-first";
+};
+
+export const PAYMENT_METHODS: PaymentMethod[] = [
+  "cash",
+  "card",
+  "bank",
+  "other",
+];
+
+// Which transactions each direction of payment settles
+const SETTLES: Record<PaymentDirection, "sale" | "purchase"> = {
+  in: "sale",
+  out: "purchase",
+};
+
+// Money is rounded to cents so repeated partial payments settle exactly
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The payment header together with its allocations, used as the audit image.
+ */
+function paymentSnapshot(paymentId: string) {
+  const payment = snapshot("payment", paymentId);
+  if (!payment) return null;
+  const allocations = db
+    .prepare(
+      "SELECT transaction_id, amount FROM payment_allocations WHERE payment_id = ? ORDER BY rowid"
+    )
+    .all(paymentId);
+  return { ...payment, allocations };
+}
+
+/**
+ * Sales and purchases matching `whereClause` that still have money owed on
+ * them, oldest first, with the partner each one belongs to. With `paidBy`
+ * (YYYY-MM-DD) only payments dated up to that day count as paid.
+ */
+function selectOpenItems(
+  whereClause: string,
+  params: unknown[],
+  paidBy: string | null = null
+): (OpenItem & { partner_id: string | null })[] {
+  const rows = db
+    .prepare(
+      `SELECT
+         t.id AS transaction_id,
+         t.partner_id,
+         t.type,
+         t.date,
+         COALESCE(t.snapshot_product_name, p.name) AS product_name,
+         t.quantity,
+         t.total_amount AS total,
+         COALESCE((SELECT SUM(a.amount) FROM payment_allocations a
+                   JOIN payments py ON py.id = a.payment_id
+                   WHERE a.transaction_id = t.id
+                     AND (? IS NULL OR date(py.date) <= date(?))), 0) AS paid
+       FROM transactions t
+       LEFT JOIN products p ON p.id = t.product_id
+       WHERE t.deleted_at IS NULL AND t.type IN ('sale', 'purchase')
+         AND ${whereClause}
+       ORDER BY t.date ASC, t.created_at ASC`
+    )
+    .all(paidBy, paidBy, ...params) as (Omit<OpenItem, "outstanding"> & {
+    partner_id: string | null;
+  })[];
+
+  return rows
+    .map((row) => ({
+      ...row,
+      outstanding: round(Math.max(0, row.total - row.paid)),
+    }))
+    .filter((item) => item.outstanding > 0);
+}
+
+/**
+ * Lists a partner's sales or purchases that still have money owed on them,
+ * oldest first. `partnerId` null means walk-in sales.
+ */
+export function getOpenItems(
+  partnerId: string | null,
+  type?: "sale" | "purchase"
+): OpenItem[] {
+  return selectOpenItems("t.partner_id IS ? AND (? IS NULL OR t.type = ?)", [
+    partnerId,
+    type ?? null,
+    type ?? null,
+  ]).map(({ partner_id: _partnerId, ...item }) => item);
+}
+
+/**
+ * Spreads `amount` over open items in order until it runs out.
+ */
+export function spreadPayment(
+  amount: number,
+  items: { transaction_id: string; outstanding: number }[]
+): AllocationInput[] {
+  const allocations: AllocationInput[] = [];
+  let remaining = round(amount);
+  for (const item of items) {
+    if (remaining <= 0) break;
+    const applied = round(Math.min(remaining, item.outstanding));
+    if (applied > 0) {
+      allocations.push({ transactionId: item.transaction_id, amount: applied });
+      remaining = round(remaining - applied);
+    }
+  }
+  return allocations;
+}
+
+/**
+ * Applies allocations from a payment, checking that each one settles a sale
+ * or purchase of the same partner and does not overpay it or the payment.
+ * Must be called inside a database transaction.
+ */
+function applyAllocations(
+  payment: {
+    id: string;
+    partner_id: string | null;
+    direction: PaymentDirection;
+    unallocated: number;
+  },
+  allocations: AllocationInput[] | "oldest-first"
+) {
+  const openItems = getOpenItems(
+    payment.partner_id,
+    SETTLES[payment.direction]
+  );
+  const resolved =
+    allocations === "oldest-first"
+      ? spreadPayment(payment.unallocated, openItems)
+      : allocations;
+
+  const total = round(resolved.reduce((sum, a) => sum + a.amount, 0));
+  if (total > payment.unallocated) {
+    throw new PaymentError(
+      `Allocations of ${total.toFixed(2)} exceed the ${payment.unallocated.toFixed(2)} available on this payment.`,
+      "OVER_ALLOCATED"
+    );
+  }
+
+  const stmt = db.prepare(
+    `INSERT INTO payment_allocations (id, payment_id, transaction_id, amount)
+     VALUES (?, ?, ?, ?)
+     ON CONFLICT(payment_id, transaction_id) DO UPDATE SET amount = amount + excluded.amount`
+  );
+  for (const allocation of resolved) {
+    const item = openItems.find(
+      (i) => i.transaction_id === allocation.transactionId
+    );
+    if (!item) {
+      const exists = db
+        .prepare(
+          "SELECT 1 FROM transactions WHERE id = ? AND deleted_at IS NULL"
+        )
+        .get(allocation.transactionId);
+      throw exists
+        ? new PaymentError(
+            `Transaction ${allocation.transactionId} is not an unpaid ${SETTLES[payment.direction]} of this partner.`,
+            "ALLOCATION_MISMATCH"
+          )
+        : new PaymentError("Transaction not found.", "TRANSACTION_NOT_FOUND");
+    }
+    if (round(allocation.amount) > item.outstanding) {
+      throw new PaymentError(
+        `Only ${item.outstanding.toFixed(2)} is still owed on that ${item.type}.`,
+        "OVER_ALLOCATED"
+      );
+    }
+    stmt.run(
+      randomUUID(),
+      payment.id,
+      allocation.transactionId,
+      round(allocation.amount)
+    );
+    item.outstanding = round(item.outstanding - allocation.amount);
+  }
+}
+
+/**
+ * Records a payment and its allocations and logs it. Must be called inside a
+ * database transaction; sale and receipt flows use it to take payment in the
+ * same unit of work as the goods movement.
+ */
+export function insertPayment(actor: SessionUser, input: PaymentInput): string {
+  if (input.partnerId) {
+    const partner = db
+      .prepare("SELECT id FROM partners WHERE id = ? AND deleted_at IS NULL")
+      .get(input.partnerId);
+    if (!partner) {
+      throw new PaymentError("Partner not found.", "PARTNER_NOT_FOUND");
+    }
+  }
+
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO payments (id, partner_id, direction, amount, method, date, reference, notes, created_by)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    input.partnerId,
+    input.direction,
+    round(input.amount),
+    input.method ?? "cash",
+    input.date,
+    input.reference || null,
+    input.notes || null,
+    actor.id
+  );
+
+  if (input.allocations) {
+    applyAllocations(
+      {
+        id,
+        partner_id: input.partnerId,
+        direction: input.direction,
+        unallocated: round(input.amount),
+      },
+      input.allocations
+    );
+  }
+
+  recordAudit(actor, {
+    entity: "payment",
+    entityId: id,
+    action: "create",
+    after: paymentSnapshot(id),
+  });
+  return id;
+}
+
+const recordPaymentTx = db.transaction(
+  (actor: SessionUser, input: PaymentInput) => insertPayment(actor, input)
+);
+
+const allocatePaymentTx = db.transaction(
+  (
+    actor: SessionUser,
+    paymentId: string,
+    allocations: AllocationInput[] | "oldest-first"
+  ) => {
+    const payment = db
+      .prepare(
+        `SELECT p.id, p.partner_id, p.direction,
+           p.amount - COALESCE((SELECT SUM(a.amount) FROM payment_allocations a
+                                WHERE a.payment_id = p.id), 0) AS unallocated
+         FROM payments p WHERE p.id = ?`
+      )
+      .get(paymentId) as
+      | {
+          id: string;
+          partner_id: string | null;
+          direction: PaymentDirection;
+          unallocated: number;
+        }
+      | undefined;
+    if (!payment) {
+      throw new PaymentError("Payment not found.", "PAYMENT_NOT_FOUND");
+    }
+
+    const before = paymentSnapshot(paymentId);
+    applyAllocations(
+      { ...payment, unallocated: round(payment.unallocated) },
+      allocations
+    );
+    recordAudit(actor, {
+      entity: "payment",
+      entityId: paymentId,
+      action: "update",
+      before,
+      after: paymentSnapshot(paymentId),
+    });
+  }
+);
+
+const deletePaymentTx = db.transaction(
+  (actor: SessionUser, paymentId: string) => {
+    const before = paymentSnapshot(paymentId);
+    if (!before) {
+      throw new PaymentError("Payment not found.", "PAYMENT_NOT_FOUND");
+    }
+    db.prepare("DELETE FROM payments WHERE id = ?").run(paymentId);
+    recordAudit(actor, {
+      entity: "payment",
+      entityId: paymentId,
+      action: "delete",
+      before,
+    });
+  }
+);
+
+/**
+ * Records money received from or paid to a partner.
+ */
+export function recordPayment(actor: SessionUser, input: PaymentInput) {
+  return recordPaymentTx(actor, input);
+}
+
+/**
+ * Applies the unallocated part of an existing payment to open items.
+ */
+export function allocatePayment(
+  actor: SessionUser,
+  paymentId: string,
+  allocations: AllocationInput[] | "oldest-first"
+) {
+  allocatePaymentTx(actor, paymentId, allocations);
+}
+
+/**
+ * Deletes a payment recorded in error. Its allocations go with it, so the
+ * transactions it settled become unpaid again.
+ */
+export function deletePayment(actor: SessionUser, paymentId: string) {
+  deletePaymentTx(actor, paymentId);
+}
+
+/**
+ * Lists payments, newest first.
+ */
+export function listPayments(
+  filters: { partnerId?: string } & DateRange
+): Payment[] {
+  let whereClause = "WHERE 1 = 1";
+  const params: unknown[] = [];
+
+  if (filters.partnerId) {
+    whereClause += " AND p.partner_id = ?";
+    params.push(filters.partnerId);
+  }
+  if (filters.from) {
+    whereClause += " AND date(p.date) >= date(?)";
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    whereClause += " AND date(p.date) <= date(?)";
+    params.push(filters.to);
+  }
+
+  return db
+    .prepare(
+      `SELECT
+         p.*,
+         pa.name AS partner_name,
+         COALESCE((SELECT SUM(a.amount) FROM payment_allocations a
+                   WHERE a.payment_id = p.id), 0) AS allocated
+       FROM payments p
+       LEFT JOIN partners pa ON pa.id = p.partner_id
+       ${whereClause}
+       ORDER BY p.date DESC, p.created_at DESC`
+    )
+    .all(...params) as Payment[];
+}
+
+/**
+ * Current receivable, payable and net balance for each of `partnerIds`.
+ * Partners with no activity get zero balances.
+ */
+export function getPartnerBalances(
+  partnerIds: string[]
+): Record<string, PartnerBalance> {
+  const balances: Record<string, PartnerBalance> = {};
+  for (const id of partnerIds) {
+    balances[id] = { receivable: 0, payable: 0, balance: 0 };
+  }
+  if (partnerIds.length === 0) return balances;
+
+  const placeholders = partnerIds.map(() => "?").join(", ");
+  const rows = db
+    .prepare(
+      `SELECT partner_id,
+         SUM(CASE WHEN kind = 'sale' THEN amount WHEN kind = 'payment-in' THEN -amount ELSE 0 END) AS receivable,
+         SUM(CASE WHEN kind = 'purchase' THEN amount WHEN kind = 'payment-out' THEN -amount ELSE 0 END) AS payable
+       FROM (
+         SELECT partner_id, type AS kind, total_amount AS amount
+         FROM transactions
+         WHERE deleted_at IS NULL AND type IN ('sale', 'purchase')
+         UNION ALL
+         SELECT partner_id, 'payment-' || direction AS kind, amount
+         FROM payments
+       )
+       WHERE partner_id IN (${placeholders})
+       GROUP BY partner_id`
+    )
+    .all(...partnerIds) as {
+    partner_id: string;
+    receivable: number;
+    payable: number;
+  }[];
+
+  for (const row of rows) {
+    const receivable = round(row.receivable);
+    const payable = round(row.payable);
+    balances[row.partner_id] = {
+      receivable,
+      payable,
+      balance: round(receivable - payable),
+    };
+  }
+  return balances;
+}
+
+// Signed movements on a partner's account: positive raises what they owe
+const MOVEMENTS_SQL = `
+  SELECT t.date, t.created_at, t.type AS kind, t.id AS reference,
+    COALESCE(COALESCE(i.number, t.number) || ' ', '')
+      || t.quantity || ' x '
+      || COALESCE(t.snapshot_product_name, p.name, 'Deleted product') AS description,
+    CASE t.type WHEN 'sale' THEN t.total_amount ELSE -t.total_amount END AS amount
+  FROM transactions t
+  LEFT JOIN products p ON p.id = t.product_id
+  LEFT JOIN invoices i ON i.id = t.invoice_id
+  WHERE t.partner_id = ? AND t.deleted_at IS NULL AND t.type IN ('sale', 'purchase')
+  UNION ALL
+  SELECT date, created_at, 'payment-' || direction AS kind, id AS reference,
+    (CASE direction WHEN 'in' THEN 'Payment received' ELSE 'Payment made' END)
+      || ' (' || method || ')' || COALESCE(' ' || reference, '') AS description,
+    CASE direction WHEN 'out' THEN amount ELSE -amount END AS amount
+  FROM payments
+  WHERE partner_id = ?
+`;
+
+/**
+ * A partner's statement for a date range: the balance brought forward, every
+ * sale, purchase and payment in the range, and the closing balance.
+ */
+export function getStatement(
+  partnerId: string,
+  range: DateRange
+): PartnerStatement {
+  const { opening } = db
+    .prepare(
+      `SELECT COALESCE(SUM(amount), 0) AS opening FROM (${MOVEMENTS_SQL})
+       WHERE ? IS NOT NULL AND date(date) < date(?)`
+    )
+    .get(partnerId, partnerId, range.from, range.from) as { opening: number };
+
+  let whereClause = "WHERE 1 = 1";
+  const params: unknown[] = [partnerId, partnerId];
+  if (range.from) {
+    whereClause += " AND date(date) >= date(?)";
+    params.push(range.from);
+  }
+  if (range.to) {
+    whereClause += " AND date(date) <= date(?)";
+    params.push(range.to);
+  }
+
+  const movements = db
+    .prepare(
+      `SELECT * FROM (${MOVEMENTS_SQL}) ${whereClause}
+       ORDER BY date ASC, created_at ASC`
+    )
+    .all(...params) as {
+    date: string;
+    kind: StatementLine["kind"];
+    reference: string;
+    description: string;
+    amount: number;
+  }[];
+
+  let balance = round(opening);
+  const lines: StatementLine[] = movements.map((movement) => {
+    balance = round(balance + movement.amount);
+    return {
+      date: movement.date,
+      kind: movement.kind,
+      reference: movement.reference,
+      description: movement.description,
+      debit: movement.amount > 0 ? round(movement.amount) : 0,
+      credit: movement.amount < 0 ? round(-movement.amount) : 0,
+      balance,
+    };
+  });
+
+  return {
+    partnerId,
+    from: range.from,
+    to: range.to,
+    openingBalance: round(opening),
+    lines,
+    closingBalance: balance,
+  };
+}
+
+// --- Aging ---
+
+export const AGING_BUCKETS: AgingBucket[] = [
+  "current",
+  "1-30",
+  "31-60",
+  "61-90",
+  "90+",
+];
+
+const emptyBuckets = (): Record<AgingBucket, number> => ({
+  current: 0,
+  "1-30": 0,
+  "31-60": 0,
+  "61-90": 0,
+  "90+": 0,
+});
+
+/**
+ * The bucket for an item `ageDays` old. Items dated on or after the as-of
+ * day are current.
+ */
+export function agingBucket(ageDays: number): AgingBucket {
+  if (ageDays <= 0) return "current";
+  if (ageDays <= 30) return "1-30";
+  if (ageDays <= 60) return "31-60";
+  if (ageDays <= 90) return "61-90";
+  return "90+";
+}
+
+/**
+ * Buckets every partner's unpaid sales (receivable) or purchases (payable)
+ * by how many days old they are on `asOf` (YYYY-MM-DD), using the
+ * transaction date. Each row carries its items for drill-down and the
+ * partner's unallocated payments, which reduce what is really owed. Only
+ * payments dated up to `asOf` count, so a past date shows what was open then.
+ */
+export function getAgingReport(side: AgingSide, asOf: string): AgingReport {
+  const type = side === "receivable" ? "sale" : "purchase";
+  const direction: PaymentDirection = side === "receivable" ? "in" : "out";
+  const asOfDay = Date.parse(`${asOf}T00:00:00Z`);
+
+  // Payments made after asOf had not happened yet on that day
+  const items = selectOpenItems(
+    "t.type = ? AND date(t.date) <= date(?)",
+    [type, asOf],
+    asOf
+  );
+
+  const partners = new Map(
+    (
+      db.prepare("SELECT id, name, shop_name FROM partners").all() as {
+        id: string;
+        name: string;
+        shop_name: string | null;
+      }[]
+    ).map((p) => [p.id, p])
+  );
+
+  // Credit later applied to transactions dated after asOf was still
+  // unapplied on that day
+  const credits = new Map(
+    (
+      db
+        .prepare(
+          `SELECT p.partner_id,
+             SUM(p.amount - COALESCE((SELECT SUM(a.amount) FROM payment_allocations a
+                                      JOIN transactions t ON t.id = a.transaction_id
+                                      WHERE a.payment_id = p.id
+                                        AND date(t.date) <= date(?)), 0)) AS unapplied
+           FROM payments p
+           WHERE p.direction = ? AND p.partner_id IS NOT NULL
+             AND date(p.date) <= date(?)
+           GROUP BY p.partner_id`
+        )
+        .all(asOf, direction, asOf) as {
+        partner_id: string;
+        unapplied: number;
+      }[]
+    ).map((c) => [c.partner_id, round(c.unapplied)])
+  );
+
+  const rows = new Map<string | null, AgingRow>();
+  const rowFor = (partnerId: string | null): AgingRow => {
+    let row = rows.get(partnerId);
+    if (!row) {
+      const partner = partnerId ? partners.get(partnerId) : undefined;
+      row = {
+        partnerId,
+        partnerName: partnerId
+          ? (partner?.name ?? "Deleted partner")
+          : "Walk-in customers",
+        partnerShop: partner?.shop_name ?? null,
+        buckets: emptyBuckets(),
+        total: 0,
+        unappliedCredit: partnerId ? (credits.get(partnerId) ?? 0) : 0,
+        items: [],
+      };
+      rows.set(partnerId, row);
+    }
+    return row;
+  };
+
+  for (const { partner_id, ...item } of items) {
+    const itemDay = Date.parse(`${item.date.slice(0, 10)}T00:00:00Z`);
+    const ageDays = Math.round((asOfDay - itemDay) / 86_400_000);
+    const agingItem: AgingItem = {
+      ...item,
+      age_days: ageDays,
+      bucket: agingBucket(ageDays),
+    };
+    const row = rowFor(partner_id);
+    row.items.push(agingItem);
+    row.buckets[agingItem.bucket] = round(
+      row.buckets[agingItem.bucket] + item.outstanding
+    );
+    row.total = round(row.total + item.outstanding);
+  }
+
+  // Partners with nothing open but credit on account still show up
+  for (const [partnerId, credit] of credits) {
+    if (credit > 0) rowFor(partnerId);
+  }
+
+  const sorted = [...rows.values()].sort((a, b) => b.total - a.total);
+  const totals = { ...emptyBuckets(), total: 0, unappliedCredit: 0 };
+  for (const row of sorted) {
+    for (const bucket of AGING_BUCKETS) {
+      totals[bucket] = round(totals[bucket] + row.buckets[bucket]);
+    }
+    totals.total = round(totals.total + row.total);
+    totals.unappliedCredit = round(
+      totals.unappliedCredit + row.unappliedCredit
+    );
+  }
+
+  return { side, asOf, rows: sorted, totals };
+}
@@ -0,0 +1,72 @@
+import type { ApiFailure, ApiSuccess } from "./types";
+
+// --- API client ---
+// How the browser calls the API. Bodies are sent as JSON and the envelope
+// that comes back is unwrapped into a result the caller checks with `ok`:
+//   const result = await api.post<{ id: string }>("/api/partners", partner);
+//   if (result.ok) open(result.data.id);
+//   else setError(result.error.message);
+// A failed request (4xx or 5xx) is a result like any other; only a request
+// that never got an answer throws. Reads that pages show should go through
+// `useQuery` instead, which caches them on top of this.
+
+export type ApiResult<T> =
+  | ({ ok: true; status: number } & ApiSuccess<T>)
+  | ({ ok: false; status: number } & ApiFailure);
+
+export type ApiRequestInit = {
+  method?: "GET" | "POST" | "PUT" | "DELETE";
+  body?: unknown; // Sent as JSON
+  signal?: AbortSignal;
+};
+
+function isEnvelope(value: unknown): value is ApiSuccess<unknown> | ApiFailure {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    ("data" in value || "error" in value)
+  );
+}
+
+/**
+ * Sends a request to the API and reads its envelope. An answer that is not
+ * one (a proxy's error page, say) becomes an INTERNAL_ERROR failure.
+ */
+export async function apiRequest<T>(
+  url: string,
+  { method = "GET", body, signal }: ApiRequestInit = {}
+): Promise<ApiResult<T>> {
+  const response = await fetch(url, {
+    method,
+    signal,
+    ...(body !== undefined && {
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    }),
+  });
+  const envelope: unknown = await response.json().catch(() => null);
+
+  if (!isEnvelope(envelope)) {
+    return {
+      ok: false,
+      status: response.status,
+      error: {
+        code: "INTERNAL_ERROR",
+        message: `Unexpected response from the server (${response.status}).`,
+      },
+      requestId: response.headers.get("X-Request-Id") ?? "",
+    };
+  }
+  return response.ok
+    ? { ok: true, status: response.status, ...(envelope as ApiSuccess<T>) }
+    : { ok: false, status: response.status, ...(envelope as ApiFailure) };
+}
+
+export const api = {
+  get: <T>(url: string, signal?: AbortSignal) => apiRequest<T>(url, { signal }),
+  post: <T>(url: string, body?: unknown) =>
+    apiRequest<T>(url, { method: "POST", body }),
+  put: <T>(url: string, body?: unknown) =>
+    apiRequest<T>(url, { method: "PUT", body }),
+  delete: <T>(url: string) => apiRequest<T>(url, { method: "DELETE" }),
+};
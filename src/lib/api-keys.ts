@@ -0,0 +1,141 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { auditedChange, recordAudit, snapshot } from "./audit";
+import { db } from "./database";
+import type { Permission } from "./permissions";
+import type { ApiKey, SessionUser } from "./types";
+
+// --- API keys ---
+// Other systems (a web shop, a spreadsheet) call the API with
+// `Authorization: Bearer dvk_...` instead of a staff password. A key acts for
+// the owner who created it, so the audit log and permission checks see that
+// owner, named after the key and narrowed to the key's scopes. The key is
+// shown once on creation; only its hash is stored.
+
+const KEY_PREFIX = "dvk_";
+
+// Enough of the key to recognise it in the list, e.g. "dvk_3fA9xQ"
+const SHOWN_LENGTH = KEY_PREFIX.length + 6;
+
+// Recording every use would write on every request; a minute is close enough
+const LAST_USED_INTERVAL_MS = 60 * 1000;
+
+type ApiKeyRow = Omit<ApiKey, "scopes"> & { scopes: string };
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Creates a key and returns it with its id. The key cannot be read back
+ * later.
+ */
+export const createApiKey = db.transaction(
+  (
+    creator: SessionUser,
+    input: { name: string; scopes: Permission[]; expiresAt: string | null }
+  ): { id: string; key: string } => {
+    const id = randomUUID();
+    const key = KEY_PREFIX + randomBytes(32).toString("base64url");
+
+    db.prepare(
+      `INSERT INTO api_keys (id, name, prefix, key_hash, scopes, created_by, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id,
+      input.name,
+      key.slice(0, SHOWN_LENGTH),
+      hashKey(key),
+      JSON.stringify(input.scopes),
+      creator.id,
+      input.expiresAt
+    );
+    recordAudit(creator, {
+      entity: "api_key",
+      entityId: id,
+      action: "create",
+      after: snapshot("api_key", id),
+    });
+    return { id, key };
+  }
+);
+
+/**
+ * Every key, newest first, including revoked and expired ones.
+ */
+export function listApiKeys(): ApiKey[] {
+  const rows = db
+    .prepare(
+      `SELECT k.id, k.name, k.prefix, k.scopes, u.name AS created_by_name,
+         k.created_at, k.expires_at, k.last_used_at, k.revoked_at
+       FROM api_keys k
+       JOIN users u ON u.id = k.created_by
+       ORDER BY k.created_at DESC`
+    )
+    .all() as ApiKeyRow[];
+  return rows.map((row) => ({ ...row, scopes: JSON.parse(row.scopes) }));
+}
+
+/**
+ * Revokes a key for good. Returns false when there is no such live key.
+ */
+export function revokeApiKey(actor: SessionUser, id: string): boolean {
+  const result = auditedChange(actor, "api_key", "update", id, () =>
+    db
+      .prepare(
+        "UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL"
+      )
+      .run(id)
+  );
+  return result.changes > 0;
+}
+
+/**
+ * Resolves a key to the caller it acts as, or null if the key is unknown,
+ * expired, revoked, or its creator has been deactivated. Notes when it was
+ * used.
+ */
+export function getApiKeyUser(key: string): SessionUser | null {
+  const now = new Date();
+  const row = db
+    .prepare(
+      `SELECT k.id AS key_id, k.name AS key_name, k.scopes, k.last_used_at,
+         u.id, u.email, u.role
+       FROM api_keys k
+       JOIN users u ON u.id = k.created_by
+       WHERE k.key_hash = ?
+         AND k.revoked_at IS NULL
+         AND (k.expires_at IS NULL OR k.expires_at > ?)
+         AND u.deleted_at IS NULL`
+    )
+    .get(hashKey(key), now.toISOString()) as
+    | (Pick<SessionUser, "id" | "email" | "role"> & {
+        key_id: string;
+        key_name: string;
+        scopes: string;
+        last_used_at: string | null;
+      })
+    | undefined;
+  if (!row) return null;
+
+  if (
+    !row.last_used_at ||
+    now.getTime() - Date.parse(row.last_used_at) > LAST_USED_INTERVAL_MS
+  ) {
+    db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?").run(
+      now.toISOString(),
+      row.key_id
+    );
+  }
+
+  return {
+    id: row.id,
+    email: row.email,
+    name: `${row.key_name} (API key)`,
+    role: row.role,
+    apiKey: {
+      id: row.key_id,
+      name: row.key_name,
+      scopes: JSON.parse(row.scopes),
+    },
+  };
+}
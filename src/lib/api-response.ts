@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type { ApiFailure, ApiSuccess, ErrorCode, FieldErrors } from "./types";
+
+// --- Response envelope ---
+// Route handlers answer with `ok` or `fail` rather than building JSON
+// themselves, so every route speaks the same envelope (see ApiSuccess and
+// ApiFailure in src/lib/types.ts) with a status that matches it:
+//   200 { data: { products: [...], total: 12 }, requestId: "..." }
+//   409 { error: { code: "PRODUCT_NAME_TAKEN", message: "..." }, requestId: "..." }
+// The request id comes from `withRequest`, which `withAuth` applies to every
+// signed-in route.
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+const requestIds = new AsyncLocalStorage<string>();
+
+// Codes whose status is not the default: 404 for *_NOT_FOUND, else 409
+const STATUS_BY_CODE: Partial<Record<ErrorCode, number>> = {
+  VALIDATION_FAILED: 400,
+  INVALID_JSON: 400,
+  INVALID_TEMPLATE: 400,
+  TOO_MANY_LABELS: 400,
+  UNAUTHENTICATED: 401,
+  INVALID_CREDENTIALS: 401,
+  FORBIDDEN: 403,
+  INTERNAL_ERROR: 500,
+};
+
+/**
+ * The HTTP status an error code is sent with.
+ */
+export function statusOf(code: ErrorCode): number {
+  return STATUS_BY_CODE[code] ?? (code.endsWith("NOT_FOUND") ? 404 : 409);
+}
+
+/**
+ * The id of the request being handled, or "" outside `withRequest`.
+ */
+export function currentRequestId(): string {
+  return requestIds.getStore() ?? "";
+}
+
+/**
+ * A successful response. `message` says what a write did.
+ */
+export function ok<T>(
+  data: T,
+  { status = 200, message }: { status?: number; message?: string } = {}
+): NextResponse<ApiSuccess<T>> {
+  const body: ApiSuccess<T> = { data, requestId: currentRequestId() };
+  if (message) body.message = message;
+  return NextResponse.json(body, { status });
+}
+
+/**
+ * A failed response, with the status that belongs to the code.
+ */
+export function fail(
+  code: ErrorCode,
+  message: string,
+  fields?: FieldErrors
+): NextResponse<ApiFailure> {
+  const body: ApiFailure = {
+    error: fields ? { code, message, fields } : { code, message },
+    requestId: currentRequestId(),
+  };
+  return NextResponse.json(body, { status: statusOf(code) });
+}
+
+/**
+ * Passes on an error raised by the domain modules (StockError, PaymentError
+ * and the like), whose codes are part of the API.
+ */
+export function failWith(error: { code: ErrorCode; message: string }) {
+  return fail(error.code, error.message);
+}
+
+/**
+ * A 400 for a required `?id=` (or other query parameter) left out.
+ */
+export function missingParam(name: string, message: string) {
+  return fail("VALIDATION_FAILED", message, { [name]: message });
+}
+
+/**
+ * Gives the request an id, kept from the caller's X-Request-Id header when
+ * it sends a sensible one, and returns it on the response. An exception the
+ * handler does not catch is logged under the id and answered with a 500 in
+ * the envelope instead of Next's error page.
+ */
+export function withRequest<Args extends unknown[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+) {
+  return (request: NextRequest, ...args: Args): Promise<Response> => {
+    const given = request.headers.get(REQUEST_ID_HEADER);
+    const requestId =
+      given && /^[\w.-]{1,100}$/.test(given) ? given : randomUUID();
+
+    return requestIds.run(requestId, async () => {
+      let response: Response;
+      try {
+        response = await handler(request, ...args);
+      } catch (error) {
+        console.error(
+          `[${requestId}] ${request.method} ${request.nextUrl.pathname}:`,
+          error
+        );
+        response = fail("INTERNAL_ERROR", "Internal Server Error.");
+      }
+      response.headers.set(REQUEST_ID_HEADER, requestId);
+      return response;
+    });
+  };
+}
@@ -0,0 +1,127 @@
+import { db } from "./database";
+import type { AuditEntity, AuditEntry, SessionUser } from "./types";
+
+// Settings are one set of key/value pairs rather than rows with an id; their
+// entries are written with `recordAudit` under the id "shop"
+type TableEntity = Exclude<AuditEntity, "settings">;
+
+// Table behind each audited entity
+const ENTITY_TABLES: Record<TableEntity, string> = {
+  product: "products",
+  transaction: "transactions",
+  partner: "partners",
+  expense: "expenses",
+  loan: "loans",
+  purchase_order: "purchase_orders",
+  payment: "payments",
+  invoice: "invoices",
+  user: "users",
+  api_key: "api_keys",
+};
+
+// Credentials are kept out of the log, even hashed
+const SECRET_COLUMNS = ["password_hash", "key_hash"];
+
+type Row = Record<string, unknown>;
+
+/**
+ * Reads the current state of a record for use as a before/after image.
+ * Returns null when the record does not exist.
+ */
+export function snapshot(entity: TableEntity, id: string): Row | null {
+  const row = db
+    .prepare(`SELECT * FROM ${ENTITY_TABLES[entity]} WHERE id = ?`)
+    .get(id) as Row | undefined;
+  if (!row) return null;
+  for (const column of SECRET_COLUMNS) delete row[column];
+  return row;
+}
+
+/**
+ * Appends an entry to the audit log. Call it inside the same `db.transaction`
+ * as the change it describes so the two are committed together.
+ */
+export function recordAudit(
+  actor: SessionUser,
+  entry: {
+    entity: AuditEntity;
+    entityId: string;
+    action: AuditEntry["action"];
+    before?: Row | null;
+    after?: Row | null;
+  }
+) {
+  db.prepare(
+    `INSERT INTO audit_log (actor_id, actor_name, entity, entity_id, action, before_json, after_json)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    actor.id,
+    actor.name,
+    entry.entity,
+    entry.entityId,
+    entry.action,
+    entry.before ? JSON.stringify(entry.before) : null,
+    entry.after ? JSON.stringify(entry.after) : null
+  );
+}
+
+/**
+ * Runs a single-record write and logs it, both inside one transaction. The
+ * entry is only written when the statement actually changed a row.
+ */
+export function auditedChange<T extends { changes: number }>(
+  actor: SessionUser,
+  entity: TableEntity,
+  action: AuditEntry["action"],
+  entityId: string,
+  apply: () => T
+): T {
+  return db.transaction(() => {
+    const before = action === "create" ? null : snapshot(entity, entityId);
+    const result = apply();
+    if (result.changes > 0) {
+      recordAudit(actor, {
+        entity,
+        entityId,
+        action,
+        before,
+        after: action === "delete" ? null : snapshot(entity, entityId),
+      });
+    }
+    return result;
+  })();
+}
+
+/**
+ * Updates or deletes every row matched by `where` and logs one entry per
+ * affected row. Used where a single statement can touch several records.
+ */
+export function auditedBulkChange(
+  actor: SessionUser,
+  entity: TableEntity,
+  action: "update" | "delete",
+  where: { sql: string; params: unknown[] },
+  apply: () => { changes: number }
+): number {
+  return db.transaction(() => {
+    const ids = (
+      db
+        .prepare(`SELECT id FROM ${ENTITY_TABLES[entity]} WHERE ${where.sql}`)
+        .all(...where.params) as { id: string }[]
+    ).map((r) => r.id);
+    const before = new Map(ids.map((id) => [id, snapshot(entity, id)]));
+
+    const { changes } = apply();
+
+    for (const id of ids) {
+      recordAudit(actor, {
+        entity,
+        entityId: id,
+        action,
+        before: before.get(id),
+        after: action === "update" ? snapshot(entity, id) : null,
+      });
+    }
+    return changes;
+  })();
+}
@@ -0,0 +1,7 @@
+// Shared by the route handlers and the edge middleware, which cannot import
+// anything that opens the database.
+
+export const SESSION_COOKIE = "deskvault_session";
+
+// Sessions expire a week after sign-in.
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
@@ -0,0 +1,122 @@
+import { NextRequest } from "next/server";
+import { createHash, randomBytes } from "crypto";
+import { db } from "./database";
+import { SESSION_COOKIE, SESSION_TTL_MS } from "./auth-constants";
+import { callerCan, type Permission } from "./permissions";
+import { fail, withRequest } from "./api-response";
+import { getApiKeyUser } from "./api-keys";
+import type { SessionUser } from "./types";
+
+// Only the hash of a session token is stored, never the token itself.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Starts a session for the user and returns the token to place in the cookie.
+ */
+export function createSession(userId: string): {
+  token: string;
+  expiresAt: Date;
+} {
+  const token = randomBytes(32).toString("base64url");
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  db.prepare(
+    "INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)"
+  ).run(hashToken(token), userId, expiresAt.toISOString());
+
+  // Housekeeping: expired sessions can never be used again.
+  db.prepare("DELETE FROM sessions WHERE expires_at < ?").run(
+    new Date().toISOString()
+  );
+
+  return { token, expiresAt };
+}
+
+/**
+ * Resolves a session token to its user, or null if the session is unknown,
+ * expired, revoked, or belongs to a deleted user.
+ */
+export function getSessionUser(token: string): SessionUser | null {
+  const row = db
+    .prepare(
+      `SELECT u.id, u.email, u.name, u.role
+       FROM sessions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.id = ?
+         AND s.revoked_at IS NULL
+         AND s.expires_at > ?
+         AND u.deleted_at IS NULL`
+    )
+    .get(hashToken(token), new Date().toISOString()) as SessionUser | undefined;
+
+  return row ?? null;
+}
+
+export function revokeSession(token: string) {
+  db.prepare(
+    "UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL"
+  ).run(hashToken(token));
+}
+
+/**
+ * Returns the caller behind the request: the owner of an API key sent as a
+ * bearer token, otherwise the user of the session cookie. A bearer token that
+ * is not a live key is not retried as a session.
+ */
+export function getRequestUser(request: NextRequest): SessionUser | null {
+  const authorization = request.headers.get("Authorization");
+  if (authorization?.startsWith("Bearer ")) {
+    return getApiKeyUser(authorization.slice("Bearer ".length).trim());
+  }
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
+
+/**
+ * Wraps a route handler so it only runs for a signed-in user or a valid API
+ * key. The middleware already turns away requests with neither a cookie nor a
+ * bearer token; this checks that they belong to a live session or key. The
+ * handler runs under `withRequest`.
+ */
+export function withAuth<Context>(
+  handler: (
+    request: NextRequest,
+    user: SessionUser,
+    context: Context
+  ) => Promise<Response>
+) {
+  return withRequest(async (request: NextRequest, context: Context) => {
+    const user = getRequestUser(request);
+    if (!user) {
+      return fail("UNAUTHENTICATED", "Authentication required.");
+    }
+    return handler(request, user, context);
+  });
+}
+
+/**
+ * Like `withAuth`, but additionally requires the user's role (and an API
+ * key's scopes) to grant the given permission.
+ */
+export function withPermission<Context>(
+  permission: Permission,
+  handler: (
+    request: NextRequest,
+    user: SessionUser,
+    context: Context
+  ) => Promise<Response>
+) {
+  return withAuth<Context>(async (request, user, context) => {
+    if (!callerCan(user, permission)) {
+      return fail(
+        "FORBIDDEN",
+        user.apiKey && !user.apiKey.scopes.includes(permission)
+          ? `This API key does not have the ${permission} scope.`
+          : "You do not have permission to perform this action."
+      );
+    }
+    return handler(request, user, context);
+  });
+}
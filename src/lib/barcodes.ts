@@ -0,0 +1,156 @@
+import QRCode from "qrcode";
+
+// --- Barcodes ---
+// Encodes label codes into the bars and modules that labels.ts draws. A
+// linear barcode is a string of modules, "1" for a bar and "0" for a space,
+// and a QR code is a square grid of dark (true) and light modules. Quiet
+// zones are left to whoever draws them.
+
+export type Symbology = "code128" | "ean13";
+
+export const SYMBOLOGIES: Symbology[] = ["code128", "ean13"];
+
+// Bar and space widths of Code 128 symbols 0-105, then the stop symbol
+// prettier-ignore
+const CODE128_PATTERNS = [
+  "212222", "222122", "222221", "121223", "121322", "131222", "122213",
+  "122312", "132212", "221213", "221312", "231212", "112232", "122132",
+  "122231", "113222", "123122", "123221", "223211", "221132", "221231",
+  "213212", "223112", "312131", "311222", "321122", "321221", "312212",
+  "322112", "322211", "212123", "212321", "232121", "111323", "131123",
+  "131321", "112313", "132113", "132311", "211313", "231113", "231311",
+  "112133", "112331", "132131", "113123", "113321", "133121", "313121",
+  "211331", "231131", "213113", "213311", "213131", "311123", "311321",
+  "331121", "312113", "312311", "332111", "314111", "221411", "431111",
+  "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+  "112412", "122114", "122411", "142112", "142211", "241211", "221114",
+  "413111", "241112", "134111", "111242", "121142", "121241", "114212",
+  "124112", "124211", "411212", "421112", "421211", "212141", "214121",
+  "412121", "111143", "111341", "131141", "114113", "114311", "411113",
+  "411311", "113141", "114131", "311141", "411131", "211412", "211214",
+  "211232", "2331112",
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const STOP = 106;
+
+/**
+ * Encodes printable ASCII as Code 128. Runs of digits are packed two to a
+ * symbol (code set C), which keeps IMEIs and other numeric codes short
+ * enough for a small label.
+ */
+export function encodeCode128(data: string): string {
+  if (!/^[\x20-\x7e]+$/.test(data)) {
+    throw new Error("Code 128 labels can only hold printable ASCII.");
+  }
+
+  const values: number[] = [];
+  // An all-digit code uses set C throughout, with any odd last digit in set B
+  const numeric = /^\d{2,}$/.test(data);
+  if (numeric) {
+    values.push(START_C);
+    const pairs = data.length - (data.length % 2);
+    for (let i = 0; i < pairs; i += 2) {
+      values.push(parseInt(data.slice(i, i + 2), 10));
+    }
+    if (pairs < data.length) {
+      values.push(CODE_B, data.charCodeAt(pairs) - 32);
+    }
+  } else {
+    values.push(START_B);
+    for (const char of data) values.push(char.charCodeAt(0) - 32);
+  }
+
+  const checksum =
+    values.reduce((sum, value, index) => sum + value * Math.max(index, 1), 0) %
+    103;
+  values.push(checksum, STOP);
+
+  return values
+    .map((value) =>
+      [...CODE128_PATTERNS[value]]
+        .map((width, index) =>
+          (index % 2 === 0 ? "1" : "0").repeat(Number(width))
+        )
+        .join("")
+    )
+    .join("");
+}
+
+// prettier-ignore
+const EAN_L = [
+  "0001101", "0011001", "0010011", "0111101", "0100011",
+  "0110001", "0101111", "0111011", "0110111", "0001011",
+];
+// prettier-ignore
+const EAN_G = [
+  "0100111", "0110011", "0011011", "0100001", "0011101",
+  "0111001", "0000101", "0010001", "0001001", "0010111",
+];
+const EAN_R = EAN_L.map((pattern) =>
+  [...pattern].map((bit) => (bit === "1" ? "0" : "1")).join("")
+);
+// Which of L and G each left-hand digit uses, chosen by the first digit
+// prettier-ignore
+const EAN_PARITY = [
+  "LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG",
+  "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL",
+];
+
+/**
+ * The check digit for the first 12 digits of an EAN-13.
+ */
+function ean13CheckDigit(digits: string): number {
+  const sum = [...digits.slice(0, 12)].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+    0
+  );
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Returns the full 13 digits for a code that can be printed as an EAN-13:
+ * 12 digits (the check digit is added) or 13 digits with a correct check
+ * digit. Anything else gives null.
+ */
+export function toEan13(data: string): string | null {
+  if (/^\d{12}$/.test(data)) return data + ean13CheckDigit(data);
+  if (/^\d{13}$/.test(data) && ean13CheckDigit(data) === Number(data[12])) {
+    return data;
+  }
+  return null;
+}
+
+/**
+ * Encodes an EAN-13 (see `toEan13` for what is accepted) as its 95 modules.
+ */
+export function encodeEan13(data: string): string {
+  const digits = toEan13(data);
+  if (!digits) {
+    throw new Error("EAN-13 needs 12 digits, or 13 with a valid check digit.");
+  }
+  const parity = EAN_PARITY[Number(digits[0])];
+  const left = [...digits.slice(1, 7)]
+    .map(
+      (digit, index) => (parity[index] === "L" ? EAN_L : EAN_G)[Number(digit)]
+    )
+    .join("");
+  const right = [...digits.slice(7)]
+    .map((digit) => EAN_R[Number(digit)])
+    .join("");
+  return `101${left}01010${right}101`;
+}
+
+/**
+ * Encodes text as a QR code with medium error correction.
+ */
+export function encodeQr(data: string): boolean[][] {
+  const { modules } = QRCode.create(data, { errorCorrectionLevel: "M" });
+  return Array.from({ length: modules.size }, (_, row) =>
+    Array.from({ length: modules.size }, (_, column) =>
+      Boolean(modules.get(row, column))
+    )
+  );
+}
@@ -0,0 +1,166 @@
+import { db } from "./database";
+import type { CostingMethod } from "./types";
+
+// --- Cost of goods sold ---
+// Sales are matched against the cost of the stock they consumed, so profit
+// reflects what was sold rather than what happened to be bought that week.
+
+export type StockMovement = {
+  id: string;
+  productId: string;
+  productType: "individual" | "sku";
+  type: "purchase" | "sale";
+  quantity: number;
+  unitPrice: number; // Purchase cost or sale price, per unit
+  imei: string | null;
+  date: string;
+  fallbackCost: number; // Product cost price, for stock with no recorded purchase
+};
+
+export type CostedSale = {
+  transactionId: string;
+  productId: string;
+  date: string;
+  quantity: number;
+  revenue: number;
+  cost: number;
+};
+
+type CostLayer = { quantity: number; unitCost: number };
+
+type ProductCostState = {
+  layers: CostLayer[]; // FIFO: oldest first
+  onHand: number; // Weighted average: units in stock
+  averageCost: number; // Weighted average: current unit cost
+  unitCosts: Map<string, number>; // Individual products: cost per IMEI
+};
+
+/**
+ * Takes `quantity` units from the oldest cost layers first. Units beyond the
+ * recorded layers are costed at `fallbackCost`.
+ */
+function consumeFifo(
+  state: ProductCostState,
+  quantity: number,
+  fallbackCost: number
+): number {
+  let remaining = quantity;
+  let cost = 0;
+
+  while (remaining > 0 && state.layers.length > 0) {
+    const layer = state.layers[0];
+    const taken = Math.min(layer.quantity, remaining);
+    cost += taken * layer.unitCost;
+    layer.quantity -= taken;
+    remaining -= taken;
+    if (layer.quantity === 0) state.layers.shift();
+  }
+
+  return cost + remaining * fallbackCost;
+}
+
+/**
+ * Costs `quantity` units at the running average. Units beyond what is on
+ * hand are costed at the average if one exists, else at `fallbackCost`.
+ */
+function consumeAverage(
+  state: ProductCostState,
+  quantity: number,
+  fallbackCost: number
+): number {
+  const unitCost = state.onHand > 0 ? state.averageCost : fallbackCost;
+  state.onHand = Math.max(0, state.onHand - quantity);
+  return quantity * unitCost;
+}
+
+/**
+ * Replays purchases and sales in date order and returns the cost of every
+ * sale. Individual (IMEI) products are always costed at the exact purchase
+ * price of the unit sold, whatever the method.
+ */
+export function costSales(
+  movements: StockMovement[],
+  method: CostingMethod
+): CostedSale[] {
+  const ordered = [...movements].sort((a, b) =>
+    a.date === b.date ? 0 : a.date < b.date ? -1 : 1
+  );
+  const states = new Map<string, ProductCostState>();
+  const costed: CostedSale[] = [];
+
+  for (const movement of ordered) {
+    let state = states.get(movement.productId);
+    if (!state) {
+      state = { layers: [], onHand: 0, averageCost: 0, unitCosts: new Map() };
+      states.set(movement.productId, state);
+    }
+
+    if (movement.type === "purchase") {
+      if (movement.productType === "individual") {
+        state.unitCosts.set(movement.imei ?? "", movement.unitPrice);
+      } else if (method === "fifo") {
+        state.layers.push({
+          quantity: movement.quantity,
+          unitCost: movement.unitPrice,
+        });
+      } else {
+        const totalCost =
+          state.onHand * state.averageCost +
+          movement.quantity * movement.unitPrice;
+        state.onHand += movement.quantity;
+        state.averageCost = state.onHand > 0 ? totalCost / state.onHand : 0;
+      }
+      continue;
+    }
+
+    let cost: number;
+    if (movement.productType === "individual") {
+      const unitCost =
+        state.unitCosts.get(movement.imei ?? "") ?? movement.fallbackCost;
+      cost = unitCost * movement.quantity;
+    } else if (method === "fifo") {
+      cost = consumeFifo(state, movement.quantity, movement.fallbackCost);
+    } else {
+      cost = consumeAverage(state, movement.quantity, movement.fallbackCost);
+    }
+
+    costed.push({
+      transactionId: movement.id,
+      productId: movement.productId,
+      date: movement.date,
+      quantity: movement.quantity,
+      revenue: movement.quantity * movement.unitPrice,
+      cost,
+    });
+  }
+
+  return costed;
+}
+
+/**
+ * Loads every live purchase and sale. Cost layers depend on the full history,
+ * so this is not limited to a reporting period; callers filter the costed
+ * sales afterwards.
+ */
+export function loadStockMovements(): StockMovement[] {
+  return db
+    .prepare(
+      `SELECT
+         t.id,
+         t.product_id AS productId,
+         p.type AS productType,
+         t.type,
+         t.quantity,
+         -- Net of tax: input tax is reclaimed and output tax is not income
+         CASE WHEN t.quantity > 0 THEN t.net_amount / t.quantity ELSE t.price END
+           AS unitPrice,
+         NULLIF(t.imei, '') AS imei,
+         t.date,
+         p.cost_price AS fallbackCost
+       FROM transactions t
+       JOIN products p ON p.id = t.product_id
+       WHERE t.deleted_at IS NULL AND t.type IN ('purchase', 'sale')
+       ORDER BY t.date ASC, t.created_at ASC`
+    )
+    .all() as StockMovement[];
+}
@@ -0,0 +1,21 @@
+/**
+ * Quotes a value for a CSV cell when it contains a delimiter, quote or line
+ * break.
+ */
+function csvCell(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds an RFC 4180 CSV document from a header row and data rows.
+ */
+export function toCsv(
+  header: string[],
+  rows: (string | number | null | undefined)[][]
+): string {
+  return [header, ...rows]
+    .map((row) => row.map(csvCell).join(","))
+    .join("\r\n");
+}
@@ -0,0 +1,16 @@
+import path from "path";
+import fs from "fs";
+
+/**
+ * Absolute path of the SQLite database file. Shared by the app connection and
+ * the command-line tooling so both always operate on the same file.
+ * `DATABASE_PATH` points both elsewhere, e.g. the tests at a scratch file.
+ */
+export function getDatabasePath(): string {
+  if (process.env.DATABASE_PATH) return process.env.DATABASE_PATH;
+  const dbDir = path.join(process.cwd(), "data");
+  if (!fs.existsSync(dbDir)) {
+    fs.mkdirSync(dbDir);
+  }
+  return path.join(dbDir, "local_db.sqlite");
+}
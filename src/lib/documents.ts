@@ -0,0 +1,566 @@
+import { format } from "date-fns";
+import { db } from "./database";
+import { getInvoice } from "./invoices";
+import { getStatement } from "./accounts";
+import { getSettings } from "./settings";
+import { A4, RECEIPT_ROLL, PdfWriter } from "./pdf";
+import { EscPosWriter, type PaperWidth } from "./escpos";
+import type { Invoice, Partner, ShopSettings, Transaction } from "./types";
+
+// --- Documents ---
+// Receipts, invoices and partner statements rendered on the server, to PDF
+// or as ESC/POS bytes for thermal receipt printers.
+// Everything printed about a sale or purchase comes from what was recorded
+// with it (the `snapshot_partner_*` and `snapshot_product_name` columns), so
+// regenerating an old document gives the same result after the product or
+// partner has been edited. Only the shop details follow the current settings.
+
+export class DocumentError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "DOCUMENT_NOT_FOUND" | "INVALID_TEMPLATE"
+  ) {
+    super(message);
+    this.name = "DocumentError";
+  }
+}
+
+export type DocumentTemplate = "invoice" | "receipt" | "statement";
+
+// What a thermal receipt prints under the totals to identify the document
+export type ReceiptCode = "none" | "barcode" | "qr";
+
+export const RECEIPT_CODES: ReceiptCode[] = ["none", "barcode", "qr"];
+
+export const DOCUMENT_TEMPLATES: DocumentTemplate[] = [
+  "invoice",
+  "receipt",
+  "statement",
+];
+
+type TransactionDocument = Transaction & {
+  snapshot_partner_phone: string | null;
+  snapshot_partner_shop: string | null;
+  imei: string | null;
+  paid: number;
+};
+
+/**
+ * What an id refers to: a sales invoice, a single non-sale transaction
+ * (purchase, return or lending), or a partner whose statement is wanted.
+ */
+export type DocumentSource =
+  | { kind: "invoice"; invoice: Invoice }
+  | { kind: "transaction"; transaction: TransactionDocument }
+  | { kind: "statement"; partner: Partner };
+
+/**
+ * Resolves a document id. Invoice ids and the ids of their sale lines both
+ * give the invoice; any other transaction id gives that transaction, and a
+ * partner id gives the partner's statement. Returns null when nothing
+ * matches.
+ */
+export function findDocument(id: string): DocumentSource | null {
+  const invoice = getInvoice(id);
+  if (invoice) return { kind: "invoice", invoice };
+
+  const transaction = db
+    .prepare(
+      `SELECT t.*, NULLIF(t.imei, '') AS imei,
+         COALESCE((SELECT SUM(a.amount) FROM payment_allocations a
+                   WHERE a.transaction_id = t.id), 0) AS paid
+       FROM transactions t
+       WHERE t.id = ? AND t.deleted_at IS NULL`
+    )
+    .get(id) as TransactionDocument | undefined;
+  if (transaction) {
+    if (transaction.invoice_id) {
+      const lineInvoice = getInvoice(transaction.invoice_id);
+      if (lineInvoice) return { kind: "invoice", invoice: lineInvoice };
+    }
+    return { kind: "transaction", transaction };
+  }
+
+  const partner = db.prepare("SELECT * FROM partners WHERE id = ?").get(id) as
+    Partner | undefined;
+  if (partner) return { kind: "statement", partner };
+
+  return null;
+}
+
+// --- Formatting ---
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const money = (amount: number) =>
+  `${round(amount).toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} QAR`;
+
+const formatDate = (date: string) => format(new Date(date), "d MMM yyyy");
+
+const formatDateTime = (date: string) =>
+  format(new Date(date), "d MMM yyyy, HH:mm");
+
+/**
+ * Decodes the logo data URL kept in settings into image bytes.
+ */
+function decodeLogo(
+  logo: string | null
+): { bytes: Uint8Array; type: "png" | "jpeg" } | null {
+  const match = logo?.match(/^data:image\/(png|jpeg);base64,(.+)$/);
+  if (!match) return null;
+  return {
+    bytes: new Uint8Array(Buffer.from(match[2], "base64")),
+    type: match[1] as "png" | "jpeg",
+  };
+}
+
+// --- Printable model ---
+// Invoices and single transactions share the same templates once reduced to
+// a heading, a party, lines and totals.
+
+type PrintableLine = {
+  description: string;
+  details: string[];
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+};
+
+type Printable = {
+  title: string;
+  number: string;
+  date: string;
+  partyLabel: string;
+  party: string;
+  partyDetails: string[];
+  lines: PrintableLine[];
+  totals: { label: string; amount: number; bold?: boolean }[];
+  note: string | null;
+};
+
+const TRANSACTION_TITLES: Record<Transaction["type"], string> = {
+  sale: "Sales Invoice",
+  purchase: "Purchase Receipt",
+  return: "Return Receipt",
+  "lend-out": "Lending Note",
+};
+
+function invoicePrintable(invoice: Invoice): Printable {
+  const totals: Printable["totals"] = [
+    { label: "Subtotal", amount: invoice.list_total },
+  ];
+  if (invoice.discount_amount > 0) {
+    totals.push({ label: "Discount", amount: -invoice.discount_amount });
+  }
+  totals.push(
+    { label: "Net", amount: invoice.net_amount },
+    { label: "Tax", amount: invoice.tax_amount },
+    { label: "Total", amount: invoice.total_amount, bold: true },
+    { label: "Paid", amount: invoice.paid },
+    { label: "Balance due", amount: invoice.outstanding, bold: true }
+  );
+
+  return {
+    title: TRANSACTION_TITLES.sale,
+    number: invoice.number ?? invoice.id,
+    date: invoice.date,
+    partyLabel: "Bill to",
+    party: invoice.party,
+    partyDetails: [invoice.party_shop, invoice.party_phone].filter(
+      (detail): detail is string => !!detail
+    ),
+    lines: (invoice.lines ?? []).map((line) => ({
+      description: line.product_name,
+      details: [
+        ...(line.imei ? [`IMEI/Serial: ${line.imei}`] : []),
+        ...(line.discount_amount > 0
+          ? [
+              `List ${money((line.list_price ?? line.price) * line.quantity)}, discount ${money(line.discount_amount)}`,
+            ]
+          : []),
+      ],
+      quantity: line.quantity,
+      unitPrice: line.price,
+      amount: line.total_amount,
+    })),
+    totals,
+    note: invoice.discount_reason
+      ? `Discount reason: ${invoice.discount_reason}`
+      : null,
+  };
+}
+
+function transactionPrintable(transaction: TransactionDocument): Printable {
+  const totals: Printable["totals"] = [];
+  if (transaction.net_amount != null) {
+    totals.push(
+      { label: "Net", amount: transaction.net_amount },
+      { label: "Tax", amount: transaction.tax_amount ?? 0 }
+    );
+  }
+  totals.push({
+    label: "Total",
+    amount: transaction.total_amount,
+    bold: true,
+  });
+  if (transaction.type === "purchase") {
+    totals.push(
+      { label: "Paid", amount: transaction.paid },
+      {
+        label: "Balance due",
+        amount: Math.max(0, transaction.total_amount - transaction.paid),
+        bold: true,
+      }
+    );
+  }
+
+  return {
+    title: TRANSACTION_TITLES[transaction.type],
+    number: transaction.number ?? transaction.id,
+    date: transaction.date,
+    partyLabel: transaction.type === "purchase" ? "Supplier" : "Partner",
+    party: transaction.snapshot_partner_name || "Unknown",
+    partyDetails: [
+      transaction.snapshot_partner_shop,
+      transaction.snapshot_partner_phone,
+    ].filter((detail): detail is string => !!detail),
+    lines: [
+      {
+        description: transaction.snapshot_product_name || "Deleted product",
+        details: transaction.imei ? [`IMEI/Serial: ${transaction.imei}`] : [],
+        quantity: transaction.quantity,
+        unitPrice: transaction.price,
+        amount: transaction.total_amount,
+      },
+    ],
+    totals,
+    note: null,
+  };
+}
+
+// --- Templates ---
+
+/**
+ * The shop's logo, name and address at the top of an A4 document.
+ */
+async function writeShopHeader(pdf: PdfWriter, settings: ShopSettings) {
+  const logo = decodeLogo(settings.shopLogo);
+  if (logo) await pdf.image(logo.bytes, logo.type, 140, 60);
+  pdf.text(settings.shopName, { size: 16, bold: true });
+  if (settings.shopAddress) {
+    pdf.text(settings.shopAddress, { muted: true, wrap: true });
+  }
+  pdf.space(12);
+}
+
+function writeFooter(pdf: PdfWriter, settings: ShopSettings) {
+  if (!settings.documentFooter) return;
+  pdf.space(16);
+  pdf.text(settings.documentFooter, {
+    align: "center",
+    muted: true,
+    wrap: true,
+  });
+}
+
+async function renderInvoice(
+  printable: Printable,
+  settings: ShopSettings
+): Promise<Uint8Array> {
+  const pdf = await PdfWriter.create(
+    A4,
+    `${printable.title} ${printable.number}`
+  );
+  await writeShopHeader(pdf, settings);
+
+  pdf.text(printable.title, { size: 14, bold: true });
+  pdf.row([
+    { text: `No. ${printable.number}`, width: 0.5 },
+    { text: formatDate(printable.date), width: 0.5, align: "right" },
+  ]);
+  pdf.space(8);
+  pdf.text(printable.partyLabel, { muted: true });
+  pdf.text(printable.party, { bold: true });
+  for (const detail of printable.partyDetails) pdf.text(detail);
+  pdf.space(12);
+
+  pdf.row([
+    { text: "Description", width: 0.52, bold: true },
+    { text: "Qty", width: 0.1, align: "right", bold: true },
+    { text: "Unit price", width: 0.19, align: "right", bold: true },
+    { text: "Amount", width: 0.19, align: "right", bold: true },
+  ]);
+  pdf.rule();
+  for (const line of printable.lines) {
+    pdf.row([
+      { text: line.description, width: 0.52 },
+      { text: String(line.quantity), width: 0.1, align: "right" },
+      { text: money(line.unitPrice), width: 0.19, align: "right" },
+      { text: money(line.amount), width: 0.19, align: "right" },
+    ]);
+    for (const detail of line.details) {
+      pdf.row([{ text: detail, width: 1 }], { size: 8, muted: true });
+    }
+  }
+  pdf.rule();
+  for (const total of printable.totals) {
+    pdf.row([
+      { text: total.label, width: 0.81, align: "right", bold: total.bold },
+      {
+        text: money(total.amount),
+        width: 0.19,
+        align: "right",
+        bold: total.bold,
+      },
+    ]);
+  }
+  if (printable.note) {
+    pdf.space(8);
+    pdf.text(printable.note, { muted: true, wrap: true });
+  }
+
+  writeFooter(pdf, settings);
+  return pdf.save();
+}
+
+async function renderReceipt(
+  printable: Printable,
+  settings: ShopSettings
+): Promise<Uint8Array> {
+  const pdf = await PdfWriter.create(
+    RECEIPT_ROLL,
+    `Receipt ${printable.number}`
+  );
+  const logo = decodeLogo(settings.shopLogo);
+  if (logo) await pdf.image(logo.bytes, logo.type, 120, 48, "center");
+  pdf.text(settings.shopName, { size: 11, bold: true, align: "center" });
+  if (settings.shopAddress) {
+    pdf.text(settings.shopAddress, { align: "center", wrap: true });
+  }
+  pdf.rule();
+  pdf.text(printable.number, { bold: true, align: "center" });
+  pdf.text(formatDateTime(printable.date), { align: "center" });
+  pdf.text(`${printable.partyLabel}: ${printable.party}`, { align: "center" });
+  pdf.rule();
+
+  for (const line of printable.lines) {
+    pdf.text(line.description, { bold: true, wrap: true });
+    for (const detail of line.details) pdf.text(detail, { muted: true });
+    pdf.row([
+      {
+        text: `${line.quantity} x ${money(line.unitPrice)}`,
+        width: 0.55,
+      },
+      { text: money(line.amount), width: 0.45, align: "right" },
+    ]);
+  }
+  pdf.rule();
+  for (const total of printable.totals) {
+    pdf.row([
+      { text: total.label, width: 0.55, bold: total.bold },
+      {
+        text: money(total.amount),
+        width: 0.45,
+        align: "right",
+        bold: total.bold,
+      },
+    ]);
+  }
+  if (printable.note) pdf.text(printable.note, { muted: true, wrap: true });
+
+  if (settings.documentFooter) {
+    pdf.rule();
+    pdf.text(settings.documentFooter, { align: "center", wrap: true });
+  }
+  return pdf.save();
+}
+
+async function renderStatement(
+  partner: Partner,
+  range: { from: string | null; to: string | null },
+  settings: ShopSettings
+): Promise<Uint8Array> {
+  const statement = getStatement(partner.id, range);
+  const pdf = await PdfWriter.create(A4, `Statement ${partner.name}`);
+  await writeShopHeader(pdf, settings);
+
+  pdf.text("Statement of Account", { size: 14, bold: true });
+  pdf.text(
+    range.from || range.to
+      ? `${range.from ? formatDate(range.from) : "Start"} to ${range.to ? formatDate(range.to) : "today"}`
+      : "All dates",
+    { muted: true }
+  );
+  pdf.space(8);
+  pdf.text(partner.name, { bold: true });
+  for (const detail of [partner.shop_name, partner.phone]) {
+    if (detail) pdf.text(detail);
+  }
+  pdf.space(12);
+
+  const columns = [0.14, 0.44, 0.14, 0.14, 0.14];
+  const statementRow = (cells: string[], options: { bold?: boolean } = {}) =>
+    pdf.row(
+      cells.map((text, index) => ({
+        text,
+        width: columns[index],
+        align: index >= 2 ? ("right" as const) : ("left" as const),
+        bold: options.bold,
+      }))
+    );
+
+  statementRow(["Date", "Description", "Debit", "Credit", "Balance"], {
+    bold: true,
+  });
+  pdf.rule();
+  statementRow([
+    "",
+    "Balance brought forward",
+    "",
+    "",
+    money(statement.openingBalance),
+  ]);
+  for (const line of statement.lines) {
+    statementRow([
+      formatDate(line.date),
+      line.description,
+      line.debit ? money(line.debit) : "",
+      line.credit ? money(line.credit) : "",
+      money(line.balance),
+    ]);
+  }
+  pdf.rule();
+  statementRow(
+    ["", "Closing balance", "", "", money(statement.closingBalance)],
+    {
+      bold: true,
+    }
+  );
+  pdf.space(4);
+  pdf.text(
+    "Positive balances are owed to the shop; negative balances are owed to the partner.",
+    { size: 8, muted: true }
+  );
+
+  writeFooter(pdf, settings);
+  return pdf.save();
+}
+
+/**
+ * Renders a document to PDF. Sales and transactions print as an A4 invoice
+ * (the default) or a receipt roll; partners only print as a statement,
+ * optionally limited to a date range.
+ */
+export async function renderDocument(
+  source: DocumentSource,
+  options: {
+    template?: DocumentTemplate;
+    from?: string | null;
+    to?: string | null;
+  } = {}
+): Promise<{ bytes: Uint8Array; filename: string }> {
+  const settings = getSettings();
+
+  if (source.kind === "statement") {
+    const template = options.template ?? "statement";
+    if (template !== "statement") {
+      throw new DocumentError(
+        "Partners can only be printed as a statement.",
+        "INVALID_TEMPLATE"
+      );
+    }
+    const bytes = await renderStatement(
+      source.partner,
+      { from: options.from ?? null, to: options.to ?? null },
+      settings
+    );
+    return {
+      bytes,
+      filename: `statement-${source.partner.name.replace(/[^A-Za-z0-9-]+/g, "-")}.pdf`,
+    };
+  }
+
+  const template = options.template ?? "invoice";
+  if (template === "statement") {
+    throw new DocumentError(
+      "Only partners can be printed as a statement.",
+      "INVALID_TEMPLATE"
+    );
+  }
+  const printable =
+    source.kind === "invoice"
+      ? invoicePrintable(source.invoice)
+      : transactionPrintable(source.transaction);
+  const bytes =
+    template === "receipt"
+      ? await renderReceipt(printable, settings)
+      : await renderInvoice(printable, settings);
+  return { bytes, filename: `${printable.number}.pdf` };
+}
+
+/**
+ * Renders a sale or transaction as an ESC/POS byte stream for a thermal
+ * receipt printer, ending with a cut. The invoice number can be printed
+ * underneath as a barcode or QR code for scanning it back in.
+ */
+export function renderThermalReceipt(
+  source: DocumentSource,
+  options: { paper: PaperWidth; code?: ReceiptCode }
+): { bytes: Uint8Array; filename: string } {
+  if (source.kind === "statement") {
+    throw new DocumentError(
+      "Statements cannot be printed on receipt paper.",
+      "INVALID_TEMPLATE"
+    );
+  }
+  const settings = getSettings();
+  const printable =
+    source.kind === "invoice"
+      ? invoicePrintable(source.invoice)
+      : transactionPrintable(source.transaction);
+  const printer = new EscPosWriter(options.paper);
+
+  printer.text(settings.shopName, { align: "center", bold: true, large: true });
+  if (settings.shopAddress) {
+    printer.text(settings.shopAddress, { align: "center" });
+  }
+  printer.rule();
+  printer.text(printable.title, { align: "center", bold: true });
+  printer.text(printable.number, { align: "center" });
+  printer.text(formatDateTime(printable.date), { align: "center" });
+  printer.text(`${printable.partyLabel}: ${printable.party}`);
+  printer.rule();
+
+  for (const line of printable.lines) {
+    printer.text(line.description, { bold: true });
+    for (const detail of line.details) printer.text(detail);
+    printer.row(
+      `${line.quantity} x ${money(line.unitPrice)}`,
+      money(line.amount)
+    );
+  }
+  printer.rule();
+  for (const total of printable.totals) {
+    printer.row(total.label, money(total.amount), { bold: total.bold });
+  }
+  if (printable.note) printer.text(printable.note);
+
+  if (options.code === "barcode") {
+    printer.feed();
+    printer.barcode(printable.number);
+  } else if (options.code === "qr") {
+    printer.feed();
+    printer.qr(printable.number);
+  }
+  if (settings.documentFooter) {
+    printer.feed();
+    printer.text(settings.documentFooter, { align: "center" });
+  }
+  printer.feed(3);
+  printer.cut();
+
+  return { bytes: printer.bytes(), filename: `${printable.number}.bin` };
+}
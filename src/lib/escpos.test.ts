@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import {
+  EscPosWriter,
+  PAPER_COLUMNS,
+  toAscii,
+  type PaperWidth,
+} from "./escpos";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const INIT = [ESC, 0x40];
+const ALIGN_LEFT = [ESC, 0x61, 0];
+const ALIGN_CENTER = [ESC, 0x61, 1];
+
+const ascii = (text: string) => [...text].map((char) => char.charCodeAt(0));
+
+/** What follows the initialise command. */
+const written = (printer: EscPosWriter) => [...printer.bytes()].slice(2);
+
+/** The lines `text()` printed, read back from its bytes. */
+function printedLines(printer: EscPosWriter): string[] {
+  const bytes = written(printer);
+  expect(bytes.slice(0, 3)).toEqual(ALIGN_LEFT);
+  const lines = Buffer.from(bytes.slice(3)).toString("latin1").split("\n");
+  expect(lines.pop()).toBe("");
+  return lines;
+}
+
+const PARAGRAPH =
+  "Thank you for shopping with us. Goods sold are returnable within fourteen days with the receipt and original packaging.";
+
+describe("EscPosWriter", () => {
+  it("starts every job by initialising the printer", () => {
+    expect([...new EscPosWriter(80).bytes()]).toEqual(INIT);
+  });
+
+  it("switches bold on around the text and off after it", () => {
+    const printer = new EscPosWriter(80);
+    printer.text("Total", { bold: true });
+    expect(written(printer)).toEqual([
+      ...ALIGN_LEFT,
+      ESC,
+      0x45,
+      1,
+      ...ascii("Total"),
+      LF,
+      ESC,
+      0x45,
+      0,
+    ]);
+  });
+
+  it("prints large centred text at double size", () => {
+    const printer = new EscPosWriter(58);
+    printer.text("Shop", { align: "center", large: true });
+    expect(written(printer)).toEqual([
+      ...ALIGN_CENTER,
+      GS,
+      0x21,
+      0x11,
+      ...ascii("Shop"),
+      LF,
+      GS,
+      0x21,
+      0x00,
+    ]);
+  });
+
+  it.each([
+    [58, 5],
+    [80, 7],
+  ] as const)("stores and prints a QR code on %i mm paper", (paper, size) => {
+    const printer = new EscPosWriter(paper);
+    printer.qr("INV-000001");
+    expect(written(printer)).toEqual([
+      ...ALIGN_CENTER,
+      ...[GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0], // Model 2
+      ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, size], // Module size
+      ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31], // Error correction M
+      ...[GS, 0x28, 0x6b, 13, 0, 0x31, 0x50, 0x30], // Store 10 + 3 bytes
+      ...ascii("INV-000001"),
+      ...[GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30], // Print
+      LF,
+    ]);
+  });
+
+  it("splits a long QR payload's length over two bytes", () => {
+    const printer = new EscPosWriter(80);
+    printer.qr("x".repeat(300));
+    const bytes = written(printer);
+    const store = bytes.indexOf(0x50) - 6;
+    // 303 bytes stored: 47 + 1 * 256
+    expect(bytes.slice(store, store + 8)).toEqual([
+      GS,
+      0x28,
+      0x6b,
+      47,
+      1,
+      0x31,
+      0x50,
+      0x30,
+    ]);
+  });
+
+  it("ends with a partial cut", () => {
+    const printer = new EscPosWriter(80);
+    printer.feed(3);
+    printer.cut();
+    expect(written(printer)).toEqual([ESC, 0x64, 3, GS, 0x56, 0x42, 3]);
+  });
+
+  it.each([58, 80] as const)(
+    "wraps text between words at the width of %i mm paper",
+    (paper: PaperWidth) => {
+      const printer = new EscPosWriter(paper);
+      printer.text(PARAGRAPH);
+      const lines = printedLines(printer);
+
+      expect(lines.length).toBeGreaterThan(1);
+      for (const line of lines) {
+        expect(line.length).toBeLessThanOrEqual(PAPER_COLUMNS[paper]);
+        expect(line).toBe(line.trim());
+      }
+      // Nothing lost or split inside a word
+      expect(lines.join(" ")).toBe(PARAGRAPH);
+      // Each line was as full as the next word allowed
+      for (let i = 0; i < lines.length - 1; i++) {
+        const nextWord = lines[i + 1].split(" ")[0];
+        expect(lines[i].length + 1 + nextWord.length).toBeGreaterThan(
+          PAPER_COLUMNS[paper]
+        );
+      }
+    }
+  );
+
+  it("wraps at 32 columns on 58 mm and 48 on 80 mm", () => {
+    const words = Array.from({ length: 12 }, () => "abcdefg").join(" ");
+    const narrow = new EscPosWriter(58);
+    narrow.text(words);
+    const wide = new EscPosWriter(80);
+    wide.text(words);
+    // Four 7-letter words (31 characters) per 58 mm line, six (47) per 80 mm
+    expect(printedLines(narrow).map((line) => line.length)).toEqual([
+      31, 31, 31,
+    ]);
+    expect(printedLines(wide).map((line) => line.length)).toEqual([47, 47]);
+  });
+
+  it("wraps large text at half the width", () => {
+    const printer = new EscPosWriter(58);
+    printer.text("Deskvault Electronics Trading", { large: true });
+    const text = Buffer.from(written(printer).slice(6, -3)).toString("latin1");
+    expect(text.split("\n").slice(0, -1)).toEqual([
+      "Deskvault",
+      "Electronics",
+      "Trading",
+    ]);
+  });
+
+  it("cuts a word longer than the line", () => {
+    const printer = new EscPosWriter(58);
+    printer.text(`IMEI ${"1".repeat(40)}`);
+    expect(printedLines(printer)).toEqual([
+      "IMEI",
+      "1".repeat(32),
+      "1".repeat(8),
+    ]);
+  });
+
+  it.each([58, 80] as const)(
+    "fills a row to exactly the %i mm width",
+    (paper) => {
+      const printer = new EscPosWriter(paper);
+      printer.row("2 x Charger", "20.00 QAR");
+      const line = Buffer.from(written(printer).slice(3, -1)).toString(
+        "latin1"
+      );
+      expect(line).toHaveLength(PAPER_COLUMNS[paper]);
+      expect(line.startsWith("2 x Charger ")).toBe(true);
+      expect(line.endsWith(" 20.00 QAR")).toBe(true);
+    }
+  );
+});
+
+describe("toAscii", () => {
+  it("drops accents and replaces what ASCII cannot print", () => {
+    expect(toAscii("Crème brûlée – 5€\n")).toBe("Creme brulee ? 5? ");
+  });
+});
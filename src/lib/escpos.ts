@@ -0,0 +1,204 @@
+// --- ESC/POS ---
+// Builds the byte stream a thermal receipt printer understands. Like pdf.ts
+// this only knows about layout; the receipt template itself is in
+// documents.ts. Text is sent as plain ASCII, which every printer's default
+// code page prints the same way.
+
+export type PaperWidth = 58 | 80;
+
+export const PAPER_WIDTHS: PaperWidth[] = [58, 80];
+
+// Characters per line in the printer's standard font (Font A, 12x24 dots)
+export const PAPER_COLUMNS: Record<PaperWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+export type Align = "left" | "center" | "right";
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN_CODES: Record<Align, number> = { left: 0, center: 1, right: 2 };
+
+/**
+ * Reduces text to printable ASCII: accents are dropped ("Ü" prints as "U")
+ * and anything else outside ASCII becomes "?".
+ */
+export function toAscii(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\r\n\t]+/g, " ")
+    .replace(/[^\x20-\x7e]/g, "?");
+}
+
+export class EscPosWriter {
+  private readonly chunks: number[] = [];
+  readonly columns: number;
+
+  constructor(readonly paper: PaperWidth) {
+    this.columns = PAPER_COLUMNS[paper];
+    this.command(ESC, 0x40); // Initialise: clears styles left by a previous job
+  }
+
+  private command(...bytes: number[]) {
+    this.chunks.push(...bytes);
+  }
+
+  private raw(text: string) {
+    for (const char of toAscii(text)) this.chunks.push(char.charCodeAt(0));
+  }
+
+  private align(align: Align) {
+    this.command(ESC, 0x61, ALIGN_CODES[align]);
+  }
+
+  private bold(on: boolean) {
+    this.command(ESC, 0x45, on ? 1 : 0);
+  }
+
+  /**
+   * Prints text, wrapped at word boundaries to the paper width and keeping
+   * any line breaks it already has. Large text prints at double width and
+   * height, so half as many characters fit.
+   */
+  text(
+    text: string,
+    options: { align?: Align; bold?: boolean; large?: boolean } = {}
+  ) {
+    const columns = options.large ? this.columns / 2 : this.columns;
+    this.align(options.align ?? "left");
+    if (options.bold) this.bold(true);
+    if (options.large) this.command(GS, 0x21, 0x11);
+    for (const paragraph of text.split(/\r?\n/)) {
+      for (const line of wrap(toAscii(paragraph), columns)) {
+        this.raw(line);
+        this.command(LF);
+      }
+    }
+    if (options.large) this.command(GS, 0x21, 0x00);
+    if (options.bold) this.bold(false);
+  }
+
+  /**
+   * Prints `left` and `right` on one line, pushed to either edge. The left
+   * text is shortened if both do not fit.
+   */
+  row(left: string, right: string, options: { bold?: boolean } = {}) {
+    const rightText = toAscii(right).slice(0, this.columns);
+    const room = Math.max(0, this.columns - rightText.length - 1);
+    let leftText = toAscii(left);
+    if (leftText.length > room) leftText = leftText.slice(0, room);
+    this.align("left");
+    if (options.bold) this.bold(true);
+    this.raw(
+      leftText + " ".repeat(this.columns - leftText.length - rightText.length)
+    );
+    this.raw(rightText);
+    this.command(LF);
+    if (options.bold) this.bold(false);
+  }
+
+  /** Prints a dashed line across the paper. */
+  rule() {
+    this.align("left");
+    this.raw("-".repeat(this.columns));
+    this.command(LF);
+  }
+
+  /** Feeds `lines` blank lines. */
+  feed(lines = 1) {
+    this.command(ESC, 0x64, Math.min(255, lines));
+  }
+
+  /**
+   * Prints a centred barcode with its text underneath: Code 128 by default,
+   * cut to 120 characters (far more than fits across the paper anyway), or
+   * an EAN-13 when given its digits.
+   */
+  barcode(data: string, symbology: "code128" | "ean13" = "code128") {
+    this.align("center");
+    this.command(GS, 0x68, 80); // Height in dots
+    this.command(GS, 0x77, this.paper === 58 ? 1 : 2); // Module width
+    this.command(GS, 0x48, 2); // Human-readable text below
+    if (symbology === "ean13") {
+      // Function B, EAN-13: 12 digits, the printer adds the check digit
+      const digits = data.replace(/\D/g, "").slice(0, 12);
+      this.command(GS, 0x6b, 67, digits.length);
+      this.raw(digits);
+    } else {
+      // "{" starts a code set switch, so a literal one is sent as "{{"
+      const payload = toAscii(data).slice(0, 120).replace(/\{/g, "{{");
+      // Function B, Code 128, starting in code set B ("{B")
+      this.command(GS, 0x6b, 73, payload.length + 2, 0x7b, 0x42);
+      this.raw(payload);
+    }
+    this.command(LF);
+  }
+
+  /**
+   * Prints a centred QR code (model 2, error correction M).
+   */
+  qr(data: string) {
+    const payload = toAscii(data);
+    const stored = payload.length + 3;
+    this.align("center");
+    this.command(GS, 0x28, 0x6b, 4, 0, 0x31, 0x41, 0x32, 0); // Model 2
+    // Module size in dots
+    this.command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x43, this.paper === 58 ? 5 : 7);
+    this.command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x45, 0x31); // Level M
+    this.command(
+      GS,
+      0x28,
+      0x6b,
+      stored % 256,
+      Math.floor(stored / 256),
+      0x31,
+      0x50,
+      0x30
+    );
+    this.raw(payload);
+    this.command(GS, 0x28, 0x6b, 3, 0, 0x31, 0x51, 0x30); // Print it
+    this.command(LF);
+  }
+
+  /** Feeds the paper past the cutter and makes a partial cut. */
+  cut() {
+    this.command(GS, 0x56, 0x42, 3);
+  }
+
+  /** The finished byte stream. */
+  bytes(): Uint8Array {
+    return Uint8Array.from(this.chunks);
+  }
+}
+
+/**
+ * Splits text into lines of at most `columns` characters, breaking between
+ * words where possible.
+ */
+function wrap(text: string, columns: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (let word of text.split(" ").filter(Boolean)) {
+    while (word.length > columns) {
+      if (line) {
+        lines.push(line);
+        line = "";
+      }
+      lines.push(word.slice(0, columns));
+      word = word.slice(columns);
+    }
+    if (!word) continue;
+    if (line && line.length + 1 + word.length > columns) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  lines.push(line);
+  return lines;
+}
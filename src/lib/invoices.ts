@@ -0,0 +1,124 @@
+import { db } from "./database";
+import type { Invoice, InvoiceLine } from "./types";
+
+// --- Invoices ---
+// Sales are recorded as invoices by `recordInvoice` in sales.ts; this module
+// reads them back. An invoice's lines are its sale transactions, and its
+// totals are summed from whichever of them have not been deleted.
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+// Totals per invoice from its live lines and their payment allocations
+const INVOICE_SELECT = `
+  SELECT
+    i.id,
+    i.number,
+    i.partner_id,
+    i.snapshot_partner_name AS party,
+    i.snapshot_partner_phone AS party_phone,
+    i.snapshot_partner_shop AS party_shop,
+    i.date,
+    i.discount_reason,
+    i.approved_by,
+    u.name AS approved_by_name,
+    i.created_by,
+    i.created_at,
+    COUNT(t.id) AS line_count,
+    COALESCE(SUM(t.quantity), 0) AS quantity,
+    COALESCE(SUM(COALESCE(t.list_price, t.price) * t.quantity), 0) AS list_total,
+    COALESCE(SUM(t.discount_amount), 0) AS discount_amount,
+    COALESCE(SUM(t.net_amount), 0) AS net_amount,
+    COALESCE(SUM(t.tax_amount), 0) AS tax_amount,
+    COALESCE(SUM(t.total_amount), 0) AS total_amount,
+    COALESCE(SUM((SELECT SUM(a.amount) FROM payment_allocations a
+                  WHERE a.transaction_id = t.id)), 0) AS paid
+  FROM invoices i
+  JOIN transactions t ON t.invoice_id = i.id AND t.deleted_at IS NULL
+  LEFT JOIN users u ON u.id = i.approved_by
+`;
+
+type InvoiceRow = Omit<Invoice, "outstanding" | "lines">;
+
+function withOutstanding(row: InvoiceRow): Invoice {
+  return {
+    ...row,
+    list_total: round(row.list_total),
+    discount_amount: round(row.discount_amount),
+    net_amount: round(row.net_amount),
+    tax_amount: round(row.tax_amount),
+    total_amount: round(row.total_amount),
+    paid: round(row.paid),
+    outstanding: round(Math.max(0, row.total_amount - row.paid)),
+  };
+}
+
+/**
+ * Lists invoices, newest first. Invoices whose lines have all been deleted
+ * are left out.
+ */
+export function listInvoices(filters: {
+  partnerId?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}): Invoice[] {
+  let whereClause = "WHERE 1 = 1";
+  const params: unknown[] = [];
+
+  if (filters.partnerId) {
+    whereClause += " AND i.partner_id = ?";
+    params.push(filters.partnerId);
+  }
+  if (filters.from) {
+    whereClause += " AND date(i.date) >= date(?)";
+    params.push(filters.from);
+  }
+  if (filters.to) {
+    whereClause += " AND date(i.date) <= date(?)";
+    params.push(filters.to);
+  }
+
+  const rows = db
+    .prepare(
+      `${INVOICE_SELECT} ${whereClause} GROUP BY i.id
+       ORDER BY i.date DESC, i.created_at DESC LIMIT ? OFFSET ?`
+    )
+    .all(...params, filters.limit ?? -1, filters.offset ?? 0) as InvoiceRow[];
+  return rows.map(withOutstanding);
+}
+
+/**
+ * Loads a single invoice with its lines, or null when it does not exist or
+ * has no lines left.
+ */
+export function getInvoice(invoiceId: string): Invoice | null {
+  const row = db
+    .prepare(`${INVOICE_SELECT} WHERE i.id = ? GROUP BY i.id`)
+    .get(invoiceId) as InvoiceRow | undefined;
+  if (!row) return null;
+
+  const lines = db
+    .prepare(
+      `SELECT
+         t.id,
+         t.product_id,
+         COALESCE(t.snapshot_product_name, p.name, 'Deleted product') AS product_name,
+         NULLIF(t.imei, '') AS imei,
+         t.quantity,
+         t.list_price,
+         t.price,
+         t.discount_amount,
+         t.discount_reason,
+         t.total_amount,
+         t.net_amount,
+         t.tax_amount
+       FROM transactions t
+       LEFT JOIN products p ON p.id = t.product_id
+       WHERE t.invoice_id = ? AND t.deleted_at IS NULL
+       ORDER BY t.rowid`
+    )
+    .all(invoiceId) as InvoiceLine[];
+
+  return { ...withOutstanding(row), lines };
+}
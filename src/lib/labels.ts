@@ -0,0 +1,544 @@
+import { PDFDocument, StandardFonts, rgb, type PDFPage } from "pdf-lib";
+import { db } from "./database";
+import {
+  encodeCode128,
+  encodeEan13,
+  encodeQr,
+  toEan13,
+  type Symbology,
+} from "./barcodes";
+import { EscPosWriter, toAscii, type PaperWidth } from "./escpos";
+import type { Product } from "./types";
+
+// --- Labels ---
+// Shelf and box labels for products and IMEI-tracked units. A label is laid
+// out once, in millimetres, as text, bars and QR modules, and that layout is
+// then drawn as PDF or SVG: on an A4 sheet of 3 x 8 labels, or one 50 x 30 mm
+// label per page for label printers. Thermal receipt printers get ESC/POS
+// instead, using the printer's own barcode and QR commands.
+
+export class LabelError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "PRODUCT_NOT_FOUND" | "TOO_MANY_LABELS"
+  ) {
+    super(message);
+    this.name = "LabelError";
+  }
+}
+
+/**
+ * - price: name, price and barcode, for shelves and accessories
+ * - barcode: a large barcode with the name, for boxed units
+ * - qr: a QR code linking to the product, with name and price
+ * - full: name, price, barcode and QR code
+ */
+export type LabelTemplate = "price" | "barcode" | "qr" | "full";
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  "price",
+  "barcode",
+  "qr",
+  "full",
+];
+
+export type LabelOutput = "sheet-pdf" | "sheet-svg" | "thermal-pdf" | "escpos";
+
+export const LABEL_OUTPUTS: LabelOutput[] = [
+  "sheet-pdf",
+  "sheet-svg",
+  "thermal-pdf",
+  "escpos",
+];
+
+// Enough for a large delivery; keeps a stray request from building a huge file
+export const MAX_LABELS = 1000;
+
+export type LabelRequest = { productId: string; copies: number };
+
+type LabelData = {
+  name: string;
+  price: string;
+  code: string | null; // The IMEI or serial/SKU, when the product has one
+  url: string;
+};
+
+const formatPrice = (amount: number) =>
+  `${amount.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })} QAR`;
+
+/**
+ * Loads the products to label, one entry per copy, in the order requested.
+ * `baseUrl` is the address QR codes link back to.
+ */
+function loadLabels(items: LabelRequest[], baseUrl: string): LabelData[] {
+  const total = items.reduce((sum, item) => sum + item.copies, 0);
+  if (total > MAX_LABELS) {
+    throw new LabelError(
+      `At most ${MAX_LABELS} labels can be printed at once.`,
+      "TOO_MANY_LABELS"
+    );
+  }
+
+  const select = db.prepare(
+    "SELECT id, name, sell_price, imei FROM products WHERE id = ?"
+  );
+  const labels: LabelData[] = [];
+  for (const item of items) {
+    const product = select.get(item.productId) as
+      Pick<Product, "id" | "name" | "sell_price" | "imei"> | undefined;
+    if (!product) {
+      throw new LabelError(
+        `Product ${item.productId} not found.`,
+        "PRODUCT_NOT_FOUND"
+      );
+    }
+    const code = product.imei?.trim() || null;
+    const label: LabelData = {
+      name: product.name,
+      price: formatPrice(product.sell_price),
+      code,
+      url: `${baseUrl}/inventory?q=${encodeURIComponent(code ?? product.name)}`,
+    };
+    for (let copy = 0; copy < item.copies; copy++) labels.push(label);
+  }
+  return labels;
+}
+
+// --- Layout ---
+
+type LabelElement =
+  | {
+      kind: "text";
+      x: number; // Left edge of the text box
+      y: number; // Baseline
+      width: number;
+      size: number; // Points
+      text: string;
+      bold?: boolean;
+      align?: "left" | "center";
+    }
+  | {
+      kind: "bars";
+      x: number;
+      y: number;
+      height: number;
+      module: number;
+      modules: string;
+    }
+  | { kind: "qr"; x: number; y: number; module: number; modules: boolean[][] };
+
+type LabelSize = { width: number; height: number }; // Millimetres
+
+const SHEET_LABEL: LabelSize = { width: 70, height: 37 };
+const SHEET = { width: 210, height: 297, columns: 3, rows: 8 };
+const THERMAL_LABEL: LabelSize = { width: 50, height: 30 };
+
+const PADDING = 2;
+const POINT = 25.4 / 72; // Millimetres per point
+
+/**
+ * Shortens text with "..." to roughly fit `width` at `size`. Helvetica
+ * averages a little over half an em per character; 0.6 leaves room for
+ * wide letters.
+ */
+function fitText(text: string, width: number, size: number): string {
+  const clean = toAscii(text);
+  const fits = Math.max(1, Math.floor(width / (size * POINT * 0.6)));
+  return clean.length <= fits ? clean : `${clean.slice(0, fits - 3)}...`;
+}
+
+/**
+ * A label's barcode, as EAN-13 when asked for and the code allows it, and
+ * Code 128 otherwise.
+ */
+function barcodeModules(code: string, symbology: Symbology): string {
+  return symbology === "ean13" && toEan13(code)
+    ? encodeEan13(code)
+    : encodeCode128(toAscii(code));
+}
+
+/**
+ * A barcode centred in a box, its bars no wider than 0.4 mm, with the code
+ * printed underneath.
+ */
+function barcodeElements(
+  code: string,
+  symbology: Symbology,
+  box: { x: number; y: number; width: number; height: number }
+): LabelElement[] {
+  const modules = barcodeModules(code, symbology);
+  // Ten modules of clear space either side, so scanners find the ends
+  const module = Math.min(0.4, box.width / (modules.length + 20));
+  const textSize = 6;
+  return [
+    {
+      kind: "bars",
+      x: box.x + (box.width - modules.length * module) / 2,
+      y: box.y,
+      height: box.height - textSize * POINT - 0.5,
+      module,
+      modules,
+    },
+    {
+      kind: "text",
+      x: box.x,
+      y: box.y + box.height,
+      width: box.width,
+      size: textSize,
+      text: fitText(code, box.width, textSize),
+      align: "center",
+    },
+  ];
+}
+
+/**
+ * Places one label's contents for a template, relative to its top-left
+ * corner.
+ */
+function layoutLabel(
+  label: LabelData,
+  template: LabelTemplate,
+  symbology: Symbology,
+  size: LabelSize
+): LabelElement[] {
+  const inner = size.width - PADDING * 2;
+  const bottom = size.height - PADDING;
+  const elements: LabelElement[] = [];
+  const text = (
+    value: string,
+    y: number,
+    textSize: number,
+    options: { width?: number; bold?: boolean; center?: boolean } = {}
+  ) =>
+    elements.push({
+      kind: "text",
+      x: PADDING,
+      y,
+      width: options.width ?? inner,
+      size: textSize,
+      text: fitText(value, options.width ?? inner, textSize),
+      bold: options.bold,
+      align: options.center ? "center" : "left",
+    });
+
+  if (template === "qr" || template === "full") {
+    // QR code on the right, filling the label's height
+    const side = Math.min(size.height - PADDING * 2, inner * 0.45);
+    const modules = encodeQr(label.url);
+    const module = side / modules.length;
+    const qrX = size.width - PADDING - side;
+    elements.push({ kind: "qr", x: qrX, y: PADDING, module, modules });
+
+    const width = qrX - PADDING * 2;
+    text(label.name, PADDING + 3, 8, { width, bold: true });
+    text(label.price, PADDING + 9, 11, { width, bold: true });
+    if (template === "full" && label.code) {
+      elements.push(
+        ...barcodeElements(label.code, symbology, {
+          x: PADDING,
+          y: PADDING + 12,
+          width,
+          height: bottom - PADDING - 12,
+        })
+      );
+    } else if (label.code) {
+      text(label.code, bottom, 6, { width });
+    }
+    return elements;
+  }
+
+  if (template === "barcode") {
+    text(label.name, PADDING + 2.5, 7, { center: true });
+    if (label.code) {
+      elements.push(
+        ...barcodeElements(label.code, symbology, {
+          x: PADDING,
+          y: PADDING + 4,
+          width: inner,
+          height: bottom - PADDING - 4,
+        })
+      );
+    }
+    return elements;
+  }
+
+  // Price label
+  text(label.name, PADDING + 3, 8, { bold: true, center: true });
+  if (label.code) {
+    text(label.price, PADDING + 9, 13, { bold: true, center: true });
+    elements.push(
+      ...barcodeElements(label.code, symbology, {
+        x: PADDING,
+        y: PADDING + 11,
+        width: inner,
+        height: bottom - PADDING - 11,
+      })
+    );
+  } else {
+    text(label.price, size.height / 2 + 4, 16, { bold: true, center: true });
+  }
+  return elements;
+}
+
+/**
+ * Splits a row of modules into runs of bars: [start, length] in modules.
+ */
+function barRuns(modules: string): [number, number][] {
+  const runs: [number, number][] = [];
+  for (const match of modules.matchAll(/1+/g)) {
+    runs.push([match.index ?? 0, match[0].length]);
+  }
+  return runs;
+}
+
+/**
+ * Positions every label: its page and top-left corner in millimetres.
+ */
+function placeLabels(
+  count: number,
+  sheet: boolean
+): { page: number; x: number; y: number }[] {
+  if (!sheet) {
+    return Array.from({ length: count }, (_, index) => ({
+      page: index,
+      x: 0,
+      y: 0,
+    }));
+  }
+  const perPage = SHEET.columns * SHEET.rows;
+  const marginX = (SHEET.width - SHEET.columns * SHEET_LABEL.width) / 2;
+  const marginY = (SHEET.height - SHEET.rows * SHEET_LABEL.height) / 2;
+  return Array.from({ length: count }, (_, index) => {
+    const slot = index % perPage;
+    return {
+      page: Math.floor(index / perPage),
+      x: marginX + (slot % SHEET.columns) * SHEET_LABEL.width,
+      y: marginY + Math.floor(slot / SHEET.columns) * SHEET_LABEL.height,
+    };
+  });
+}
+
+// --- Output ---
+
+async function renderPdf(
+  labels: LabelData[],
+  template: LabelTemplate,
+  symbology: Symbology,
+  sheet: boolean
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.setTitle("Labels");
+  doc.setCreator("DeskVault");
+  doc.setCreationDate(new Date(0));
+  doc.setModificationDate(new Date(0));
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  const labelSize = sheet ? SHEET_LABEL : THERMAL_LABEL;
+  const pageSize = sheet ? SHEET : THERMAL_LABEL;
+  const pt = (mm: number) => mm / POINT;
+  const pages: PDFPage[] = [];
+  const black = rgb(0, 0, 0);
+
+  placeLabels(labels.length, sheet).forEach((place, index) => {
+    pages[place.page] ??= doc.addPage([
+      pt(pageSize.width),
+      pt(pageSize.height),
+    ]);
+    const page = pages[place.page];
+    // Millimetres from the label's top-left corner to PDF points
+    const x = (mm: number) => pt(place.x + mm);
+    const y = (mm: number) => pt(pageSize.height - place.y - mm);
+
+    for (const element of layoutLabel(
+      labels[index],
+      template,
+      symbology,
+      labelSize
+    )) {
+      if (element.kind === "text") {
+        const face = element.bold ? bold : font;
+        const width = face.widthOfTextAtSize(element.text, element.size);
+        page.drawText(element.text, {
+          x:
+            element.align === "center"
+              ? x(element.x) + (pt(element.width) - width) / 2
+              : x(element.x),
+          y: y(element.y),
+          size: element.size,
+          font: face,
+          color: black,
+        });
+      } else if (element.kind === "bars") {
+        for (const [start, length] of barRuns(element.modules)) {
+          page.drawRectangle({
+            x: x(element.x + start * element.module),
+            y: y(element.y + element.height),
+            width: pt(length * element.module),
+            height: pt(element.height),
+            color: black,
+          });
+        }
+      } else {
+        element.modules.forEach((row, rowIndex) => {
+          const line = row.map((dark) => (dark ? "1" : "0")).join("");
+          for (const [start, length] of barRuns(line)) {
+            page.drawRectangle({
+              x: x(element.x + start * element.module),
+              y: y(element.y + (rowIndex + 1) * element.module),
+              width: pt(length * element.module),
+              height: pt(element.module),
+              color: black,
+            });
+          }
+        });
+      }
+    }
+  });
+
+  return doc.save();
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/[<>&"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Draws A4 sheets as one SVG, the pages stacked top to bottom, sized in
+ * millimetres so it prints at the right scale.
+ */
+function renderSvg(
+  labels: LabelData[],
+  template: LabelTemplate,
+  symbology: Symbology
+): string {
+  const places = placeLabels(labels.length, true);
+  const pageCount = Math.max(1, (places.at(-1)?.page ?? 0) + 1);
+  const height = SHEET.height * pageCount;
+  const parts: string[] = [];
+  const n = (value: number) => Number(value.toFixed(3));
+
+  places.forEach((place, index) => {
+    const top = place.page * SHEET.height + place.y;
+    for (const element of layoutLabel(
+      labels[index],
+      template,
+      symbology,
+      SHEET_LABEL
+    )) {
+      if (element.kind === "text") {
+        const center = element.align === "center";
+        parts.push(
+          `<text x="${n(place.x + element.x + (center ? element.width / 2 : 0))}" y="${n(top + element.y)}" font-size="${n(element.size * POINT)}"${element.bold ? ' font-weight="bold"' : ""}${center ? ' text-anchor="middle"' : ""}>${escapeXml(element.text)}</text>`
+        );
+      } else if (element.kind === "bars") {
+        for (const [start, length] of barRuns(element.modules)) {
+          parts.push(
+            `<rect x="${n(place.x + element.x + start * element.module)}" y="${n(top + element.y)}" width="${n(length * element.module)}" height="${n(element.height)}"/>`
+          );
+        }
+      } else {
+        element.modules.forEach((row, rowIndex) => {
+          const line = row.map((dark) => (dark ? "1" : "0")).join("");
+          for (const [start, length] of barRuns(line)) {
+            parts.push(
+              `<rect x="${n(place.x + element.x + start * element.module)}" y="${n(top + element.y + rowIndex * element.module)}" width="${n(length * element.module)}" height="${n(element.module)}"/>`
+            );
+          }
+        });
+      }
+    }
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SHEET.width}mm" height="${height}mm" viewBox="0 0 ${SHEET.width} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${SHEET.width}" height="${height}" fill="#fff"/>`,
+    `<g fill="#000">`,
+    ...parts,
+    `</g>`,
+    `</svg>`,
+  ].join("\n");
+}
+
+/**
+ * One label after another on a receipt printer, each followed by a cut.
+ */
+function renderEscPos(
+  labels: LabelData[],
+  template: LabelTemplate,
+  symbology: Symbology,
+  paper: PaperWidth
+): Uint8Array {
+  const printer = new EscPosWriter(paper);
+  for (const label of labels) {
+    printer.text(label.name, { align: "center", bold: true });
+    printer.text(label.price, { align: "center", bold: true, large: true });
+    if (label.code && template !== "qr") {
+      const ean13 = symbology === "ean13" ? toEan13(label.code) : null;
+      if (ean13) {
+        printer.barcode(ean13, "ean13");
+      } else {
+        printer.barcode(label.code);
+      }
+    }
+    if (template === "qr" || template === "full") printer.qr(label.url);
+    if (template === "qr" && label.code) {
+      printer.text(label.code, { align: "center" });
+    }
+    printer.feed(2);
+    printer.cut();
+  }
+  return printer.bytes();
+}
+
+/**
+ * Renders labels for the given products, `copies` of each, in one of the
+ * label outputs. EAN-13 is used only for codes that are valid EAN-13s;
+ * other codes fall back to Code 128. Products without an IMEI or serial get
+ * no barcode.
+ */
+export async function renderLabels(
+  items: LabelRequest[],
+  options: {
+    template: LabelTemplate;
+    symbology: Symbology;
+    output: LabelOutput;
+    paper?: PaperWidth;
+    baseUrl: string;
+  }
+): Promise<{
+  body: Uint8Array | string;
+  contentType: string;
+  filename: string;
+}> {
+  const labels = loadLabels(items, options.baseUrl);
+  const { template, symbology } = options;
+
+  switch (options.output) {
+    case "sheet-svg":
+      return {
+        body: renderSvg(labels, template, symbology),
+        contentType: "image/svg+xml",
+        filename: "labels.svg",
+      };
+    case "escpos":
+      return {
+        body: renderEscPos(labels, template, symbology, options.paper ?? 80),
+        contentType: "application/octet-stream",
+        filename: "labels.bin",
+      };
+    default:
+      return {
+        body: await renderPdf(
+          labels,
+          template,
+          symbology,
+          options.output === "sheet-pdf"
+        ),
+        contentType: "application/pdf",
+        filename: "labels.pdf",
+      };
+  }
+}
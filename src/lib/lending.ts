@@ -0,0 +1,336 @@
+import { randomUUID } from "crypto";
+import { db } from "./database";
+import { recordAudit, snapshot } from "./audit";
+import { adjustStock, insertInvoice, insertTransaction } from "./sales";
+import { insertPayment } from "./accounts";
+import { checkPricing, priceLines } from "./pricing";
+import type { EnrichedLoan, Loan, SessionUser } from "./types";
+
+// --- Lending ---
+// Lent stock leaves `products.stock` (it is not available to sell) but is
+// not sold: it stays on the loan until it is returned or converted to a sale.
+
+/**
+ * Raised when a loan operation cannot be honoured. `code` is a stable
+ * identifier the API routes pass on to the client.
+ */
+export class LoanError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "LOAN_NOT_FOUND"
+      | "LOAN_CLOSED"
+      | "PARTNER_NOT_FOUND"
+      | "QUANTITY_EXCEEDS_OUTSTANDING"
+  ) {
+    super(message);
+    this.name = "LoanError";
+  }
+}
+
+export type LendInput = {
+  productId: string;
+  partnerId: string;
+  quantity: number;
+  unitPrice?: number; // Value agreed per unit; defaults to the list price
+  date: string;
+  dueDate: string; // YYYY-MM-DD
+  notes?: string | null;
+};
+
+export type LoanSettlementInput = {
+  quantity: number;
+  date: string;
+  // For conversions to a sale
+  price?: number; // Unit sale price; defaults to the value agreed for the loan
+  amountPaid?: number; // Paid on the spot; the rest is owed
+  discountReason?: string | null;
+  approver?: SessionUser | null; // Manager who approved the pricing
+};
+
+type PartnerRow = {
+  id: string;
+  name: string;
+  phone: string;
+  shop_name: string | null;
+};
+
+function getPartner(partnerId: string): PartnerRow {
+  const partner = db
+    .prepare(
+      "SELECT id, name, phone, shop_name FROM partners WHERE id = ? AND deleted_at IS NULL"
+    )
+    .get(partnerId) as PartnerRow | undefined;
+  if (!partner) {
+    throw new LoanError("Partner not found.", "PARTNER_NOT_FOUND");
+  }
+  return partner;
+}
+
+/**
+ * Loads an open loan and checks that `quantity` units are still out on it.
+ */
+function getOpenLoan(loanId: string, quantity: number): Loan {
+  const loan = db.prepare("SELECT * FROM loans WHERE id = ?").get(loanId) as
+    Loan | undefined;
+  if (!loan) {
+    throw new LoanError("Loan not found.", "LOAN_NOT_FOUND");
+  }
+  if (loan.status === "closed") {
+    throw new LoanError("This loan is already settled.", "LOAN_CLOSED");
+  }
+  const outstanding =
+    loan.quantity - loan.returned_quantity - loan.sold_quantity;
+  if (quantity > outstanding) {
+    throw new LoanError(
+      `Only ${outstanding} units are still out on this loan.`,
+      "QUANTITY_EXCEEDS_OUTSTANDING"
+    );
+  }
+  return loan;
+}
+
+/**
+ * Adds settled units to a loan, closing it once nothing is outstanding.
+ */
+function settleLoan(
+  actor: SessionUser,
+  loan: Loan,
+  column: "returned_quantity" | "sold_quantity",
+  quantity: number
+) {
+  const before = snapshot("loan", loan.id);
+  db.prepare(
+    `UPDATE loans
+     SET ${column} = ${column} + ?,
+         status = CASE WHEN returned_quantity + sold_quantity + ? >= quantity THEN 'closed' ELSE 'open' END,
+         updated_at = CURRENT_TIMESTAMP
+     WHERE id = ?`
+  ).run(quantity, quantity, loan.id);
+  recordAudit(actor, {
+    entity: "loan",
+    entityId: loan.id,
+    action: "update",
+    before,
+    after: snapshot("loan", loan.id),
+  });
+}
+
+const lendOutTx = db.transaction((actor: SessionUser, input: LendInput) => {
+  const partner = getPartner(input.partnerId);
+  const { stock, imei } = adjustStock(actor, input.productId, -input.quantity);
+  const unitPrice =
+    input.unitPrice ??
+    (db
+      .prepare("SELECT sell_price FROM products WHERE id = ?")
+      .pluck()
+      .get(input.productId) as number);
+
+  const loanId = randomUUID();
+  db.prepare(
+    `INSERT INTO loans (id, product_id, partner_id, quantity, unit_price, lent_at, due_date, notes)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    loanId,
+    input.productId,
+    partner.id,
+    input.quantity,
+    unitPrice,
+    input.date,
+    input.dueDate,
+    input.notes || null
+  );
+  recordAudit(actor, {
+    entity: "loan",
+    entityId: loanId,
+    action: "create",
+    after: snapshot("loan", loanId),
+  });
+
+  insertTransaction(actor, {
+    productId: input.productId,
+    type: "lend-out",
+    quantity: input.quantity,
+    price: unitPrice,
+    imei,
+    date: input.date,
+    partnerId: partner.id,
+    party: partner.name,
+    partyPhone: partner.phone,
+    partyShop: partner.shop_name,
+    loanId,
+  });
+
+  return { id: loanId, stock };
+});
+
+const returnLoanTx = db.transaction(
+  (actor: SessionUser, loanId: string, input: LoanSettlementInput) => {
+    const loan = getOpenLoan(loanId, input.quantity);
+    const partner = getPartner(loan.partner_id);
+
+    const { stock, imei } = adjustStock(actor, loan.product_id, input.quantity);
+    insertTransaction(actor, {
+      productId: loan.product_id,
+      type: "return",
+      quantity: input.quantity,
+      price: loan.unit_price,
+      imei,
+      date: input.date,
+      partnerId: partner.id,
+      party: partner.name,
+      partyPhone: partner.phone,
+      partyShop: partner.shop_name,
+      loanId,
+    });
+    settleLoan(actor, loan, "returned_quantity", input.quantity);
+
+    return { id: loanId, stock };
+  }
+);
+
+const convertLoanTx = db.transaction(
+  (actor: SessionUser, loanId: string, input: LoanSettlementInput) => {
+    const loan = getOpenLoan(loanId, input.quantity);
+    const partner = getPartner(loan.partner_id);
+    const product = db
+      .prepare("SELECT imei FROM products WHERE id = ?")
+      .get(loan.product_id) as { imei: string | null };
+
+    // Stock already left the shelf when the units were lent out. Unless a
+    // price is given the value agreed for the loan is charged; either way it
+    // is checked against the product's list price like any other sale.
+    const [line] = priceLines([
+      {
+        productId: loan.product_id,
+        quantity: input.quantity,
+        price: input.price ?? loan.unit_price,
+      },
+    ]);
+    const approvedBy = checkPricing(
+      actor,
+      input.approver ?? null,
+      [line],
+      input.discountReason
+    );
+    const reason = line.overridden ? input.discountReason : null;
+
+    const invoiceId = insertInvoice(actor, {
+      date: input.date,
+      partnerId: partner.id,
+      party: partner.name,
+      partyPhone: partner.phone,
+      partyShop: partner.shop_name,
+      discountReason: reason,
+      approvedBy,
+    });
+    const { id: saleId } = insertTransaction(actor, {
+      productId: loan.product_id,
+      type: "sale",
+      quantity: input.quantity,
+      price: line.unitPrice,
+      imei: product.imei,
+      date: input.date,
+      partnerId: partner.id,
+      party: partner.name,
+      partyPhone: partner.phone,
+      partyShop: partner.shop_name,
+      loanId,
+      invoiceId,
+      listPrice: line.listPrice,
+      discountAmount: line.discountAmount,
+      discountReason: reason,
+      approvedBy,
+    });
+    settleLoan(actor, loan, "sold_quantity", input.quantity);
+
+    if (input.amountPaid) {
+      insertPayment(actor, {
+        partnerId: partner.id,
+        direction: "in",
+        amount: input.amountPaid,
+        date: input.date,
+        allocations: [{ transactionId: saleId, amount: input.amountPaid }],
+      });
+    }
+
+    return { id: loanId, saleId, invoiceId };
+  }
+);
+
+/**
+ * Lends `quantity` units of a product to a partner, taking them out of
+ * available stock.
+ */
+export function lendOut(actor: SessionUser, input: LendInput) {
+  return lendOutTx.immediate(actor, input);
+}
+
+/**
+ * Records units coming back from a partner and puts them back in stock.
+ */
+export function returnLoan(
+  actor: SessionUser,
+  loanId: string,
+  input: LoanSettlementInput
+) {
+  return returnLoanTx.immediate(actor, loanId, input);
+}
+
+/**
+ * Turns units the partner has kept into a sale to that partner. Unless they
+ * pay on the spot, the sale is owed on their account. The price is held to
+ * the same discount limits and approvals as a sale at the till.
+ */
+export function convertLoanToSale(
+  actor: SessionUser,
+  loanId: string,
+  input: LoanSettlementInput
+) {
+  return convertLoanTx.immediate(actor, loanId, input);
+}
+
+/**
+ * Lists loans, most overdue first. `today` (YYYY-MM-DD) decides what counts
+ * as overdue and defaults to the server's current date.
+ */
+export function listLoans(filters: {
+  status?: "open" | "closed";
+  partnerId?: string;
+  today?: string;
+}): EnrichedLoan[] {
+  const today = filters.today ?? new Date().toISOString().slice(0, 10);
+  let whereClause = "WHERE 1 = 1";
+  const params: unknown[] = [];
+
+  if (filters.status) {
+    whereClause += " AND l.status = ?";
+    params.push(filters.status);
+  }
+  if (filters.partnerId) {
+    whereClause += " AND l.partner_id = ?";
+    params.push(filters.partnerId);
+  }
+
+  return db
+    .prepare(
+      `SELECT
+         l.*,
+         p.name AS product_name,
+         p.imei AS product_imei,
+         p.sell_price AS list_price,
+         pa.name AS partner_name,
+         pa.phone AS partner_phone,
+         pa.shop_name AS partner_shop,
+         l.quantity - l.returned_quantity - l.sold_quantity AS outstanding,
+         CASE WHEN l.status = 'open' AND date(l.due_date) < date(?)
+           THEN CAST(julianday(?) - julianday(l.due_date) AS INTEGER)
+           ELSE 0 END AS days_overdue
+       FROM loans l
+       JOIN products p ON p.id = l.product_id
+       JOIN partners pa ON pa.id = l.partner_id
+       ${whereClause}
+       ORDER BY l.status ASC, days_overdue DESC, l.due_date ASC`
+    )
+    .all(today, today, ...params) as EnrichedLoan[];
+}
@@ -0,0 +1,59 @@
+import type { Migration } from "./types";
+
+/**
+ * Allows 'lend-out' and 'return' rows in `transactions`, matching the
+ * `Transaction` type. SQLite cannot alter a CHECK constraint in place, so the
+ * table is rebuilt and the existing rows are copied across.
+ */
+const migration: Migration = {
+  id: 2,
+  name: "transaction_lending_types",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE transactions_new (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        type TEXT NOT NULL CHECK(type IN ('purchase', 'sale', 'lend-out', 'return')),
+        quantity INTEGER NOT NULL,
+        price REAL NOT NULL,
+        imei TEXT NOT NULL,
+        total_amount REAL NOT NULL,
+        date DATETIME NOT NULL,
+        partner_id TEXT,
+        snapshot_partner_name TEXT,
+        snapshot_partner_phone TEXT,
+        snapshot_partner_shop TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        deleted_at DATETIME,
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (partner_id) REFERENCES partners(id) ON DELETE SET NULL
+      );
+      `
+    ).run();
+
+    db.prepare(
+      `
+      INSERT INTO transactions_new (
+        id, product_id, type, quantity, price, imei, total_amount, date, partner_id,
+        snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop,
+        created_at, updated_at, deleted_at
+      )
+      SELECT
+        id, product_id, type, quantity, price, imei, total_amount, date, partner_id,
+        snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop,
+        created_at, updated_at, deleted_at
+      FROM transactions;
+      `
+    ).run();
+
+    db.prepare(`DROP TABLE transactions;`).run();
+    db.prepare(`ALTER TABLE transactions_new RENAME TO transactions;`).run();
+    db.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_transactions_date ON transactions(date);`
+    ).run();
+  },
+};
+
+export default migration;
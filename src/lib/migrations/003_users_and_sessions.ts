@@ -0,0 +1,45 @@
+import type { Migration } from "./types";
+
+/**
+ * Staff accounts and their server-side login sessions. Sessions are keyed by
+ * a SHA-256 hash of the cookie token, so a leaked database does not expose
+ * usable session cookies.
+ */
+const migration: Migration = {
+  id: 3,
+  name: "users_and_sessions",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        name TEXT NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        deleted_at DATETIME
+      );
+      `
+    ).run();
+
+    db.prepare(
+      `
+      CREATE TABLE sessions (
+        id TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL,
+        expires_at DATETIME NOT NULL,
+        revoked_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+      );
+      `
+    ).run();
+
+    db.prepare(
+      `CREATE INDEX IF NOT EXISTS idx_sessions_user ON sessions(user_id);`
+    ).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,19 @@
+import type { Migration } from "./types";
+
+/**
+ * Adds a role to every user. Accounts created before roles existed had full
+ * access, so they become owners; new accounts default to cashier.
+ */
+const migration: Migration = {
+  id: 4,
+  name: "user_roles",
+  up(db) {
+    db.prepare(
+      `ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'cashier'
+       CHECK(role IN ('owner', 'manager', 'cashier'));`
+    ).run();
+    db.prepare(`UPDATE users SET role = 'owner';`).run();
+  },
+};
+
+export default migration;
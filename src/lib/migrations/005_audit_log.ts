@@ -0,0 +1,53 @@
+import type { Migration } from "./types";
+
+/**
+ * Append-only record of every create, update and delete. Triggers reject
+ * UPDATE and DELETE so history cannot be rewritten through the application.
+ */
+const migration: Migration = {
+  id: 5,
+  name: "audit_log",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        actor_id TEXT,
+        actor_name TEXT NOT NULL,
+        entity TEXT NOT NULL,
+        entity_id TEXT NOT NULL,
+        action TEXT NOT NULL CHECK(action IN ('create', 'update', 'delete')),
+        before_json TEXT,
+        after_json TEXT,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      `
+    ).run();
+
+    db.prepare(
+      `CREATE INDEX idx_audit_entity ON audit_log(entity, entity_id);`
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_audit_created ON audit_log(created_at);`
+    ).run();
+
+    db.prepare(
+      `
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      `
+    ).run();
+    db.prepare(
+      `
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+      `
+    ).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+import type { Migration } from "./types";
+
+/**
+ * Shop-wide settings as key/value pairs. Values are JSON so each setting
+ * keeps its type; defaults live in code (`src/lib/settings.ts`), so only
+ * settings the owner has changed are stored.
+ */
+const migration: Migration = {
+  id: 6,
+  name: "settings",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+      );
+      `
+    ).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,46 @@
+import type { Migration } from "./types";
+
+/**
+ * Tracks stock lent to partners. A loan is settled by returns, by converting
+ * units into a sale, or both; whatever is neither returned nor sold is still
+ * out on loan. Transactions created by the lending flow point back at their
+ * loan through `transactions.loan_id`.
+ */
+const migration: Migration = {
+  id: 7,
+  name: "loans",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE loans (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        partner_id TEXT NOT NULL,
+        quantity INTEGER NOT NULL CHECK(quantity > 0),
+        returned_quantity INTEGER NOT NULL DEFAULT 0,
+        sold_quantity INTEGER NOT NULL DEFAULT 0,
+        unit_price REAL NOT NULL DEFAULT 0,
+        lent_at DATETIME NOT NULL,
+        due_date DATE NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK(returned_quantity + sold_quantity <= quantity),
+        FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE CASCADE,
+        FOREIGN KEY (partner_id) REFERENCES partners(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_loans_status ON loans(status, due_date);`
+    ).run();
+    db.prepare(`CREATE INDEX idx_loans_partner ON loans(partner_id);`).run();
+
+    db.prepare(
+      `ALTER TABLE transactions ADD COLUMN loan_id TEXT REFERENCES loans(id) ON DELETE SET NULL;`
+    ).run();
+  },
+};
+
+export default migration;
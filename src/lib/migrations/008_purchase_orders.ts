@@ -0,0 +1,62 @@
+import type { Migration } from "./types";
+
+/**
+ * Adds purchase orders to vendors. An order moves from draft to sent, then to
+ * partially received and received as goods arrive; closing it cancels any
+ * backorder. Each receipt writes ordinary purchase transactions, which point
+ * back at their order through `transactions.purchase_order_id`.
+ */
+const migration: Migration = {
+  id: 8,
+  name: "purchase_orders",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE purchase_orders (
+        id TEXT PRIMARY KEY,
+        partner_id TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'draft'
+          CHECK(status IN ('draft', 'sent', 'partially_received', 'received', 'closed')),
+        expected_date DATE,
+        notes TEXT,
+        sent_at DATETIME,
+        closed_at DATETIME,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (partner_id) REFERENCES partners(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `
+      CREATE TABLE purchase_order_lines (
+        id TEXT PRIMARY KEY,
+        purchase_order_id TEXT NOT NULL,
+        product_id TEXT NOT NULL,
+        quantity INTEGER NOT NULL CHECK(quantity > 0),
+        received_quantity INTEGER NOT NULL DEFAULT 0,
+        unit_cost REAL NOT NULL DEFAULT 0,
+        CHECK(received_quantity <= quantity),
+        FOREIGN KEY (purchase_order_id) REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        FOREIGN KEY (product_id) REFERENCES products(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_purchase_orders_status ON purchase_orders(status);`
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_purchase_orders_partner ON purchase_orders(partner_id);`
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_purchase_order_lines_order ON purchase_order_lines(purchase_order_id);`
+    ).run();
+
+    db.prepare(
+      `ALTER TABLE transactions ADD COLUMN purchase_order_id TEXT REFERENCES purchase_orders(id) ON DELETE SET NULL;`
+    ).run();
+  },
+};
+
+export default migration;
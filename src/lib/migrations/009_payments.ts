@@ -0,0 +1,81 @@
+import type { Migration } from "./types";
+
+/**
+ * Money received from or paid to partners. A payment can be allocated to
+ * specific sales (money in) or purchases (money out); whatever is not
+ * allocated stays on the partner's account as credit.
+ *
+ * Until now every sale and purchase was assumed to be settled on the spot, so
+ * existing ones are backfilled with a matching payment. Balances therefore
+ * start at zero rather than showing years of history as unpaid.
+ */
+const migration: Migration = {
+  id: 9,
+  name: "payments",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE payments (
+        id TEXT PRIMARY KEY,
+        partner_id TEXT,
+        direction TEXT NOT NULL CHECK(direction IN ('in', 'out')),
+        amount REAL NOT NULL CHECK(amount > 0),
+        method TEXT NOT NULL DEFAULT 'cash'
+          CHECK(method IN ('cash', 'card', 'bank', 'other')),
+        date DATETIME NOT NULL,
+        reference TEXT,
+        notes TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (partner_id) REFERENCES partners(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `
+      CREATE TABLE payment_allocations (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        transaction_id TEXT NOT NULL,
+        amount REAL NOT NULL CHECK(amount > 0),
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(payment_id, transaction_id),
+        FOREIGN KEY (payment_id) REFERENCES payments(id) ON DELETE CASCADE,
+        FOREIGN KEY (transaction_id) REFERENCES transactions(id) ON DELETE CASCADE
+      );
+      `
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_payments_partner ON payments(partner_id, date);`
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_payment_allocations_transaction ON payment_allocations(transaction_id);`
+    ).run();
+
+    db.prepare(
+      `
+      INSERT INTO payments (id, partner_id, direction, amount, method, date, notes)
+      SELECT
+        'opening-' || id,
+        partner_id,
+        CASE type WHEN 'sale' THEN 'in' ELSE 'out' END,
+        total_amount,
+        'cash',
+        date,
+        'Settled before payment tracking'
+      FROM transactions
+      WHERE type IN ('sale', 'purchase') AND deleted_at IS NULL AND total_amount > 0;
+      `
+    ).run();
+    db.prepare(
+      `
+      INSERT INTO payment_allocations (id, payment_id, transaction_id, amount)
+      SELECT 'opening-' || id, 'opening-' || id, id, total_amount
+      FROM transactions
+      WHERE type IN ('sale', 'purchase') AND deleted_at IS NULL AND total_amount > 0;
+      `
+    ).run();
+  },
+};
+
+export default migration;
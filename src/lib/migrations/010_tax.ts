@@ -0,0 +1,37 @@
+import type { Migration } from "./types";
+
+/**
+ * Tax (VAT) on sales, purchases and expenses. Products can be marked exempt,
+ * and every transaction and expense now records the rate applied together
+ * with its net and tax amounts; `total_amount` and `amount` stay the gross
+ * figure.
+ *
+ * Nothing was taxed before, so existing rows are backfilled as untaxed with
+ * the net amount equal to the gross.
+ */
+const migration: Migration = {
+  id: 10,
+  name: "tax",
+  up(db) {
+    db.prepare(
+      "ALTER TABLE products ADD COLUMN tax_exempt INTEGER NOT NULL DEFAULT 0"
+    ).run();
+
+    for (const table of ["transactions", "expenses"]) {
+      db.prepare(
+        `ALTER TABLE ${table} ADD COLUMN tax_rate REAL NOT NULL DEFAULT 0`
+      ).run();
+      db.prepare(
+        `ALTER TABLE ${table} ADD COLUMN net_amount REAL NOT NULL DEFAULT 0`
+      ).run();
+      db.prepare(
+        `ALTER TABLE ${table} ADD COLUMN tax_amount REAL NOT NULL DEFAULT 0`
+      ).run();
+    }
+
+    db.prepare("UPDATE transactions SET net_amount = total_amount").run();
+    db.prepare("UPDATE expenses SET net_amount = amount").run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,33 @@
+import type { Migration } from "./types";
+
+/**
+ * Discounts and price overrides on sales. Each sale now records the list
+ * price it was rung up against, the discount given (list total less the
+ * amount charged), why it was given and, for sales a cashier could not make
+ * alone, which manager approved it.
+ *
+ * Existing sales carry no such record, so they are backfilled as sold at
+ * their list price with no discount.
+ */
+const migration: Migration = {
+  id: 11,
+  name: "discounts",
+  up(db) {
+    db.prepare("ALTER TABLE transactions ADD COLUMN list_price REAL").run();
+    db.prepare(
+      "ALTER TABLE transactions ADD COLUMN discount_amount REAL NOT NULL DEFAULT 0"
+    ).run();
+    db.prepare(
+      "ALTER TABLE transactions ADD COLUMN discount_reason TEXT"
+    ).run();
+    db.prepare(
+      "ALTER TABLE transactions ADD COLUMN approved_by TEXT REFERENCES users(id)"
+    ).run();
+
+    db.prepare(
+      "UPDATE transactions SET list_price = price WHERE type = 'sale'"
+    ).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,51 @@
+import type { Migration } from "./types";
+
+/**
+ * Separate cost and selling prices. `products.price` was used both as what a
+ * product cost and as the default price it sold at; it becomes `cost_price`,
+ * and `sell_price` starts out equal to it so nothing sells for less than it
+ * did before. `min_price` is an optional floor below which a sale needs a
+ * manager's approval.
+ *
+ * Every change to a product's prices is kept in `price_history`. Existing
+ * products get one entry with their current prices as of their creation.
+ */
+const migration: Migration = {
+  id: 12,
+  name: "product_prices",
+  up(db) {
+    db.prepare("ALTER TABLE products RENAME COLUMN price TO cost_price").run();
+    db.prepare(
+      "ALTER TABLE products ADD COLUMN sell_price REAL NOT NULL DEFAULT 0"
+    ).run();
+    db.prepare("ALTER TABLE products ADD COLUMN min_price REAL").run();
+    db.prepare("UPDATE products SET sell_price = cost_price").run();
+
+    db.prepare(
+      `
+      CREATE TABLE price_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        product_id TEXT NOT NULL,
+        cost_price REAL NOT NULL,
+        sell_price REAL NOT NULL,
+        min_price REAL,
+        changed_by TEXT,
+        changed_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (changed_by) REFERENCES users(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_price_history_product ON price_history(product_id, changed_at);`
+    ).run();
+
+    db.prepare(
+      `INSERT INTO price_history (product_id, cost_price, sell_price, min_price, changed_at)
+       SELECT id, cost_price, sell_price, min_price, COALESCE(created_at, CURRENT_TIMESTAMP)
+       FROM products`
+    ).run();
+  },
+};
+
+export default migration;
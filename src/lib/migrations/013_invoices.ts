@@ -0,0 +1,64 @@
+import type { Migration } from "./types";
+
+/**
+ * Multi-line sales invoices. An invoice is the header of one sale at the
+ * till: who bought, when and who approved its pricing. Each product sold on
+ * it is still an ordinary sale transaction, pointing back at its invoice
+ * through `transactions.invoice_id`, so stock, costing, tax and payments keep
+ * working line by line. Totals are summed from the lines when read rather
+ * than stored, so editing or deleting a line cannot leave them stale.
+ *
+ * Every existing sale becomes a one-line invoice that reuses the sale's id.
+ */
+const migration: Migration = {
+  id: 13,
+  name: "invoices",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE invoices (
+        id TEXT PRIMARY KEY,
+        partner_id TEXT,
+        snapshot_partner_name TEXT,
+        snapshot_partner_phone TEXT,
+        snapshot_partner_shop TEXT,
+        date DATETIME NOT NULL,
+        discount_reason TEXT,
+        approved_by TEXT,
+        created_by TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (partner_id) REFERENCES partners(id),
+        FOREIGN KEY (approved_by) REFERENCES users(id),
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      );
+      `
+    ).run();
+    db.prepare(`CREATE INDEX idx_invoices_date ON invoices(date);`).run();
+    db.prepare(
+      `CREATE INDEX idx_invoices_partner ON invoices(partner_id);`
+    ).run();
+
+    db.prepare(
+      `ALTER TABLE transactions ADD COLUMN invoice_id TEXT REFERENCES invoices(id);`
+    ).run();
+    db.prepare(
+      `CREATE INDEX idx_transactions_invoice ON transactions(invoice_id);`
+    ).run();
+
+    db.prepare(
+      `
+      INSERT INTO invoices (
+        id, partner_id, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, date, discount_reason, approved_by, created_at
+      )
+      SELECT id, partner_id, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, date, discount_reason, approved_by, created_at
+      FROM transactions
+      WHERE type = 'sale'
+      `
+    ).run();
+    db.prepare(
+      "UPDATE transactions SET invoice_id = id WHERE type = 'sale'"
+    ).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,89 @@
+import type { Migration } from "./types";
+
+/**
+ * Human-readable document numbers such as INV-2026-000123. Sales invoices,
+ * purchases, returns and expense vouchers each draw from their own sequence,
+ * kept per year in `document_sequences` (year 0 for sequences that never
+ * reset). A number is allocated in the same database transaction as the
+ * document it belongs to, so a failed write gives its number back. Numbers
+ * are never reused, so deleting a numbered document leaves a gap.
+ *
+ * Existing documents are numbered in date order with the default format, and
+ * each sequence carries on from the last number handed out.
+ */
+
+// The tables that carry numbers and the default prefix of each sequence
+const DOCUMENTS: {
+  type: string;
+  prefix: string;
+  table: string;
+  where: string;
+}[] = [
+  { type: "sale", prefix: "INV", table: "invoices", where: "1 = 1" },
+  {
+    type: "purchase",
+    prefix: "PUR",
+    table: "transactions",
+    where: "type = 'purchase'",
+  },
+  {
+    type: "return",
+    prefix: "RET",
+    table: "transactions",
+    where: "type = 'return'",
+  },
+  { type: "expense", prefix: "EXP", table: "expenses", where: "1 = 1" },
+];
+
+const migration: Migration = {
+  id: 14,
+  name: "document_numbers",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE document_sequences (
+        document_type TEXT NOT NULL,
+        year INTEGER NOT NULL,
+        last_number INTEGER NOT NULL,
+        PRIMARY KEY (document_type, year)
+      );
+      `
+    ).run();
+
+    for (const table of ["invoices", "transactions", "expenses"]) {
+      db.prepare(`ALTER TABLE ${table} ADD COLUMN number TEXT`).run();
+      db.prepare(
+        `CREATE UNIQUE INDEX idx_${table}_number ON ${table}(number);`
+      ).run();
+    }
+
+    for (const doc of DOCUMENTS) {
+      db.prepare(
+        `
+        UPDATE ${doc.table} SET number = numbered.number
+        FROM (
+          SELECT id, ? || '-' || substr(date, 1, 4) || '-' || printf('%06d',
+            ROW_NUMBER() OVER (
+              PARTITION BY substr(date, 1, 4) ORDER BY date, created_at, id
+            )) AS number
+          FROM ${doc.table}
+          WHERE ${doc.where}
+        ) AS numbered
+        WHERE ${doc.table}.id = numbered.id
+        `
+      ).run(doc.prefix);
+
+      db.prepare(
+        `
+        INSERT INTO document_sequences (document_type, year, last_number)
+        SELECT ?, CAST(substr(date, 1, 4) AS INTEGER), COUNT(*)
+        FROM ${doc.table}
+        WHERE ${doc.where}
+        GROUP BY substr(date, 1, 4)
+        `
+      ).run(doc.type);
+    }
+  },
+};
+
+export default migration;
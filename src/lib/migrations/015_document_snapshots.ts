@@ -0,0 +1,25 @@
+import type { Migration } from "./types";
+
+/**
+ * Keeps the product name each transaction was recorded under, alongside the
+ * partner details already kept in `snapshot_partner_*`, so receipts,
+ * invoices and statements regenerated later read exactly as they did when
+ * they were issued, even after a product is renamed or deleted.
+ *
+ * Existing transactions take their product's current name.
+ */
+const migration: Migration = {
+  id: 15,
+  name: "document_snapshots",
+  up(db) {
+    db.prepare(
+      "ALTER TABLE transactions ADD COLUMN snapshot_product_name TEXT"
+    ).run();
+    db.prepare(
+      `UPDATE transactions
+       SET snapshot_product_name = (SELECT name FROM products WHERE products.id = transactions.product_id)`
+    ).run();
+  },
+};
+
+export default migration;
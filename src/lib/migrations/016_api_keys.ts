@@ -0,0 +1,33 @@
+import type { Migration } from "./types";
+
+/**
+ * API keys for other systems, each acting for the owner who created it and
+ * limited to its scopes (a JSON array of permissions). Like sessions, keys
+ * are stored as a SHA-256 hash; only a short prefix is kept in the clear so
+ * owners can tell them apart.
+ */
+const migration: Migration = {
+  id: 16,
+  name: "api_keys",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        expires_at DATETIME,
+        last_used_at DATETIME,
+        revoked_at DATETIME,
+        FOREIGN KEY (created_by) REFERENCES users(id)
+      );
+      `
+    ).run();
+  },
+};
+
+export default migration;
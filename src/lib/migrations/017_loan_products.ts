@@ -0,0 +1,57 @@
+import type { Migration } from "./types";
+
+/**
+ * Stops deleting a product from silently deleting its loans: `loans.product_id`
+ * no longer cascades, so units still out on loan keep their record. SQLite
+ * cannot change a foreign key in place, so the table is rebuilt and the
+ * existing rows are copied across.
+ */
+const migration: Migration = {
+  id: 17,
+  name: "loan_products",
+  up(db) {
+    db.prepare(
+      `
+      CREATE TABLE loans_new (
+        id TEXT PRIMARY KEY,
+        product_id TEXT NOT NULL,
+        partner_id TEXT NOT NULL,
+        quantity INTEGER NOT NULL CHECK(quantity > 0),
+        returned_quantity INTEGER NOT NULL DEFAULT 0,
+        sold_quantity INTEGER NOT NULL DEFAULT 0,
+        unit_price REAL NOT NULL DEFAULT 0,
+        lent_at DATETIME NOT NULL,
+        due_date DATE NOT NULL,
+        status TEXT NOT NULL DEFAULT 'open' CHECK(status IN ('open', 'closed')),
+        notes TEXT,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        CHECK(returned_quantity + sold_quantity <= quantity),
+        FOREIGN KEY (product_id) REFERENCES products(id),
+        FOREIGN KEY (partner_id) REFERENCES partners(id)
+      );
+      `
+    ).run();
+    db.prepare(
+      `
+      INSERT INTO loans_new (
+        id, product_id, partner_id, quantity, returned_quantity, sold_quantity,
+        unit_price, lent_at, due_date, status, notes, created_at, updated_at
+      )
+      SELECT
+        id, product_id, partner_id, quantity, returned_quantity, sold_quantity,
+        unit_price, lent_at, due_date, status, notes, created_at, updated_at
+      FROM loans;
+      `
+    ).run();
+
+    db.prepare(`DROP TABLE loans;`).run();
+    db.prepare(`ALTER TABLE loans_new RENAME TO loans;`).run();
+    db.prepare(
+      `CREATE INDEX idx_loans_status ON loans(status, due_date);`
+    ).run();
+    db.prepare(`CREATE INDEX idx_loans_partner ON loans(partner_id);`).run();
+  },
+};
+
+export default migration;
@@ -0,0 +1,123 @@
+import type { Database } from "better-sqlite3";
+import type { Migration, MigrationStatus } from "./types";
+import initialSchema from "./001_initial_schema";
+import transactionLendingTypes from "./002_transaction_lending_types";
+import usersAndSessions from "./003_users_and_sessions";
+import userRoles from "./004_user_roles";
+import auditLog from "./005_audit_log";
+import settings from "./006_settings";
+import loans from "./007_loans";
+import purchaseOrders from "./008_purchase_orders";
+import payments from "./009_payments";
+import tax from "./010_tax";
+import discounts from "./011_discounts";
+import productPrices from "./012_product_prices";
+import invoices from "./013_invoices";
+import documentNumbers from "./014_document_numbers";
+import documentSnapshots from "./015_document_snapshots";
+import apiKeys from "./016_api_keys";
+import loanProducts from "./017_loan_products";
+
+export type { Migration, MigrationStatus } from "./types";
+
+// Register new migrations at the end of this list. Never edit or reorder a
+// migration that has already shipped; add a new one instead.
+export const migrations: Migration[] = [
+  initialSchema,
+  transactionLendingTypes,
+  usersAndSessions,
+  userRoles,
+  auditLog,
+  settings,
+  loans,
+  purchaseOrders,
+  payments,
+  tax,
+  discounts,
+  productPrices,
+  invoices,
+  documentNumbers,
+  documentSnapshots,
+  apiKeys,
+  loanProducts,
+];
+
+function ensureMigrationsTable(db: Database) {
+  db.prepare(
+    `
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+    );
+    `
+  ).run();
+}
+
+/**
+ * Reports which migrations have been applied and which are still pending,
+ * without changing the schema.
+ */
+export function getMigrationStatus(db: Database): MigrationStatus {
+  ensureMigrationsTable(db);
+
+  const applied = db
+    .prepare(
+      "SELECT id, name, applied_at FROM schema_migrations ORDER BY id ASC"
+    )
+    .all() as MigrationStatus["applied"];
+  const appliedIds = new Set(applied.map((m) => m.id));
+
+  const pending = migrations
+    .filter((m) => !appliedIds.has(m.id))
+    .map(({ id, name }) => ({ id, name }));
+
+  return {
+    applied,
+    pending,
+    currentVersion: applied.length > 0 ? applied[applied.length - 1].id : 0,
+  };
+}
+
+/**
+ * Applies every pending migration in order. Each migration runs in its own
+ * transaction together with its `schema_migrations` row, so a failure leaves
+ * the database at the last successfully applied version.
+ */
+export function runMigrations(db: Database): MigrationStatus {
+  const { pending } = getMigrationStatus(db);
+  const ordered = [...migrations].sort((a, b) => a.id - b.id);
+
+  // Table rebuilds must not trigger ON DELETE actions on child rows, so
+  // foreign keys are switched off for the run and verified before commit.
+  const foreignKeys = db.pragma("foreign_keys", { simple: true });
+  db.pragma("foreign_keys = OFF");
+
+  try {
+    for (const migration of ordered) {
+      if (!pending.some((p) => p.id === migration.id)) continue;
+
+      console.log(`[DB] Applying migration ${migration.id}_${migration.name}`);
+      db.transaction(() => {
+        // Only violations introduced by this migration block it; rows that
+        // were already orphaned before the upgrade are left as they are.
+        const before = (db.pragma("foreign_key_check") as unknown[]).length;
+        migration.up(db);
+        const after = (db.pragma("foreign_key_check") as unknown[]).length;
+        if (after > before) {
+          throw new Error(
+            `Migration ${migration.id}_${migration.name} introduced ${after - before} foreign key violation(s).`
+          );
+        }
+
+        db.prepare(
+          "INSERT INTO schema_migrations (id, name) VALUES (?, ?)"
+        ).run(migration.id, migration.name);
+      })();
+    }
+  } finally {
+    db.pragma(`foreign_keys = ${foreignKeys ? "ON" : "OFF"}`);
+  }
+
+  return getMigrationStatus(db);
+}
@@ -0,0 +1,17 @@
+import type { Database } from "better-sqlite3";
+
+/**
+ * A forward-only schema change. `id` determines the order in which
+ * migrations run and must never be reused once a migration has shipped.
+ */
+export type Migration = {
+  id: number;
+  name: string;
+  up: (db: Database) => void;
+};
+
+export type MigrationStatus = {
+  applied: { id: number; name: string; applied_at: string }[];
+  pending: { id: number; name: string }[];
+  currentVersion: number;
+};
@@ -0,0 +1,57 @@
+import { db } from "./database";
+import { getSettings } from "./settings";
+import type { DocumentType, NumberingSequence } from "./types";
+
+// --- Document numbering ---
+// Each document type draws numbers from its own sequence in
+// `document_sequences`, one row per year (year 0 when the sequence never
+// resets). Numbers are allocated inside the transaction that writes the
+// document: the counter is bumped by a single upsert that holds the write
+// lock until commit, so two requests can never get the same number, and a
+// rolled-back write returns its number to the sequence.
+
+export const DOCUMENT_TYPES: DocumentType[] = [
+  "sale",
+  "purchase",
+  "return",
+  "expense",
+];
+
+/**
+ * Formats the `value`th number of a sequence, e.g. INV-2026-000123.
+ */
+export function formatDocumentNumber(
+  sequence: NumberingSequence,
+  year: number,
+  value: number
+): string {
+  return [
+    sequence.prefix,
+    sequence.yearlyReset ? String(year) : null,
+    String(value).padStart(sequence.padding, "0"),
+  ]
+    .filter(Boolean)
+    .join("-");
+}
+
+/**
+ * Allocates the next number for a document dated `date`, which picks the
+ * year for sequences that reset yearly. Must be called inside the database
+ * transaction that writes the document.
+ */
+export function nextDocumentNumber(type: DocumentType, date: string): string {
+  const sequence = getSettings().documentNumbering[type];
+  const year = /^\d{4}/.test(date)
+    ? Number(date.slice(0, 4))
+    : new Date().getFullYear();
+
+  const { last_number } = db
+    .prepare(
+      `INSERT INTO document_sequences (document_type, year, last_number) VALUES (?, ?, 1)
+       ON CONFLICT(document_type, year) DO UPDATE SET last_number = last_number + 1
+       RETURNING last_number`
+    )
+    .get(type, sequence.yearlyReset ? year : 0) as { last_number: number };
+
+  return formatDocumentNumber(sequence, year, last_number);
+}
@@ -0,0 +1,52 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { openApiDocument } from "./openapi";
+
+const API_DIR = path.join(__dirname, "../app/api");
+
+/** Every method exported by a route file under src/app/api, as "get /api/...". */
+function routeOperations(): string[] {
+  return readdirSync(API_DIR, { recursive: true, encoding: "utf8" })
+    .filter((file) => path.basename(file) === "route.ts")
+    .flatMap((file) => {
+      const route = path.dirname(file).split(path.sep).join("/");
+      // The catch-all only answers NOT_FOUND for unknown paths
+      if (route.includes("[...")) return [];
+      const apiPath = `/api/${route.replace(/\[(\w+)\]/g, "{$1}")}`;
+      const source = readFileSync(path.join(API_DIR, file), "utf8");
+      return [...source.matchAll(/export const (GET|POST|PUT|DELETE)\b/g)].map(
+        ([, method]) => `${method.toLowerCase()} ${apiPath}`
+      );
+    });
+}
+
+describe("openApiDocument", () => {
+  const paths = openApiDocument().paths as Record<
+    string,
+    Record<string, { responses: Record<string, unknown> }>
+  >;
+  const documented = Object.entries(paths).flatMap(([apiPath, methods]) =>
+    Object.keys(methods).map((method) => `${method} ${apiPath}`)
+  );
+
+  it("documents every route", () => {
+    const routes = routeOperations();
+    expect(routes.length).toBeGreaterThan(0);
+    expect(routes.filter((route) => !documented.includes(route))).toEqual([]);
+  });
+
+  it("documents no route that does not exist", () => {
+    const routes = routeOperations();
+    expect(documented.filter((route) => !routes.includes(route))).toEqual([]);
+  });
+
+  it("describes a success response for every operation", () => {
+    for (const methods of Object.values(paths)) {
+      for (const operation of Object.values(methods)) {
+        const statuses = Object.keys(operation.responses);
+        expect(statuses.some((status) => status.startsWith("2"))).toBe(true);
+      }
+    }
+  });
+});
@@ -0,0 +1,1393 @@
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import type { PaymentError } from "./accounts";
+import { REQUEST_ID_HEADER, statusOf } from "./api-response";
+import { SESSION_COOKIE } from "./auth-constants";
+import type { DocumentError } from "./documents";
+import type { LabelError } from "./labels";
+import type { LoanError } from "./lending";
+import type { Permission } from "./permissions";
+import type { PricingError } from "./pricing";
+import type { PurchaseOrderError } from "./purchasing";
+import type { StockError } from "./sales";
+import {
+  agingQuery,
+  allocationBody,
+  apiKeyBody,
+  auditQuery,
+  documentPdfQuery,
+  expenseBody,
+  invoiceBody,
+  invoiceListQuery,
+  labelQuery,
+  listQuery,
+  loanBody,
+  loanConversionBody,
+  loanListQuery,
+  loanReturnBody,
+  loginBody,
+  openItemsQuery,
+  partnerBody,
+  paymentBody,
+  paymentListQuery,
+  productBody,
+  productLookupQuery,
+  purchaseOrderBody,
+  purchaseOrderListQuery,
+  receiptBody,
+  receiptQuery,
+  reportQuery,
+  saleBody,
+  settingsBody,
+  statementQuery,
+  transactionBody,
+  transactionUpdateBody,
+  userBody,
+  userUpdateBody,
+} from "./schemas";
+import type { ErrorCode } from "./types";
+
+// --- API document ---
+// The OpenAPI 3.1 description of every API endpoint, served at
+// /api/openapi.json and shown on the API docs page. Query strings and bodies
+// are converted from the zod schemas the routes validate with; responses and
+// failures are described below by hand and must be kept in step with the
+// routes. A new endpoint is documented by adding it to ENDPOINTS;
+// openapi.test.ts fails for any route left out.
+
+type JsonSchema = ReturnType<typeof zodToJsonSchema>;
+
+type Method = "get" | "post" | "put" | "delete";
+
+type Endpoint = {
+  method: Method;
+  path: string; // Path parameters in braces, e.g. /api/documents/{id}/pdf
+  tag: string;
+  summary: string;
+  // "signed-in": any signed-in caller; "public": no sign-in needed
+  permission: Permission | "signed-in" | "public";
+  query?: z.ZodTypeAny;
+  body?: z.ZodTypeAny;
+  status?: 200 | 201;
+  data?: z.ZodTypeAny; // What `data` holds in a successful JSON response
+  // Media types sent as they are rather than in the envelope: files, CSV
+  // exports and this document
+  raw?: string[];
+  // Failures particular to the endpoint; those every endpoint can answer
+  // with are added by `errorCodes`
+  errors?: ErrorCode[];
+};
+
+// --- Failures ---
+// The codes each domain error class can carry, for the routes passing it on
+
+const STOCK_ERRORS: StockError["code"][] = [
+  "PRODUCT_NOT_FOUND",
+  "INSUFFICIENT_STOCK",
+];
+
+const PAYMENT_ERRORS: PaymentError["code"][] = [
+  "PARTNER_NOT_FOUND",
+  "PAYMENT_NOT_FOUND",
+  "TRANSACTION_NOT_FOUND",
+  "ALLOCATION_MISMATCH",
+  "OVER_ALLOCATED",
+  "WALK_IN_UNPAID",
+];
+
+const PRICING_ERRORS: PricingError["code"][] = [
+  "PRODUCT_NOT_FOUND",
+  "INVALID_DISCOUNT",
+  "REASON_REQUIRED",
+  "DISCOUNT_LIMIT_EXCEEDED",
+  "BELOW_COST",
+  "BELOW_MIN_PRICE",
+  "APPROVAL_INVALID",
+];
+
+const LOAN_ERRORS: LoanError["code"][] = [
+  "LOAN_NOT_FOUND",
+  "LOAN_CLOSED",
+  "PARTNER_NOT_FOUND",
+  "QUANTITY_EXCEEDS_OUTSTANDING",
+];
+
+const PURCHASE_ORDER_ERRORS: PurchaseOrderError["code"][] = [
+  "PURCHASE_ORDER_NOT_FOUND",
+  "PARTNER_NOT_FOUND",
+  "PARTNER_NOT_A_VENDOR",
+  "PRODUCT_NOT_FOUND",
+  "LINE_NOT_FOUND",
+  "INVALID_LINES",
+  "INVALID_STATUS",
+  "QUANTITY_EXCEEDS_BACKORDER",
+];
+
+const DOCUMENT_ERRORS: DocumentError["code"][] = [
+  "DOCUMENT_NOT_FOUND",
+  "INVALID_TEMPLATE",
+];
+
+const LABEL_ERRORS: LabelError["code"][] = [
+  "PRODUCT_NOT_FOUND",
+  "TOO_MANY_LABELS",
+];
+
+// --- Responses ---
+
+const id = z.string().describe("UUID");
+const timestamp = z.string().describe("ISO 8601 date and time");
+const day = z.string().describe("YYYY-MM-DD");
+
+const product = z.object({
+  id,
+  type: z
+    .enum(["individual", "sku"])
+    .describe("individual: one unit per IMEI or serial; sku: counted stock"),
+  name: z.string(),
+  category: z.string(),
+  cost_price: z.number().describe("What one unit costs the shop"),
+  sell_price: z.number().describe("List price a sale starts from"),
+  min_price: z
+    .number()
+    .nullable()
+    .describe("Selling below this needs a manager's approval"),
+  stock: z.number().int(),
+  imei: z.string().nullable(),
+  tax_exempt: z.number().int().describe("1 when the product is never taxed"),
+  on_loan: z.number().int().describe("Units currently lent to partners"),
+  created_at: timestamp,
+});
+
+const priceHistoryEntry = z.object({
+  id: z.number().int(),
+  product_id: id,
+  cost_price: z.number(),
+  sell_price: z.number(),
+  min_price: z.number().nullable(),
+  changed_by: z
+    .string()
+    .nullable()
+    .describe("Null for prices set before history was kept"),
+  changed_by_name: z.string().nullable(),
+  changed_at: timestamp,
+});
+
+const partnerBalance = {
+  receivable: z.number().describe("What the partner owes the shop"),
+  payable: z.number().describe("What the shop owes the partner"),
+  balance: z.number().describe("receivable - payable"),
+};
+
+const partner = z.object({
+  id,
+  type: z.enum(["individual", "shop"]),
+  name: z.string(),
+  phone: z.string(),
+  shop_name: z.string().nullable().describe("Shops only"),
+  created_at: timestamp,
+  updated_at: timestamp,
+  deleted_at: timestamp.nullable(),
+  ...partnerBalance,
+});
+
+const transaction = z.object({
+  id,
+  number: z
+    .string()
+    .nullable()
+    .describe("Purchases and returns, e.g. PUR-2026-000017"),
+  productId: id,
+  type: z.enum(["purchase", "sale", "lend-out", "return"]),
+  quantity: z.number().int(),
+  price: z.number().describe("Price per unit"),
+  imei: z.string(),
+  totalAmount: z.number().describe("Gross, including any tax"),
+  listPrice: z.number().nullable().describe("Sales: price before discounts"),
+  discountAmount: z.number(),
+  discountReason: z.string().nullable(),
+  invoiceId: z.string().nullable(),
+  date: timestamp,
+  party: z
+    .string()
+    .nullable()
+    .describe("Partner name at the time of the transaction"),
+  partnerId: z.string().nullable().describe("Null for walk-in customers"),
+  created_at: timestamp,
+});
+
+const expense = z.object({
+  id,
+  number: z
+    .string()
+    .nullable()
+    .describe("Voucher number, e.g. EXP-2026-000042"),
+  date: timestamp,
+  category: z.enum(["rent", "salaries", "utilities", "stock", "other"]),
+  description: z.string(),
+  amount: z.number().describe("Gross, including any tax"),
+  tax_rate: z.number(),
+  net_amount: z.number(),
+  tax_amount: z.number(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  deleted_at: timestamp.nullable(),
+});
+
+const invoiceLine = z.object({
+  id: id.describe("The line's sale transaction"),
+  product_id: id,
+  product_name: z.string(),
+  imei: z.string().nullable(),
+  quantity: z.number().int(),
+  list_price: z.number().nullable().describe("Per unit"),
+  price: z.number().describe("Charged per unit, after every discount"),
+  discount_amount: z.number(),
+  discount_reason: z.string().nullable(),
+  total_amount: z.number().describe("Gross"),
+  net_amount: z.number(),
+  tax_amount: z.number(),
+});
+
+const invoice = z.object({
+  id,
+  number: z.string().describe("e.g. INV-2026-000123"),
+  partner_id: z.string().nullable().describe("Null for walk-in customers"),
+  party: z.string().describe("Customer name at the time of sale"),
+  party_phone: z.string().nullable(),
+  party_shop: z.string().nullable(),
+  date: timestamp,
+  discount_reason: z.string().nullable(),
+  approved_by: z.string().nullable(),
+  approved_by_name: z.string().nullable(),
+  created_by: z.string().nullable(),
+  created_at: timestamp,
+  line_count: z.number().int(),
+  quantity: z.number().int(),
+  list_total: z.number().describe("Lines at their list price"),
+  discount_amount: z.number(),
+  net_amount: z.number(),
+  tax_amount: z.number(),
+  total_amount: z.number().describe("Gross"),
+  paid: z.number(),
+  outstanding: z.number(),
+  lines: z
+    .array(invoiceLine)
+    .optional()
+    .describe("Only when a single invoice is fetched"),
+});
+
+const loan = z.object({
+  id,
+  product_id: id,
+  product_name: z.string(),
+  product_imei: z.string().nullable(),
+  list_price: z.number().describe("The product's current selling price"),
+  partner_id: id,
+  partner_name: z.string(),
+  partner_phone: z.string(),
+  partner_shop: z.string().nullable(),
+  quantity: z.number().int(),
+  returned_quantity: z.number().int(),
+  sold_quantity: z.number().int(),
+  outstanding: z.number().int().describe("Units neither returned nor sold"),
+  unit_price: z.number().describe("Agreed value per unit while on loan"),
+  lent_at: timestamp,
+  due_date: day,
+  days_overdue: z.number().int().describe("0 when not yet due or closed"),
+  status: z.enum(["open", "closed"]),
+  notes: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+const payment = z.object({
+  id,
+  partner_id: z
+    .string()
+    .nullable()
+    .describe("Null for walk-in customers paying at the till"),
+  partner_name: z.string().nullable(),
+  direction: z.enum(["in", "out"]).describe("Received from / paid to"),
+  amount: z.number(),
+  allocated: z.number().describe("Portion applied to specific transactions"),
+  method: z.enum(["cash", "card", "bank", "other"]),
+  date: timestamp,
+  reference: z.string().nullable(),
+  notes: z.string().nullable(),
+  created_by: z.string().nullable(),
+  created_at: timestamp,
+});
+
+const openItem = z.object({
+  transaction_id: id,
+  type: z.enum(["sale", "purchase"]),
+  date: timestamp,
+  product_name: z.string(),
+  quantity: z.number().int(),
+  total: z.number(),
+  paid: z.number(),
+  outstanding: z.number(),
+});
+
+const statement = z.object({
+  partner: partner.pick({
+    id: true,
+    type: true,
+    name: true,
+    phone: true,
+    shop_name: true,
+  }),
+  balance: z.object(partnerBalance),
+  statement: z.object({
+    partnerId: id,
+    from: day.nullable(),
+    to: day.nullable(),
+    openingBalance: z.number(),
+    lines: z.array(
+      z.object({
+        date: timestamp,
+        kind: z.enum(["sale", "purchase", "payment-in", "payment-out"]),
+        reference: id.describe("Transaction or payment id"),
+        description: z.string(),
+        debit: z.number().describe("Increases what the partner owes the shop"),
+        credit: z.number().describe("Decreases it"),
+        balance: z.number().describe("Running balance after this line"),
+      })
+    ),
+    closingBalance: z.number(),
+  }),
+});
+
+const purchaseOrderLine = z.object({
+  id,
+  purchase_order_id: id,
+  product_id: id,
+  product_name: z.string(),
+  product_type: z.enum(["individual", "sku"]),
+  quantity: z.number().int().describe("Ordered"),
+  received_quantity: z.number().int(),
+  backordered: z
+    .number()
+    .int()
+    .describe("Still expected; 0 once the order is closed"),
+  unit_cost: z.number(),
+});
+
+const purchaseOrder = z.object({
+  id,
+  partner_id: id,
+  partner_name: z.string(),
+  partner_shop: z.string().nullable(),
+  status: z.enum(["draft", "sent", "partially_received", "received", "closed"]),
+  expected_date: day.nullable(),
+  notes: z.string().nullable(),
+  sent_at: timestamp.nullable(),
+  closed_at: timestamp.nullable(),
+  created_by: z.string().nullable(),
+  created_at: timestamp,
+  updated_at: timestamp,
+  ordered_quantity: z.number().int(),
+  received_quantity: z.number().int(),
+  backordered: z.number().int(),
+  total_cost: z.number().describe("Ordered quantity at unit cost"),
+  received_cost: z.number(),
+  lines: z
+    .array(purchaseOrderLine)
+    .optional()
+    .describe("Only when a single order is fetched"),
+});
+
+const money = z.record(z.number());
+
+const report = z.object({
+  summary: z.object({
+    from: day.nullable(),
+    to: day.nullable(),
+    costingMethod: z.enum(["fifo", "weighted-average"]),
+    sales: z.number(),
+    costOfGoodsSold: z.number(),
+    grossProfit: z.number(),
+    grossMargin: z
+      .number()
+      .nullable()
+      .describe("Percent of sales; null when there are no sales"),
+    expenses: z.number(),
+    netProfit: z.number(),
+    purchases: z.number().describe("Stock bought in the period"),
+  }),
+  series: z
+    .array(
+      z.object({
+        period: z.string().describe("e.g. 2026-03-02, 2026-03, 2026-Q1, 2026"),
+        sales: z.number(),
+        costOfGoodsSold: z.number(),
+        grossProfit: z.number(),
+        purchases: z.number(),
+        expenses: z.number(),
+      })
+    )
+    .describe("One entry per period of the granularity"),
+  groups: z
+    .array(
+      z.object({
+        key: z.string(),
+        label: z.string(),
+        count: z.number().int(),
+        quantity: z.number().int(),
+        amount: z.number(),
+        costOfGoodsSold: z.number().nullable(),
+        grossProfit: z.number().nullable(),
+      })
+    )
+    .describe("One entry per value of groupBy"),
+  tax: z
+    .object({ netTax: z.number().describe("Positive means tax is owed") })
+    .passthrough()
+    .describe("Output and input tax totals, also broken down by rate"),
+});
+
+const agingReport = z.object({
+  side: z.enum(["receivable", "payable"]),
+  asOf: day,
+  rows: z
+    .array(
+      z.object({
+        partnerId: z.string().nullable().describe("Null for walk-in sales"),
+        partnerName: z.string(),
+        partnerShop: z.string().nullable(),
+        buckets: money.describe("current, 1-30, 31-60, 61-90 and 90+ days"),
+        total: z.number(),
+        unappliedCredit: z.number(),
+        items: z.array(
+          openItem.extend({
+            age_days: z.number().int(),
+            bucket: z.enum(["current", "1-30", "31-60", "61-90", "90+"]),
+          })
+        ),
+      })
+    )
+    .describe("One row per partner with money outstanding"),
+  totals: money.describe("Each bucket, total and unappliedCredit"),
+});
+
+const user = z.object({
+  id,
+  email: z.string(),
+  name: z.string(),
+  role: z.enum(["owner", "manager", "cashier"]),
+});
+
+const apiKey = z.object({
+  id,
+  name: z.string(),
+  prefix: z.string().describe("The key's first characters"),
+  scopes: z.array(z.string()),
+  created_by_name: z.string(),
+  created_at: timestamp,
+  expires_at: timestamp.nullable().describe("Null for keys that never expire"),
+  last_used_at: timestamp.nullable(),
+  revoked_at: timestamp.nullable(),
+});
+
+const auditEntry = z.object({
+  id: z.number().int(),
+  actor_id: z.string().nullable(),
+  actor_name: z.string(),
+  entity: z.string(),
+  entity_id: z.string(),
+  action: z.enum(["create", "update", "delete"]),
+  before: z.record(z.unknown()).nullable(),
+  after: z.record(z.unknown()).nullable(),
+  created_at: timestamp,
+});
+
+const settings = z.object({
+  settings: z
+    .object({
+      costingMethod: z.enum(["fifo", "weighted-average"]),
+      taxRate: z.number().describe("Percent"),
+      categoryTaxRates: money.describe("Per-category overrides, percent"),
+      pricesIncludeTax: z.boolean(),
+      maxDiscountPercent: money.describe("Largest discount off list, by role"),
+      documentNumbering: z.record(
+        z.object({
+          prefix: z.string(),
+          yearlyReset: z.boolean(),
+          padding: z.number().int(),
+        })
+      ),
+      shopName: z.string(),
+      shopAddress: z.string(),
+      shopLogo: z.string().nullable().describe("PNG or JPEG data URL"),
+      documentFooter: z.string(),
+    })
+    .describe("The whole of the settings, after any change"),
+});
+
+const migration = z.object({ id: z.number().int(), name: z.string() });
+
+const created = z.object({ id });
+
+/** Where stock stands after a product moved. */
+const stockLevel = z.number().int().describe("The product's stock afterwards");
+
+/** A page of a list endpoint: the rows under `key` and the total count. */
+const listOf = (key: string, row: z.ZodTypeAny) =>
+  z.object({
+    [key]: z.array(row),
+    total: z.number().int().describe("Rows matching the search, all pages"),
+  });
+
+/** The ?id= naming the row an endpoint acts on, with any other query. */
+const idQuery = (description: string, query = z.object({})) =>
+  query.extend({ id: z.string().describe(description) });
+
+// --- Endpoints ---
+
+const ENDPOINTS: Endpoint[] = [
+  {
+    method: "post",
+    path: "/api/auth/login",
+    tag: "Session",
+    summary: "Sign in; the session cookie comes with the response",
+    permission: "public",
+    body: loginBody,
+    data: z.object({ user }),
+    errors: ["INVALID_CREDENTIALS"],
+  },
+  {
+    method: "post",
+    path: "/api/auth/logout",
+    tag: "Session",
+    summary: "Sign out, ending the session",
+    permission: "public",
+    data: z.null(),
+  },
+  {
+    method: "get",
+    path: "/api/auth/me",
+    tag: "Session",
+    summary: "The caller; for an API key, its owner named after the key",
+    permission: "signed-in",
+    data: z.object({ user }),
+  },
+  {
+    method: "get",
+    path: "/api/openapi.json",
+    tag: "Session",
+    summary: "This document, sent as it is",
+    permission: "signed-in",
+    raw: ["application/json"],
+  },
+  {
+    method: "get",
+    path: "/api/products",
+    tag: "Products",
+    summary: "List products, searching by name or IMEI",
+    permission: "products:read",
+    query: listQuery,
+    data: listOf("products", product),
+  },
+  {
+    method: "post",
+    path: "/api/products",
+    tag: "Products",
+    summary: "Add a product",
+    permission: "products:write",
+    body: productBody,
+    status: 201,
+    data: created,
+    errors: ["PRODUCT_NAME_TAKEN", "IMEI_TAKEN"],
+  },
+  {
+    method: "put",
+    path: "/api/products",
+    tag: "Products",
+    summary:
+      "Update a product but not its stock; changing prices needs products:price",
+    permission: "products:write",
+    query: idQuery("The product to update"),
+    body: productBody,
+    data: created,
+    errors: ["PRODUCT_NOT_FOUND", "PRODUCT_NAME_TAKEN", "IMEI_TAKEN"],
+  },
+  {
+    method: "delete",
+    path: "/api/products",
+    tag: "Products",
+    summary:
+      "Delete a product and its unpaid purchases; one with sales, loans or payments stays",
+    permission: "products:delete",
+    query: idQuery("The product to delete"),
+    data: z.null(),
+    errors: ["PRODUCT_NOT_FOUND", "PRODUCT_IN_USE"],
+  },
+  {
+    method: "get",
+    path: "/api/products/lookup",
+    tag: "Products",
+    summary: "Find the product with a scanned IMEI, serial or barcode",
+    permission: "products:read",
+    query: productLookupQuery,
+    data: z.object({ product }),
+    errors: ["PRODUCT_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/products/price-history",
+    tag: "Products",
+    summary: "A product's price changes, oldest first",
+    permission: "products:read",
+    query: idQuery("The product"),
+    data: z.object({
+      product: product.pick({
+        id: true,
+        name: true,
+        cost_price: true,
+        sell_price: true,
+        min_price: true,
+      }),
+      history: z.array(priceHistoryEntry),
+    }),
+    errors: ["PRODUCT_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/labels",
+    tag: "Products",
+    summary: "Print labels as a PDF or SVG sheet, a thermal PDF or ESC/POS",
+    permission: "products:read",
+    query: labelQuery,
+    raw: ["application/pdf", "image/svg+xml", "application/octet-stream"],
+    errors: LABEL_ERRORS,
+  },
+  {
+    method: "get",
+    path: "/api/transactions",
+    tag: "Transactions",
+    summary: "List transactions, newest first, searching by IMEI or number",
+    permission: "transactions:read",
+    query: listQuery,
+    data: listOf("transactions", transaction),
+  },
+  {
+    method: "post",
+    path: "/api/transactions",
+    tag: "Transactions",
+    summary: "Record a purchase, loan or return; sales go to /api/sales",
+    permission: "transactions:write",
+    body: transactionBody,
+    status: 201,
+    data: created,
+    errors: ["PARTNER_NOT_FOUND", "ALLOCATION_MISMATCH", "OVER_ALLOCATED"],
+  },
+  {
+    method: "put",
+    path: "/api/transactions",
+    tag: "Transactions",
+    summary:
+      "Correct a transaction entered by hand; a new quantity moves stock by the difference",
+    permission: "transactions:manage",
+    query: idQuery("The transaction to correct"),
+    body: transactionUpdateBody,
+    data: z.null(),
+    errors: ["TRANSACTION_NOT_FOUND", "TRANSACTION_IN_USE", ...STOCK_ERRORS],
+  },
+  {
+    method: "delete",
+    path: "/api/transactions",
+    tag: "Transactions",
+    summary: "Delete every transaction of a product",
+    permission: "transactions:manage",
+    query: idQuery("The product whose transactions are deleted"),
+    data: z.null(),
+    errors: ["TRANSACTION_NOT_FOUND"],
+  },
+  {
+    method: "post",
+    path: "/api/sales",
+    tag: "Sales",
+    summary: "Sell one product, with any discount and payment",
+    permission: "transactions:write",
+    body: saleBody,
+    status: 201,
+    data: z.object({ id, invoiceId: id, stock: stockLevel }),
+    errors: [...STOCK_ERRORS, ...PAYMENT_ERRORS, ...PRICING_ERRORS],
+  },
+  {
+    method: "get",
+    path: "/api/invoices",
+    tag: "Sales",
+    summary: "List invoices, newest first; with ?id= one invoice and its lines",
+    permission: "transactions:read",
+    query: invoiceListQuery.extend({
+      id: z.string().optional().describe("Fetch this invoice alone"),
+    }),
+    data: z.union([
+      z.object({
+        invoices: z.array(invoice),
+        page: z.number().int(),
+        limit: z.number().int(),
+      }),
+      z.object({ invoice }),
+    ]),
+    errors: ["INVOICE_NOT_FOUND"],
+  },
+  {
+    method: "post",
+    path: "/api/invoices",
+    tag: "Sales",
+    summary: "Sell several products on one invoice",
+    permission: "transactions:write",
+    body: invoiceBody,
+    status: 201,
+    data: z.object({
+      id,
+      lines: z.array(z.object({ id, productId: id, stock: stockLevel })),
+      totalAmount: z.number(),
+    }),
+    errors: [...STOCK_ERRORS, ...PAYMENT_ERRORS, ...PRICING_ERRORS],
+  },
+  {
+    method: "get",
+    path: "/api/documents/{id}/pdf",
+    tag: "Sales",
+    summary:
+      "An invoice, receipt or partner statement as a PDF; statements need payments:read, the rest transactions:read",
+    permission: "signed-in",
+    query: documentPdfQuery,
+    raw: ["application/pdf"],
+    errors: ["FORBIDDEN", ...DOCUMENT_ERRORS],
+  },
+  {
+    method: "get",
+    path: "/api/documents/{id}/escpos",
+    tag: "Sales",
+    summary: "A receipt as ESC/POS commands for a thermal printer",
+    permission: "transactions:read",
+    query: receiptQuery,
+    raw: ["application/octet-stream"],
+    errors: DOCUMENT_ERRORS,
+  },
+  {
+    method: "get",
+    path: "/api/loans",
+    tag: "Loans",
+    summary: "List loans to partners, open and most overdue first",
+    permission: "transactions:read",
+    query: loanListQuery,
+    data: listOf("loans", loan),
+  },
+  {
+    method: "post",
+    path: "/api/loans",
+    tag: "Loans",
+    summary: "Lend stock to a partner",
+    permission: "transactions:write",
+    body: loanBody,
+    status: 201,
+    data: z.object({ id, stock: stockLevel }),
+    errors: [...STOCK_ERRORS, ...LOAN_ERRORS],
+  },
+  {
+    method: "post",
+    path: "/api/loans/return",
+    tag: "Loans",
+    summary: "Take back units of a loan into stock",
+    permission: "transactions:write",
+    query: idQuery("The loan"),
+    body: loanReturnBody,
+    data: z.object({ id, stock: stockLevel }),
+    errors: [...STOCK_ERRORS, ...LOAN_ERRORS],
+  },
+  {
+    method: "post",
+    path: "/api/loans/convert",
+    tag: "Loans",
+    summary: "Sell units the partner kept, priced like any sale",
+    permission: "transactions:write",
+    query: idQuery("The loan"),
+    body: loanConversionBody,
+    status: 201,
+    data: z.object({ id, saleId: id, invoiceId: id }),
+    errors: [...LOAN_ERRORS, ...PAYMENT_ERRORS, ...PRICING_ERRORS],
+  },
+  {
+    method: "get",
+    path: "/api/partners",
+    tag: "Partners",
+    summary: "List partners with their balances, searching by name",
+    permission: "partners:read",
+    query: listQuery,
+    data: listOf("partners", partner),
+  },
+  {
+    method: "post",
+    path: "/api/partners",
+    tag: "Partners",
+    summary: "Add a partner",
+    permission: "partners:write",
+    body: partnerBody,
+    status: 201,
+    data: created,
+  },
+  {
+    method: "put",
+    path: "/api/partners",
+    tag: "Partners",
+    summary: "Update a partner",
+    permission: "partners:write",
+    query: idQuery("The partner to update"),
+    body: partnerBody,
+    data: z.null(),
+    errors: ["PARTNER_NOT_FOUND"],
+  },
+  {
+    method: "delete",
+    path: "/api/partners",
+    tag: "Partners",
+    summary: "Delete a partner; their history is kept",
+    permission: "partners:delete",
+    query: idQuery("The partner to delete"),
+    data: z.null(),
+    errors: ["PARTNER_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/partners/open-items",
+    tag: "Accounts",
+    summary: "A partner's sales and purchases with money still owed",
+    permission: "payments:read",
+    query: idQuery("The partner", openItemsQuery),
+    data: listOf("items", openItem),
+  },
+  {
+    method: "get",
+    path: "/api/partners/statement",
+    tag: "Accounts",
+    summary: "A partner's statement with running balance",
+    permission: "payments:read",
+    query: idQuery("The partner", statementQuery),
+    data: statement,
+    errors: ["PARTNER_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/payments",
+    tag: "Accounts",
+    summary: "List payments, newest first",
+    permission: "payments:read",
+    query: paymentListQuery,
+    data: listOf("payments", payment),
+  },
+  {
+    method: "post",
+    path: "/api/payments",
+    tag: "Accounts",
+    summary: "Record a payment from or to a partner",
+    permission: "payments:write",
+    body: paymentBody,
+    status: 201,
+    data: created,
+    errors: PAYMENT_ERRORS,
+  },
+  {
+    method: "delete",
+    path: "/api/payments",
+    tag: "Accounts",
+    summary: "Delete a payment recorded in error",
+    permission: "transactions:manage",
+    query: idQuery("The payment to delete"),
+    data: z.null(),
+    errors: PAYMENT_ERRORS,
+  },
+  {
+    method: "post",
+    path: "/api/payments/allocate",
+    tag: "Accounts",
+    summary: "Apply a payment's unallocated amount to open transactions",
+    permission: "payments:write",
+    query: idQuery("The payment"),
+    body: allocationBody,
+    data: z.null(),
+    errors: PAYMENT_ERRORS,
+  },
+  {
+    method: "get",
+    path: "/api/expenses",
+    tag: "Expenses",
+    summary: "List expenses, newest first, searching by description or number",
+    permission: "expenses:read",
+    query: listQuery,
+    data: listOf("expenses", expense),
+  },
+  {
+    method: "post",
+    path: "/api/expenses",
+    tag: "Expenses",
+    summary: "Record an expense",
+    permission: "expenses:write",
+    body: expenseBody,
+    status: 201,
+    data: created,
+  },
+  {
+    method: "put",
+    path: "/api/expenses",
+    tag: "Expenses",
+    summary: "Update an expense",
+    permission: "expenses:write",
+    query: idQuery("The expense to update"),
+    body: expenseBody,
+    data: z.null(),
+    errors: ["EXPENSE_NOT_FOUND"],
+  },
+  {
+    method: "delete",
+    path: "/api/expenses",
+    tag: "Expenses",
+    summary: "Delete an expense",
+    permission: "expenses:write",
+    query: idQuery("The expense to delete"),
+    data: z.null(),
+    errors: ["EXPENSE_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/purchase-orders",
+    tag: "Purchase orders",
+    summary: "List purchase orders; with ?id= one order and its lines",
+    permission: "purchase-orders:read",
+    query: purchaseOrderListQuery.extend({
+      id: z.string().optional().describe("Fetch this order alone"),
+    }),
+    data: z.union([
+      listOf("orders", purchaseOrder),
+      z.object({ order: purchaseOrder }),
+    ]),
+    errors: ["PURCHASE_ORDER_NOT_FOUND"],
+  },
+  {
+    method: "post",
+    path: "/api/purchase-orders",
+    tag: "Purchase orders",
+    summary: "Draft a purchase order to a vendor",
+    permission: "purchase-orders:write",
+    body: purchaseOrderBody,
+    status: 201,
+    data: created,
+    errors: PURCHASE_ORDER_ERRORS,
+  },
+  {
+    method: "put",
+    path: "/api/purchase-orders",
+    tag: "Purchase orders",
+    summary: "Rewrite a draft purchase order",
+    permission: "purchase-orders:write",
+    query: idQuery("The order to update"),
+    body: purchaseOrderBody,
+    data: created,
+    errors: PURCHASE_ORDER_ERRORS,
+  },
+  {
+    method: "delete",
+    path: "/api/purchase-orders",
+    tag: "Purchase orders",
+    summary: "Delete a draft purchase order",
+    permission: "purchase-orders:write",
+    query: idQuery("The order to delete"),
+    data: z.null(),
+    errors: PURCHASE_ORDER_ERRORS,
+  },
+  {
+    method: "post",
+    path: "/api/purchase-orders/send",
+    tag: "Purchase orders",
+    summary: "Mark a draft as sent to the vendor",
+    permission: "purchase-orders:write",
+    query: idQuery("The order"),
+    data: created,
+    errors: PURCHASE_ORDER_ERRORS,
+  },
+  {
+    method: "post",
+    path: "/api/purchase-orders/receive",
+    tag: "Purchase orders",
+    summary: "Receive goods, recording a purchase per line",
+    permission: "purchase-orders:receive",
+    query: idQuery("The order"),
+    body: receiptBody,
+    status: 201,
+    data: z.object({ id, transactionIds: z.array(id) }),
+    errors: [...PURCHASE_ORDER_ERRORS, ...STOCK_ERRORS, ...PAYMENT_ERRORS],
+  },
+  {
+    method: "post",
+    path: "/api/purchase-orders/close",
+    tag: "Purchase orders",
+    summary: "Close an order, cancelling what is still backordered",
+    permission: "purchase-orders:write",
+    query: idQuery("The order"),
+    data: created,
+    errors: PURCHASE_ORDER_ERRORS,
+  },
+  {
+    method: "get",
+    path: "/api/reports",
+    tag: "Reports",
+    summary: "Profit, a time series, a breakdown and tax for a date range",
+    permission: "reports:read",
+    query: reportQuery,
+    data: report,
+  },
+  {
+    method: "get",
+    path: "/api/reports/aging",
+    tag: "Reports",
+    summary: "Money owed by age as of a day; format=csv sends a spreadsheet",
+    permission: "reports:read",
+    query: agingQuery,
+    data: agingReport,
+    raw: ["text/csv"],
+  },
+  {
+    method: "get",
+    path: "/api/audit",
+    tag: "Administration",
+    summary: "Search the audit log, newest first",
+    permission: "audit:read",
+    query: auditQuery,
+    data: listOf("entries", auditEntry).extend({
+      actors: z
+        .array(z.object({ id, name: z.string() }))
+        .describe("Everyone who appears in the log"),
+    }),
+  },
+  {
+    method: "get",
+    path: "/api/users",
+    tag: "Administration",
+    summary: "List active users",
+    permission: "users:manage",
+    data: listOf(
+      "users",
+      user.extend({ created_at: timestamp, updated_at: timestamp })
+    ),
+  },
+  {
+    method: "post",
+    path: "/api/users",
+    tag: "Administration",
+    summary: "Add a user",
+    permission: "users:manage",
+    body: userBody,
+    status: 201,
+    data: created,
+    errors: ["EMAIL_TAKEN"],
+  },
+  {
+    method: "put",
+    path: "/api/users",
+    tag: "Administration",
+    summary: "Update a user; a blank password keeps the current one",
+    permission: "users:manage",
+    query: idQuery("The user to update"),
+    body: userUpdateBody,
+    data: z.null(),
+    errors: ["USER_NOT_FOUND", "EMAIL_TAKEN", "LAST_OWNER"],
+  },
+  {
+    method: "delete",
+    path: "/api/users",
+    tag: "Administration",
+    summary: "Deactivate a user",
+    permission: "users:manage",
+    query: idQuery("The user to deactivate"),
+    data: z.null(),
+    errors: ["USER_NOT_FOUND", "SELF_DEACTIVATION", "LAST_OWNER"],
+  },
+  {
+    method: "get",
+    path: "/api/api-keys",
+    tag: "Administration",
+    summary: "List API keys, including revoked and expired ones",
+    permission: "api-keys:manage",
+    data: listOf("apiKeys", apiKey),
+  },
+  {
+    method: "post",
+    path: "/api/api-keys",
+    tag: "Administration",
+    summary: "Create an API key; the key is only shown in this response",
+    permission: "api-keys:manage",
+    body: apiKeyBody,
+    status: 201,
+    data: z.object({ id, key: z.string().describe("dvk_...") }),
+  },
+  {
+    method: "delete",
+    path: "/api/api-keys",
+    tag: "Administration",
+    summary: "Revoke an API key",
+    permission: "api-keys:manage",
+    query: idQuery("The key to revoke"),
+    data: z.null(),
+    errors: ["API_KEY_NOT_FOUND"],
+  },
+  {
+    method: "get",
+    path: "/api/settings",
+    tag: "Administration",
+    summary: "The shop's settings",
+    permission: "signed-in",
+    data: settings,
+  },
+  {
+    method: "put",
+    path: "/api/settings",
+    tag: "Administration",
+    summary: "Change any of the shop's settings",
+    permission: "settings:manage",
+    body: settingsBody,
+    data: settings,
+  },
+  {
+    method: "get",
+    path: "/api/admin/migrations",
+    tag: "Administration",
+    summary: "Applied database migrations and those applied at startup",
+    permission: "settings:manage",
+    data: z.object({
+      applied: z.array(migration.extend({ applied_at: timestamp })),
+      currentVersion: z.number().int(),
+      appliedOnStartup: z.array(migration),
+    }),
+  },
+];
+
+// --- Building the document ---
+
+const STATUS_DESCRIPTIONS: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  400: "The request did not validate",
+  401: "Not signed in",
+  403: "The role lacks the permission",
+  404: "Not found",
+  409: "Conflicts with the shop's records",
+  500: "Unexpected server error; quote the request id when reporting it",
+};
+
+const requestIdHeader = {
+  description: "The request's id, for finding it in the server log",
+  schema: { type: "string" },
+};
+
+/**
+ * Converts a schema as callers send it: before defaults and transforms, and
+ * without refinements, which JSON Schema cannot express.
+ */
+function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    $refStrategy: "none",
+    effectStrategy: "input",
+    pipeStrategy: "input",
+    // Unknown fields are ignored, which is JSON Schema's default anyway
+    removeAdditionalStrategy: "strict",
+    allowedAdditionalProperties: undefined,
+  }) as JsonSchema & { $schema?: string };
+  return jsonSchema;
+}
+
+/** The permission the endpoint checks, if it checks one. */
+function permissionOf(endpoint: Endpoint): Permission | null {
+  return endpoint.permission === "public" || endpoint.permission === "signed-in"
+    ? null
+    : endpoint.permission;
+}
+
+/** The endpoint's own failures plus those any endpoint can answer with. */
+function errorCodes(endpoint: Endpoint): ErrorCode[] {
+  const codes: ErrorCode[] = [];
+  if (endpoint.permission !== "public") codes.push("UNAUTHENTICATED");
+  if (permissionOf(endpoint)) codes.push("FORBIDDEN");
+  if (endpoint.query || endpoint.body) codes.push("VALIDATION_FAILED");
+  if (endpoint.body) codes.push("INVALID_JSON");
+  // Domain errors sharing a code are listed once
+  return [
+    ...new Set([...codes, ...(endpoint.errors ?? []), "INTERNAL_ERROR"]),
+  ] as ErrorCode[];
+}
+
+/** One path parameter per {name} in the endpoint's path. */
+function pathParameters(path: string) {
+  return [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: "path",
+    required: true,
+    schema: { type: "string" },
+  }));
+}
+
+/** One query parameter per field of the endpoint's query schema. */
+function queryParameters(query: z.ZodTypeAny) {
+  const { properties = {}, required = [] } = toJsonSchema(query) as {
+    properties?: Record<string, JsonSchema & { description?: string }>;
+    required?: string[];
+  };
+  return Object.entries(properties).map(
+    ([name, { description, ...schema }]) => ({
+      name,
+      in: "query",
+      required: required.includes(name),
+      description,
+      schema,
+    })
+  );
+}
+
+function successResponse(endpoint: Endpoint) {
+  const content: Record<string, { schema: unknown }> = {};
+  if (endpoint.data) {
+    const envelope = z.object({
+      data: endpoint.data,
+      message: z.string().optional().describe("What a write did"),
+      requestId: z.string(),
+    });
+    content["application/json"] = { schema: toJsonSchema(envelope) };
+  }
+  for (const type of endpoint.raw ?? []) {
+    content[type] = {
+      schema:
+        type === "application/json"
+          ? { type: "object" }
+          : { type: "string", format: "binary" },
+    };
+  }
+  return {
+    description: STATUS_DESCRIPTIONS[endpoint.status ?? 200],
+    headers: { [REQUEST_ID_HEADER]: requestIdHeader },
+    content,
+  };
+}
+
+/** One response per status, each listing the codes it can carry. */
+function errorResponses(endpoint: Endpoint) {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of errorCodes(endpoint)) {
+    const status = statusOf(code);
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, [first, ...rest]]) => {
+      const envelope = z.object({
+        error: z.object({
+          code: z.enum([first, ...rest]),
+          message: z.string().describe("Readable explanation"),
+          fields: z
+            .record(z.string())
+            .optional()
+            .describe("400 only: the message for each field, by path"),
+        }),
+        requestId: z.string(),
+      });
+      return [
+        String(status),
+        {
+          description: STATUS_DESCRIPTIONS[status],
+          headers: { [REQUEST_ID_HEADER]: requestIdHeader },
+          content: { "application/json": { schema: toJsonSchema(envelope) } },
+        },
+      ];
+    })
+  );
+}
+
+function operation(endpoint: Endpoint) {
+  return {
+    tags: [endpoint.tag],
+    summary: endpoint.summary,
+    // e.g. getDocumentsIdPdf for GET /api/documents/{id}/pdf
+    operationId: `${endpoint.method}${endpoint.path
+      .slice("/api/".length)
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join("")}`,
+    ...(permissionOf(endpoint) && { "x-permission": permissionOf(endpoint) }),
+    ...(endpoint.permission === "public" && { security: [] }),
+    parameters: [
+      ...pathParameters(endpoint.path),
+      ...(endpoint.query ? queryParameters(endpoint.query) : []),
+      {
+        name: REQUEST_ID_HEADER,
+        in: "header",
+        required: false,
+        description: "Your own id for the request, echoed in the response",
+        schema: { type: "string", pattern: "^[\\w.-]{1,100}$" },
+      },
+    ],
+    ...(endpoint.body && {
+      requestBody: {
+        required: true,
+        content: {
+          "application/json": { schema: toJsonSchema(endpoint.body) },
+        },
+      },
+    }),
+    responses: {
+      [String(endpoint.status ?? 200)]: successResponse(endpoint),
+      ...errorResponses(endpoint),
+    },
+  };
+}
+
+let document: Record<string, unknown> | undefined;
+
+/**
+ * The OpenAPI document, built on first use; the schemas do not change while
+ * the server runs.
+ */
+export function openApiDocument() {
+  if (document) return document;
+
+  const paths: Record<string, Partial<Record<Method, unknown>>> = {};
+  for (const endpoint of ENDPOINTS) {
+    paths[endpoint.path] ??= {};
+    paths[endpoint.path][endpoint.method] = operation(endpoint);
+  }
+
+  document = {
+    openapi: "3.1.0",
+    info: {
+      title: "DeskVault API",
+      version: "1",
+      description:
+        "Every JSON response is in one envelope: { data, message?, requestId } on success, { error: { code, message, fields? }, requestId } on failure; files and CSV exports are sent as they are. Each operation's x-permission names the permission the caller's role needs, and which an API key needs among its scopes. Operations without one are open to anyone signed in, and those with an empty security list to anyone at all.",
+    },
+    servers: [{ url: "/" }],
+    security: [{ session: [] }, { apiKey: [] }],
+    tags: [...new Set(ENDPOINTS.map((endpoint) => endpoint.tag))].map(
+      (name) => ({ name })
+    ),
+    paths,
+    components: {
+      securitySchemes: {
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: SESSION_COOKIE,
+          description: "Set by POST /api/auth/login",
+        },
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "An API key created by an owner on the API Keys page",
+        },
+      },
+    },
+  };
+  return document;
+}
@@ -0,0 +1,38 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (err, key) =>
+      err ? reject(err) : resolve(key)
+    );
+  });
+}
+
+/**
+ * Hashes a password with scrypt and a random salt.
+ * The result has the form `scrypt$<salt hex>$<key hex>`.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+/**
+ * Checks a password against a hash produced by `hashPassword`, comparing in
+ * constant time.
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [scheme, saltHex, keyHex] = storedHash.split("$");
+  if (scheme !== "scrypt" || !saltHex || !keyHex) return false;
+
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await deriveKey(password, Buffer.from(saltHex, "hex"));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
@@ -0,0 +1,277 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from "pdf-lib";
+
+// --- PDF layout ---
+// A small top-to-bottom layout helper over pdf-lib for the document
+// templates in documents.ts. Text is set in the standard Helvetica fonts, so
+// characters they cannot encode are replaced rather than failing the render.
+
+export type PageLayout = {
+  width: number; // Points
+  height: number;
+  margin: number;
+  fontSize: number;
+  roll?: boolean; // Receipt paper: one page, trimmed to the content
+};
+
+export const A4: PageLayout = {
+  width: 595.28,
+  height: 841.89,
+  margin: 48,
+  fontSize: 10,
+};
+
+// 80 mm receipt roll; the page is cut to length once the content is drawn
+export const RECEIPT_ROLL: PageLayout = {
+  width: 226.77,
+  height: 5000,
+  margin: 12,
+  fontSize: 8,
+  roll: true,
+};
+
+export type Align = "left" | "center" | "right";
+
+export type Cell = {
+  text: string;
+  width: number; // Fraction of the content width
+  align?: Align;
+  bold?: boolean;
+};
+
+const MUTED = rgb(0.4, 0.4, 0.4);
+const BLACK = rgb(0, 0, 0);
+
+/**
+ * Replaces characters the standard PDF fonts cannot encode (WinAnsi) so
+ * names in other scripts do not break the document.
+ */
+function encodable(text: string): string {
+  return text
+    .replace(/[\r\n\t]+/g, " ")
+    .replace(/[^\x20-\x7E\xA0-\xFF–—‘’“”•€]/g, "?");
+}
+
+export class PdfWriter {
+  private page: PDFPage;
+  private y: number;
+
+  private constructor(
+    private readonly doc: PDFDocument,
+    private readonly layout: PageLayout,
+    private readonly font: PDFFont,
+    private readonly bold: PDFFont
+  ) {
+    this.page = doc.addPage([layout.width, layout.height]);
+    this.y = layout.height - layout.margin;
+  }
+
+  static async create(layout: PageLayout, title: string): Promise<PdfWriter> {
+    const doc = await PDFDocument.create();
+    doc.setTitle(title);
+    doc.setCreator("DeskVault");
+    // Fixed dates so the same document always renders to the same bytes
+    doc.setCreationDate(new Date(0));
+    doc.setModificationDate(new Date(0));
+    const font = await doc.embedFont(StandardFonts.Helvetica);
+    const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+    return new PdfWriter(doc, layout, font, bold);
+  }
+
+  private get contentWidth() {
+    return this.layout.width - this.layout.margin * 2;
+  }
+
+  /**
+   * Starts a new page when fewer than `height` points are left. Receipt
+   * rolls never break.
+   */
+  private ensureSpace(height: number) {
+    if (this.layout.roll || this.y - height >= this.layout.margin) return;
+    this.page = this.doc.addPage([this.layout.width, this.layout.height]);
+    this.y = this.layout.height - this.layout.margin;
+  }
+
+  /**
+   * Shortens `text` with an ellipsis until it fits in `width`.
+   */
+  private fit(text: string, font: PDFFont, size: number, width: number) {
+    let fitted = encodable(text);
+    if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+    while (
+      fitted.length > 0 &&
+      font.widthOfTextAtSize(`${fitted}...`, size) > width
+    ) {
+      fitted = fitted.slice(0, -1);
+    }
+    return `${fitted}...`;
+  }
+
+  private draw(
+    text: string,
+    x: number,
+    width: number,
+    options: { size: number; bold?: boolean; align?: Align; muted?: boolean }
+  ) {
+    const font = options.bold ? this.bold : this.font;
+    const fitted = this.fit(text, font, options.size, width);
+    const textWidth = font.widthOfTextAtSize(fitted, options.size);
+    const offset =
+      options.align === "right"
+        ? width - textWidth
+        : options.align === "center"
+          ? (width - textWidth) / 2
+          : 0;
+    this.page.drawText(fitted, {
+      x: x + offset,
+      y: this.y - options.size,
+      size: options.size,
+      font,
+      color: options.muted ? MUTED : BLACK,
+    });
+  }
+
+  /**
+   * Writes one line of text, wrapping onto further lines when `wrap` is set.
+   */
+  text(
+    text: string,
+    options: {
+      size?: number;
+      bold?: boolean;
+      align?: Align;
+      muted?: boolean;
+      wrap?: boolean;
+    } = {}
+  ) {
+    const size = options.size ?? this.layout.fontSize;
+    const lines = options.wrap
+      ? this.wrap(text, options.bold ? this.bold : this.font, size)
+      : [text];
+    for (const line of lines) {
+      this.ensureSpace(size * 1.4);
+      this.draw(line, this.layout.margin, this.contentWidth, {
+        ...options,
+        size,
+      });
+      this.y -= size * 1.4;
+    }
+  }
+
+  /**
+   * Splits text into lines that fit the content width, keeping any line
+   * breaks it already has.
+   */
+  private wrap(text: string, font: PDFFont, size: number): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (
+          line &&
+          font.widthOfTextAtSize(encodable(candidate), size) > this.contentWidth
+        ) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Writes a row of cells side by side, each truncated to its width.
+   */
+  row(cells: Cell[], options: { size?: number; muted?: boolean } = {}) {
+    const size = options.size ?? this.layout.fontSize;
+    this.ensureSpace(size * 1.5);
+    let x = this.layout.margin;
+    for (const cell of cells) {
+      const width = cell.width * this.contentWidth;
+      this.draw(cell.text, x, width - 4, {
+        size,
+        bold: cell.bold,
+        align: cell.align,
+        muted: options.muted,
+      });
+      x += width;
+    }
+    this.y -= size * 1.5;
+  }
+
+  /** Draws a horizontal rule across the content width. */
+  rule() {
+    this.ensureSpace(8);
+    this.y -= 3;
+    this.page.drawLine({
+      start: { x: this.layout.margin, y: this.y },
+      end: { x: this.layout.width - this.layout.margin, y: this.y },
+      thickness: 0.5,
+      color: MUTED,
+    });
+    this.y -= 5;
+  }
+
+  /** Leaves `points` of blank space. */
+  space(points: number) {
+    this.y -= points;
+  }
+
+  /**
+   * Draws a PNG or JPEG image scaled to fit `maxWidth` by `maxHeight`.
+   * Images that cannot be decoded are skipped.
+   */
+  async image(
+    bytes: Uint8Array,
+    type: "png" | "jpeg",
+    maxWidth: number,
+    maxHeight: number,
+    align: Align = "left"
+  ) {
+    let image: PDFImage;
+    try {
+      image =
+        type === "png"
+          ? await this.doc.embedPng(bytes)
+          : await this.doc.embedJpg(bytes);
+    } catch {
+      return;
+    }
+    const { width, height } = image.scaleToFit(maxWidth, maxHeight);
+    this.ensureSpace(height + 4);
+    const x =
+      align === "right"
+        ? this.layout.width - this.layout.margin - width
+        : align === "center"
+          ? (this.layout.width - width) / 2
+          : this.layout.margin;
+    this.page.drawImage(image, { x, y: this.y - height, width, height });
+    this.y -= height + 4;
+  }
+
+  /**
+   * Finishes the document. A receipt roll is cut just below its content.
+   */
+  async save(): Promise<Uint8Array> {
+    if (this.layout.roll) {
+      const used = this.layout.height - this.y + this.layout.margin;
+      this.page.setMediaBox(
+        0,
+        this.layout.height - used,
+        this.layout.width,
+        used
+      );
+    }
+    return this.doc.save();
+  }
+}
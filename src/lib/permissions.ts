@@ -0,0 +1,126 @@
+// --- Role-based permissions ---
+// Shared by the API routes, which enforce them, and the UI, which hides what
+// the current role cannot do. The server is always the authority.
+
+import type { Role, SessionUser } from "./types";
+
+export const ROLES: Role[] = ["owner", "manager", "cashier"];
+
+export type Permission =
+  | "products:read"
+  | "products:write"
+  | "products:price" // Change a product's cost, selling or minimum price
+  | "products:delete"
+  | "transactions:read"
+  | "transactions:write"
+  | "transactions:manage" // Edit or delete recorded transactions
+  | "sales:approve" // Approve discounts over a cashier's limit and sales below cost
+  | "partners:read"
+  | "partners:write"
+  | "partners:delete"
+  | "payments:read" // Partner balances and statements
+  | "payments:write"
+  | "purchase-orders:read"
+  | "purchase-orders:receive" // Book goods in against a sent order
+  | "purchase-orders:write" // Create, send and close orders
+  | "expenses:read"
+  | "expenses:write"
+  | "reports:read"
+  | "audit:read"
+  | "users:manage"
+  | "settings:manage"
+  | "api-keys:manage"; // Create and revoke API keys
+
+const CASHIER_PERMISSIONS: Permission[] = [
+  "products:read",
+  "products:write",
+  "transactions:read",
+  "transactions:write",
+  "partners:read",
+  "partners:write",
+  "payments:read",
+  "payments:write",
+  "purchase-orders:read",
+  "purchase-orders:receive",
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...CASHIER_PERMISSIONS,
+  "products:price",
+  "products:delete",
+  "transactions:manage",
+  "sales:approve",
+  "partners:delete",
+  "purchase-orders:write",
+  "expenses:read",
+  "expenses:write",
+  "reports:read",
+  "audit:read",
+];
+
+const OWNER_PERMISSIONS: Permission[] = [
+  ...MANAGER_PERMISSIONS,
+  "users:manage",
+  "settings:manage",
+  "api-keys:manage",
+];
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: OWNER_PERMISSIONS,
+  manager: MANAGER_PERMISSIONS,
+  cashier: CASHIER_PERMISSIONS,
+};
+
+export function hasPermission(
+  role: Role | null | undefined,
+  permission: Permission
+): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
+
+// What an API key may be allowed to do. Managing staff, settings and keys
+// takes a signed-in owner.
+export const API_KEY_SCOPES: Permission[] = [
+  "products:read",
+  "products:write",
+  "products:price",
+  "products:delete",
+  "transactions:read",
+  "transactions:write",
+  "transactions:manage",
+  "sales:approve",
+  "partners:read",
+  "partners:write",
+  "partners:delete",
+  "payments:read",
+  "payments:write",
+  "purchase-orders:read",
+  "purchase-orders:receive",
+  "purchase-orders:write",
+  "expenses:read",
+  "expenses:write",
+  "reports:read",
+  "audit:read",
+];
+
+/**
+ * Whether the caller of a request may do something: their role must grant
+ * it and, for a request made with an API key, so must the key's scopes.
+ */
+export function callerCan(
+  caller: Pick<SessionUser, "role" | "apiKey">,
+  permission: Permission
+): boolean {
+  return (
+    hasPermission(caller.role, permission) &&
+    (!caller.apiKey || caller.apiKey.scopes.includes(permission))
+  );
+}
+
+/**
+ * The page a user lands on after signing in: Reports when they may see it,
+ * otherwise Inventory.
+ */
+export function homePathFor(role: Role | null | undefined): string {
+  return hasPermission(role, "reports:read") ? "/reports" : "/inventory";
+}
@@ -0,0 +1,65 @@
+import { db } from "./database";
+import type { PriceHistoryEntry, SessionUser } from "./types";
+
+// --- Price history ---
+
+type Prices = {
+  cost_price: number;
+  sell_price: number;
+  min_price: number | null;
+};
+
+/**
+ * Adds a history entry when a product's prices differ from its latest one.
+ * Call it after writing the product, inside the same database transaction.
+ */
+export function recordPriceChange(actor: SessionUser, productId: string) {
+  const current = db
+    .prepare(
+      "SELECT cost_price, sell_price, min_price FROM products WHERE id = ?"
+    )
+    .get(productId) as Prices | undefined;
+  if (!current) return;
+
+  const last = db
+    .prepare(
+      `SELECT cost_price, sell_price, min_price FROM price_history
+       WHERE product_id = ? ORDER BY changed_at DESC, id DESC LIMIT 1`
+    )
+    .get(productId) as Prices | undefined;
+  if (
+    last &&
+    last.cost_price === current.cost_price &&
+    last.sell_price === current.sell_price &&
+    last.min_price === current.min_price
+  ) {
+    return;
+  }
+
+  db.prepare(
+    `INSERT INTO price_history (product_id, cost_price, sell_price, min_price, changed_by, changed_at)
+     VALUES (?, ?, ?, ?, ?, ?)`
+  ).run(
+    productId,
+    current.cost_price,
+    current.sell_price,
+    current.min_price,
+    actor.id,
+    new Date().toISOString()
+  );
+}
+
+/**
+ * Lists a product's price changes, oldest first.
+ */
+export function getPriceHistory(productId: string): PriceHistoryEntry[] {
+  return db
+    .prepare(
+      `SELECT h.*, u.name AS changed_by_name
+       FROM price_history h
+       LEFT JOIN users u ON u.id = h.changed_by
+       WHERE h.product_id = ?
+       ORDER BY h.changed_at ASC, h.id ASC`
+    )
+    .all(productId) as PriceHistoryEntry[];
+}
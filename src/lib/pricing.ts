@@ -0,0 +1,237 @@
+import { db } from "./database";
+import { getSettings } from "./settings";
+import { callerCan, hasPermission } from "./permissions";
+import { authenticateUser } from "./users";
+import type { Discount, SessionUser } from "./types";
+
+// --- Discounts and price overrides ---
+// A sale line starts from the product's list price. The cashier may ring it
+// up at a different unit price (an override), take a discount off the line
+// and take a discount off the whole sale. Any such change needs a reason.
+// Whatever ends up below the list price is the sale's discount, which is
+// capped per role, and selling below cost or below the product's minimum
+// price needs a manager's approval.
+
+/**
+ * Raised when a sale's pricing is not allowed. `code` is a stable identifier
+ * the API routes pass on to the client, which asks for a manager's approval
+ * on DISCOUNT_LIMIT_EXCEEDED, BELOW_COST and BELOW_MIN_PRICE.
+ */
+export class PricingError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "PRODUCT_NOT_FOUND"
+      | "INVALID_DISCOUNT"
+      | "REASON_REQUIRED"
+      | "DISCOUNT_LIMIT_EXCEEDED"
+      | "BELOW_COST"
+      | "BELOW_MIN_PRICE"
+      | "APPROVAL_INVALID"
+  ) {
+    super(message);
+    this.name = "PricingError";
+  }
+}
+
+export type PricingLineInput = {
+  productId: string;
+  quantity: number;
+  price?: number; // Unit price rung up; defaults to the list price
+  discount?: Discount | null;
+};
+
+export type PricedLine = {
+  productId: string;
+  quantity: number;
+  listPrice: number; // Per unit
+  costPrice: number; // Per unit
+  minPrice: number | null; // Per unit
+  unitPrice: number; // Charged per unit, after every discount
+  total: number; // Charged for the line
+  discountAmount: number; // List total less the amount charged; never negative
+  overridden: boolean; // Charged anything other than the list total
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * The amount a discount takes off `amount`.
+ */
+function discountOff(amount: number, discount?: Discount | null): number {
+  if (!discount || discount.value === 0) return 0;
+  const off =
+    discount.type === "percent"
+      ? round((amount * discount.value) / 100)
+      : discount.value;
+  if (off > amount || (discount.type === "percent" && discount.value > 100)) {
+    throw new PricingError(
+      "A discount cannot be more than the amount it applies to.",
+      "INVALID_DISCOUNT"
+    );
+  }
+  return off;
+}
+
+/**
+ * The list, cost and minimum price of a product.
+ */
+function productPrices(productId: string) {
+  const product = db
+    .prepare(
+      "SELECT sell_price, cost_price, min_price FROM products WHERE id = ?"
+    )
+    .get(productId) as
+    | { sell_price: number; cost_price: number; min_price: number | null }
+    | undefined;
+  if (!product) {
+    throw new PricingError("Product not found.", "PRODUCT_NOT_FOUND");
+  }
+  return {
+    listPrice: product.sell_price,
+    costPrice: product.cost_price,
+    minPrice: product.min_price,
+  };
+}
+
+/**
+ * Works out what each line is charged. Line discounts come off first; the
+ * sale discount then comes off what is left, spread across the lines in
+ * proportion to their amounts. The last line takes any rounding remainder
+ * so the lines add up to the discounted sale total.
+ */
+export function priceLines(
+  lines: PricingLineInput[],
+  saleDiscount?: Discount | null
+): PricedLine[] {
+  const afterLine = lines.map((line) => {
+    const prices = productPrices(line.productId);
+    const gross = round((line.price ?? prices.listPrice) * line.quantity);
+    return {
+      line,
+      prices,
+      amount: round(gross - discountOff(gross, line.discount)),
+    };
+  });
+
+  const subtotal = round(afterLine.reduce((sum, l) => sum + l.amount, 0));
+  const saleOff = discountOff(subtotal, saleDiscount);
+  let remaining = saleOff;
+
+  return afterLine.map(({ line, prices, amount }, index) => {
+    const share =
+      index === afterLine.length - 1
+        ? remaining
+        : subtotal
+          ? round((saleOff * amount) / subtotal)
+          : 0;
+    remaining = round(remaining - share);
+    const total = round(amount - share);
+    return {
+      productId: line.productId,
+      quantity: line.quantity,
+      listPrice: prices.listPrice,
+      costPrice: prices.costPrice,
+      minPrice: prices.minPrice,
+      unitPrice: total / line.quantity,
+      total,
+      discountAmount: Math.max(
+        0,
+        round(prices.listPrice * line.quantity - total)
+      ),
+      overridden: total !== round(prices.listPrice * line.quantity),
+    };
+  });
+}
+
+/**
+ * Checks priced lines against the shop's rules for `actor`, returning the
+ * id of the user who approved the pricing, or null when no approval was
+ * needed. A discount up to the actor's limit only needs a reason; going
+ * further, or selling any line below cost or its minimum price, needs
+ * `approver` (or an actor who may approve sales themselves).
+ */
+export function checkPricing(
+  actor: SessionUser,
+  approver: SessionUser | null,
+  lines: PricedLine[],
+  reason?: string | null
+): string | null {
+  const { maxDiscountPercent } = getSettings();
+  const listTotal = lines.reduce((sum, l) => sum + l.listPrice * l.quantity, 0);
+  const discount = round(lines.reduce((sum, l) => sum + l.discountAmount, 0));
+  const belowCost = lines.some(
+    (l) => l.total < round(l.costPrice * l.quantity)
+  );
+  const belowMin = lines.some(
+    (l) => l.minPrice !== null && l.total < round(l.minPrice * l.quantity)
+  );
+  if (lines.some((l) => l.overridden) && !reason?.trim()) {
+    throw new PricingError(
+      "Give a reason for charging other than the list price.",
+      "REASON_REQUIRED"
+    );
+  }
+  if (discount === 0 && !belowCost && !belowMin) return null;
+
+  // A manager who approves the sale lends it their own limit
+  const authority =
+    approver ?? (callerCan(actor, "sales:approve") ? actor : null);
+  const percent = listTotal ? (discount / listTotal) * 100 : 0;
+  const ownLimit = maxDiscountPercent[actor.role];
+  let approvedBy: string | null = null;
+
+  if (percent > ownLimit) {
+    const limit = approver ? maxDiscountPercent[approver.role] : ownLimit;
+    if (percent > limit) {
+      throw new PricingError(
+        `A discount of ${percent.toFixed(1)}% is over the ${limit}% limit${
+          approver ? " for the approving user" : "; a manager must approve it"
+        }.`,
+        "DISCOUNT_LIMIT_EXCEEDED"
+      );
+    }
+    approvedBy = approver!.id;
+  }
+
+  if (belowCost || belowMin) {
+    if (!authority) {
+      throw belowCost
+        ? new PricingError(
+            "This sale is below cost; a manager must approve it.",
+            "BELOW_COST"
+          )
+        : new PricingError(
+            "This sale is below the minimum price; a manager must approve it.",
+            "BELOW_MIN_PRICE"
+          );
+    }
+    approvedBy = authority.id;
+  }
+  return approvedBy;
+}
+
+/**
+ * Checks a manager's credentials given at the till to approve a sale.
+ * Returns null when no approval was given.
+ */
+export async function resolveApprover(
+  approval: unknown
+): Promise<SessionUser | null> {
+  if (approval === undefined || approval === null) return null;
+  const { email, password } = approval as {
+    email?: unknown;
+    password?: unknown;
+  };
+  const approver =
+    typeof email === "string" && typeof password === "string"
+      ? await authenticateUser(email, password)
+      : null;
+  if (!approver || !hasPermission(approver.role, "sales:approve")) {
+    throw new PricingError(
+      "Approval needs the email and password of a manager or owner.",
+      "APPROVAL_INVALID"
+    );
+  }
+  return approver;
+}
@@ -0,0 +1,513 @@
+import { randomUUID } from "crypto";
+import { db } from "./database";
+import { recordAudit, snapshot } from "./audit";
+import { adjustStock, insertTransaction } from "./sales";
+import { insertPayment, spreadPayment } from "./accounts";
+import type {
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+  SessionUser,
+} from "./types";
+
+// --- Purchase orders ---
+// Ordering stock does not touch inventory. Stock only moves when goods are
+// received, and every receipt is booked as ordinary purchase transactions so
+// costing and reports see it like any other purchase.
+
+/**
+ * Raised when a purchase order operation cannot be honoured. `code` is a
+ * stable identifier the API routes pass on to the client.
+ */
+export class PurchaseOrderError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | "PURCHASE_ORDER_NOT_FOUND"
+      | "PARTNER_NOT_FOUND"
+      | "PARTNER_NOT_A_VENDOR"
+      | "PRODUCT_NOT_FOUND"
+      | "LINE_NOT_FOUND"
+      | "INVALID_LINES"
+      | "INVALID_STATUS"
+      | "QUANTITY_EXCEEDS_BACKORDER"
+  ) {
+    super(message);
+    this.name = "PurchaseOrderError";
+  }
+}
+
+export type PurchaseOrderLineInput = {
+  productId: string;
+  quantity: number;
+  unitCost: number;
+};
+
+export type PurchaseOrderInput = {
+  partnerId: string;
+  expectedDate?: string | null; // YYYY-MM-DD
+  notes?: string | null;
+  lines: PurchaseOrderLineInput[];
+};
+
+export type ReceiptInput = {
+  date: string;
+  lines: { lineId: string; quantity: number }[];
+  amountPaid?: number; // Paid to the vendor on delivery; the rest is owed
+};
+
+type OrderRow = {
+  id: string;
+  partner_id: string;
+  status: PurchaseOrderStatus;
+};
+
+type VendorRow = {
+  id: string;
+  name: string;
+  phone: string;
+  shop_name: string | null;
+};
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "a draft",
+  sent: "sent",
+  partially_received: "partially received",
+  received: "received",
+  closed: "closed",
+};
+
+// Receipts and closing are only possible once the order has gone out
+const OPEN_STATUSES: PurchaseOrderStatus[] = ["sent", "partially_received"];
+
+/**
+ * The order header together with its lines, used as the audit image so a
+ * change to the lines shows up in the order's history.
+ */
+function orderSnapshot(orderId: string) {
+  const order = snapshot("purchase_order", orderId);
+  if (!order) return null;
+  const lines = db
+    .prepare(
+      "SELECT product_id, quantity, received_quantity, unit_cost FROM purchase_order_lines WHERE purchase_order_id = ? ORDER BY rowid"
+    )
+    .all(orderId);
+  return { ...order, lines };
+}
+
+function getVendor(partnerId: string): VendorRow {
+  const partner = db
+    .prepare(
+      "SELECT id, type, name, phone, shop_name FROM partners WHERE id = ? AND deleted_at IS NULL"
+    )
+    .get(partnerId) as (VendorRow & { type: string }) | undefined;
+  if (!partner) {
+    throw new PurchaseOrderError("Vendor not found.", "PARTNER_NOT_FOUND");
+  }
+  if (partner.type !== "shop") {
+    throw new PurchaseOrderError(
+      "Purchase orders can only be raised against shop partners.",
+      "PARTNER_NOT_A_VENDOR"
+    );
+  }
+  return partner;
+}
+
+/**
+ * Loads an order and checks it is in one of the `allowed` states.
+ */
+function getOrder(
+  orderId: string,
+  allowed: PurchaseOrderStatus[],
+  action: string
+): OrderRow {
+  const order = db
+    .prepare("SELECT id, partner_id, status FROM purchase_orders WHERE id = ?")
+    .get(orderId) as OrderRow | undefined;
+  if (!order) {
+    throw new PurchaseOrderError(
+      "Purchase order not found.",
+      "PURCHASE_ORDER_NOT_FOUND"
+    );
+  }
+  if (!allowed.includes(order.status)) {
+    throw new PurchaseOrderError(
+      `Cannot ${action} a purchase order that is ${STATUS_LABELS[order.status]}.`,
+      "INVALID_STATUS"
+    );
+  }
+  return order;
+}
+
+/**
+ * Checks order lines against the catalogue. Products tracked by IMEI are
+ * single units, so they can only be ordered one at a time.
+ */
+function validateLines(lines: PurchaseOrderLineInput[]) {
+  if (lines.length === 0) {
+    throw new PurchaseOrderError(
+      "A purchase order needs at least one line.",
+      "INVALID_LINES"
+    );
+  }
+  const seen = new Set<string>();
+  for (const line of lines) {
+    if (seen.has(line.productId)) {
+      throw new PurchaseOrderError(
+        "Each product can only appear once on a purchase order.",
+        "INVALID_LINES"
+      );
+    }
+    seen.add(line.productId);
+
+    const product = db
+      .prepare(
+        "SELECT type, name FROM products WHERE id = ? AND deleted_at IS NULL"
+      )
+      .get(line.productId) as { type: string; name: string } | undefined;
+    if (!product) {
+      throw new PurchaseOrderError("Product not found.", "PRODUCT_NOT_FOUND");
+    }
+    if (product.type === "individual" && line.quantity !== 1) {
+      throw new PurchaseOrderError(
+        `${product.name} is tracked by IMEI and can only be ordered one unit at a time.`,
+        "INVALID_LINES"
+      );
+    }
+  }
+}
+
+function insertLines(orderId: string, lines: PurchaseOrderLineInput[]) {
+  const stmt = db.prepare(
+    `INSERT INTO purchase_order_lines (id, purchase_order_id, product_id, quantity, unit_cost)
+     VALUES (?, ?, ?, ?, ?)`
+  );
+  for (const line of lines) {
+    stmt.run(
+      randomUUID(),
+      orderId,
+      line.productId,
+      line.quantity,
+      line.unitCost
+    );
+  }
+}
+
+const createOrderTx = db.transaction(
+  (actor: SessionUser, input: PurchaseOrderInput) => {
+    getVendor(input.partnerId);
+    validateLines(input.lines);
+
+    const orderId = randomUUID();
+    db.prepare(
+      `INSERT INTO purchase_orders (id, partner_id, expected_date, notes, created_by)
+       VALUES (?, ?, ?, ?, ?)`
+    ).run(
+      orderId,
+      input.partnerId,
+      input.expectedDate || null,
+      input.notes || null,
+      actor.id
+    );
+    insertLines(orderId, input.lines);
+
+    recordAudit(actor, {
+      entity: "purchase_order",
+      entityId: orderId,
+      action: "create",
+      after: orderSnapshot(orderId),
+    });
+    return orderId;
+  }
+);
+
+const updateOrderTx = db.transaction(
+  (actor: SessionUser, orderId: string, input: PurchaseOrderInput) => {
+    getOrder(orderId, ["draft"], "edit");
+    getVendor(input.partnerId);
+    validateLines(input.lines);
+
+    const before = orderSnapshot(orderId);
+    db.prepare(
+      `UPDATE purchase_orders
+       SET partner_id = ?, expected_date = ?, notes = ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).run(
+      input.partnerId,
+      input.expectedDate || null,
+      input.notes || null,
+      orderId
+    );
+    db.prepare(
+      "DELETE FROM purchase_order_lines WHERE purchase_order_id = ?"
+    ).run(orderId);
+    insertLines(orderId, input.lines);
+
+    recordAudit(actor, {
+      entity: "purchase_order",
+      entityId: orderId,
+      action: "update",
+      before,
+      after: orderSnapshot(orderId),
+    });
+  }
+);
+
+const deleteOrderTx = db.transaction((actor: SessionUser, orderId: string) => {
+  getOrder(orderId, ["draft"], "delete");
+  const before = orderSnapshot(orderId);
+  db.prepare("DELETE FROM purchase_orders WHERE id = ?").run(orderId);
+  recordAudit(actor, {
+    entity: "purchase_order",
+    entityId: orderId,
+    action: "delete",
+    before,
+  });
+});
+
+const setStatusTx = db.transaction(
+  (
+    actor: SessionUser,
+    orderId: string,
+    status: "sent" | "closed",
+    allowed: PurchaseOrderStatus[]
+  ) => {
+    getOrder(orderId, allowed, status === "sent" ? "send" : "close");
+    const before = orderSnapshot(orderId);
+    const timestampColumn = status === "sent" ? "sent_at" : "closed_at";
+    db.prepare(
+      `UPDATE purchase_orders
+       SET status = ?, ${timestampColumn} = CURRENT_TIMESTAMP, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ?`
+    ).run(status, orderId);
+    recordAudit(actor, {
+      entity: "purchase_order",
+      entityId: orderId,
+      action: "update",
+      before,
+      after: orderSnapshot(orderId),
+    });
+  }
+);
+
+const receiveTx = db.transaction(
+  (actor: SessionUser, orderId: string, input: ReceiptInput) => {
+    const order = getOrder(orderId, OPEN_STATUSES, "receive goods on");
+    const vendor = getVendor(order.partner_id);
+    const before = orderSnapshot(orderId);
+
+    if (input.lines.length === 0) {
+      throw new PurchaseOrderError(
+        "Enter a received quantity for at least one line.",
+        "INVALID_LINES"
+      );
+    }
+
+    const received: { transaction_id: string; outstanding: number }[] = [];
+    for (const receipt of input.lines) {
+      const line = db
+        .prepare(
+          "SELECT * FROM purchase_order_lines WHERE id = ? AND purchase_order_id = ?"
+        )
+        .get(receipt.lineId, orderId) as
+        | {
+            id: string;
+            product_id: string;
+            quantity: number;
+            received_quantity: number;
+            unit_cost: number;
+          }
+        | undefined;
+      if (!line) {
+        throw new PurchaseOrderError(
+          "Purchase order line not found.",
+          "LINE_NOT_FOUND"
+        );
+      }
+      const backordered = line.quantity - line.received_quantity;
+      if (receipt.quantity > backordered) {
+        throw new PurchaseOrderError(
+          `Only ${backordered} units are still expected on this line.`,
+          "QUANTITY_EXCEEDS_BACKORDER"
+        );
+      }
+
+      const { imei } = adjustStock(actor, line.product_id, receipt.quantity);
+      const { id: transactionId, totalAmount } = insertTransaction(actor, {
+        productId: line.product_id,
+        type: "purchase",
+        quantity: receipt.quantity,
+        price: line.unit_cost,
+        imei,
+        date: input.date,
+        partnerId: vendor.id,
+        party: vendor.name,
+        partyPhone: vendor.phone,
+        partyShop: vendor.shop_name,
+        purchaseOrderId: orderId,
+      });
+      received.push({
+        transaction_id: transactionId,
+        outstanding: totalAmount,
+      });
+      db.prepare(
+        "UPDATE purchase_order_lines SET received_quantity = received_quantity + ? WHERE id = ?"
+      ).run(receipt.quantity, line.id);
+    }
+
+    const { outstanding } = db
+      .prepare(
+        "SELECT COALESCE(SUM(quantity - received_quantity), 0) AS outstanding FROM purchase_order_lines WHERE purchase_order_id = ?"
+      )
+      .get(orderId) as { outstanding: number };
+    db.prepare(
+      "UPDATE purchase_orders SET status = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?"
+    ).run(outstanding === 0 ? "received" : "partially_received", orderId);
+
+    recordAudit(actor, {
+      entity: "purchase_order",
+      entityId: orderId,
+      action: "update",
+      before,
+      after: orderSnapshot(orderId),
+    });
+
+    if (input.amountPaid) {
+      insertPayment(actor, {
+        partnerId: vendor.id,
+        direction: "out",
+        amount: input.amountPaid,
+        date: input.date,
+        allocations: spreadPayment(input.amountPaid, received),
+      });
+    }
+    return received.map((item) => item.transaction_id);
+  }
+);
+
+/**
+ * Creates a draft purchase order to a vendor.
+ */
+export function createPurchaseOrder(
+  actor: SessionUser,
+  input: PurchaseOrderInput
+) {
+  return createOrderTx(actor, input);
+}
+
+/**
+ * Replaces the vendor, details and lines of a draft order.
+ */
+export function updatePurchaseOrder(
+  actor: SessionUser,
+  orderId: string,
+  input: PurchaseOrderInput
+) {
+  updateOrderTx(actor, orderId, input);
+}
+
+/**
+ * Deletes a draft order. Orders that have been sent are closed instead.
+ */
+export function deletePurchaseOrder(actor: SessionUser, orderId: string) {
+  deleteOrderTx(actor, orderId);
+}
+
+/**
+ * Marks a draft order as sent to the vendor, after which it can no longer
+ * be edited.
+ */
+export function sendPurchaseOrder(actor: SessionUser, orderId: string) {
+  setStatusTx(actor, orderId, "sent", ["draft"]);
+}
+
+/**
+ * Closes an order. Anything still backordered is no longer expected.
+ */
+export function closePurchaseOrder(actor: SessionUser, orderId: string) {
+  setStatusTx(actor, orderId, "closed", [...OPEN_STATUSES, "received"]);
+}
+
+/**
+ * Books in goods received against a sent order: stock goes up and a
+ * purchase transaction is written for each line at the order's unit cost.
+ * Anything not paid on delivery is owed to the vendor.
+ * Runs under BEGIN IMMEDIATE like the other stock-affecting operations.
+ */
+export function receivePurchaseOrder(
+  actor: SessionUser,
+  orderId: string,
+  input: ReceiptInput
+) {
+  return receiveTx.immediate(actor, orderId, input);
+}
+
+// Totals per order; backorders stop counting once the order is closed
+const ORDER_SELECT = `
+  SELECT
+    po.*,
+    pa.name AS partner_name,
+    pa.shop_name AS partner_shop,
+    COALESCE(SUM(l.quantity), 0) AS ordered_quantity,
+    COALESCE(SUM(l.received_quantity), 0) AS received_quantity,
+    CASE WHEN po.status = 'closed' THEN 0
+      ELSE COALESCE(SUM(l.quantity - l.received_quantity), 0) END AS backordered,
+    COALESCE(SUM(l.quantity * l.unit_cost), 0) AS total_cost,
+    COALESCE(SUM(l.received_quantity * l.unit_cost), 0) AS received_cost
+  FROM purchase_orders po
+  JOIN partners pa ON pa.id = po.partner_id
+  LEFT JOIN purchase_order_lines l ON l.purchase_order_id = po.id
+`;
+
+/**
+ * Lists purchase orders, newest first, with expected and received totals.
+ */
+export function listPurchaseOrders(filters: {
+  status?: PurchaseOrderStatus;
+  partnerId?: string;
+}): PurchaseOrder[] {
+  let whereClause = "WHERE 1 = 1";
+  const params: unknown[] = [];
+
+  if (filters.status) {
+    whereClause += " AND po.status = ?";
+    params.push(filters.status);
+  }
+  if (filters.partnerId) {
+    whereClause += " AND po.partner_id = ?";
+    params.push(filters.partnerId);
+  }
+
+  return db
+    .prepare(
+      `${ORDER_SELECT} ${whereClause} GROUP BY po.id ORDER BY po.created_at DESC`
+    )
+    .all(...params) as PurchaseOrder[];
+}
+
+/**
+ * Loads a single order with its lines, or null when it does not exist.
+ */
+export function getPurchaseOrder(orderId: string): PurchaseOrder | null {
+  const order = db
+    .prepare(`${ORDER_SELECT} WHERE po.id = ? GROUP BY po.id`)
+    .get(orderId) as PurchaseOrder | undefined;
+  if (!order) return null;
+
+  const lines = db
+    .prepare(
+      `SELECT
+         l.*,
+         p.name AS product_name,
+         p.type AS product_type,
+         CASE WHEN ? = 'closed' THEN 0
+           ELSE l.quantity - l.received_quantity END AS backordered
+       FROM purchase_order_lines l
+       JOIN products p ON p.id = l.product_id
+       WHERE l.purchase_order_id = ?
+       ORDER BY l.rowid`
+    )
+    .all(order.status, orderId) as PurchaseOrderLine[];
+
+  return { ...order, lines };
+}
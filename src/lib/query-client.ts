@@ -0,0 +1,258 @@
+import { apiRequest, type ApiRequestInit, type ApiResult } from "./api-client";
+
+// --- Query cache ---
+// The browser's copy of API data, shared by every page through
+// DataProvider (src/context/data-context.tsx). Each query is a GET URL and
+// is cached under that URL: pages asking for the same URL share one request
+// and one result, the `data` of the API's envelope. Writes go through
+// `mutate`, which marks the affected queries stale afterwards so pages
+// showing them refetch, and tells other tabs to do the same. Nothing here
+// knows about React.
+
+export type QueryState<T> = {
+  data: T | undefined;
+  error: string; // Message of the last failed fetch, "" once one succeeds
+  loading: boolean; // A request is in flight
+  updatedAt: number; // When data was last fetched, 0 before the first time
+};
+
+// Changes the cached data of every query of one endpoint, whatever its
+// parameters: ["/api/partners", update] covers "/api/partners?page=2" but
+// not "/api/partners/statement". Built with `optimisticUpdate`.
+export type OptimisticUpdate = [
+  path: string,
+  update: (data: unknown) => unknown,
+];
+
+export type MutationInit = ApiRequestInit & {
+  // URL prefixes of the queries the write can change; all by default
+  invalidates?: string[];
+  // Applied at once and rolled back if the write fails
+  optimistic?: OptimisticUpdate[];
+};
+
+type Entry = {
+  state: QueryState<unknown>;
+  promise: Promise<void> | null;
+  listeners: Set<() => void>;
+  stale: boolean;
+  generation: number; // Bumped by every invalidation
+  removeTimer: ReturnType<typeof setTimeout> | null;
+};
+
+// Cached data younger than this is shown without refetching
+const STALE_MS = 5_000;
+// Queries nobody has shown for this long are dropped
+const REMOVE_AFTER_MS = 5 * 60_000;
+// Tabs of the app tell each other about writes on this channel
+const CHANNEL = "deskvault-data";
+const ALL_QUERIES = ["/api/"];
+
+/**
+ * Builds a query URL with its parameters in a fixed order and empty ones
+ * left out, so the same query always gets the same cache key.
+ */
+export function apiUrl(
+  path: string,
+  params: Record<string, string | number | null | undefined> = {}
+): string {
+  const search = new URLSearchParams();
+  for (const key of Object.keys(params).sort()) {
+    const value = params[key];
+    if (value !== undefined && value !== null && value !== "") {
+      search.set(key, String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `${path}?${query}` : path;
+}
+
+/**
+ * An optimistic update for the queries of `path`, whose cached data has the
+ * type `T` that the pages query it as.
+ */
+export function optimisticUpdate<T>(
+  path: string,
+  update: (data: T) => T
+): OptimisticUpdate {
+  return [path, (data) => update(data as T)];
+}
+
+export class QueryClient {
+  private readonly entries = new Map<string, Entry>();
+  private readonly channel: BroadcastChannel | null;
+
+  constructor() {
+    this.channel =
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : new BroadcastChannel(CHANNEL);
+    if (this.channel) {
+      this.channel.onmessage = (event: MessageEvent<string[]>) =>
+        this.invalidate(event.data, false);
+    }
+  }
+
+  /** Stops listening to other tabs. */
+  close() {
+    this.channel?.close();
+  }
+
+  private entry(key: string): Entry {
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        state: { data: undefined, error: "", loading: false, updatedAt: 0 },
+        promise: null,
+        listeners: new Set(),
+        stale: false,
+        generation: 0,
+        removeTimer: null,
+      };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private setState(key: string, changes: Partial<QueryState<unknown>>) {
+    const entry = this.entry(key);
+    // A new object on every change, so subscribers can compare by reference
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  /** The query's current state; the same object until it changes. */
+  getState<T>(key: string): QueryState<T> {
+    return this.entry(key).state as QueryState<T>;
+  }
+
+  /**
+   * Calls `listener` whenever the query's state changes. A query keeps its
+   * data for a while after its last subscriber leaves, for pages that come
+   * back to it.
+   */
+  subscribe(key: string, listener: () => void): () => void {
+    const entry = this.entry(key);
+    if (entry.removeTimer) {
+      clearTimeout(entry.removeTimer);
+      entry.removeTimer = null;
+    }
+    entry.listeners.add(listener);
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0) {
+        entry.removeTimer = setTimeout(
+          () => this.entries.delete(key),
+          REMOVE_AFTER_MS
+        );
+      }
+    };
+  }
+
+  /**
+   * Fetches a query, sharing a request already in flight for the same URL.
+   * If the query is invalidated while its request is out, it is fetched
+   * again once that request finishes, as the answer may predate the write.
+   */
+  fetch(key: string): Promise<void> {
+    const entry = this.entry(key);
+    if (entry.promise) return entry.promise;
+
+    const generation = entry.generation;
+    this.setState(key, { loading: true });
+    entry.promise = (async () => {
+      try {
+        const result = await apiRequest(key);
+        if (result.ok) {
+          entry.stale = false;
+          this.setState(key, {
+            data: result.data,
+            error: "",
+            loading: false,
+            updatedAt: Date.now(),
+          });
+        } else {
+          this.setState(key, {
+            error: result.error.message || "Failed to load data.",
+            loading: false,
+          });
+        }
+      } catch (err) {
+        console.error(`Query error (${key}):`, err);
+        this.setState(key, {
+          error: "Network error or API failure.",
+          loading: false,
+        });
+      } finally {
+        entry.promise = null;
+      }
+      if (entry.generation !== generation && entry.listeners.size > 0) {
+        await this.fetch(key);
+      }
+    })();
+    return entry.promise;
+  }
+
+  /**
+   * Fetches a query unless its data is fresh or already on its way.
+   */
+  ensure(key: string) {
+    const entry = this.entry(key);
+    if (entry.promise) return;
+    if (entry.stale || Date.now() - entry.state.updatedAt > STALE_MS) {
+      this.fetch(key);
+    }
+  }
+
+  /**
+   * Marks the queries under the given URL prefixes stale. Those on screen
+   * are refetched now, the rest when next shown. Other tabs are told to do
+   * the same unless the news came from one of them.
+   */
+  invalidate(prefixes: string[] = ALL_QUERIES, broadcast = true) {
+    for (const [key, entry] of this.entries) {
+      if (!prefixes.some((prefix) => key.startsWith(prefix))) continue;
+      entry.stale = true;
+      entry.generation++;
+      if (entry.listeners.size > 0 && !entry.promise) this.fetch(key);
+    }
+    if (broadcast) this.channel?.postMessage(prefixes);
+  }
+
+  /**
+   * Sends a write to the API with `apiRequest` and returns its result.
+   * Optimistic updates are shown at once and undone if the write fails;
+   * either way the affected queries are invalidated afterwards, so they end
+   * up showing what the server has.
+   */
+  async mutate<T>(
+    input: string,
+    init: MutationInit = {}
+  ): Promise<ApiResult<T>> {
+    const { invalidates = ALL_QUERIES, optimistic = [], ...request } = init;
+
+    const previous: [string, unknown][] = [];
+    for (const [path, update] of optimistic) {
+      for (const [key, entry] of this.entries) {
+        if (key.split("?")[0] !== path || entry.state.data === undefined) {
+          continue;
+        }
+        previous.push([key, entry.state.data]);
+        this.setState(key, { data: update(entry.state.data) });
+      }
+    }
+    const rollBack = () =>
+      previous.forEach(([key, data]) => this.setState(key, { data }));
+
+    try {
+      const result = await apiRequest<T>(input, request);
+      if (!result.ok) rollBack();
+      return result;
+    } catch (err) {
+      rollBack();
+      throw err;
+    } finally {
+      this.invalidate(invalidates);
+    }
+  }
+}
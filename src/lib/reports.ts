@@ -0,0 +1,423 @@
+import { db } from "./database";
+import { costSales, loadStockMovements } from "./cogs";
+import { getSettings } from "./settings";
+import type {
+  ProfitSummary,
+  ReportGranularity,
+  ReportGroup,
+  ReportGroupBy,
+  ReportPeriod,
+  Report,
+  TaxReport,
+  TaxTotals,
+} from "./types";
+
+export type DateRange = {
+  from: string | null; // YYYY-MM-DD, inclusive
+  to: string | null; // YYYY-MM-DD, inclusive
+};
+
+export const GRANULARITIES: ReportGranularity[] = [
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+];
+
+export const GROUP_BY_OPTIONS: ReportGroupBy[] = [
+  "category",
+  "product",
+  "partner",
+  "transaction-type",
+  "expense-category",
+];
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * True when an ISO date or datetime falls inside the range. Only the date
+ * part is compared, so a `to` day includes everything recorded on it.
+ */
+export function inRange(date: string, { from, to }: DateRange): boolean {
+  const day = date.slice(0, 10);
+  return (!from || day >= from) && (!to || day <= to);
+}
+
+/**
+ * SQL condition restricting `column` to the range, with its parameters.
+ */
+function rangeCondition(column: string, { from, to }: DateRange) {
+  return {
+    sql: `(? IS NULL OR date(${column}) >= date(?)) AND (? IS NULL OR date(${column}) <= date(?))`,
+    params: [from, from, to, to],
+  };
+}
+
+/**
+ * SQL expression naming the period a date falls in. Weeks start on Monday.
+ */
+function periodExpression(column: string, granularity: ReportGranularity) {
+  switch (granularity) {
+    case "day":
+      return `date(${column})`;
+    case "week":
+      return `date(${column}, '-6 days', 'weekday 1')`;
+    case "month":
+      return `strftime('%Y-%m', ${column})`;
+    case "quarter":
+      return `strftime('%Y', ${column}) || '-Q' || ((CAST(strftime('%m', ${column}) AS INTEGER) + 2) / 3)`;
+    case "year":
+      return `strftime('%Y', ${column})`;
+  }
+}
+
+/**
+ * Cost of every sale ever made, keyed by transaction id, using the shop's
+ * costing method. Cost layers depend on the full purchase history, so this
+ * is never limited to the reporting period.
+ */
+function getSaleCosts(): Map<string, number> {
+  const { costingMethod } = getSettings();
+  return new Map(
+    costSales(loadStockMovements(), costingMethod).map((s) => [
+      s.transactionId,
+      s.cost,
+    ])
+  );
+}
+
+/**
+ * Gross and net profit for a period, with sales costed using the shop's
+ * costing method.
+ */
+export function getProfitSummary(
+  range: DateRange,
+  saleCosts = getSaleCosts()
+): ProfitSummary {
+  const { costingMethod } = getSettings();
+  const inPeriod = rangeCondition("date", range);
+
+  const sales = db
+    .prepare(
+      `SELECT id, net_amount FROM transactions
+       WHERE deleted_at IS NULL AND type = 'sale' AND ${inPeriod.sql}`
+    )
+    .all(...inPeriod.params) as { id: string; net_amount: number }[];
+  // Tax collected is owed to the tax authority, so revenue is net of it
+  const revenue = sales.reduce((sum, s) => sum + s.net_amount, 0);
+  const costOfGoodsSold = sales.reduce(
+    (sum, s) => sum + (saleCosts.get(s.id) ?? 0),
+    0
+  );
+
+  const { expenses } = db
+    .prepare(
+      `SELECT COALESCE(SUM(net_amount), 0) AS expenses FROM expenses
+       WHERE deleted_at IS NULL AND ${inPeriod.sql}`
+    )
+    .get(...inPeriod.params) as { expenses: number };
+
+  const { purchases } = db
+    .prepare(
+      `SELECT COALESCE(SUM(total_amount), 0) AS purchases FROM transactions
+       WHERE deleted_at IS NULL AND type = 'purchase' AND ${inPeriod.sql}`
+    )
+    .get(...inPeriod.params) as { purchases: number };
+
+  const grossProfit = revenue - costOfGoodsSold;
+
+  return {
+    from: range.from,
+    to: range.to,
+    costingMethod,
+    sales: roundMoney(revenue),
+    costOfGoodsSold: roundMoney(costOfGoodsSold),
+    grossProfit: roundMoney(grossProfit),
+    grossMargin:
+      revenue > 0 ? Math.round((grossProfit / revenue) * 1000) / 10 : null,
+    expenses: roundMoney(expenses),
+    netProfit: roundMoney(grossProfit - expenses),
+    purchases: roundMoney(purchases),
+  };
+}
+
+/**
+ * Sales, cost of goods sold, purchases and expenses per period, oldest first.
+ * Periods with no activity are omitted.
+ */
+export function getReportSeries(
+  range: DateRange,
+  granularity: ReportGranularity,
+  saleCosts = getSaleCosts()
+): ReportPeriod[] {
+  const inPeriod = rangeCondition("date", range);
+  const period = periodExpression("date", granularity);
+  const periods = new Map<string, ReportPeriod>();
+
+  const bucket = (key: string) => {
+    let row = periods.get(key);
+    if (!row) {
+      row = {
+        period: key,
+        sales: 0,
+        costOfGoodsSold: 0,
+        grossProfit: 0,
+        purchases: 0,
+        expenses: 0,
+      };
+      periods.set(key, row);
+    }
+    return row;
+  };
+
+  const totals = db
+    .prepare(
+      `SELECT ${period} AS period,
+         SUM(CASE WHEN type = 'sale' THEN net_amount ELSE 0 END) AS sales,
+         SUM(CASE WHEN type = 'purchase' THEN total_amount ELSE 0 END) AS purchases
+       FROM transactions
+       WHERE deleted_at IS NULL AND ${inPeriod.sql}
+       GROUP BY 1`
+    )
+    .all(...inPeriod.params) as {
+    period: string;
+    sales: number;
+    purchases: number;
+  }[];
+  for (const row of totals) {
+    const target = bucket(row.period);
+    target.sales = row.sales;
+    target.purchases = row.purchases;
+  }
+
+  // Sale costs come from the costing engine; SQL still assigns the periods
+  const sales = db
+    .prepare(
+      `SELECT id, ${period} AS period FROM transactions
+       WHERE deleted_at IS NULL AND type = 'sale' AND ${inPeriod.sql}`
+    )
+    .all(...inPeriod.params) as { id: string; period: string }[];
+  for (const sale of sales) {
+    bucket(sale.period).costOfGoodsSold += saleCosts.get(sale.id) ?? 0;
+  }
+
+  const expenses = db
+    .prepare(
+      `SELECT ${period} AS period, SUM(net_amount) AS expenses
+       FROM expenses
+       WHERE deleted_at IS NULL AND ${inPeriod.sql}
+       GROUP BY 1`
+    )
+    .all(...inPeriod.params) as { period: string; expenses: number }[];
+  for (const row of expenses) {
+    bucket(row.period).expenses = row.expenses;
+  }
+
+  return [...periods.values()]
+    .sort((a, b) => a.period.localeCompare(b.period))
+    .map((row) => ({
+      period: row.period,
+      sales: roundMoney(row.sales),
+      costOfGoodsSold: roundMoney(row.costOfGoodsSold),
+      grossProfit: roundMoney(row.sales - row.costOfGoodsSold),
+      purchases: roundMoney(row.purchases),
+      expenses: roundMoney(row.expenses),
+    }));
+}
+
+// Grouping key and label for each sales breakdown
+const SALES_GROUPINGS: Record<
+  "category" | "product" | "partner",
+  { key: string; label: string }
+> = {
+  category: { key: "p.category", label: "p.category" },
+  product: { key: "p.id", label: "MAX(p.name)" },
+  partner: {
+    key: "COALESCE(t.partner_id, '')",
+    label: "COALESCE(MAX(pa.name), 'Walk-in customers')",
+  },
+};
+
+/**
+ * Totals for the period broken down by one dimension, largest amount first.
+ * Category, product and partner break down sales; transaction type covers
+ * every transaction; expense category covers expenses.
+ */
+export function getReportGroups(
+  range: DateRange,
+  groupBy: ReportGroupBy,
+  saleCosts = getSaleCosts()
+): ReportGroup[] {
+  if (groupBy === "expense-category") {
+    const inPeriod = rangeCondition("date", range);
+    const rows = db
+      .prepare(
+        `SELECT category AS key, category AS label, COUNT(*) AS count, SUM(net_amount) AS amount
+         FROM expenses
+         WHERE deleted_at IS NULL AND ${inPeriod.sql}
+         GROUP BY category
+         ORDER BY amount DESC`
+      )
+      .all(...inPeriod.params) as Omit<
+      ReportGroup,
+      "quantity" | "costOfGoodsSold" | "grossProfit"
+    >[];
+    return rows.map((row) => ({
+      ...row,
+      amount: roundMoney(row.amount),
+      quantity: 0,
+      costOfGoodsSold: null,
+      grossProfit: null,
+    }));
+  }
+
+  const inPeriod = rangeCondition("t.date", range);
+  const grouping =
+    groupBy === "transaction-type"
+      ? { key: "t.type", label: "t.type" }
+      : SALES_GROUPINGS[groupBy];
+  const typeFilter =
+    groupBy === "transaction-type" ? "" : "AND t.type = 'sale'";
+
+  const rows = db
+    .prepare(
+      `SELECT ${grouping.key} AS key,
+         ${grouping.label} AS label,
+         COUNT(*) AS count,
+         SUM(t.quantity) AS quantity,
+         SUM(t.net_amount) AS amount,
+         GROUP_CONCAT(CASE WHEN t.type = 'sale' THEN t.id END) AS saleIds
+       FROM transactions t
+       JOIN products p ON p.id = t.product_id
+       LEFT JOIN partners pa ON pa.id = t.partner_id
+       WHERE t.deleted_at IS NULL ${typeFilter} AND ${inPeriod.sql}
+       GROUP BY 1
+       ORDER BY amount DESC`
+    )
+    .all(...inPeriod.params) as (Omit<
+    ReportGroup,
+    "costOfGoodsSold" | "grossProfit"
+  > & { saleIds: string | null })[];
+
+  return rows.map(({ saleIds, ...row }) => {
+    const ids = saleIds ? saleIds.split(",") : [];
+    if (ids.length === 0) {
+      return {
+        ...row,
+        amount: roundMoney(row.amount),
+        costOfGoodsSold: null,
+        grossProfit: null,
+      };
+    }
+    // Groups containing sales contain nothing else, so amount is revenue
+    const cost = ids.reduce((sum, id) => sum + (saleCosts.get(id) ?? 0), 0);
+    return {
+      ...row,
+      amount: roundMoney(row.amount),
+      costOfGoodsSold: roundMoney(cost),
+      grossProfit: roundMoney(row.amount - cost),
+    };
+  });
+}
+
+/**
+ * Output tax charged on sales, input tax paid on purchases and expenses, and
+ * the net position for the range, with a breakdown by rate.
+ */
+export function getTaxReport(range: DateRange): TaxReport {
+  const transactionRange = rangeCondition("date", range);
+  const expenseRange = rangeCondition("date", range);
+
+  const rows = db
+    .prepare(
+      `SELECT kind, tax_rate AS rate,
+         SUM(net_amount) AS net, SUM(tax_amount) AS tax, SUM(gross) AS gross
+       FROM (
+         SELECT type AS kind, tax_rate, net_amount, tax_amount, total_amount AS gross
+         FROM transactions
+         WHERE deleted_at IS NULL AND type IN ('sale', 'purchase')
+           AND ${transactionRange.sql}
+         UNION ALL
+         SELECT 'expense' AS kind, tax_rate, net_amount, tax_amount, amount AS gross
+         FROM expenses
+         WHERE deleted_at IS NULL AND ${expenseRange.sql}
+       )
+       GROUP BY kind, tax_rate
+       ORDER BY tax_rate`
+    )
+    .all(...transactionRange.params, ...expenseRange.params) as {
+    kind: "sale" | "purchase" | "expense";
+    rate: number;
+    net: number;
+    tax: number;
+    gross: number;
+  }[];
+
+  const empty = (): TaxTotals => ({ net: 0, tax: 0, gross: 0 });
+  const add = (totals: TaxTotals, row: TaxTotals) => {
+    totals.net = roundMoney(totals.net + row.net);
+    totals.tax = roundMoney(totals.tax + row.tax);
+    totals.gross = roundMoney(totals.gross + row.gross);
+  };
+
+  const output = empty();
+  const purchases = empty();
+  const expenses = empty();
+  const byRate = new Map<number, TaxReport["byRate"][number]>();
+
+  for (const row of rows) {
+    add(
+      row.kind === "sale"
+        ? output
+        : row.kind === "purchase"
+          ? purchases
+          : expenses,
+      row
+    );
+    const entry = byRate.get(row.rate) ?? {
+      rate: row.rate,
+      outputNet: 0,
+      outputTax: 0,
+      inputNet: 0,
+      inputTax: 0,
+    };
+    if (row.kind === "sale") {
+      entry.outputNet = roundMoney(entry.outputNet + row.net);
+      entry.outputTax = roundMoney(entry.outputTax + row.tax);
+    } else {
+      entry.inputNet = roundMoney(entry.inputNet + row.net);
+      entry.inputTax = roundMoney(entry.inputTax + row.tax);
+    }
+    byRate.set(row.rate, entry);
+  }
+
+  const input = { ...empty(), purchases, expenses };
+  add(input, purchases);
+  add(input, expenses);
+
+  return {
+    output,
+    input,
+    netTax: roundMoney(output.tax - input.tax),
+    byRate: [...byRate.values()],
+  };
+}
+
+/**
+ * Everything the Reports page shows for one range: the profit summary, a
+ * time series at the requested granularity and a breakdown by one dimension.
+ */
+export function getReport(
+  range: DateRange,
+  granularity: ReportGranularity,
+  groupBy: ReportGroupBy
+): Report {
+  const saleCosts = getSaleCosts();
+  return {
+    summary: getProfitSummary(range, saleCosts),
+    series: getReportSeries(range, granularity, saleCosts),
+    groups: getReportGroups(range, groupBy, saleCosts),
+    tax: getTaxReport(range),
+  };
+}
@@ -0,0 +1,332 @@
+import { randomUUID } from "crypto";
+import { db } from "./database";
+import { recordAudit, snapshot } from "./audit";
+import { insertPayment, PaymentError, spreadPayment } from "./accounts";
+import { productTax, splitTax } from "./tax";
+import { checkPricing, priceLines, type PricingLineInput } from "./pricing";
+import { nextDocumentNumber } from "./numbering";
+import type { Discount, PaymentMethod, SessionUser } from "./types";
+
+// --- Stock-affecting operations ---
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Raised by stock-affecting operations when the request cannot be honoured.
+ * `code` is a stable identifier the API routes pass on to the client.
+ */
+export class StockError extends Error {
+  constructor(
+    message: string,
+    public readonly code: "PRODUCT_NOT_FOUND" | "INSUFFICIENT_STOCK"
+  ) {
+    super(message);
+    this.name = "StockError";
+  }
+}
+
+/**
+ * Moves a product's stock by `delta` (negative to take stock out) and logs
+ * the change. Stock never goes below zero: the guard lives in the UPDATE
+ * itself, so two concurrent writers cannot both take the last unit. Must be
+ * called inside a database transaction.
+ */
+export function adjustStock(
+  actor: SessionUser,
+  productId: string,
+  delta: number
+): { stock: number; imei: string | null } {
+  const product = db
+    .prepare("SELECT id, stock, imei FROM products WHERE id = ?")
+    .get(productId) as
+    { id: string; stock: number; imei: string | null } | undefined;
+
+  if (!product) {
+    throw new StockError("Product not found.", "PRODUCT_NOT_FOUND");
+  }
+  const before = snapshot("product", productId);
+
+  const result = db
+    .prepare(
+      `UPDATE products
+       SET stock = stock + ?, updated_at = CURRENT_TIMESTAMP
+       WHERE id = ? AND stock + ? >= 0`
+    )
+    .run(delta, productId, delta);
+
+  if (result.changes === 0) {
+    throw new StockError(
+      `Cannot process: Only ${product.stock} units are currently in stock.`,
+      "INSUFFICIENT_STOCK"
+    );
+  }
+
+  recordAudit(actor, {
+    entity: "product",
+    entityId: productId,
+    action: "update",
+    before,
+    after: snapshot("product", productId),
+  });
+
+  return { stock: product.stock + delta, imei: product.imei };
+}
+
+export type LedgerEntry = {
+  productId: string;
+  type: "purchase" | "sale" | "lend-out" | "return";
+  quantity: number;
+  price: number; // Unit price
+  imei: string | null;
+  date: string;
+  partnerId: string | null;
+  party: string;
+  partyPhone?: string | null;
+  partyShop?: string | null;
+  loanId?: string | null;
+  purchaseOrderId?: string | null;
+  // Sales only
+  invoiceId?: string | null;
+  listPrice?: number | null;
+  discountAmount?: number;
+  discountReason?: string | null;
+  approvedBy?: string | null;
+};
+
+/**
+ * Writes a row to the transactions ledger and logs it, returning the new id
+ * and the gross total. Purchases and returns take the next number of their
+ * sequence. Sales and purchases are taxed at the product's rate; loans and
+ * returns move stock, not money, and carry no tax. Must be called inside a
+ * database transaction.
+ */
+export function insertTransaction(
+  actor: SessionUser,
+  entry: LedgerEntry
+): { id: string; totalAmount: number } {
+  const id = randomUUID();
+  const amount = entry.price * entry.quantity;
+  const tax =
+    entry.type === "sale" || entry.type === "purchase"
+      ? productTax(entry.productId, amount)
+      : splitTax(amount, 0, true);
+  // Sales are numbered on their invoice; loans out are not documents
+  const number =
+    entry.type === "purchase" || entry.type === "return"
+      ? nextDocumentNumber(entry.type, entry.date)
+      : null;
+
+  db.prepare(
+    `INSERT INTO transactions (
+        id, number, product_id, snapshot_product_name, type, quantity, price, imei, total_amount, tax_rate, net_amount, tax_amount, list_price, discount_amount, discount_reason, approved_by, date, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, partner_id, loan_id, purchase_order_id, invoice_id
+    ) VALUES (?, ?, ?, (SELECT name FROM products WHERE id = ?), ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    number,
+    entry.productId,
+    entry.productId,
+    entry.type,
+    entry.quantity,
+    entry.price,
+    entry.imei ?? "",
+    tax.gross,
+    tax.rate,
+    tax.net,
+    tax.tax,
+    entry.listPrice ?? null,
+    entry.discountAmount ?? 0,
+    entry.discountReason || null,
+    entry.approvedBy ?? null,
+    entry.date,
+    entry.party,
+    entry.partyPhone || null,
+    entry.partyShop || null,
+    entry.partnerId,
+    entry.loanId ?? null,
+    entry.purchaseOrderId ?? null,
+    entry.invoiceId ?? null
+  );
+
+  recordAudit(actor, {
+    entity: "transaction",
+    entityId: id,
+    action: "create",
+    after: snapshot("transaction", id),
+  });
+  return { id, totalAmount: tax.gross };
+}
+
+export type InvoiceHeader = {
+  date: string;
+  partnerId: string | null;
+  party: string;
+  partyPhone?: string | null;
+  partyShop?: string | null;
+  discountReason?: string | null;
+  approvedBy?: string | null;
+};
+
+/**
+ * Writes an invoice header under the next sales invoice number and logs it,
+ * returning the new id. Its lines are written separately with
+ * `insertTransaction`. Must be called inside a database transaction.
+ */
+export function insertInvoice(
+  actor: SessionUser,
+  header: InvoiceHeader
+): string {
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO invoices (
+        id, number, partner_id, snapshot_partner_name, snapshot_partner_phone, snapshot_partner_shop, date, discount_reason, approved_by, created_by
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    id,
+    nextDocumentNumber("sale", header.date),
+    header.partnerId,
+    header.party,
+    header.partyPhone || null,
+    header.partyShop || null,
+    header.date,
+    header.discountReason || null,
+    header.approvedBy ?? null,
+    actor.id
+  );
+
+  recordAudit(actor, {
+    entity: "invoice",
+    entityId: id,
+    action: "create",
+    after: snapshot("invoice", id),
+  });
+  return id;
+}
+
+export type InvoiceInput = {
+  lines: PricingLineInput[];
+  saleDiscount?: Discount | null; // Off the whole invoice
+  discountReason?: string | null;
+  approver?: SessionUser | null; // Manager who approved the pricing at the till
+  date: string;
+  partnerId: string | null;
+  party: string;
+  partyPhone?: string | null;
+  partyShop?: string | null;
+  amountPaid?: number; // Defaults to the full invoice total, including tax
+  paymentMethod?: PaymentMethod;
+};
+
+export type SaleInput = PricingLineInput & Omit<InvoiceInput, "lines">;
+
+/**
+ * Records an invoice with one sale transaction per line, decrements stock
+ * for every line and takes whatever was paid on the spot as a single unit of
+ * work. The payment is spread over the lines in order; any unpaid part stays
+ * on the partner's account. Discounts and price overrides are checked
+ * against the shop's limits across the whole invoice.
+ */
+const recordInvoiceTx = db.transaction(
+  (actor: SessionUser, invoice: InvoiceInput) => {
+    const moved = invoice.lines.map((line) =>
+      adjustStock(actor, line.productId, -line.quantity)
+    );
+    const priced = priceLines(invoice.lines, invoice.saleDiscount);
+    const approvedBy = checkPricing(
+      actor,
+      invoice.approver ?? null,
+      priced,
+      invoice.discountReason
+    );
+    const reason = priced.some((line) => line.overridden)
+      ? invoice.discountReason
+      : null;
+
+    const id = insertInvoice(actor, {
+      ...invoice,
+      discountReason: reason,
+      approvedBy,
+    });
+    const lines = priced.map((line, index) =>
+      insertTransaction(actor, {
+        productId: line.productId,
+        type: "sale",
+        quantity: line.quantity,
+        price: line.unitPrice,
+        imei: moved[index].imei,
+        date: invoice.date,
+        partnerId: invoice.partnerId,
+        party: invoice.party,
+        partyPhone: invoice.partyPhone,
+        partyShop: invoice.partyShop,
+        invoiceId: id,
+        listPrice: line.listPrice,
+        discountAmount: line.discountAmount,
+        discountReason: line.overridden ? reason : null,
+        approvedBy,
+      })
+    );
+
+    const total = round(lines.reduce((sum, line) => sum + line.totalAmount, 0));
+    const paid = invoice.amountPaid ?? total;
+    if (round(paid) > total) {
+      throw new PaymentError(
+        `Only ${total.toFixed(2)} is owed on this sale.`,
+        "OVER_ALLOCATED"
+      );
+    }
+    // Only a known partner can be sold to on credit
+    if (!invoice.partnerId && paid < total) {
+      throw new PaymentError(
+        "Walk-in sales must be paid in full.",
+        "WALK_IN_UNPAID"
+      );
+    }
+    if (paid > 0) {
+      insertPayment(actor, {
+        partnerId: invoice.partnerId,
+        direction: "in",
+        amount: paid,
+        method: invoice.paymentMethod,
+        date: invoice.date,
+        allocations: spreadPayment(
+          paid,
+          lines.map((line) => ({
+            transaction_id: line.id,
+            outstanding: line.totalAmount,
+          }))
+        ),
+      });
+    }
+    return {
+      id,
+      lines: lines.map((line, index) => ({
+        id: line.id,
+        productId: priced[index].productId,
+        stock: moved[index].stock,
+      })),
+      totalAmount: total,
+    };
+  }
+);
+
+/**
+ * Runs the invoice under BEGIN IMMEDIATE so the write lock is taken before
+ * the stock is read, even when another process has the database open.
+ */
+function recordInvoice(actor: SessionUser, invoice: InvoiceInput) {
+  return recordInvoiceTx.immediate(actor, invoice);
+}
+
+/**
+ * Records a sale of a single product as a one-line invoice.
+ */
+function recordSale(actor: SessionUser, sale: SaleInput) {
+  const { productId, quantity, price, discount, ...header } = sale;
+  const { id, lines } = recordInvoice(actor, {
+    ...header,
+    lines: [{ productId, quantity, price, discount }],
+  });
+  return { id: lines[0].id, invoiceId: id, stock: lines[0].stock };
+}
+
+export { recordInvoice, recordSale };
@@ -0,0 +1,737 @@
+import { z } from "zod";
+import { PAYMENT_METHODS } from "./accounts";
+import { SYMBOLOGIES } from "./barcodes";
+import { DOCUMENT_TEMPLATES, RECEIPT_CODES } from "./documents";
+import { PAPER_WIDTHS } from "./escpos";
+import { LABEL_OUTPUTS, LABEL_TEMPLATES } from "./labels";
+import { DOCUMENT_TYPES } from "./numbering";
+import { API_KEY_SCOPES, ROLES } from "./permissions";
+import { GRANULARITIES, GROUP_BY_OPTIONS } from "./reports";
+import type {
+  AgingSide,
+  CostingMethod,
+  Expense,
+  Partner,
+  Product,
+  PurchaseOrderStatus,
+  Transaction,
+} from "./types";
+
+// --- Request schemas ---
+// What every API route accepts, as one zod schema per request body and query
+// string. Routes parse with `parseBody` / `parseQuery` (src/lib/validation.ts),
+// which answer a failed parse with a 400 listing the message for each field;
+// the input types below are inferred from the schemas, so they cannot drift
+// from what is checked. Pages import the types only: this module pulls in
+// server code for its lists of allowed values.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Largest page a list endpoint returns; pickers load everything at once
+const MAX_PAGE_SIZE = 1000;
+
+/** Treats "" and null like a field that was left out. */
+const blankAsMissing = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) => (value === "" || value === null ? undefined : value),
+    schema
+  );
+
+/** A string that must not be blank; surrounding spaces are dropped. */
+const requiredText = (label: string) =>
+  z
+    .string({
+      required_error: `${label} is required.`,
+      invalid_type_error: `${label} must be text.`,
+    })
+    .trim()
+    .min(1, `${label} is required.`);
+
+/** Free text that may be left out; blank text becomes null. */
+const optionalText = (label: string, maxLength?: number) =>
+  blankAsMissing(
+    (maxLength
+      ? z
+          .string({ invalid_type_error: `${label} must be text.` })
+          .max(maxLength, `${label} must be at most ${maxLength} characters.`)
+      : z.string({ invalid_type_error: `${label} must be text.` })
+    )
+      .trim()
+      .optional()
+  ).transform((value) => value || null);
+
+/** A calendar day, YYYY-MM-DD. */
+const day = (label: string) =>
+  z
+    .string({
+      required_error: `${label} is required.`,
+      invalid_type_error: `${label} must be text.`,
+    })
+    .regex(DATE_PATTERN, `${label} must be in YYYY-MM-DD format.`);
+
+/** An optional filter day; null when not given. */
+const optionalDay = (label: string) =>
+  day(label)
+    .optional()
+    .transform((value) => value ?? null);
+
+/** A date or date and time JavaScript can read, e.g. an ISO timestamp. */
+const timestamp = (label: string) =>
+  requiredText(label).refine(
+    (value) => !Number.isNaN(Date.parse(value)),
+    `${label} must be a date.`
+  );
+
+/** A timestamp that defaults to now when left out. */
+const timestampOrNow = (label: string) =>
+  blankAsMissing(
+    timestamp(label)
+      .optional()
+      .transform((value) => value ?? new Date().toISOString())
+  );
+
+const number = (label: string) =>
+  z.number({
+    required_error: `${label} is required.`,
+    invalid_type_error: `${label} must be a number.`,
+  });
+
+/** Money or any other amount that can be zero. */
+const amount = (label: string) =>
+  number(label).nonnegative(`${label} must be a non-negative number.`);
+
+const positiveAmount = (label: string) =>
+  number(label).positive(`${label} must be a positive number.`);
+
+const wholeQuantity = (label = "Quantity") =>
+  number(label)
+    .int(`${label} must be a positive whole number.`)
+    .positive(`${label} must be a positive whole number.`);
+
+const percent = (label: string) =>
+  number(label)
+    .min(0, `${label} must be a percentage between 0 and 100.`)
+    .max(100, `${label} must be a percentage between 0 and 100.`);
+
+/**
+ * One of a fixed list of values, named in the error message. Built from
+ * literals so the API document (src/lib/openapi.ts) can list the values.
+ */
+function oneOf<T extends string | number>(values: readonly T[], label: string) {
+  const literals = values.map((value) => z.literal(value));
+  return z.union(
+    literals as [z.ZodLiteral<T>, z.ZodLiteral<T>, ...z.ZodLiteral<T>[]],
+    {
+      errorMap: () => ({
+        message: `${label} must be one of: ${values.join(", ")}.`,
+      }),
+    }
+  );
+}
+
+// Sales and transactions name their partner, or "CUSTOMER" (or nothing) for
+// walk-in customers, who are stored without one
+const partnerRef = blankAsMissing(z.string().trim().optional()).transform(
+  (id) => (!id || id === "CUSTOMER" ? null : id)
+);
+
+const DISCOUNT_MESSAGE =
+  'Discounts must be { type: "percent" | "fixed", value } with a non-negative value.';
+
+const discount = z
+  .object(
+    {
+      type: z.enum(["percent", "fixed"], {
+        errorMap: () => ({ message: DISCOUNT_MESSAGE }),
+      }),
+      value: z
+        .number({
+          required_error: DISCOUNT_MESSAGE,
+          invalid_type_error: DISCOUNT_MESSAGE,
+        })
+        .nonnegative(DISCOUNT_MESSAGE),
+    },
+    { invalid_type_error: DISCOUNT_MESSAGE }
+  )
+  .nullish()
+  .transform((value) => value ?? null);
+
+// A manager's sign-in, given at the till to approve a price they may set
+const approval = z
+  .object(
+    {
+      email: z.string(),
+      password: z.string(),
+    },
+    {
+      invalid_type_error:
+        "Approval needs the email and password of a manager or owner.",
+    }
+  )
+  .nullish();
+
+const paymentMethod = oneOf(PAYMENT_METHODS, "Payment method").optional();
+
+// --- Lists ---
+
+// The descriptions are shown in the API document (src/lib/openapi.ts)
+const page = z.coerce
+  .number({ invalid_type_error: "Page must be a number." })
+  .int("Page must be a whole number.")
+  .min(1, "Page must be 1 or more.")
+  .default(1)
+  .describe("Page to return, counting from 1.");
+
+const limit = (fallback: number) =>
+  z.coerce
+    .number({ invalid_type_error: "Limit must be a number." })
+    .int("Limit must be a whole number.")
+    .min(1, `Limit must be between 1 and ${MAX_PAGE_SIZE}.`)
+    .max(MAX_PAGE_SIZE, `Limit must be between 1 and ${MAX_PAGE_SIZE}.`)
+    .default(fallback)
+    .describe("Rows per page.");
+
+/** ?q=&page=&limit= on the searchable lists (products, partners, ...). */
+export const listQuery = z.object({
+  q: z
+    .string()
+    .trim()
+    .default("")
+    .describe("Search text; leave out to list everything."),
+  page,
+  limit: limit(10),
+});
+
+export type ListQuery = z.infer<typeof listQuery>;
+
+// --- Products ---
+
+export const productBody = z
+  .object({
+    type: oneOf<Product["type"]>(["individual", "sku"], "Type"),
+    name: requiredText("Name"),
+    category: requiredText("Category"),
+    costPrice: amount("Cost price"),
+    sellPrice: amount("Selling price"),
+    minPrice: blankAsMissing(amount("Minimum price").optional()).transform(
+      (value) => value ?? null
+    ),
+    stock: number("Stock")
+      .int("Stock must be a whole number.")
+      .nonnegative("Stock cannot be negative."),
+    // Blank for products without one; the column is unique, so "" would
+    // only fit once
+    imei: optionalText("IMEI or serial number"),
+    partnerId: requiredText("Vendor"),
+    // Left as it is on update when not sent
+    taxExempt: z
+      .boolean({ invalid_type_error: "Tax exempt must be true or false." })
+      .optional(),
+  })
+  .refine(
+    (product) =>
+      product.minPrice === null || product.minPrice <= product.sellPrice,
+    {
+      message: "Minimum price must not be higher than the selling price.",
+      path: ["minPrice"],
+    }
+  );
+
+export type ProductInput = z.infer<typeof productBody>;
+
+export const productLookupQuery = z.object({
+  code: requiredText("Code"),
+});
+
+// --- Partners ---
+
+export const partnerBody = z
+  .object({
+    type: oneOf<Partner["type"]>(["individual", "shop"], "Type"),
+    name: requiredText("Name"),
+    phone: requiredText("Phone"),
+    shop_name: optionalText("Shop name"),
+  })
+  .refine((partner) => partner.type !== "shop" || partner.shop_name, {
+    message: "Shop name is required for a shop.",
+    path: ["shop_name"],
+  });
+
+export type PartnerInput = z.infer<typeof partnerBody>;
+
+export const openItemsQuery = z.object({
+  type: oneOf(["sale", "purchase"] as const, "Type").optional(),
+});
+
+export const statementQuery = z.object({
+  from: optionalDay("Start date"),
+  to: optionalDay("End date"),
+});
+
+// --- Expenses ---
+
+const EXPENSE_CATEGORIES: Expense["category"][] = [
+  "rent",
+  "salaries",
+  "utilities",
+  "stock",
+  "other",
+];
+
+export const expenseBody = z.object({
+  category: oneOf(EXPENSE_CATEGORIES, "Category"),
+  description: requiredText("Description"),
+  amount: positiveAmount("Amount"),
+  date: timestamp("Date"),
+  taxRate: blankAsMissing(percent("Tax rate").optional()).transform(
+    (value) => value ?? 0
+  ),
+});
+
+export type ExpenseInput = z.infer<typeof expenseBody>;
+
+// --- Transactions ---
+
+const transactionFields = z.object({
+  productId: requiredText("Product"),
+  type: oneOf<Transaction["type"]>(
+    ["purchase", "sale", "lend-out", "return"],
+    "Type"
+  ),
+  quantity: wholeQuantity(),
+  price: amount("Price"),
+  totalAmount: amount("Total amount"),
+  // Stored on every transaction; empty for products without one
+  imei: z.string({
+    required_error: "IMEI is required (empty for products without one).",
+    invalid_type_error: "IMEI must be text.",
+  }),
+  date: timestamp("Date"),
+  party: z.string({ invalid_type_error: "Party must be text." }).optional(),
+  partyPhone: optionalText("Party phone"),
+  partyShop: optionalText("Party shop"),
+  partnerId: partnerRef,
+});
+
+export const transactionBody = transactionFields
+  .extend({
+    // Paid now; sales and purchases are settled in full when left out
+    amountPaid: amount("Amount paid").optional(),
+  })
+  .refine((transaction) => transaction.type !== "sale", {
+    message:
+      "Record sales through /api/sales so discounts and prices are checked.",
+    path: ["type"],
+  });
+
+export type TransactionInput = z.infer<typeof transactionBody>;
+
+// Corrects one transaction; its product and type stay as recorded
+export const transactionUpdateBody = transactionFields.omit({
+  productId: true,
+  type: true,
+});
+
+export type TransactionUpdateInput = z.infer<typeof transactionUpdateBody>;
+
+// --- Sales ---
+
+// Shared by single sales and invoices
+const saleFields = {
+  date: timestamp("Date"),
+  partnerId: partnerRef,
+  party: blankAsMissing(z.string().trim().optional()).transform(
+    (party) => party || "Unknown"
+  ),
+  partyPhone: optionalText("Party phone"),
+  partyShop: optionalText("Party shop"),
+  saleDiscount: discount,
+  discountReason: optionalText("Discount reason"),
+  // The gross total depends on the products' tax rates, so paying more than
+  // it is rejected when the payment is allocated
+  amountPaid: amount("Amount paid").optional(),
+  paymentMethod,
+  approval,
+};
+
+export const saleBody = z.object({
+  productId: requiredText("Product"),
+  quantity: wholeQuantity(),
+  // Without a price the product's list price is charged
+  price: blankAsMissing(amount("Price").optional()),
+  discount,
+  ...saleFields,
+});
+
+export type SaleBody = z.infer<typeof saleBody>;
+
+export const invoiceBody = z.object({
+  lines: z
+    .array(
+      z.object({
+        productId: requiredText("Product"),
+        quantity: wholeQuantity(),
+        price: blankAsMissing(amount("Price").optional()),
+        discount,
+      }),
+      { required_error: "An invoice needs at least one line." }
+    )
+    .min(1, "An invoice needs at least one line."),
+  ...saleFields,
+});
+
+export type InvoiceBody = z.infer<typeof invoiceBody>;
+
+export const invoiceListQuery = z.object({
+  partnerId: z.string().optional(),
+  from: day("Start date").optional(),
+  to: day("End date").optional(),
+  page,
+  limit: limit(10),
+});
+
+// --- Loans ---
+
+export const loanListQuery = z.object({
+  status: oneOf(["open", "closed"] as const, "Status").optional(),
+  partnerId: z.string().optional(),
+});
+
+export const loanBody = z
+  .object({
+    productId: requiredText("Product"),
+    partnerId: requiredText("Partner"),
+    quantity: wholeQuantity(),
+    // Without a value the product's list price is agreed
+    unitPrice: blankAsMissing(amount("Unit value").optional()),
+    date: timestampOrNow("Loan date"),
+    dueDate: day("Expected return date"),
+    notes: optionalText("Notes"),
+  })
+  .refine((loan) => loan.dueDate >= loan.date.slice(0, 10), {
+    message: "Expected return date cannot be before the loan date.",
+    path: ["dueDate"],
+  });
+
+export type LoanInput = z.infer<typeof loanBody>;
+
+export const loanReturnBody = z.object({
+  quantity: wholeQuantity(),
+  date: timestampOrNow("Date"),
+});
+
+export const loanConversionBody = z.object({
+  quantity: wholeQuantity(),
+  // Without a price the value agreed for the loan is charged
+  price: blankAsMissing(amount("Price").optional()),
+  date: timestampOrNow("Date"),
+  amountPaid: amount("Amount paid").optional(),
+  discountReason: optionalText("Discount reason"),
+  approval,
+});
+
+// --- Payments ---
+
+const ALLOCATIONS_MESSAGE =
+  "Allocations must be 'oldest-first' or a list of transactions with positive amounts.";
+
+const allocations = z.union(
+  [
+    z.literal("oldest-first"),
+    z.array(
+      z.object({
+        transactionId: z.string({
+          required_error: ALLOCATIONS_MESSAGE,
+          invalid_type_error: ALLOCATIONS_MESSAGE,
+        }),
+        amount: z
+          .number({
+            required_error: ALLOCATIONS_MESSAGE,
+            invalid_type_error: ALLOCATIONS_MESSAGE,
+          })
+          .positive(ALLOCATIONS_MESSAGE),
+      })
+    ),
+  ],
+  { errorMap: () => ({ message: ALLOCATIONS_MESSAGE }) }
+);
+
+export const paymentListQuery = z.object({
+  partnerId: z.string().optional(),
+  from: optionalDay("Start date"),
+  to: optionalDay("End date"),
+});
+
+export const paymentBody = z.object({
+  partnerId: requiredText("Partner"),
+  direction: oneOf(["in", "out"] as const, "Direction"),
+  amount: positiveAmount("Amount"),
+  method: paymentMethod,
+  date: timestampOrNow("Date"),
+  reference: optionalText("Reference"),
+  notes: optionalText("Notes"),
+  allocations: allocations.optional(),
+});
+
+export type PaymentBody = z.infer<typeof paymentBody>;
+
+export const allocationBody = z.object({
+  allocations: allocations.default("oldest-first"),
+});
+
+// --- Purchase orders ---
+
+const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  "draft",
+  "sent",
+  "partially_received",
+  "received",
+  "closed",
+];
+
+export const purchaseOrderListQuery = z.object({
+  status: oneOf(PURCHASE_ORDER_STATUSES, "Status").optional(),
+  partnerId: z.string().optional(),
+});
+
+export const purchaseOrderBody = z.object({
+  partnerId: z
+    .string({ required_error: "A vendor is required." })
+    .trim()
+    .min(1, "A vendor is required."),
+  expectedDate: blankAsMissing(day("Expected date").optional()).transform(
+    (value) => value ?? null
+  ),
+  notes: optionalText("Notes"),
+  lines: z
+    .array(
+      z.object({
+        productId: requiredText("Product"),
+        quantity: wholeQuantity(),
+        unitCost: amount("Unit cost"),
+      }),
+      { required_error: "A purchase order needs at least one line." }
+    )
+    .min(1, "A purchase order needs at least one line."),
+});
+
+export type PurchaseOrderBody = z.infer<typeof purchaseOrderBody>;
+
+// Every line of the order may be sent; lines with a zero quantity are skipped
+export const receiptBody = z.object({
+  date: timestampOrNow("Date"),
+  lines: z.array(
+    z.object({
+      lineId: requiredText("Line"),
+      quantity: number("Quantity")
+        .int("Quantity must be a whole number.")
+        .nonnegative("Quantity cannot be negative."),
+    }),
+    { required_error: "Received lines are required." }
+  ),
+  amountPaid: amount("Amount paid").optional(),
+});
+
+// --- Users and sign-in ---
+
+const password = z
+  .string({ invalid_type_error: "Password must be text." })
+  .min(8, "Password must be at least 8 characters.");
+
+export const userBody = z.object({
+  email: z
+    .string({ required_error: "Email is required." })
+    .trim()
+    .email("Enter a valid email address."),
+  name: requiredText("Name"),
+  password: password,
+  role: oneOf(ROLES, "Role"),
+});
+
+export type UserInput = z.infer<typeof userBody>;
+
+// The email cannot change; a password resets it
+export const userUpdateBody = z.object({
+  name: requiredText("Name"),
+  role: oneOf(ROLES, "Role"),
+  password: blankAsMissing(password.optional()),
+});
+
+export type UserUpdateInput = z.infer<typeof userUpdateBody>;
+
+export const loginBody = z.object({
+  email: requiredText("Email"),
+  password: z
+    .string({ required_error: "Password is required." })
+    .min(1, "Password is required."),
+});
+
+// --- API keys ---
+
+export const apiKeyBody = z.object({
+  name: requiredText("Name").max(100, "Name must be at most 100 characters."),
+  scopes: z
+    .array(oneOf(API_KEY_SCOPES, "Scope"), {
+      required_error: "Choose at least one scope.",
+      invalid_type_error: "Scopes must be a list.",
+    })
+    .min(1, "Choose at least one scope.")
+    .transform((scopes) => [...new Set(scopes)]),
+  // The key stops working at the start of this day (UTC); never when blank
+  expiresOn: blankAsMissing(
+    day("Expiry date")
+      .refine(
+        (value) => value > new Date().toISOString().slice(0, 10),
+        "The expiry date must be in the future."
+      )
+      .optional()
+  ).transform((value) => (value ? `${value}T00:00:00.000Z` : null)),
+});
+
+export type ApiKeyInput = z.infer<typeof apiKeyBody>;
+
+// --- Settings ---
+
+const COSTING_METHODS: CostingMethod[] = ["fifo", "weighted-average"];
+
+// Logos are stored inline as data URLs; 200 KB of image in base64
+const LOGO_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]+=*$/;
+const MAX_LOGO_LENGTH = Math.ceil((200 * 1024 * 4) / 3) + 30;
+const LOGO_MESSAGE = "The logo must be a PNG or JPEG image of at most 200 KB.";
+
+const NUMBERING_MESSAGE =
+  "Numbering needs a prefix of 1 to 10 letters or digits and padding of 1 to 10 digits.";
+
+const numberingSequence = z.object({
+  prefix: z
+    .string({ invalid_type_error: NUMBERING_MESSAGE })
+    .regex(/^[A-Za-z0-9]{1,10}$/, NUMBERING_MESSAGE),
+  yearlyReset: z.boolean({ invalid_type_error: NUMBERING_MESSAGE }),
+  padding: z
+    .number({ invalid_type_error: NUMBERING_MESSAGE })
+    .int(NUMBERING_MESSAGE)
+    .min(1, NUMBERING_MESSAGE)
+    .max(10, NUMBERING_MESSAGE),
+});
+
+const shopText = (label: string, maxLength: number) =>
+  z
+    .string({ invalid_type_error: `${label} must be text.` })
+    .max(maxLength, `${label} must be at most ${maxLength} characters.`)
+    .trim()
+    .optional();
+
+// Any subset of the settings; the rest keep their values
+export const settingsBody = z.object({
+  costingMethod: oneOf(COSTING_METHODS, "Costing method").optional(),
+  taxRate: percent("Tax rate").optional(),
+  categoryTaxRates: z.record(percent("Category tax rates")).optional(),
+  pricesIncludeTax: z
+    .boolean({ invalid_type_error: "pricesIncludeTax must be true or false." })
+    .optional(),
+  // Roles left out keep their current limit
+  maxDiscountPercent: z
+    .record(oneOf(ROLES, "Role"), percent("Discount limits"))
+    .optional(),
+  // Document types left out keep their current format
+  documentNumbering: z
+    .record(oneOf(DOCUMENT_TYPES, "Document type"), numberingSequence)
+    .optional(),
+  shopName: shopText("Shop name", 100),
+  shopAddress: shopText("Shop address", 500),
+  shopLogo: z
+    .string({ invalid_type_error: LOGO_MESSAGE })
+    .regex(LOGO_PATTERN, LOGO_MESSAGE)
+    .max(MAX_LOGO_LENGTH, LOGO_MESSAGE)
+    .nullable()
+    .optional(),
+  documentFooter: shopText("Document footer", 500),
+});
+
+export type SettingsInput = z.infer<typeof settingsBody>;
+
+// --- Reports ---
+
+export const reportQuery = z
+  .object({
+    from: optionalDay("Start date"),
+    to: optionalDay("End date"),
+    granularity: oneOf(GRANULARITIES, "Granularity").default("month"),
+    groupBy: oneOf(GROUP_BY_OPTIONS, "groupBy").default("category"),
+  })
+  .refine((range) => !range.from || !range.to || range.from <= range.to, {
+    message: "The start date must not be after the end date.",
+    path: ["to"],
+  });
+
+export const agingQuery = z.object({
+  side: oneOf<AgingSide>(["receivable", "payable"], "Side").default(
+    "receivable"
+  ),
+  asOf: day("As-of date").default(() => new Date().toISOString().slice(0, 10)),
+  format: oneOf(["json", "csv"] as const, "Format").default("json"),
+  // One CSV line per transaction instead of per partner
+  detail: z
+    .string()
+    .optional()
+    .transform((value) => value === "true"),
+});
+
+// --- Audit log ---
+
+export const auditQuery = z.object({
+  entity: z.string().optional(),
+  entityId: z.string().optional(),
+  actorId: z.string().optional(),
+  from: optionalDay("Start date"),
+  to: optionalDay("End date"),
+  page,
+  limit: limit(25),
+});
+
+// --- Documents and labels ---
+
+const paperWidth = z.coerce
+  .number()
+  .default(80)
+  .pipe(oneOf(PAPER_WIDTHS, "Paper width (mm)"));
+
+export const documentPdfQuery = z.object({
+  template: oneOf(DOCUMENT_TEMPLATES, "Template").optional(),
+  from: optionalDay("Start date"),
+  to: optionalDay("End date"),
+});
+
+export const receiptQuery = z.object({
+  paper: paperWidth,
+  code: oneOf(RECEIPT_CODES, "Code").default("none"),
+});
+
+const LABEL_ITEMS_MESSAGE =
+  "List the products to label as items=<productId>:<copies>,...";
+
+export const labelQuery = z.object({
+  // <productId>:<copies>,...; a product without a count gets one label
+  items: z
+    .string({ required_error: LABEL_ITEMS_MESSAGE })
+    .transform((value, context) => {
+      const items = value.split(",").map((entry) => {
+        const [productId, copies = "1"] = entry.split(":");
+        return { productId, copies: Number(copies) };
+      });
+      if (
+        items.some(
+          (item) =>
+            !item.productId || !Number.isInteger(item.copies) || item.copies < 1
+        )
+      ) {
+        context.addIssue({ code: "custom", message: LABEL_ITEMS_MESSAGE });
+        return z.NEVER;
+      }
+      return items;
+    }),
+  template: oneOf(LABEL_TEMPLATES, "Template").default("price"),
+  symbology: oneOf(SYMBOLOGIES, "Symbology").default("code128"),
+  output: oneOf(LABEL_OUTPUTS, "Output").default("sheet-pdf"),
+  paper: paperWidth,
+});
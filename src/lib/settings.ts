@@ -0,0 +1,58 @@
+import { db } from "./database";
+import type { ShopSettings } from "./types";
+
+export const DEFAULT_SETTINGS: ShopSettings = {
+  costingMethod: "fifo",
+  taxRate: 0,
+  categoryTaxRates: {},
+  pricesIncludeTax: true,
+  maxDiscountPercent: { owner: 100, manager: 25, cashier: 10 },
+  documentNumbering: {
+    sale: { prefix: "INV", yearlyReset: true, padding: 6 },
+    purchase: { prefix: "PUR", yearlyReset: true, padding: 6 },
+    return: { prefix: "RET", yearlyReset: true, padding: 6 },
+    expense: { prefix: "EXP", yearlyReset: true, padding: 6 },
+  },
+  shopName: "DeskVault",
+  shopAddress: "",
+  shopLogo: null,
+  documentFooter: "Thank you for your business.",
+};
+
+/**
+ * Returns the shop settings, with defaults for anything never saved.
+ */
+export function getSettings(): ShopSettings {
+  const rows = db.prepare("SELECT key, value FROM settings").all() as {
+    key: string;
+    value: string;
+  }[];
+
+  const settings: ShopSettings = { ...DEFAULT_SETTINGS };
+  for (const row of rows) {
+    // Ignore keys left behind by settings that no longer exist
+    if (row.key in DEFAULT_SETTINGS) {
+      (settings as Record<string, unknown>)[row.key] = JSON.parse(row.value);
+    }
+  }
+  return settings;
+}
+
+/**
+ * Saves the given settings and returns the full, updated set. Values are
+ * expected to have been validated by the caller.
+ */
+export function updateSettings(patch: Partial<ShopSettings>): ShopSettings {
+  const upsert = db.prepare(
+    `INSERT INTO settings (key, value) VALUES (?, ?)
+     ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = CURRENT_TIMESTAMP`
+  );
+
+  db.transaction(() => {
+    for (const [key, value] of Object.entries(patch)) {
+      if (value !== undefined) upsert.run(key, JSON.stringify(value));
+    }
+  })();
+
+  return getSettings();
+}
@@ -0,0 +1,54 @@
+import { db } from "./database";
+import { getSettings } from "./settings";
+import type { ShopSettings, TaxAmounts } from "./types";
+
+// --- Tax (VAT) ---
+// Rates are percentages. A product's rate comes from its category override
+// if one is set, otherwise the shop's default rate; exempt products are
+// never taxed. Whether entered prices already include tax is a shop setting.
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Splits an amount into net, tax and gross at `rate` percent. `inclusive`
+ * says whether the amount already contains the tax.
+ */
+export function splitTax(
+  amount: number,
+  rate: number,
+  inclusive: boolean
+): TaxAmounts {
+  if (inclusive) {
+    const gross = roundMoney(amount);
+    const net = roundMoney(gross / (1 + rate / 100));
+    return { rate, net, tax: roundMoney(gross - net), gross };
+  }
+  const net = roundMoney(amount);
+  const tax = roundMoney((net * rate) / 100);
+  return { rate, net, tax, gross: roundMoney(net + tax) };
+}
+
+/**
+ * The tax rate that applies to a product under the given settings.
+ */
+export function taxRateFor(
+  product: { category: string; tax_exempt: number | boolean },
+  settings: ShopSettings
+): number {
+  if (product.tax_exempt) return 0;
+  return settings.categoryTaxRates[product.category] ?? settings.taxRate;
+}
+
+/**
+ * Net, tax and gross for `amount` of a product, using the current settings.
+ * Unknown products are treated as untaxed so the caller's own not-found
+ * handling decides what happens.
+ */
+export function productTax(productId: string, amount: number): TaxAmounts {
+  const settings = getSettings();
+  const product = db
+    .prepare("SELECT category, tax_exempt FROM products WHERE id = ?")
+    .get(productId) as { category: string; tax_exempt: number } | undefined;
+  const rate = product ? taxRateFor(product, settings) : 0;
+  return splitTax(amount, rate, settings.pricesIncludeTax);
+}
@@ -1,12 +1,18 @@
 // --- Data Types shared between API routes and Frontend ---
 // Centralized shared types
 
+import type { Permission } from "./permissions";
+
 export type Expense = {
   id: string;
+  number?: string | null; // Expense voucher number, e.g. EXP-2026-000042
   date: string;
   category: "rent" | "salaries" | "utilities" | "stock" | "other";
   description: string;
-  amount: number;
+  amount: number; // Gross
+  tax_rate?: number;
+  net_amount?: number;
+  tax_amount?: number;
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
@@ -29,35 +35,520 @@ export type Product = {
   name: string;
   category: string;
   stock: number;
-  price: number; // Cost Price
-  imei?: string;
+  cost_price: number; // What one unit costs the shop
+  sell_price: number; // List price a sale starts from
+  min_price?: number | null; // Selling below this needs approval
+  imei?: string | null;
+  tax_exempt?: number; // 1 when the product is never taxed
+  on_loan?: number; // Units currently lent to partners, from GET /api/products
   created_at: string; // DATETIME ISO string
   updated_at: string;
   deleted_at?: string | null;
 };
 
+// One entry per change to a product's prices, as returned by
+// /api/products/price-history
+export type PriceHistoryEntry = {
+  id: number;
+  product_id: string;
+  cost_price: number;
+  sell_price: number;
+  min_price: number | null;
+  changed_by: string | null; // Null for prices set before history was kept
+  changed_by_name: string | null;
+  changed_at: string;
+};
+
 export type Partner = {
   id: string;
   name: string;
   type: "individual" | "shop";
   phone: string;
-  shop_name?: string;
+  shop_name?: string | null; // Shops only
   created_at: string; // DATETIME ISO string
   updated_at: string;
   deleted_at?: string | null;
+  // Account balances, included by GET /api/partners
+  receivable?: number;
+  payable?: number;
+  balance?: number;
 };
 
 export type Transaction = {
   id: string;
+  number?: string | null; // Purchases and returns, e.g. PUR-2026-000017
   product_id: string;
   type: "purchase" | "sale" | "lend-out" | "return";
   quantity: number;
   price: number; // Price per unit at time of transaction (e.g., Sale Price)
-  total_amount: number;
+  total_amount: number; // Gross, including any tax
+  tax_rate?: number; // Percent applied to sales and purchases
+  net_amount?: number;
+  tax_amount?: number;
+  list_price?: number | null; // Unit list price a sale was rung up against
+  discount_amount?: number; // List total less the amount charged
+  discount_reason?: string | null;
+  approved_by?: string | null; // Manager who approved the sale's pricing
+  invoice_id?: string | null; // Sales only: the invoice the line belongs to
   date: string; // DATETIME ISO string
   partner_id: string;
   snapshot_partner_name?: string; // store name at the time of transaction
+  snapshot_product_name?: string | null; // product name at the time of transaction
+  created_at: string;
+  updated_at: string;
+  deleted_at?: string | null;
+};
+
+// A transaction as listed by GET /api/transactions, with camelCase columns
+export type TransactionListItem = {
+  id: string;
+  number: string | null;
+  productId: string;
+  type: Transaction["type"];
+  quantity: number;
+  price: number;
+  imei: string;
+  totalAmount: number;
+  listPrice: number | null;
+  discountAmount: number;
+  discountReason: string | null;
+  invoiceId: string | null;
+  date: string;
+  party: string | null; // Partner name at the time of the transaction
+  partnerId: string | null; // Null for walk-in customers
+  created_at: string;
+};
+
+// Field-level problems returned with a 400 when a request body or query
+// string does not validate, keyed by field path (e.g. "lines.0.quantity")
+export type FieldErrors = Record<string, string>;
+
+// Why a request failed, for programs to act on; the message is for people.
+// Codes ending in _NOT_FOUND come with a 404.
+export type ErrorCode =
+  // 400
+  | "VALIDATION_FAILED"
+  | "INVALID_JSON"
+  | "INVALID_TEMPLATE"
+  | "TOO_MANY_LABELS"
+  // 401 and 403
+  | "UNAUTHENTICATED"
+  | "INVALID_CREDENTIALS"
+  | "FORBIDDEN"
+  // 404
+  | "NOT_FOUND"
+  | "API_KEY_NOT_FOUND"
+  | "DOCUMENT_NOT_FOUND"
+  | "EXPENSE_NOT_FOUND"
+  | "INVOICE_NOT_FOUND"
+  | "LINE_NOT_FOUND"
+  | "LOAN_NOT_FOUND"
+  | "PARTNER_NOT_FOUND"
+  | "PAYMENT_NOT_FOUND"
+  | "PRODUCT_NOT_FOUND"
+  | "PURCHASE_ORDER_NOT_FOUND"
+  | "TRANSACTION_NOT_FOUND"
+  | "USER_NOT_FOUND"
+  // 409: the request is well formed but clashes with what is stored
+  | "ALLOCATION_MISMATCH"
+  | "APPROVAL_INVALID"
+  | "BELOW_COST"
+  | "BELOW_MIN_PRICE"
+  | "DISCOUNT_LIMIT_EXCEEDED"
+  | "EMAIL_TAKEN"
+  | "IMEI_TAKEN"
+  | "INSUFFICIENT_STOCK"
+  | "INVALID_DISCOUNT"
+  | "INVALID_LINES"
+  | "INVALID_STATUS"
+  | "LAST_OWNER"
+  | "LOAN_CLOSED"
+  | "OVER_ALLOCATED"
+  | "PARTNER_NOT_A_VENDOR"
+  | "PRODUCT_IN_USE"
+  | "PRODUCT_NAME_TAKEN"
+  | "QUANTITY_EXCEEDS_BACKORDER"
+  | "QUANTITY_EXCEEDS_OUTSTANDING"
+  | "REASON_REQUIRED"
+  | "SELF_DEACTIVATION"
+  | "TRANSACTION_IN_USE"
+  | "WALK_IN_UNPAID"
+  // 500
+  | "INTERNAL_ERROR";
+
+// --- API envelope ---
+// Every JSON response of the API is one of these two, told apart by the
+// HTTP status. `requestId` is also sent as the X-Request-Id header and
+// appears in the server log next to any error.
+export type ApiSuccess<T> = {
+  data: T;
+  message?: string; // What was done, for writes
+  requestId: string;
+};
+
+export type ApiFailure = {
+  error: {
+    code: ErrorCode;
+    message: string;
+    fields?: FieldErrors; // With VALIDATION_FAILED
+  };
+  requestId: string;
+};
+
+export type Role = "owner" | "manager" | "cashier";
+
+export type User = {
+  id: string;
+  email: string;
+  name: string;
+  role: Role;
   created_at: string;
   updated_at: string;
   deleted_at?: string | null;
 };
+
+// The signed-in user as exposed to API handlers and the client. A request
+// made with an API key acts as the owner who created the key, named after the
+// key and limited to its scopes.
+export type SessionUser = Pick<User, "id" | "email" | "name" | "role"> & {
+  apiKey?: { id: string; name: string; scopes: Permission[] };
+};
+
+// A key for other systems to call the API with, as listed by /api/api-keys.
+// The key itself is only shown once, when it is created.
+export type ApiKey = {
+  id: string;
+  name: string;
+  prefix: string; // The key's first characters, to tell keys apart
+  scopes: Permission[];
+  created_by_name: string;
+  created_at: string;
+  expires_at: string | null; // Null for keys that never expire
+  last_used_at: string | null;
+  revoked_at: string | null;
+};
+
+export type AuditEntity =
+  | "product"
+  | "transaction"
+  | "partner"
+  | "expense"
+  | "loan"
+  | "purchase_order"
+  | "payment"
+  | "invoice"
+  | "user"
+  | "settings"
+  | "api_key";
+
+export type AuditEntry = {
+  id: number;
+  actor_id: string | null;
+  actor_name: string;
+  entity: AuditEntity;
+  entity_id: string;
+  action: "create" | "update" | "delete";
+  before: Record<string, unknown> | null; // Parsed from before_json
+  after: Record<string, unknown> | null; // Parsed from after_json
+  created_at: string;
+};
+
+// How the cost of sold stock is taken from purchase cost layers
+export type CostingMethod = "fifo" | "weighted-average";
+
+export type ShopSettings = {
+  costingMethod: CostingMethod;
+  taxRate: number; // Default tax rate, percent
+  categoryTaxRates: Record<string, number>; // Per-category overrides, percent
+  pricesIncludeTax: boolean; // Whether entered prices and amounts are gross
+  maxDiscountPercent: Record<Role, number>; // Largest discount off list price
+  documentNumbering: Record<DocumentType, NumberingSequence>;
+  // Printed on receipts, invoices and statements
+  shopName: string;
+  shopAddress: string;
+  shopLogo: string | null; // PNG or JPEG data URL
+  documentFooter: string;
+};
+
+// Documents that are numbered from their own sequence
+export type DocumentType = "sale" | "purchase" | "return" | "expense";
+
+// How a sequence's numbers are formatted, e.g. INV-2026-000123
+export type NumberingSequence = {
+  prefix: string;
+  yearlyReset: boolean; // Start again at 1 each year and show the year
+  padding: number; // Digits, zero-padded
+};
+
+// A discount off a sale line or a whole sale
+export type Discount = { type: "percent" | "fixed"; value: number };
+
+export type TaxAmounts = {
+  rate: number; // Percent
+  net: number;
+  tax: number;
+  gross: number;
+};
+
+export type TaxTotals = { net: number; tax: number; gross: number };
+
+// Tax for a date range, as returned by /api/reports
+export type TaxReport = {
+  output: TaxTotals; // Tax charged on sales
+  input: TaxTotals & {
+    purchases: TaxTotals;
+    expenses: TaxTotals;
+  }; // Tax paid on purchases and expenses
+  netTax: number; // Output less input; positive means tax is owed
+  byRate: {
+    rate: number;
+    outputNet: number;
+    outputTax: number;
+    inputNet: number;
+    inputTax: number;
+  }[];
+};
+
+// Everything /api/reports returns for one date range
+export type Report = {
+  summary: ProfitSummary;
+  series: ReportPeriod[];
+  groups: ReportGroup[];
+  tax: TaxReport;
+};
+
+// Profit figures for a date range, as returned by /api/reports
+export type ProfitSummary = {
+  from: string | null;
+  to: string | null;
+  costingMethod: CostingMethod;
+  sales: number; // Revenue from sales
+  costOfGoodsSold: number;
+  grossProfit: number;
+  grossMargin: number | null; // Percent of sales; null when there are no sales
+  expenses: number;
+  netProfit: number;
+  purchases: number; // Stock bought in the period (cash flow, not cost)
+};
+
+export type ReportGranularity = "day" | "week" | "month" | "quarter" | "year";
+
+export type ReportGroupBy =
+  "category" | "product" | "partner" | "transaction-type" | "expense-category";
+
+// One period of the time series returned by /api/reports
+export type ReportPeriod = {
+  period: string; // e.g. 2026-03-02 (day/week start), 2026-03, 2026-Q1, 2026
+  sales: number;
+  costOfGoodsSold: number;
+  grossProfit: number;
+  purchases: number;
+  expenses: number;
+};
+
+// One row of the group-by breakdown returned by /api/reports
+export type ReportGroup = {
+  key: string;
+  label: string;
+  count: number; // Transactions or expenses in the group
+  quantity: number; // Units; 0 for expense categories
+  amount: number;
+  costOfGoodsSold: number | null; // Only for groups made of sales
+  grossProfit: number | null;
+};
+
+export type Loan = {
+  id: string;
+  product_id: string;
+  partner_id: string;
+  quantity: number;
+  returned_quantity: number;
+  sold_quantity: number;
+  unit_price: number; // Agreed value per unit while on loan
+  lent_at: string;
+  due_date: string; // YYYY-MM-DD
+  status: "open" | "closed";
+  notes?: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+// Loan as listed by /api/loans
+export type EnrichedLoan = Loan & {
+  product_name: string;
+  product_imei: string | null;
+  list_price: number; // The product's current selling price
+  partner_name: string;
+  partner_phone: string;
+  partner_shop: string | null;
+  outstanding: number; // Units neither returned nor sold
+  days_overdue: number; // 0 when not yet due or closed
+};
+
+export type PurchaseOrderStatus =
+  "draft" | "sent" | "partially_received" | "received" | "closed";
+
+export type PurchaseOrderLine = {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  product_name: string;
+  product_type: "individual" | "sku";
+  quantity: number; // Ordered
+  received_quantity: number;
+  backordered: number; // Still expected; 0 once the order is closed
+  unit_cost: number;
+};
+
+export type PurchaseOrder = {
+  id: string;
+  partner_id: string;
+  partner_name: string;
+  partner_shop: string | null;
+  status: PurchaseOrderStatus;
+  expected_date: string | null; // YYYY-MM-DD
+  notes: string | null;
+  sent_at: string | null;
+  closed_at: string | null;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+  ordered_quantity: number;
+  received_quantity: number;
+  backordered: number;
+  total_cost: number; // Ordered quantity at unit cost
+  received_cost: number;
+  lines?: PurchaseOrderLine[]; // Only when a single order is fetched
+};
+
+export type InvoiceLine = {
+  id: string; // Sale transaction id
+  product_id: string;
+  product_name: string;
+  imei: string | null;
+  quantity: number;
+  list_price: number | null; // Per unit
+  price: number; // Charged per unit, after every discount
+  discount_amount: number;
+  discount_reason: string | null;
+  total_amount: number; // Gross
+  net_amount: number;
+  tax_amount: number;
+};
+
+// A multi-line sale. Totals and the amount paid are summed from the lines
+// when the invoice is read.
+export type Invoice = {
+  id: string;
+  number: string; // e.g. INV-2026-000123
+  partner_id: string | null; // Null for walk-in customers
+  party: string; // Customer name at the time of sale
+  party_phone: string | null;
+  party_shop: string | null;
+  date: string;
+  discount_reason: string | null;
+  approved_by: string | null;
+  approved_by_name: string | null;
+  created_by: string | null;
+  created_at: string;
+  line_count: number;
+  quantity: number;
+  list_total: number; // Lines at their list price
+  discount_amount: number;
+  net_amount: number;
+  tax_amount: number;
+  total_amount: number; // Gross
+  paid: number;
+  outstanding: number;
+  lines?: InvoiceLine[]; // Only when a single invoice is fetched
+};
+
+export type PaymentDirection = "in" | "out"; // Received from / paid to a partner
+
+export type PaymentMethod = "cash" | "card" | "bank" | "other";
+
+export type Payment = {
+  id: string;
+  partner_id: string | null; // Null for walk-in customers paying at the till
+  partner_name: string | null;
+  direction: PaymentDirection;
+  amount: number;
+  allocated: number; // Portion applied to specific transactions
+  method: PaymentMethod;
+  date: string;
+  reference: string | null;
+  notes: string | null;
+  created_by: string | null;
+  created_at: string;
+};
+
+/** A sale or purchase with money still owed on it. */
+export type OpenItem = {
+  transaction_id: string;
+  type: "sale" | "purchase";
+  date: string;
+  product_name: string;
+  quantity: number;
+  total: number;
+  paid: number;
+  outstanding: number;
+};
+
+/**
+ * Positive balances mean the partner owes the shop; negative balances mean
+ * the shop owes the partner.
+ */
+export type PartnerBalance = {
+  receivable: number; // Sales not yet paid for, less unallocated credit
+  payable: number; // Purchases not yet paid for, less unallocated credit
+  balance: number; // receivable - payable
+};
+
+export type StatementLine = {
+  date: string;
+  kind: "sale" | "purchase" | "payment-in" | "payment-out";
+  reference: string; // Transaction or payment id
+  description: string;
+  debit: number; // Increases what the partner owes the shop
+  credit: number; // Decreases it
+  balance: number; // Running balance after this line
+};
+
+export type PartnerStatement = {
+  partnerId: string;
+  from: string | null;
+  to: string | null;
+  openingBalance: number;
+  lines: StatementLine[];
+  closingBalance: number;
+};
+
+export type AgingSide = "receivable" | "payable";
+
+// Days since the transaction date: current is today, then 30-day bands
+export type AgingBucket = "current" | "1-30" | "31-60" | "61-90" | "90+";
+
+export type AgingItem = OpenItem & {
+  age_days: number;
+  bucket: AgingBucket;
+};
+
+export type AgingRow = {
+  partnerId: string | null; // null for walk-in sales
+  partnerName: string;
+  partnerShop: string | null;
+  buckets: Record<AgingBucket, number>;
+  total: number; // Sum of the buckets
+  unappliedCredit: number; // Payments not yet allocated to any transaction
+  items: AgingItem[];
+};
+
+export type AgingReport = {
+  side: AgingSide;
+  asOf: string; // YYYY-MM-DD
+  rows: AgingRow[];
+  totals: Record<AgingBucket, number> & {
+    total: number;
+    unappliedCredit: number;
+  };
+};
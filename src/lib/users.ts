@@ -0,0 +1,52 @@
+import { randomUUID } from "crypto";
+import { db } from "./database";
+import { hashPassword, verifyPassword } from "./password";
+import type { Role, SessionUser } from "./types";
+
+type UserRow = SessionUser & { password_hash: string };
+
+/**
+ * Creates a staff account. Throws the SQLite UNIQUE error if the email is
+ * already registered.
+ */
+export async function createUser(input: {
+  email: string;
+  name: string;
+  password: string;
+  role: Role;
+}): Promise<SessionUser> {
+  const id = randomUUID();
+  const passwordHash = await hashPassword(input.password);
+  const email = input.email.trim().toLowerCase();
+
+  db.prepare(
+    "INSERT INTO users (id, email, name, password_hash, role) VALUES (?, ?, ?, ?, ?)"
+  ).run(id, email, input.name.trim(), passwordHash, input.role);
+
+  return { id, email, name: input.name.trim(), role: input.role };
+}
+
+/**
+ * Returns the active user matching the credentials, or null.
+ */
+export async function authenticateUser(
+  email: string,
+  password: string
+): Promise<SessionUser | null> {
+  const row = db
+    .prepare(
+      `SELECT id, email, name, role, password_hash FROM users
+       WHERE email = ? AND deleted_at IS NULL`
+    )
+    .get(email.trim()) as UserRow | undefined;
+
+  if (!row) {
+    // Spend the same time as a real check so unknown emails are not revealed.
+    await hashPassword(password);
+    return null;
+  }
+  if (!(await verifyPassword(password, row.password_hash))) {
+    return null;
+  }
+  return { id: row.id, email: row.email, name: row.name, role: row.role };
+}
@@ -0,0 +1,78 @@
+import type { NextResponse } from "next/server";
+import type { z } from "zod";
+import { fail } from "./api-response";
+import type { FieldErrors } from "./types";
+
+// --- Request validation ---
+// Parses a request body or query string with one of the schemas in
+// src/lib/schemas.ts. A request that does not fit gets a 400
+// VALIDATION_FAILED with the first problem as its message and every problem
+// under `fields`, keyed by field, for forms to show next to their inputs:
+//   { error: { code: "VALIDATION_FAILED", message: "Name is required.",
+//              fields: { name: "Name is required." } }, requestId: "..." }
+
+type Parsed<T> =
+  { success: true; data: T } | { success: false; response: NextResponse };
+
+/**
+ * The first message for each field, keyed by its path ("lines.0.quantity").
+ * Problems with the request as a whole are keyed "".
+ */
+export function fieldErrors(error: z.ZodError): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = issue.path.join(".");
+    errors[path] ??= issue.message;
+  }
+  return errors;
+}
+
+function invalid<T>(error: z.ZodError): Parsed<T> {
+  return {
+    success: false,
+    response: fail(
+      "VALIDATION_FAILED",
+      error.issues[0].message,
+      fieldErrors(error)
+    ),
+  };
+}
+
+/**
+ * Reads and validates a JSON body.
+ */
+export async function parseBody<T extends z.ZodTypeAny>(
+  request: Request,
+  schema: T
+): Promise<Parsed<z.output<T>>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return {
+      success: false,
+      response: fail("INVALID_JSON", "The request body must be JSON."),
+    };
+  }
+  const result = schema.safeParse(body);
+  return result.success
+    ? { success: true, data: result.data }
+    : invalid(result.error);
+}
+
+/**
+ * Validates a URL's query string. Empty parameters count as left out, as
+ * pages send them for cleared filters.
+ */
+export function parseQuery<T extends z.ZodTypeAny>(
+  url: URL,
+  schema: T
+): Parsed<z.output<T>> {
+  const params = Object.fromEntries(
+    [...url.searchParams].filter(([, value]) => value !== "")
+  );
+  const result = schema.safeParse(params);
+  return result.success
+    ? { success: true, data: result.data }
+    : invalid(result.error);
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { SESSION_COOKIE } from "@/lib/auth-constants";
+import type { ApiFailure } from "@/lib/types";
+
+// API routes that must be reachable without a session.
+const PUBLIC_API_ROUTES = ["/api/auth/login", "/api/auth/logout"];
+
+/**
+ * First line of defence for the API: requests with neither a session cookie
+ * nor an API key (`Authorization: Bearer ...`) are rejected here. Middleware
+ * runs on the edge runtime and cannot open the database, so each route
+ * handler still validates the session or key via `withAuth`.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+
+  if (PUBLIC_API_ROUTES.includes(pathname)) {
+    return NextResponse.next();
+  }
+
+  const hasBearer = request.headers.get("Authorization")?.startsWith("Bearer ");
+  if (!request.cookies.has(SESSION_COOKIE) && !hasBearer) {
+    // The envelope of src/lib/api-response.ts, which needs Node to run
+    const requestId = crypto.randomUUID();
+    const body: ApiFailure = {
+      error: { code: "UNAUTHENTICATED", message: "Authentication required." },
+      requestId,
+    };
+    return NextResponse.json(body, {
+      status: 401,
+      headers: { "X-Request-Id": requestId },
+    });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: "/api/:path*",
+};
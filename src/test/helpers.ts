@@ -0,0 +1,159 @@
+import { randomUUID } from "crypto";
+import { NextRequest } from "next/server";
+import { createSession } from "@/lib/auth";
+import { SESSION_COOKIE } from "@/lib/auth-constants";
+import { createUser } from "@/lib/users";
+import type { Role, SessionUser } from "@/lib/types";
+
+type RouteHandler<Params> = (
+  request: NextRequest,
+  context: { params: Promise<Params> }
+) => Promise<Response>;
+
+export type Caller = SessionUser & { cookie: string };
+
+/**
+ * Creates a staff member with the given role and signs them in.
+ */
+export async function signIn(role: Role): Promise<Caller> {
+  const user = await createUser({
+    email: `${role}-${randomUUID()}@example.com`,
+    name: `Test ${role}`,
+    password: "password123",
+    role,
+  });
+  const { token } = createSession(user.id);
+  return { ...user, cookie: `${SESSION_COOKIE}=${token}` };
+}
+
+/**
+ * Calls a route handler the way Next.js would and returns the status, the
+ * headers and the parsed envelope, or the raw bytes of a non-JSON response.
+ */
+export async function call<Params extends Record<string, string>>(
+  handler: RouteHandler<Params>,
+  caller: Caller,
+  init: {
+    method?: string;
+    path?: string;
+    body?: unknown;
+    params?: Params;
+  } = {}
+) {
+  const request = new NextRequest(
+    new URL(init.path ?? "/", "http://localhost"),
+    {
+      method: init.method ?? "GET",
+      headers: { cookie: caller.cookie, "content-type": "application/json" },
+      body: init.body === undefined ? undefined : JSON.stringify(init.body),
+    }
+  );
+  const response = await handler(request, {
+    params: Promise.resolve(init.params ?? ({} as Params)),
+  });
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  const isJson = response.headers
+    .get("content-type")
+    ?.includes("application/json");
+  return {
+    status: response.status,
+    headers: response.headers,
+    body: isJson ? JSON.parse(Buffer.from(bytes).toString()) : null,
+    bytes,
+  };
+}
+
+/**
+ * Adds a supplier (a shop, so purchase orders can be raised against it)
+ * through the partners API and returns its id.
+ */
+export async function createPartner(caller: Caller): Promise<string> {
+  const { POST } = await import("@/app/api/partners/route");
+  const { body } = await call(POST, caller, {
+    method: "POST",
+    body: {
+      type: "shop",
+      name: "Test Supplier",
+      phone: "0700000000",
+      shop_name: "Test Supply Shop",
+    },
+  });
+  return body.data.id;
+}
+
+/**
+ * Adds a product through the products API and returns its id. Prices default
+ * to a cost of 5 and a selling price of 10.
+ */
+export async function createProduct(
+  caller: Caller,
+  fields: Record<string, unknown> = {}
+): Promise<string> {
+  const { POST } = await import("@/app/api/products/route");
+  const { body } = await call(POST, caller, {
+    method: "POST",
+    body: {
+      type: "sku",
+      name: `Test product ${randomUUID()}`,
+      category: "Accessories",
+      costPrice: 5,
+      sellPrice: 10,
+      stock: 10,
+      partnerId: await createPartner(caller),
+      ...fields,
+    },
+  });
+  return body.data.id;
+}
+
+/**
+ * Orders units of a product from a vendor, sends the order and receives all
+ * of it, unpaid. Returns the purchase transaction the receipt booked.
+ */
+export async function receiveGoods(
+  caller: Caller,
+  input: {
+    partnerId: string;
+    productId: string;
+    quantity: number;
+    unitCost: number;
+  }
+): Promise<string> {
+  const { POST: createOrder } = await import("@/app/api/purchase-orders/route");
+  const { POST: send } = await import("@/app/api/purchase-orders/send/route");
+  const { POST: receive } =
+    await import("@/app/api/purchase-orders/receive/route");
+  const { db } = await import("@/lib/database");
+
+  const order = await call(createOrder, caller, {
+    method: "POST",
+    body: {
+      partnerId: input.partnerId,
+      lines: [
+        {
+          productId: input.productId,
+          quantity: input.quantity,
+          unitCost: input.unitCost,
+        },
+      ],
+    },
+  });
+  const orderId = order.body.data.id;
+  await call(send, caller, {
+    method: "POST",
+    path: `/api/purchase-orders/send?id=${orderId}`,
+  });
+  const lineId = db
+    .prepare("SELECT id FROM purchase_order_lines WHERE purchase_order_id = ?")
+    .pluck()
+    .get(orderId);
+  const receipt = await call(receive, caller, {
+    method: "POST",
+    path: `/api/purchase-orders/receive?id=${orderId}`,
+    body: {
+      lines: [{ lineId, quantity: input.quantity }],
+      amountPaid: 0,
+    },
+  });
+  return receipt.body.data.transactionIds[0];
+}
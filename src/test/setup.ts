@@ -0,0 +1,14 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterAll } from "vitest";
+
+// Every test file runs against a fresh database in a scratch directory, never
+// the one in data/. Modules are loaded anew per file, so the connection in
+// src/lib/database.ts opens (and migrates) this file on first import.
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deskvault-test-"));
+process.env.DATABASE_PATH = path.join(dir, "test.sqlite");
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
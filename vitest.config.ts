@@ -0,0 +1,18 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": path.resolve(__dirname, "src") },
+  },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+    setupFiles: ["src/test/setup.ts"],
+    // Each file gets its own database; one at a time keeps SQLite and the
+    // machine calm
+    fileParallelism: false,
+    // Migration progress is printed whenever a test database is created
+    onConsoleLog: (log) => !log.startsWith("[DB]"),
+  },
+});